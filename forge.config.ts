@@ -7,13 +7,102 @@ import { VitePlugin } from '@electron-forge/plugin-vite';
 import { FusesPlugin } from '@electron-forge/plugin-fuses';
 import { AutoUnpackNativesPlugin } from '@electron-forge/plugin-auto-unpack-natives';
 import { FuseV1Options, FuseVersion } from '@electron/fuses';
+import fs from 'node:fs';
+import path from 'node:path';
+import { EXTERNAL_MODULES } from './vite.main.config';
+
+// The OCR engine starts a worker thread from its package folder and reads
+// its language data from disk, so it is kept outside the asar archive
+const OCR_MODULES = ['tesseract.js', '@tesseract.js-data/eng'];
+
+// Files the OCR engine needs at runtime, relative to the packaged app
+const OCR_RUNTIME_FILES = [
+  'node_modules/tesseract.js/src/worker-script/node/index.js',
+  'node_modules/@tesseract.js-data/eng/4.0.0/eng.traineddata.gz',
+];
+
+// Folder of an installed package, looked up the way Node resolves it
+const findPackageDir = (name: string, fromDir: string): string | undefined => {
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    const packageDir = path.join(dir, 'node_modules', name);
+    if (fs.existsSync(path.join(packageDir, 'package.json'))) {
+      return packageDir;
+    }
+    if (path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+};
+
+// Package folders of modules and everything they depend on at runtime
+const collectPackageDirs = (names: string[]): string[] => {
+  const dirs = new Set<string>();
+  const visit = (name: string, fromDir: string, optional: boolean) => {
+    const packageDir = findPackageDir(name, fromDir);
+    if (!packageDir) {
+      if (optional) return;
+      throw new Error(`Cannot package ${name}: it is not installed`);
+    }
+    if (dirs.has(packageDir)) return;
+    dirs.add(packageDir);
+
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8')
+    );
+    for (const dependency of Object.keys(manifest.dependencies ?? {})) {
+      visit(dependency, packageDir, false);
+    }
+    for (const dependency of Object.keys(manifest.optionalDependencies ?? {})) {
+      visit(dependency, packageDir, true);
+    }
+  };
+
+  for (const name of names) {
+    visit(name, __dirname, false);
+  }
+  return [...dirs];
+};
+
+// Names of the OCR packages, for unpacking them from the asar archive
+const getOcrPackageNames = (): string[] => {
+  try {
+    return collectPackageDirs(OCR_MODULES).map(dir =>
+      path.relative(path.join(__dirname, 'node_modules'), dir)
+    );
+  } catch {
+    // Not installed; packaging fails in packageAfterCopy with the reason
+    return OCR_MODULES;
+  }
+};
 
 const config: ForgeConfig = {
   packagerConfig: {
     asar: true,
-    asarUnpack: '**/*.{node,dll}',
+    asarUnpack: `{**/*.{node,dll},**/node_modules/{${getOcrPackageNames().join(',')}}/**}`,
   },
   rebuildConfig: {},
+  hooks: {
+    // The Vite plugin packages only the Vite build; modules the build
+    // leaves external are copied in with their dependencies
+    packageAfterCopy: async (_forgeConfig, buildPath) => {
+      for (const packageDir of collectPackageDirs(EXTERNAL_MODULES)) {
+        fs.cpSync(
+          packageDir,
+          path.join(buildPath, path.relative(__dirname, packageDir)),
+          { recursive: true }
+        );
+      }
+
+      const missing = OCR_RUNTIME_FILES.filter(
+        file => !fs.existsSync(path.join(buildPath, file))
+      );
+      if (missing.length > 0) {
+        throw new Error(
+          `OCR would not work in the packaged app; missing ${missing.join(', ')}`
+        );
+      }
+    },
+  },
   makers: [
     new MakerSquirrel({}),
     new MakerZIP({}, ['darwin']),
@@ -32,6 +121,12 @@ const config: ForgeConfig = {
           config: 'vite.main.config.ts',
           target: 'main',
         },
+        {
+          // Worker thread that parses script files off the main thread
+          entry: 'src/main/file-processing-worker.ts',
+          config: 'vite.main.config.ts',
+          target: 'main',
+        },
         {
           entry: 'src/preload.ts',
           config: 'vite.preload.config.ts',
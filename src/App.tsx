@@ -4,19 +4,245 @@ import { AppShell } from './components/AppShell';
 import { FileUpload } from './components/FileUpload';
 import { ScriptLibrary } from './components/ScriptLibrary';
 import { SummaryDisplay } from './components/SummaryDisplay';
+import { CoverageReportDisplay } from './components/CoverageReportDisplay';
 import { ScriptComparison } from './components/ScriptComparison';
 import { ConfettiAnimation } from './components/ConfettiAnimation';
+import { ToastNotification } from './components/ToastNotification';
+import { InboxSettings } from './components/InboxSettings';
+import { ProviderSettings } from './components/ProviderSettings';
+import { AnalysisSettings } from './components/AnalysisSettings';
+import { PromptTemplateSettings } from './components/PromptTemplateSettings';
+import { ModelLibrary } from './components/ModelLibrary';
+import { QueuePanel } from './components/QueuePanel';
+import { DatabaseDiagnostics } from './components/DatabaseDiagnostics';
 import { Card, CardHeader, CardContent } from './components/ui/Card';
-import { ScriptWithSummary } from './types';
+import {
+  ScriptWithSummary,
+  InboxImportReport,
+  InboxStatus,
+  InboxWatchSettings,
+  JobQueueSettings,
+} from './types';
+import type {
+  AnalysisSettings as AnalysisSettingsValue,
+  CoverageGenerationResult,
+  GenerationProgress,
+  LLMModel,
+  LLMProviderInfo,
+  LLMProviderSettings,
+  ServiceStatus,
+  SummaryOptions,
+} from './types/llm-service';
+import type { ScriptSummary } from './types/summary';
+import type { SummaryVersion } from './types/summary-version';
+import type { CoverageOptions, CoverageReport } from './types/coverage';
+import type { DatabaseScript } from './database/types';
+import type { ScreenplayElement, ScriptPage } from './types/file-processing';
+import { generateContentHash } from './services/file-processing/content-hash';
+import { PdfPageExtractor } from './services/file-processing/pdf-pages';
+import { SummaryVersionService } from './services/summary-versions';
+
+const INBOX_SETTINGS_KEY = 'script-summarizer-inbox';
+const PROVIDER_SETTINGS_KEY = 'script-summarizer-llm-provider';
+const ANALYSIS_SETTINGS_KEY = 'script-summarizer-analysis';
+const PROMPT_TEMPLATE_KEY = 'script-summarizer-prompt-template';
+const MODEL_REGISTRY_KEY = 'script-summarizer-model-registry';
+const QUEUE_SETTINGS_KEY = 'script-summarizer-queue';
+
+const loadInboxSettings = (): InboxWatchSettings => {
+  try {
+    const saved = localStorage.getItem(INBOX_SETTINGS_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.warn('Could not read inbox settings:', error);
+  }
+  return { watchedFolders: [], autoSummarizeImports: false };
+};
+
+// Saved provider settings, or null while the default Ollama server is used
+const loadProviderSettings = (): LLMProviderSettings | null => {
+  try {
+    const saved = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.warn('Could not read LLM provider settings:', error);
+  }
+  return null;
+};
+
+const loadAnalysisSettings = (): AnalysisSettingsValue => {
+  try {
+    const saved = localStorage.getItem(ANALYSIS_SETTINGS_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.warn('Could not read analysis settings:', error);
+  }
+  return { deepAnalysis: false, passModels: {} };
+};
+
+const loadQueueSettings = (): JobQueueSettings => {
+  try {
+    const saved = localStorage.getItem(QUEUE_SETTINGS_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.warn('Could not read job queue settings:', error);
+  }
+  return { maxConcurrentProcessing: 2 };
+};
+
+// Options for new summaries, with the analysis settings applied
+const buildSummaryOptions = (
+  analysisSettings: AnalysisSettingsValue,
+  promptTemplateId?: string
+): SummaryOptions => ({
+  length: 'detailed',
+  focusAreas: ['plot', 'characters', 'themes', 'production'],
+  temperature: 0.7,
+  includeProductionNotes: true,
+  analyzeCharacterRelationships: true,
+  identifyThemes: true,
+  assessMarketability: false,
+  ...analysisSettings,
+  promptTemplateId,
+});
+
+// Start a summary and wait for its result; resolves null if it is cancelled
+const summarizeScript = (
+  scriptId: string,
+  content: string,
+  options: SummaryOptions,
+  onStarted: (operationId: string) => void
+): Promise<ScriptSummary | null> =>
+  new Promise((resolve, reject) => {
+    const unsubscribe = window.electronAPI.llm.onGenerationComplete(result => {
+      if (result.scriptId !== scriptId) {
+        return;
+      }
+      unsubscribe();
+
+      if (result.summary) {
+        resolve(result.summary);
+      } else if (result.cancelled) {
+        resolve(null);
+      } else {
+        reject(new Error(result.error || 'Unknown error'));
+      }
+    });
+
+    window.electronAPI.llm
+      .startSummary(content, options, scriptId)
+      .then(onStarted)
+      .catch(error => {
+        unsubscribe();
+        reject(error);
+      });
+  });
+
+// Start a coverage report and wait for it; resolves null if it is cancelled.
+// The report is saved with the script by the main process.
+const generateCoverageReport = (
+  scriptId: string,
+  content: string,
+  options: CoverageOptions,
+  onStarted: (operationId: string) => void
+): Promise<CoverageGenerationResult | null> =>
+  new Promise((resolve, reject) => {
+    const unsubscribe = window.electronAPI.llm.onCoverageComplete(result => {
+      if (result.scriptId !== scriptId) {
+        return;
+      }
+      unsubscribe();
+
+      if (result.report) {
+        resolve(result);
+      } else if (result.cancelled) {
+        resolve(null);
+      } else {
+        reject(new Error(result.error || 'Unknown error'));
+      }
+    });
+
+    window.electronAPI.llm
+      .startCoverage(content, options, scriptId)
+      .then(onStarted)
+      .catch(error => {
+        unsubscribe();
+        reject(error);
+      });
+  });
+
+interface CoverageState {
+  report?: CoverageReport;
+  isGenerating: boolean;
+  error?: string;
+  /** Operation to cancel while the report is generating */
+  operationId?: string;
+}
+
+interface UploadNotice {
+  type: 'info' | 'error';
+  title: string;
+  message: string;
+}
 
 interface ProcessedScript {
   id: string;
   title: string;
   content: string;
+  /** Page boundaries in the content, for paginated formats such as PDF */
+  pages?: ScriptPage[];
+  /** Screenplay elements in the content, as found by its processor */
+  elements?: ScreenplayElement[];
   filePath: string;
-  summary?: any;
+  fileMissing?: boolean;
+  processingError?: string;
+  summary?: ScriptSummary;
 }
 
+// Load a library script with its stored content and summary
+const loadProcessedScript = async (
+  script: DatabaseScript
+): Promise<ProcessedScript> => {
+  try {
+    // Load the stored content; the file is only read if it changed
+    const loaded = await window.electronAPI.db.loadScript(script.id.toString());
+
+    // Get summary if it exists
+    const summary = await window.electronAPI.db.getSummary(
+      script.id.toString()
+    );
+
+    return {
+      id: script.id.toString(),
+      title: script.title,
+      content: loaded?.parsed?.content ?? '',
+      pages: loaded?.parsed?.pages,
+      elements: loaded?.parsed?.elements,
+      filePath: script.file_path,
+      fileMissing: loaded?.fileMissing,
+      processingError: loaded?.processingError,
+      summary: summary ?? undefined,
+    };
+  } catch (error) {
+    console.warn(`Could not load content for script ${script.title}:`, error);
+    // Still add the script but without content
+    return {
+      id: script.id.toString(),
+      title: script.title,
+      content: '',
+      filePath: script.file_path,
+    };
+  }
+};
+
 const App: React.FC = () => {
   const [processedScripts, setProcessedScripts] = useState<ProcessedScript[]>(
     []
@@ -31,6 +257,98 @@ const App: React.FC = () => {
   const [currentView, setCurrentView] = useState('dashboard');
   const [showConfetti, setShowConfetti] = useState(false);
   const [completedScriptTitle, setCompletedScriptTitle] = useState('');
+  const [inboxSettings, setInboxSettings] =
+    useState<InboxWatchSettings>(loadInboxSettings);
+  const [inboxStatus, setInboxStatus] = useState<InboxStatus | null>(null);
+  const [uploadNotice, setUploadNotice] = useState<UploadNotice | null>(null);
+  const [importReport, setImportReport] = useState<InboxImportReport | null>(
+    null
+  );
+  const [generationProgress, setGenerationProgress] = useState<
+    Record<string, GenerationProgress>
+  >({});
+  const [providerSettings, setProviderSettings] = useState<LLMProviderSettings>(
+    () => loadProviderSettings() ?? { provider: 'ollama', endpoint: '' }
+  );
+  const [providers, setProviders] = useState<LLMProviderInfo[]>([]);
+  const [providerStatus, setProviderStatus] = useState<ServiceStatus | null>(
+    null
+  );
+  const [analysisSettings, setAnalysisSettings] =
+    useState<AnalysisSettingsValue>(loadAnalysisSettings);
+  const [models, setModels] = useState<LLMModel[]>([]);
+  const [promptTemplateId, setPromptTemplateId] = useState<string | undefined>(
+    () => localStorage.getItem(PROMPT_TEMPLATE_KEY) ?? undefined
+  );
+  const [coverage, setCoverage] = useState<Record<string, CoverageState>>({});
+  const [modelRegistry, setModelRegistry] = useState(
+    () => localStorage.getItem(MODEL_REGISTRY_KEY) ?? ''
+  );
+  const [summaryVersions, setSummaryVersions] = useState<SummaryVersion[]>([]);
+
+  // Connect to the saved LLM provider; the main process starts on Ollama
+  useEffect(() => {
+    window.electronAPI.llm
+      .listProviders()
+      .then(setProviders)
+      .catch(error => console.error('Failed to list LLM providers:', error));
+
+    const saved = loadProviderSettings();
+    if (saved) {
+      window.electronAPI.llm
+        .configureProvider(saved)
+        .then(setProviderStatus)
+        .catch(error =>
+          console.error('Failed to connect to LLM provider:', error)
+        );
+    }
+  }, []);
+
+  // Models offered for deep analysis passes, refreshed on reconnecting
+  const loadModels = useCallback(() => {
+    window.electronAPI.llm
+      .listModels()
+      .then(setModels)
+      .catch(error => console.error('Failed to list models:', error));
+  }, []);
+
+  useEffect(() => {
+    loadModels();
+  }, [loadModels, providerStatus]);
+
+  // Follow summaries as they stream in from the main process
+  useEffect(() => {
+    return window.electronAPI.llm.onGenerationProgress(progress => {
+      if (progress.scriptId) {
+        setGenerationProgress(prev => ({
+          ...prev,
+          [progress.scriptId!]: progress,
+        }));
+      }
+    });
+  }, []);
+
+  // Start watching inbox folders and add scripts as they are imported
+  useEffect(() => {
+    window.electronAPI.inbox
+      .configure(loadInboxSettings())
+      .then(setInboxStatus)
+      .catch(error => console.error('Failed to watch inbox folders:', error));
+
+    return window.electronAPI.inbox.onImportComplete(report => {
+      const importedScripts: ProcessedScript[] = report.items
+        .filter(item => item.status === 'imported' && item.scriptId)
+        .map(item => ({
+          id: item.scriptId!.toString(),
+          title: item.title || item.filePath,
+          content: item.content || '',
+          filePath: item.filePath,
+        }));
+
+      setProcessedScripts(prev => [...prev, ...importedScripts]);
+      setImportReport(report);
+    });
+  }, []);
 
   // Load existing scripts on app start
   useEffect(() => {
@@ -40,47 +358,7 @@ const App: React.FC = () => {
         const scriptsWithContent: ProcessedScript[] = [];
 
         for (const script of existingScripts) {
-          try {
-            // Try to read the file content if it still exists
-            const parsedScript = await window.electronAPI.file.process(
-              script.file_path
-            );
-
-            // Get summary if it exists
-            const summary = await window.electronAPI.db.getSummary(
-              script.id.toString()
-            );
-
-            scriptsWithContent.push({
-              id: script.id.toString(),
-              title: script.title,
-              content: parsedScript.content,
-              filePath: script.file_path,
-              summary: summary
-                ? {
-                    plotOverview: summary.plot_overview,
-                    mainCharacters: JSON.parse(summary.characters || '[]'),
-                    themes: JSON.parse(summary.themes || '[]'),
-                    productionNotes: JSON.parse(
-                      summary.production_notes || '[]'
-                    ),
-                    genre: summary.genre,
-                  }
-                : undefined,
-            });
-          } catch (error) {
-            console.warn(
-              `Could not load content for script ${script.title}:`,
-              error
-            );
-            // Still add the script but without content
-            scriptsWithContent.push({
-              id: script.id.toString(),
-              title: script.title,
-              content: '',
-              filePath: script.file_path,
-            });
-          }
+          scriptsWithContent.push(await loadProcessedScript(script));
         }
 
         setProcessedScripts(scriptsWithContent);
@@ -92,157 +370,296 @@ const App: React.FC = () => {
     loadExistingScripts();
   }, []);
 
+  // Load a script and its official summary again from the database
+  const reloadScript = useCallback(async (scriptId: number) => {
+    try {
+      const script = await window.electronAPI.db.getScript(scriptId.toString());
+      if (!script) {
+        return;
+      }
+
+      const processedScript = await loadProcessedScript(script);
+      setProcessedScripts(prev =>
+        prev.some(item => item.id === processedScript.id)
+          ? prev.map(item =>
+              item.id === processedScript.id ? processedScript : item
+            )
+          : [...prev, processedScript]
+      );
+      setSelectedScript(prev =>
+        prev?.id === processedScript.id ? processedScript : prev
+      );
+    } catch (error) {
+      console.error('Failed to reload script:', error);
+    }
+  }, []);
+
+  // Apply the saved queue settings and add scripts and summaries as
+  // background jobs finish them
+  useEffect(() => {
+    window.electronAPI.queue
+      .configure(loadQueueSettings())
+      .catch(error => console.error('Failed to configure job queue:', error));
+
+    return window.electronAPI.queue.onJobCompleted(async job => {
+      if (job.scriptId) {
+        await reloadScript(job.scriptId);
+      }
+    });
+  }, [reloadScript]);
+
+  // Summaries generated by jobs stream their progress like any other; it
+  // stops showing once the job is no longer running
+  useEffect(() => {
+    const runningSummaries = new Set<number>();
+    return window.electronAPI.queue.onStatus(status => {
+      status.jobs.forEach(job => {
+        if (job.type !== 'summarize' || !job.scriptId) {
+          return;
+        }
+        if (job.status === 'running') {
+          runningSummaries.add(job.id);
+        } else if (runningSummaries.delete(job.id)) {
+          setGenerationProgress(({ [job.scriptId!]: _, ...rest }) => rest);
+        }
+      });
+    });
+  }, []);
+
+  // Every version of the selected script's summary, reloaded when its
+  // official summary changes
+  const selectedScriptId = selectedScript?.id;
+  const selectedSummary = selectedScript?.summary;
+  useEffect(() => {
+    if (!selectedScriptId) {
+      setSummaryVersions([]);
+      return;
+    }
+
+    window.electronAPI.db
+      .getSummaryVersions(parseInt(selectedScriptId))
+      .then(rows => setSummaryVersions(rows.map(SummaryVersionService.fromRow)))
+      .catch(error => console.error('Failed to load summary versions:', error));
+  }, [selectedScriptId, selectedSummary]);
+
+  // The saved coverage report of the selected script, unless one has been
+  // generated since it was selected
+  useEffect(() => {
+    if (!selectedScriptId) {
+      return;
+    }
+
+    window.electronAPI.db
+      .getCoverageReport(parseInt(selectedScriptId))
+      .then(report => {
+        if (report) {
+          setCoverage(prev =>
+            prev[selectedScriptId]
+              ? prev
+              : { ...prev, [selectedScriptId]: { report, isGenerating: false } }
+          );
+        }
+      })
+      .catch(error => console.error('Failed to load coverage report:', error));
+  }, [selectedScriptId]);
+
   const handleFilesSelected = useCallback(
     async (files: { name: string; path: string }[]) => {
+      const summaryOptions = buildSummaryOptions(
+        analysisSettings,
+        promptTemplateId
+      );
+
+      // Several files are processed and summarized in the background
+      if (files.length > 1) {
+        try {
+          await window.electronAPI.queue.enqueueFiles(
+            files.map(file => file.path),
+            { summaryOptions }
+          );
+          setCurrentView('queue');
+        } catch (error: unknown) {
+          console.error('Failed to queue files:', error);
+          setUploadNotice({
+            type: 'error',
+            title: 'Could Not Queue Files',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+        return;
+      }
+
+      // A single file is imported here so its summary can be watched as it
+      // streams in
+      const [file] = files;
+      if (!file) {
+        return;
+      }
       setIsProcessing(true);
 
       try {
-        for (const file of files) {
-          console.log('Processing file:', file.name);
-
-          // First, validate the file
-          const validation = await window.electronAPI.file.validate(file.path);
-
-          if (!validation.isValid) {
-            console.error('File validation failed:', validation.errors);
-            alert(
-              `File validation failed for ${file.name}: ${validation.errors.map(e => e.message).join(', ')}`
-            );
-            continue;
-          }
+        // Progress is shown by the upload component
+        const imported = await window.electronAPI.file.import(file.path);
+        if (!imported) {
+          console.log(`Processing of "${file.name}" was cancelled`);
+          return;
+        }
+        const { script, parsed, duplicate } = imported;
 
-          // Process the file
-          const parsedScript = await window.electronAPI.file.process(file.path);
-          console.log('File processed:', parsedScript);
-
-          // Check if script already exists and handle gracefully
-          const contentHash = generateContentHash(parsedScript.content);
-          let savedScript;
-
-          try {
-            savedScript = await window.electronAPI.db.saveScript({
-              title: parsedScript.title,
-              file_path: file.path,
-              content_hash: contentHash,
-              word_count: parsedScript.metadata.wordCount,
-            });
-          } catch (saveError: unknown) {
-            if (
-              saveError instanceof Error &&
-              saveError.message.includes('UNIQUE constraint failed')
-            ) {
-              // Script already exists, find it in the database
-              const existingScripts =
-                await window.electronAPI.db.getAllScripts();
-              savedScript = existingScripts.find(
-                script => script.content_hash === contentHash
-              );
-
-              if (savedScript) {
-                console.log(
-                  `Script "${file.name}" already exists in database, using existing record`
-                );
-                // Show a friendly message instead of an error
-                alert(
-                  `"${file.name}" has already been processed. Switching to library view.`
-                );
-              } else {
-                throw saveError; // Re-throw if it's a different issue
-              }
-            } else {
-              throw saveError; // Re-throw if it's not a duplicate constraint error
-            }
-          }
+        // A script already in the library opens with its stored summary
+        const processedScript: ProcessedScript = duplicate
+          ? await loadProcessedScript(script)
+          : {
+              id: script.id.toString(),
+              title: script.title,
+              content: parsed.content,
+              pages: parsed.pages,
+              elements: parsed.elements,
+              filePath: script.file_path,
+            };
 
-          // Add to processed scripts
-          const processedScript: ProcessedScript = {
-            id: savedScript.id.toString(),
-            title: parsedScript.title,
-            content: parsedScript.content,
-            filePath: file.path,
-          };
-
-          setProcessedScripts(prev => [...prev, processedScript]);
-
-          // Generate summary
-          try {
-            const summary = await window.electronAPI.llm.generateSummary(
-              parsedScript.content,
-              {
-                length: 'detailed',
-                focusAreas: ['plot', 'characters', 'themes', 'production'],
-                temperature: 0.7,
-                includeProductionNotes: true,
-                analyzeCharacterRelationships: true,
-                identifyThemes: true,
-                assessMarketability: false,
-              }
-            );
-
-            // Save summary to database
-            await window.electronAPI.db.saveSummary({
-              script_id: parseInt(savedScript.id.toString()),
-              plot_overview: summary.plotOverview,
-              characters: JSON.stringify(summary.mainCharacters),
-              themes: JSON.stringify(summary.themes),
-              production_notes: JSON.stringify(summary.productionNotes),
-              genre: summary.genre || 'Unknown',
-              model_used: 'gemma3:1b',
-            });
-
-            // Update the processed script with summary
-            setProcessedScripts(prev =>
-              prev.map(script =>
-                script.id === savedScript.id.toString()
-                  ? { ...script, summary }
-                  : script
-              )
-            );
-
-            console.log('Summary generated:', summary);
-
-            // Trigger confetti animation for successful analysis
-            setCompletedScriptTitle(parsedScript.title);
-            setShowConfetti(true);
-            setShowToast(true);
-          } catch (summaryError: unknown) {
-            console.error('Failed to generate summary:', summaryError);
-            alert(
-              `Failed to generate summary for ${file.name}: ${summaryError instanceof Error ? summaryError.message : 'Unknown error'}`
-            );
-          }
+        setProcessedScripts(prev =>
+          prev.some(item => item.id === processedScript.id)
+            ? prev
+            : [...prev, processedScript]
+        );
+        setSelectedScript(processedScript);
+        setCurrentView('summaries');
+
+        if (processedScript.summary) {
+          setUploadNotice({
+            type: 'info',
+            title: 'Already in Library',
+            message: `"${file.name}" has already been analyzed as "${script.title}".`,
+          });
+          return;
         }
 
-        // Switch to scripts view after processing
-        setCurrentView('scripts');
+        try {
+          const summary = await summarizeScript(
+            processedScript.id,
+            PdfPageExtractor.markPages(
+              processedScript.content,
+              processedScript.pages
+            ),
+            summaryOptions,
+            operationId =>
+              // Allow cancelling before the first progress update arrives,
+              // replacing any entry left by an earlier run
+              setGenerationProgress(prev => ({
+                ...prev,
+                [processedScript.id]:
+                  prev[processedScript.id]?.operationId === operationId
+                    ? prev[processedScript.id]
+                    : {
+                        operationId,
+                        progress: 0,
+                        stage: 'initializing',
+                        message: 'Starting summary',
+                        cancellable: true,
+                        scriptId: processedScript.id,
+                      },
+              }))
+          );
+
+          if (!summary) {
+            console.log(`Summary of "${file.name}" was cancelled`);
+            return;
+          }
+
+          await window.electronAPI.db.saveSummary(script.id, summary);
+
+          setProcessedScripts(prev =>
+            prev.map(item =>
+              item.id === processedScript.id ? { ...item, summary } : item
+            )
+          );
+          setSelectedScript(prev =>
+            prev?.id === processedScript.id ? { ...prev, summary } : prev
+          );
+
+          // Trigger confetti animation for successful analysis
+          setCompletedScriptTitle(script.title);
+          setShowConfetti(true);
+          setShowToast(true);
+        } catch (summaryError: unknown) {
+          console.error('Failed to generate summary:', summaryError);
+          setUploadNotice({
+            type: 'error',
+            title: 'Summary Failed',
+            message: `${file.name}: ${summaryError instanceof Error ? summaryError.message : 'Unknown error'}`,
+          });
+        } finally {
+          setGenerationProgress(({ [processedScript.id]: _, ...rest }) => rest);
+        }
       } catch (error: unknown) {
-        console.error('File processing error:', error);
-        alert(
-          `Error processing files: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
+        console.error('Failed to import script:', error);
+        setUploadNotice({
+          type: 'error',
+          title: 'Import Failed',
+          message: `${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
       } finally {
         setIsProcessing(false);
       }
     },
-    []
+    [analysisSettings, promptTemplateId]
   );
 
-  const generateContentHash = (content: string): string => {
-    // Simple hash function for content
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(16);
-  };
-
   const handleScriptSelect = (script: ProcessedScript) => {
     setSelectedScript(script);
     setCurrentView('summaries');
   };
 
+  const handleGenerateCoverage = async (script: ProcessedScript) => {
+    setCoverage(prev => ({
+      ...prev,
+      [script.id]: { report: prev[script.id]?.report, isGenerating: true },
+    }));
+
+    try {
+      const result = await generateCoverageReport(
+        script.id,
+        PdfPageExtractor.markPages(script.content, script.pages),
+        { temperature: 0.7 },
+        operationId =>
+          setCoverage(prev => ({
+            ...prev,
+            [script.id]: { ...prev[script.id], operationId },
+          }))
+      );
+      setCoverage(prev => ({
+        ...prev,
+        [script.id]: {
+          report: result?.report ?? prev[script.id]?.report,
+          isGenerating: false,
+          error: result?.error,
+        },
+      }));
+    } catch (error: unknown) {
+      console.error('Failed to generate coverage:', error);
+      setCoverage(prev => ({
+        ...prev,
+        [script.id]: {
+          report: prev[script.id]?.report,
+          isGenerating: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      }));
+    } finally {
+      setGenerationProgress(({ [script.id]: _, ...rest }) => rest);
+    }
+  };
+
+  const handleCancelCoverage = (scriptId: string) => {
+    const operationId = coverage[scriptId]?.operationId;
+    if (operationId) {
+      window.electronAPI.llm
+        .cancelGeneration(operationId)
+        .catch(error => console.error('Failed to cancel coverage:', error));
+    }
+  };
+
   const handleScriptDelete = async (scriptId: string) => {
     try {
       // Delete from database
@@ -271,6 +688,116 @@ const App: React.FC = () => {
     setCurrentView(view);
   };
 
+  const handleInboxSettingsChange = async (settings: InboxWatchSettings) => {
+    setInboxSettings(settings);
+    localStorage.setItem(INBOX_SETTINGS_KEY, JSON.stringify(settings));
+
+    try {
+      setInboxStatus(await window.electronAPI.inbox.configure(settings));
+    } catch (error) {
+      console.error('Failed to watch inbox folders:', error);
+    }
+  };
+
+  const handleProviderSettingsChange = async (
+    settings: LLMProviderSettings
+  ) => {
+    setProviderSettings(settings);
+    localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+
+    try {
+      setProviderStatus(
+        await window.electronAPI.llm.configureProvider(settings)
+      );
+    } catch (error) {
+      console.error('Failed to connect to LLM provider:', error);
+    }
+  };
+
+  const handleAnalysisSettingsChange = (settings: AnalysisSettingsValue) => {
+    setAnalysisSettings(settings);
+    localStorage.setItem(ANALYSIS_SETTINGS_KEY, JSON.stringify(settings));
+  };
+
+  const handlePromptTemplateSelect = (templateId?: string) => {
+    setPromptTemplateId(templateId);
+    if (templateId) {
+      localStorage.setItem(PROMPT_TEMPLATE_KEY, templateId);
+    } else {
+      localStorage.removeItem(PROMPT_TEMPLATE_KEY);
+    }
+  };
+
+  const handleQueueConcurrencyChange = async (concurrency: number) => {
+    const settings: JobQueueSettings = { maxConcurrentProcessing: concurrency };
+    localStorage.setItem(QUEUE_SETTINGS_KEY, JSON.stringify(settings));
+
+    try {
+      await window.electronAPI.queue.configure(settings);
+    } catch (error) {
+      console.error('Failed to configure job queue:', error);
+    }
+  };
+
+  const handleSummarizeAll = async () => {
+    try {
+      await window.electronAPI.queue.enqueueSummaries(
+        processedScripts
+          .filter(script => !script.summary)
+          .map(script => script.id),
+        {
+          summaryOptions: buildSummaryOptions(
+            analysisSettings,
+            promptTemplateId
+          ),
+        }
+      );
+    } catch (error) {
+      console.error('Failed to queue summaries:', error);
+    }
+  };
+
+  const handlePinSummaryVersion = async (
+    script: ProcessedScript,
+    summaryId: number | null
+  ) => {
+    try {
+      await window.electronAPI.db.pinSummary(parseInt(script.id), summaryId);
+      await reloadScript(parseInt(script.id));
+    } catch (error) {
+      console.error('Failed to pin summary version:', error);
+    }
+  };
+
+  // Queue a new version of the summary ahead of other jobs
+  const handleRegenerateSummary = async (script: ProcessedScript) => {
+    try {
+      await window.electronAPI.queue.enqueueSummaries([script.id], {
+        summaryOptions: buildSummaryOptions(analysisSettings, promptTemplateId),
+        priority: 1,
+      });
+    } catch (error) {
+      console.error('Failed to queue summary:', error);
+    }
+  };
+
+  const handleModelRegistryChange = (registry: string) => {
+    setModelRegistry(registry);
+    if (registry) {
+      localStorage.setItem(MODEL_REGISTRY_KEY, registry);
+    } else {
+      localStorage.removeItem(MODEL_REGISTRY_KEY);
+    }
+  };
+
+  const handleUploadNoticeClose = useCallback(() => {
+    setUploadNotice(null);
+  }, []);
+
+  const handleImportToastClose = useCallback(() => {
+    setImportReport(null);
+  }, []);
+
   const handleConfettiComplete = () => {
     setShowConfetti(false);
     setCompletedScriptTitle('');
@@ -291,27 +818,18 @@ const App: React.FC = () => {
         ? 'pdf'
         : script.filePath.endsWith('.docx')
           ? 'docx'
-          : 'txt',
+          : script.filePath.endsWith('.fdx')
+            ? 'fdx'
+            : script.filePath.endsWith('.fountain')
+              ? 'fountain'
+              : 'txt',
       uploadedAt: new Date(),
       lastModified: new Date(),
       updatedAt: new Date(),
       content: script.content,
+      elements: script.elements,
       status: script.summary ? 'analyzed' : 'uploaded',
-      summary: script.summary
-        ? {
-            id: `summary_${script.id}`,
-            scriptId: script.id,
-            plotOverview: script.summary.plotOverview || '',
-            mainCharacters: script.summary.mainCharacters || [],
-            themes: script.summary.themes || [],
-            productionNotes: script.summary.productionNotes || [],
-            genre: script.summary.genre || 'Unknown',
-            modelUsed: 'gemma3:1b',
-            generationOptions: { length: 'detailed', focusAreas: [] },
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }
-        : undefined,
+      summary: script.summary,
     };
   };
 
@@ -343,7 +861,13 @@ const App: React.FC = () => {
                   </p>
                   <FileUpload
                     onFilesSelected={handleFilesSelected}
-                    acceptedTypes={['.pdf', '.docx', '.txt']}
+                    acceptedTypes={[
+                      '.pdf',
+                      '.docx',
+                      '.txt',
+                      '.fdx',
+                      '.fountain',
+                    ]}
                     maxFileSize={50}
                     multiple={true}
                   />
@@ -421,7 +945,36 @@ const App: React.FC = () => {
                 <SummaryDisplay
                   script={selectedScript}
                   summary={selectedScript.summary}
+                  generationProgress={generationProgress[selectedScript.id]}
+                  onCancelGeneration={operationId =>
+                    window.electronAPI.llm
+                      .cancelGeneration(operationId)
+                      .catch(error =>
+                        console.error('Failed to cancel summary:', error)
+                      )
+                  }
+                  versions={summaryVersions}
+                  onPinVersion={summaryId =>
+                    handlePinSummaryVersion(selectedScript, summaryId)
+                  }
+                  onRegenerate={() => handleRegenerateSummary(selectedScript)}
                 />
+                {selectedScript.summary && (
+                  <div className="mt-6">
+                    <CoverageReportDisplay
+                      title={selectedScript.title}
+                      report={coverage[selectedScript.id]?.report}
+                      isGenerating={coverage[selectedScript.id]?.isGenerating}
+                      error={coverage[selectedScript.id]?.error}
+                      onGenerate={() => handleGenerateCoverage(selectedScript)}
+                      onCancel={
+                        coverage[selectedScript.id]?.operationId
+                          ? () => handleCancelCoverage(selectedScript.id)
+                          : undefined
+                      }
+                    />
+                  </div>
+                )}
               </div>
             ) : (
               <div className="max-w-6xl mx-auto">
@@ -496,19 +1049,68 @@ const App: React.FC = () => {
           </div>
         );
 
+      case 'queue':
+        return (
+          <div className="p-6">
+            <div className="max-w-4xl mx-auto">
+              <QueuePanel
+                unsummarizedCount={
+                  processedScripts.filter(script => !script.summary).length
+                }
+                onSummarizeAll={handleSummarizeAll}
+                onConcurrencyChange={handleQueueConcurrencyChange}
+              />
+            </div>
+          </div>
+        );
+
+      case 'models':
+        return (
+          <div className="p-6">
+            <div className="max-w-4xl mx-auto">
+              <ModelLibrary
+                models={models}
+                registry={modelRegistry}
+                onRegistryChange={handleModelRegistryChange}
+                onModelsChange={loadModels}
+              />
+            </div>
+          </div>
+        );
+
       case 'settings':
+        return (
+          <div className="p-6">
+            <div className="max-w-4xl mx-auto space-y-6">
+              <ProviderSettings
+                settings={providerSettings}
+                providers={providers}
+                status={providerStatus}
+                onChange={handleProviderSettingsChange}
+              />
+              <AnalysisSettings
+                settings={analysisSettings}
+                models={models}
+                onChange={handleAnalysisSettingsChange}
+              />
+              <PromptTemplateSettings
+                selectedTemplateId={promptTemplateId}
+                onSelect={handlePromptTemplateSelect}
+              />
+              <InboxSettings
+                settings={inboxSettings}
+                status={inboxStatus}
+                onChange={handleInboxSettingsChange}
+              />
+            </div>
+          </div>
+        );
+
+      case 'diagnostics':
         return (
           <div className="p-6">
             <div className="max-w-4xl mx-auto">
-              <Card>
-                <CardContent className="text-center py-12">
-                  <div className="text-6xl mb-4">⚙️</div>
-                  <h3 className="text-lg font-semibold text-slate-300 mb-2">
-                    Settings
-                  </h3>
-                  <p className="text-slate-400">Settings panel coming soon!</p>
-                </CardContent>
-              </Card>
+              <DatabaseDiagnostics />
             </div>
           </div>
         );
@@ -530,6 +1132,29 @@ const App: React.FC = () => {
           message={`"${completedScriptTitle}" Analysis Complete! 🎉`}
         />
 
+        {/* Inbox Import Notification */}
+        <ToastNotification
+          isVisible={importReport !== null}
+          onClose={handleImportToastClose}
+          title="Inbox Import Finished"
+          message={
+            importReport
+              ? `${importReport.importedCount} imported, ${importReport.duplicateCount} already in library, ${importReport.failedCount} failed`
+              : ''
+          }
+          type={importReport?.failedCount ? 'warning' : 'success'}
+        />
+
+        {/* Upload Notification */}
+        <ToastNotification
+          isVisible={uploadNotice !== null}
+          onClose={handleUploadNoticeClose}
+          title={uploadNotice?.title ?? ''}
+          message={uploadNotice?.message ?? ''}
+          type={uploadNotice?.type}
+          duration={uploadNotice?.type === 'error' ? 8000 : undefined}
+        />
+
         {/* Toast Notification */}
         {/* <ToastNotification
           isVisible={showToast}
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Card, CardHeader, CardContent } from './ui/Card';
+import {
+  AnalysisPass,
+  AnalysisSettings as AnalysisSettingsValue,
+  LLMModel,
+} from '../types/llm-service';
+
+interface AnalysisSettingsProps {
+  settings: AnalysisSettingsValue;
+  models: LLMModel[];
+  onChange: (settings: AnalysisSettingsValue) => void;
+}
+
+const PASSES: { pass: AnalysisPass; label: string }[] = [
+  { pass: 'characters', label: 'Characters' },
+  { pass: 'themes', label: 'Themes' },
+  { pass: 'production', label: 'Production notes' },
+];
+
+export const AnalysisSettings: React.FC<AnalysisSettingsProps> = ({
+  settings,
+  models,
+  onChange,
+}) => {
+  const handlePassModelChange = (pass: AnalysisPass, model: string) => {
+    const passModels = { ...settings.passModels };
+    if (model) {
+      passModels[pass] = model;
+    } else {
+      delete passModels[pass];
+    }
+    onChange({ ...settings, passModels });
+  };
+
+  return (
+    <Card variant="elevated" className="rounded-xl">
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-slate-100">Deep Analysis</h2>
+      </CardHeader>
+      <CardContent>
+        <p className="text-slate-300 mb-4">
+          After the summary, analyze characters, themes and production needs in
+          separate focused passes. This takes longer but gives more thorough
+          results.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={settings.deepAnalysis}
+            onChange={e =>
+              onChange({ ...settings, deepAnalysis: e.target.checked })
+            }
+          />
+          Run deep analysis
+        </label>
+
+        {settings.deepAnalysis && (
+          <div className="space-y-4 mt-4">
+            {PASSES.map(({ pass, label }) => (
+              <label key={pass} className="block text-sm text-slate-300">
+                <span className="block mb-1">{label} model</span>
+                <select
+                  className="w-full bg-slate-800 rounded-lg px-3 py-2 text-slate-200"
+                  value={settings.passModels[pass] ?? ''}
+                  onChange={e => handlePassModelChange(pass, e.target.value)}
+                >
+                  <option value="">Active model</option>
+                  {models.map(model => (
+                    <option key={model.id} value={model.id}>
+                      {model.performance.benchmarkedAt
+                        ? `${model.name} (${Math.round(model.performance.tokensPerSecond ?? 0)} tokens/s, ${Math.round((model.performance.accuracy ?? 0) * 100)}% accuracy)`
+                        : model.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -21,7 +21,15 @@ const navigationItems: NavigationItem[] = [
   { id: 'scripts', label: 'Scripts', icon: '📄', path: '/scripts' },
   { id: 'summaries', label: 'Summaries', icon: '📝', path: '/summaries' },
   { id: 'compare', label: 'Compare', icon: '⚖️', path: '/compare' },
+  { id: 'queue', label: 'Queue', icon: '📋', path: '/queue' },
+  { id: 'models', label: 'Models', icon: '🧠', path: '/models' },
   { id: 'settings', label: 'Settings', icon: '⚙️', path: '/settings' },
+  {
+    id: 'diagnostics',
+    label: 'Diagnostics',
+    icon: '🩺',
+    path: '/diagnostics',
+  },
 ];
 
 const pageVariants = {
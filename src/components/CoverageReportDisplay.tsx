@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Card, CardHeader, CardContent } from './ui/Card';
+import { Button } from './ui/Button';
+import {
+  CoverageExportService,
+  COVERAGE_CATEGORY_LABELS,
+  COVERAGE_RATING_LABELS,
+  COVERAGE_VERDICT_LABELS,
+} from '../services/export';
+import type {
+  CoverageCategory,
+  CoverageReport,
+  CoverageVerdict,
+} from '../types/coverage';
+
+interface CoverageReportDisplayProps {
+  /** Script title, used in the exported report */
+  title: string;
+  report?: CoverageReport;
+  isGenerating?: boolean;
+  error?: string | null;
+  onGenerate: () => void;
+  /** Cancel the report being generated */
+  onCancel?: () => void;
+}
+
+const VERDICT_CLASSES: Record<CoverageVerdict, string> = {
+  pass: 'bg-red-500/20 text-red-300',
+  consider: 'bg-amber-500/20 text-amber-300',
+  recommend: 'bg-green-500/20 text-green-300',
+};
+
+const exportService = new CoverageExportService();
+
+export const CoverageReportDisplay: React.FC<CoverageReportDisplayProps> = ({
+  title,
+  report,
+  isGenerating = false,
+  error,
+  onGenerate,
+  onCancel,
+}) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!report) {
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const result = await window.electronAPI.file.saveDialog({
+        defaultPath: exportService.getSuggestedFilename(report, title),
+        filters: [{ name: 'Text Files', extensions: ['txt'] }],
+      });
+
+      if (result.canceled || !result.filePath) {
+        return;
+      }
+
+      await window.electronAPI.file.write(
+        result.filePath,
+        exportService.exportCoverage(report, title)
+      );
+    } catch (exportError) {
+      console.error('Failed to export coverage:', exportError);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const ratingRows = Object.keys(
+    COVERAGE_CATEGORY_LABELS
+  ) as CoverageCategory[];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+            <span className="mr-2">📝</span>
+            Coverage
+          </h3>
+          <div className="flex items-center gap-2">
+            {report && (
+              <span
+                className={`px-3 py-1 rounded-full text-sm font-semibold ${VERDICT_CLASSES[report.verdict]}`}
+              >
+                {COVERAGE_VERDICT_LABELS[report.verdict]}
+              </span>
+            )}
+            {report && (
+              <Button
+                variant="ghost"
+                size="sm"
+                loading={isExporting}
+                onClick={handleExport}
+              >
+                Export
+              </Button>
+            )}
+            {isGenerating && onCancel && (
+              <Button variant="ghost" size="sm" onClick={onCancel}>
+                Cancel
+              </Button>
+            )}
+            <Button
+              variant="secondary"
+              size="sm"
+              loading={isGenerating}
+              onClick={onGenerate}
+            >
+              {report ? 'Regenerate' : 'Generate coverage'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        {report ? (
+          <div className="space-y-6">
+            <div>
+              <h4 className="font-semibold text-slate-100 mb-2">Logline</h4>
+              <p className="text-slate-300 italic">{report.logline}</p>
+            </div>
+
+            <div>
+              <h4 className="font-semibold text-slate-100 mb-2">Synopsis</h4>
+              <p className="text-slate-300 leading-relaxed whitespace-pre-line">
+                {report.synopsis}
+              </p>
+            </div>
+
+            <div>
+              <h4 className="font-semibold text-slate-100 mb-2">Comments</h4>
+              <p className="text-slate-300 leading-relaxed whitespace-pre-line">
+                {report.comments}
+              </p>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-slate-400">
+                  <th className="text-left font-normal py-1">Ratings</th>
+                  {Object.values(COVERAGE_RATING_LABELS).map(label => (
+                    <th key={label} className="font-normal py-1">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {ratingRows.map(category => (
+                  <tr key={category} className="border-t border-slate-700">
+                    <td className="text-slate-300 py-1">
+                      {COVERAGE_CATEGORY_LABELS[category]}
+                    </td>
+                    {Object.keys(COVERAGE_RATING_LABELS).map(rating => (
+                      <td
+                        key={rating}
+                        className="text-center text-slate-100 py-1"
+                      >
+                        {report.ratings[category] === rating ? '✓' : ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {(report.genre ||
+              (report.comparables && report.comparables.length > 0)) && (
+              <p className="text-sm text-slate-400">
+                {report.genre}
+                {report.genre && report.comparables?.length ? ' · ' : ''}
+                {report.comparables?.length
+                  ? `Comparables: ${report.comparables.join(', ')}`
+                  : ''}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-slate-400">
+            {isGenerating
+              ? 'Writing coverage...'
+              : 'Generate a reader’s report with a logline, synopsis, comments, ratings and a pass, consider or recommend verdict.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardHeader, CardContent } from './ui/Card';
+import { Button } from './ui/Button';
+import type { DatabaseDiagnostics as Diagnostics } from '../types/diagnostics';
+
+// Backups are listed by file name, with the full path on hover
+const getFileName = (filePath: string): string =>
+  filePath.split(/[\\/]/).pop() ?? filePath;
+
+export const DatabaseDiagnostics: React.FC = () => {
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDiagnostics = useCallback(async () => {
+    setError(null);
+    try {
+      setDiagnostics(await window.electronAPI.db.getDiagnostics());
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error ? loadError.message : 'Unknown error'
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDiagnostics();
+  }, [loadDiagnostics]);
+
+  return (
+    <Card variant="elevated" className="rounded-xl">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-100">Database</h2>
+          <Button variant="secondary" size="sm" onClick={loadDiagnostics}>
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {diagnostics && (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-1">
+                Location
+              </h3>
+              <p className="text-sm text-slate-400 break-all">
+                {diagnostics.databasePath}
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">
+                Applied migrations
+              </h3>
+              {diagnostics.appliedMigrations.length > 0 ? (
+                <ul className="space-y-1">
+                  {diagnostics.appliedMigrations.map(migration => (
+                    <li
+                      key={migration.version}
+                      className="flex justify-between bg-slate-800 rounded-lg px-4 py-2 text-sm"
+                    >
+                      <span className="text-slate-200">
+                        {migration.version}
+                      </span>
+                      <span className="text-slate-500">
+                        {new Date(migration.appliedAt).toLocaleString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500">
+                  No migrations have been applied.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">
+                Pending migrations
+              </h3>
+              {diagnostics.pendingMigrations.length > 0 ? (
+                <ul className="space-y-1">
+                  {diagnostics.pendingMigrations.map(migration => (
+                    <li
+                      key={migration.version}
+                      className="bg-slate-800 rounded-lg px-4 py-2 text-sm text-amber-400"
+                    >
+                      {migration.version} · {migration.description}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500">
+                  The database is up to date.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">
+                Backups
+              </h3>
+              {diagnostics.backups.length > 0 ? (
+                <ul className="space-y-1">
+                  {diagnostics.backups.map(backup => (
+                    <li
+                      key={backup}
+                      title={backup}
+                      className="bg-slate-800 rounded-lg px-4 py-2 text-sm text-slate-300 truncate"
+                    >
+                      {getFileName(backup)}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500">
+                  The database is backed up before each migration.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400 mt-4">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,10 +1,12 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTheme } from './ThemeProvider';
 import { Button } from './ui/Button';
 
 interface FileUploadProps {
-  onFilesSelected: (files: { name: string; path: string }[]) => void;
+  onFilesSelected: (
+    files: { name: string; path: string }[]
+  ) => void | Promise<void>;
   acceptedTypes?: string[];
   maxFileSize?: number; // in MB
   multiple?: boolean;
@@ -13,12 +15,15 @@ interface FileUploadProps {
 
 interface UploadProgress {
   fileName: string;
+  filePath: string;
   progress: number;
   status: 'uploading' | 'completed' | 'error';
+  message?: string;
+  cancellable?: boolean;
   error?: string;
 }
 
-const ACCEPTED_FILE_TYPES = ['.pdf', '.docx', '.txt'];
+const ACCEPTED_FILE_TYPES = ['.pdf', '.docx', '.txt', '.fdx', '.fountain'];
 const MAX_FILE_SIZE_MB = 50;
 
 export const FileUpload: React.FC<FileUploadProps> = ({
@@ -31,7 +36,6 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   const { animationsEnabled } = useTheme();
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateFile = (
@@ -49,38 +53,53 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     return { valid: true };
   };
 
-  const simulateUploadProgress = (fileName: string): Promise<void> => {
-    return new Promise(resolve => {
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += Math.random() * 15 + 5; // Random progress between 5-20%
-
-        if (progress >= 100) {
-          progress = 100;
-          setUploadProgress(prev =>
-            prev.map(item =>
-              item.fileName === fileName
-                ? { ...item, progress: 100, status: 'completed' }
-                : item
-            )
-          );
-          clearInterval(interval);
-          resolve();
-        } else {
-          setUploadProgress(prev =>
-            prev.map(item =>
-              item.fileName === fileName
-                ? { ...item, progress: Math.round(progress) }
-                : item
-            )
-          );
-        }
-      }, 100);
-    });
-  };
+  // Follow processing progress reported by the main process
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    return window.electronAPI.file.onProcessingProgress(
+      (filePath, progress) => {
+        setUploadProgress(prev =>
+          prev.map(item => {
+            if (item.filePath !== filePath || item.status !== 'uploading') {
+              return item;
+            }
+
+            if (
+              progress.currentStep === 'error' ||
+              progress.currentStep === 'cancelled'
+            ) {
+              return { ...item, status: 'error', error: progress.message };
+            }
+
+            return {
+              ...item,
+              progress: progress.progress,
+              message: progress.message,
+              cancellable: progress.cancellable,
+              status:
+                progress.currentStep === 'complete' ? 'completed' : 'uploading',
+            };
+          })
+        );
+      }
+    );
+  }, []);
+
+  const isUploading = uploadProgress.some(item => item.status === 'uploading');
+
+  // Clear progress a moment after every file has finished
+  useEffect(() => {
+    if (uploadProgress.length === 0 || isUploading) return;
+
+    const timeout = setTimeout(() => {
+      setUploadProgress([]);
+    }, 2000);
+    return () => clearTimeout(timeout);
+  }, [uploadProgress, isUploading]);
 
   const processFiles = useCallback(
-    async (filePaths: string[]) => {
+    (filePaths: string[]) => {
       const validFiles: { name: string; path: string }[] = [];
       const newProgress: UploadProgress[] = [];
 
@@ -92,12 +111,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           validFiles.push({ name: fileName, path: filePath });
           newProgress.push({
             fileName,
+            filePath,
             progress: 0,
             status: 'uploading',
+            message: 'Waiting to process',
           });
         } else {
           newProgress.push({
             fileName,
+            filePath,
             progress: 0,
             status: 'error',
             error: validation.error,
@@ -106,34 +128,42 @@ export const FileUpload: React.FC<FileUploadProps> = ({
       }
 
       setUploadProgress(newProgress);
-      setIsUploading(true);
-
-      // Simulate upload progress for valid files
-      const uploadPromises = validFiles.map(file =>
-        simulateUploadProgress(file.name)
-      );
-
-      try {
-        await Promise.all(uploadPromises);
 
-        // Call the callback with valid files
-        if (validFiles.length > 0) {
-          onFilesSelected(validFiles);
+      // Progress of valid files is updated as the main process reports it
+      if (validFiles.length > 0) {
+        const result = onFilesSelected(validFiles);
+
+        // Files skipped by the handler never report progress
+        if (result instanceof Promise) {
+          result
+            .catch(error => console.error('Upload error:', error))
+            .finally(() => {
+              setUploadProgress(prev =>
+                prev.map(item =>
+                  item.status === 'uploading'
+                    ? {
+                        ...item,
+                        status: 'error',
+                        error: 'File was not processed',
+                      }
+                    : item
+                )
+              );
+            });
         }
-      } catch (error) {
-        console.error('Upload error:', error);
-      } finally {
-        setIsUploading(false);
-
-        // Clear progress after a delay
-        setTimeout(() => {
-          setUploadProgress([]);
-        }, 2000);
       }
     },
     [onFilesSelected, acceptedTypes]
   );
 
+  const handleCancel = async (filePath: string) => {
+    try {
+      await window.electronAPI.file.cancelProcessing(filePath);
+    } catch (error) {
+      console.error('Error cancelling file processing:', error);
+    }
+  };
+
   const handleDragEnter = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -311,7 +341,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
 
             {uploadProgress.map((item, index) => (
               <motion.div
-                key={item.fileName}
+                key={item.filePath}
                 className="bg-slate-800 rounded-xl p-4"
                 initial={{ opacity: 0, x: -20 }}
                 animate={{ opacity: 1, x: 0 }}
@@ -331,6 +361,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                     <span className="text-xs text-slate-400">
                       {item.progress}%
                     </span>
+                    {item.status === 'uploading' && item.cancellable && (
+                      <button
+                        type="button"
+                        className="text-xs text-slate-400 hover:text-red-400"
+                        onClick={() => handleCancel(item.filePath)}
+                      >
+                        Cancel
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -351,6 +390,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                   />
                 </div>
 
+                {/* Status Message */}
+                {item.status === 'uploading' && item.message && (
+                  <p className="text-xs text-slate-400 mt-2">{item.message}</p>
+                )}
+
                 {/* Error Message */}
                 {item.error && (
                   <p className="text-xs text-red-400 mt-2">{item.error}</p>
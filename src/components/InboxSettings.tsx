@@ -0,0 +1,114 @@
+import React from 'react';
+import { Card, CardHeader, CardContent } from './ui/Card';
+import { Button } from './ui/Button';
+import { InboxStatus, InboxWatchSettings } from '../types';
+
+interface InboxSettingsProps {
+  settings: InboxWatchSettings;
+  status?: InboxStatus | null;
+  onChange: (settings: InboxWatchSettings) => void;
+}
+
+export const InboxSettings: React.FC<InboxSettingsProps> = ({
+  settings,
+  status,
+  onChange,
+}) => {
+  const handleAddFolder = async () => {
+    try {
+      const result = await window.electronAPI.inbox.chooseFolder();
+      if (!result.canceled && result.filePaths.length > 0) {
+        const folders = result.filePaths.filter(
+          folder => !settings.watchedFolders.includes(folder)
+        );
+        onChange({
+          ...settings,
+          watchedFolders: [...settings.watchedFolders, ...folders],
+        });
+      }
+    } catch (error) {
+      console.error('Error opening folder dialog:', error);
+    }
+  };
+
+  const handleRemoveFolder = (folder: string) => {
+    onChange({
+      ...settings,
+      watchedFolders: settings.watchedFolders.filter(item => item !== folder),
+    });
+  };
+
+  const getFolderError = (folder: string) =>
+    status?.errors.find(error => error.folder === folder)?.message;
+
+  return (
+    <Card variant="elevated" className="rounded-xl">
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-slate-100">Inbox Folders</h2>
+      </CardHeader>
+      <CardContent>
+        <p className="text-slate-300 mb-4">
+          New PDF, DOCX and TXT scripts saved to these folders are imported into
+          your library automatically.
+        </p>
+
+        {settings.watchedFolders.length === 0 ? (
+          <p className="text-sm text-slate-500 mb-4">
+            No folders are being watched.
+          </p>
+        ) : (
+          <ul className="space-y-2 mb-4">
+            {settings.watchedFolders.map(folder => (
+              <li
+                key={folder}
+                className="flex items-center justify-between bg-slate-800 rounded-lg px-4 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-slate-200 truncate">{folder}</p>
+                  {getFolderError(folder) && (
+                    <p className="text-xs text-red-400">
+                      {getFolderError(folder)}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemoveFolder(folder)}
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center space-x-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={settings.autoSummarizeImports}
+              onChange={e =>
+                onChange({
+                  ...settings,
+                  autoSummarizeImports: e.target.checked,
+                })
+              }
+            />
+            <span>Generate summaries for imported scripts</span>
+          </label>
+
+          <Button variant="secondary" size="sm" onClick={handleAddFolder}>
+            Add Folder
+          </Button>
+        </div>
+
+        {status && status.pendingFiles > 0 && (
+          <p className="text-xs text-slate-400 mt-4">
+            Importing {status.pendingFiles} file(s)...
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
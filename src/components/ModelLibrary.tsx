@@ -0,0 +1,324 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardHeader, CardContent } from './ui/Card';
+import { Button } from './ui/Button';
+import type {
+  LLMModel,
+  ModelDetails,
+  ModelPullProgress,
+} from '../types/llm-service';
+import type { BenchmarkProgress } from '../types/benchmark';
+
+interface ModelLibraryProps {
+  models: LLMModel[];
+  /** Registry or mirror models are pulled from; empty for the default */
+  registry: string;
+  onRegistryChange: (registry: string) => void;
+  /**
+   * Called after a model is pulled, deleted or benchmarked so the list is
+   * reloaded
+   */
+  onModelsChange: () => void;
+}
+
+const inputClassName =
+  'w-full bg-slate-800 rounded-lg px-3 py-2 text-slate-200';
+
+const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(1)} ${units[unit]}`;
+};
+
+export const ModelLibrary: React.FC<ModelLibraryProps> = ({
+  models,
+  registry,
+  onRegistryChange,
+  onModelsChange,
+}) => {
+  const [modelName, setModelName] = useState('');
+  const [pulling, setPulling] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ModelPullProgress | null>(null);
+  const [details, setDetails] = useState<Record<string, ModelDetails>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [benchmarking, setBenchmarking] = useState(false);
+  const [benchmarkProgress, setBenchmarkProgress] =
+    useState<BenchmarkProgress | null>(null);
+
+  // Follow the download as it streams in from the main process
+  useEffect(() => {
+    return window.electronAPI.llm.onPullProgress(setProgress);
+  }, []);
+
+  useEffect(() => {
+    return window.electronAPI.llm.onBenchmarkProgress(setBenchmarkProgress);
+  }, []);
+
+  const handleBenchmark = async (modelIds: string[]) => {
+    setError(null);
+    setBenchmarking(true);
+    try {
+      await window.electronAPI.llm.runBenchmark(modelIds);
+      onModelsChange();
+    } catch (benchmarkError) {
+      setError(
+        benchmarkError instanceof Error
+          ? benchmarkError.message
+          : 'Unknown error'
+      );
+    } finally {
+      setBenchmarking(false);
+      setBenchmarkProgress(null);
+    }
+  };
+
+  const handlePull = async () => {
+    const name = modelName.trim();
+    if (!name) {
+      return;
+    }
+
+    setError(null);
+    setProgress(null);
+    setPulling(name);
+    try {
+      await window.electronAPI.llm.pullModel(name, {
+        registry: registry.trim() || undefined,
+      });
+      setModelName('');
+      onModelsChange();
+    } catch (pullError) {
+      setError(
+        pullError instanceof Error ? pullError.message : 'Unknown error'
+      );
+    } finally {
+      setPulling(null);
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = async (model: LLMModel) => {
+    setError(null);
+    try {
+      await window.electronAPI.llm.deleteModel(model.id);
+      onModelsChange();
+    } catch (deleteError) {
+      setError(
+        deleteError instanceof Error ? deleteError.message : 'Unknown error'
+      );
+    }
+  };
+
+  const handleToggleDetails = async (model: LLMModel) => {
+    if (expanded === model.id) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(model.id);
+    if (!details[model.id]) {
+      try {
+        const modelDetails = await window.electronAPI.llm.getModelDetails(
+          model.id
+        );
+        setDetails(prev => ({ ...prev, [model.id]: modelDetails }));
+      } catch (detailsError) {
+        console.error('Failed to get model details:', detailsError);
+      }
+    }
+  };
+
+  const percent =
+    progress?.totalBytes && progress.completedBytes !== undefined
+      ? Math.round((progress.completedBytes / progress.totalBytes) * 100)
+      : null;
+
+  return (
+    <Card variant="elevated" className="rounded-xl">
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-slate-100">Models</h2>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <p className="text-slate-300">
+            Pull models from the Ollama library or a local mirror, and remove
+            ones you no longer use. Benchmark them on sample scripts to compare
+            their speed and accuracy.
+          </p>
+          {models.length > 0 && (
+            <Button
+              variant="secondary"
+              size="sm"
+              loading={benchmarking}
+              onClick={() => handleBenchmark(models.map(model => model.id))}
+            >
+              Benchmark all
+            </Button>
+          )}
+        </div>
+
+        {benchmarking && benchmarkProgress && (
+          <p className="text-xs text-slate-400 mb-4">
+            Benchmarking {benchmarkProgress.modelId}: sample{' '}
+            {benchmarkProgress.sampleIndex + 1} of{' '}
+            {benchmarkProgress.sampleCount}
+          </p>
+        )}
+
+        {models.length > 0 ? (
+          <ul className="space-y-2 mb-6">
+            {models.map(model => (
+              <li key={model.id} className="bg-slate-800 rounded-lg px-4 py-2">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm text-slate-200 truncate">
+                      {model.name}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {model.parameterCount}
+                      {model.details?.quantization &&
+                        ` · ${model.details.quantization}`}
+                      {model.details?.sizeBytes &&
+                        ` · ${formatBytes(model.details.sizeBytes)}`}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {model.performance.benchmarkedAt
+                        ? `${Math.round(model.performance.tokensPerSecond ?? 0)} tokens/s · ${Math.round(model.performance.timeToFirstTokenMs ?? 0)} ms to first token · ${Math.round((model.performance.accuracy ?? 0) * 100)}% accuracy`
+                        : 'Not benchmarked'}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={benchmarking}
+                      onClick={() => handleBenchmark([model.id])}
+                    >
+                      Benchmark
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleToggleDetails(model)}
+                    >
+                      {expanded === model.id ? 'Hide' : 'Details'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(model)}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+
+                {expanded === model.id && details[model.id] && (
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs mt-2">
+                    {[
+                      ['Family', details[model.id].family],
+                      ['Parameters', details[model.id].parameterSize],
+                      ['Quantization', details[model.id].quantization],
+                      [
+                        'Context length',
+                        details[model.id].contextLength?.toLocaleString(),
+                      ],
+                      ...Object.entries(details[model.id].parameters ?? {}),
+                    ]
+                      .filter(([, value]) => value)
+                      .map(([label, value]) => (
+                        <React.Fragment key={label}>
+                          <dt className="text-slate-500">{label}</dt>
+                          <dd className="text-slate-300">{value}</dd>
+                        </React.Fragment>
+                      ))}
+                  </dl>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500 mb-6">
+            No models are downloaded yet.
+          </p>
+        )}
+
+        <div className="space-y-4">
+          <label className="block text-sm text-slate-300">
+            <span className="block mb-1">Model</span>
+            <input
+              type="text"
+              className={inputClassName}
+              value={modelName}
+              placeholder="llama3.1:8b"
+              onChange={e => setModelName(e.target.value)}
+            />
+          </label>
+
+          <label className="block text-sm text-slate-300">
+            <span className="block mb-1">Registry (optional)</span>
+            <input
+              type="url"
+              className={inputClassName}
+              value={registry}
+              placeholder="http://mirror.local:5000"
+              onChange={e => onRegistryChange(e.target.value)}
+            />
+          </label>
+        </div>
+
+        {pulling && (
+          <div className="mt-4">
+            <div className="flex justify-between text-xs text-slate-400 mb-1">
+              <span>{progress?.status ?? `Pulling ${pulling}`}</span>
+              {progress?.totalBytes && (
+                <span>
+                  {formatBytes(progress.completedBytes ?? 0)} of{' '}
+                  {formatBytes(progress.totalBytes)}
+                </span>
+              )}
+            </div>
+            <div
+              role="progressbar"
+              aria-valuenow={percent ?? undefined}
+              className="h-2 bg-slate-800 rounded-full overflow-hidden"
+            >
+              <div
+                className="h-full bg-blue-500"
+                style={{ width: `${percent ?? 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400 mt-4">{error}</p>}
+
+        <div className="flex justify-end gap-2 mt-4">
+          {pulling && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.electronAPI.llm.cancelPull(pulling)}
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            variant="secondary"
+            size="sm"
+            loading={!!pulling}
+            disabled={!modelName.trim()}
+            onClick={handlePull}
+          >
+            Pull
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
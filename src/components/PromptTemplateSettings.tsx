@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardHeader, CardContent } from './ui/Card';
+import { Button } from './ui/Button';
+import {
+  PROMPT_TEMPLATE_VARIABLES,
+  PromptService,
+} from '../services/llm/prompt-service';
+import type { DatabasePromptTemplate } from '../database/types';
+
+interface PromptTemplateSettingsProps {
+  /** Template used for new summaries; unset for the built-in template */
+  selectedTemplateId?: string;
+  onSelect: (templateId?: string) => void;
+}
+
+interface TemplateDraft {
+  id?: number;
+  name: string;
+  description: string;
+  body: string;
+}
+
+const inputClassName =
+  'w-full bg-slate-800 rounded-lg px-3 py-2 text-slate-200';
+
+export const PromptTemplateSettings: React.FC<PromptTemplateSettingsProps> = ({
+  selectedTemplateId,
+  onSelect,
+}) => {
+  const [templates, setTemplates] = useState<DatabasePromptTemplate[]>([]);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await window.electronAPI.db.getPromptTemplates());
+    } catch (loadError) {
+      console.error('Failed to load prompt templates:', loadError);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const problems = draft ? PromptService.validateTemplate(draft.body) : [];
+
+  const handleEdit = (template: DatabasePromptTemplate) => {
+    setError(null);
+    setDraft({
+      id: template.id,
+      name: template.name,
+      description: template.description ?? '',
+      body: template.body,
+    });
+  };
+
+  const handleCreate = () => {
+    setError(null);
+    setDraft({
+      name: '',
+      description: '',
+      body: PromptService.DEFAULT_SUMMARY_TEMPLATE,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+
+    try {
+      await window.electronAPI.db.savePromptTemplate({
+        ...draft,
+        name: draft.name.trim(),
+        description: draft.description.trim() || null,
+      });
+      setDraft(null);
+      await loadTemplates();
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error ? saveError.message : 'Unknown error'
+      );
+    }
+  };
+
+  const handleDelete = async (template: DatabasePromptTemplate) => {
+    try {
+      await window.electronAPI.db.deletePromptTemplate(template.id.toString());
+      if (selectedTemplateId === template.id.toString()) {
+        onSelect(undefined);
+      }
+      await loadTemplates();
+    } catch (deleteError) {
+      console.error('Failed to delete prompt template:', deleteError);
+    }
+  };
+
+  return (
+    <Card variant="elevated" className="rounded-xl">
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-slate-100">
+          Prompt Templates
+        </h2>
+      </CardHeader>
+      <CardContent>
+        <p className="text-slate-300 mb-4">
+          Templates control how summaries are written. Each summary records the
+          template version that produced it.
+        </p>
+
+        <label className="block text-sm text-slate-300 mb-4">
+          <span className="block mb-1">Template for new summaries</span>
+          <select
+            className={inputClassName}
+            value={selectedTemplateId ?? ''}
+            onChange={e => onSelect(e.target.value || undefined)}
+          >
+            <option value="">Built-in</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id.toString()}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {templates.length > 0 && (
+          <ul className="space-y-2 mb-4">
+            {templates.map(template => (
+              <li
+                key={template.id}
+                className="flex items-center justify-between bg-slate-800 rounded-lg px-4 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-slate-200 truncate">
+                    {template.name}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    Version {template.version}
+                    {template.description && ` · ${template.description}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleEdit(template)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(template)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {draft ? (
+          <div className="space-y-4">
+            <label className="block text-sm text-slate-300">
+              <span className="block mb-1">Name</span>
+              <input
+                type="text"
+                className={inputClassName}
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+              />
+            </label>
+
+            <label className="block text-sm text-slate-300">
+              <span className="block mb-1">Description</span>
+              <input
+                type="text"
+                className={inputClassName}
+                value={draft.description}
+                onChange={e =>
+                  setDraft({ ...draft, description: e.target.value })
+                }
+              />
+            </label>
+
+            <label className="block text-sm text-slate-300">
+              <span className="block mb-1">Template</span>
+              <textarea
+                className={`${inputClassName} font-mono text-xs`}
+                rows={14}
+                value={draft.body}
+                onChange={e => setDraft({ ...draft, body: e.target.value })}
+              />
+            </label>
+
+            <ul className="text-xs text-slate-500 space-y-1">
+              {PROMPT_TEMPLATE_VARIABLES.map(variable => (
+                <li key={variable.name}>
+                  <code className="text-slate-300">{`{{${variable.name}}}`}</code>{' '}
+                  {variable.description}
+                </li>
+              ))}
+            </ul>
+
+            {[...problems, ...(error ? [error] : [])].map(problem => (
+              <p key={problem} className="text-xs text-red-400">
+                {problem}
+              </p>
+            ))}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setDraft({
+                    ...draft,
+                    body: PromptService.DEFAULT_SUMMARY_TEMPLATE,
+                  })
+                }
+              >
+                Reset to default
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                disabled={!draft.name.trim() || problems.length > 0}
+                onClick={handleSave}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="secondary" size="sm" onClick={handleCreate}>
+            New template
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardHeader, CardContent } from './ui/Card';
+import { Button } from './ui/Button';
+import {
+  LLMProviderInfo,
+  LLMProviderSettings,
+  ServiceStatus,
+} from '../types/llm-service';
+
+interface ProviderSettingsProps {
+  settings: LLMProviderSettings;
+  providers: LLMProviderInfo[];
+  status?: ServiceStatus | null;
+  onChange: (settings: LLMProviderSettings) => void;
+}
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({
+  settings,
+  providers,
+  status,
+  onChange,
+}) => {
+  // Edited here and applied together, so typing does not reconnect
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const provider = providers.find(item => item.id === draft.provider);
+
+  return (
+    <Card variant="elevated" className="rounded-xl">
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-slate-100">LLM Provider</h2>
+      </CardHeader>
+      <CardContent>
+        <p className="text-slate-300 mb-4">
+          Choose the local server that generates summaries.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm text-slate-300">
+              <span className="block mb-1">Provider</span>
+              <select
+                className="w-full bg-slate-800 rounded-lg px-3 py-2 text-slate-200"
+                value={draft.provider}
+                onChange={e =>
+                  setDraft({
+                    ...draft,
+                    provider: e.target.value as LLMProviderSettings['provider'],
+                    endpoint: '',
+                  })
+                }
+              >
+                {providers.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {provider && (
+              <p className="text-xs text-slate-500 mt-1">
+                {provider.description}
+              </p>
+            )}
+          </div>
+
+          <label className="block text-sm text-slate-300">
+            <span className="block mb-1">Endpoint</span>
+            <input
+              type="url"
+              className="w-full bg-slate-800 rounded-lg px-3 py-2 text-slate-200"
+              value={draft.endpoint}
+              placeholder={provider?.defaultEndpoint}
+              onChange={e => setDraft({ ...draft, endpoint: e.target.value })}
+            />
+          </label>
+
+          {draft.provider === 'openai-compatible' && (
+            <label className="block text-sm text-slate-300">
+              <span className="block mb-1">API key (optional)</span>
+              <input
+                type="password"
+                className="w-full bg-slate-800 rounded-lg px-3 py-2 text-slate-200"
+                value={draft.apiKey ?? ''}
+                onChange={e =>
+                  setDraft({ ...draft, apiKey: e.target.value || undefined })
+                }
+              />
+            </label>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          <div className="text-xs">
+            {status?.isRunning && (
+              <p className="text-green-400">
+                Connected, {status.availableModels} model(s) available
+              </p>
+            )}
+            {status?.warnings.map(warning => (
+              <p key={warning} className="text-red-400">
+                {warning}
+              </p>
+            ))}
+          </div>
+
+          <Button variant="secondary" size="sm" onClick={() => onChange(draft)}>
+            Connect
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
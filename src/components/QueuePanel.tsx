@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardHeader, CardContent } from './ui/Card';
+import { Button } from './ui/Button';
+import type { Job, JobQueueStatus, JobStatus } from '../types/jobs';
+
+interface QueuePanelProps {
+  /** Number of library scripts without a summary */
+  unsummarizedCount: number;
+  /** Queue summaries of every script without one */
+  onSummarizeAll: () => void;
+  /** Called when the number of jobs that run at the same time changes */
+  onConcurrencyChange: (concurrency: number) => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  paused: 'Paused',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  queued: 'text-slate-400',
+  running: 'text-blue-400',
+  paused: 'text-amber-400',
+  completed: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500',
+};
+
+const describeJob = (job: Job): string => {
+  const type = job.type === 'process' ? 'Processing' : 'Summary';
+  if (job.status === 'queued' && job.nextAttemptAt) {
+    return `${type} · Retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString()} (attempt ${job.attempts + 1} of ${job.maxAttempts})`;
+  }
+  if (job.status === 'running' && job.attempts > 1) {
+    return `${type} · Attempt ${job.attempts} of ${job.maxAttempts}`;
+  }
+  return type;
+};
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({
+  unsummarizedCount,
+  onSummarizeAll,
+  onConcurrencyChange,
+}) => {
+  const [status, setStatus] = useState<JobQueueStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow jobs as the main process runs them
+  useEffect(() => {
+    window.electronAPI.queue
+      .getStatus()
+      .then(setStatus)
+      .catch(statusError =>
+        console.error('Failed to get queue status:', statusError)
+      );
+    return window.electronAPI.queue.onStatus(setStatus);
+  }, []);
+
+  const handleAction = async (action: () => Promise<JobQueueStatus>) => {
+    setError(null);
+    try {
+      setStatus(await action());
+    } catch (actionError) {
+      setError(
+        actionError instanceof Error ? actionError.message : 'Unknown error'
+      );
+    }
+  };
+
+  const jobs = status?.jobs ?? [];
+  const count = (jobStatus: JobStatus): number =>
+    jobs.filter(job => job.status === jobStatus).length;
+  // The queued job that starts next, and the priority that puts another
+  // job ahead of it
+  const queued = jobs
+    .filter(job => job.status === 'queued')
+    .sort((a, b) => b.priority - a.priority || a.id - b.id);
+  const nextJobId = queued[0]?.id;
+  const topPriority = queued[0]?.priority ?? 0;
+  const finishedCount =
+    count('completed') + count('failed') + count('cancelled');
+  const queue = window.electronAPI.queue;
+
+  return (
+    <Card variant="elevated" className="rounded-xl">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-100">Job Queue</h2>
+          {status && (
+            <div className="flex gap-2">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() =>
+                  handleAction(status.paused ? queue.resume : queue.pause)
+                }
+              >
+                {status.paused ? 'Resume queue' : 'Pause queue'}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={finishedCount === 0}
+                onClick={() => handleAction(queue.clearFinished)}
+              >
+                Clear finished
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-slate-300 mb-4">
+          Scripts are processed and summarized in the background, and jobs still
+          waiting carry on after the app restarts. Failed jobs are retried a few
+          times before they give up.
+        </p>
+
+        <div className="flex items-end justify-between gap-4 mb-4">
+          <label className="block text-sm text-slate-300">
+            <span className="block mb-1">Jobs at a time</span>
+            <input
+              type="number"
+              min={1}
+              max={8}
+              className="w-24 bg-slate-800 rounded-lg px-3 py-2 text-slate-200"
+              value={status?.concurrency ?? 1}
+              onChange={e => {
+                const value = parseInt(e.target.value);
+                if (value >= 1) {
+                  onConcurrencyChange(value);
+                }
+              }}
+            />
+          </label>
+          {unsummarizedCount > 0 && (
+            <Button variant="secondary" size="sm" onClick={onSummarizeAll}>
+              Summarize {unsummarizedCount} unsummarized{' '}
+              {unsummarizedCount === 1 ? 'script' : 'scripts'}
+            </Button>
+          )}
+        </div>
+
+        {status?.paused && (
+          <p className="text-sm text-amber-400 mb-4">
+            The queue is paused. Running jobs finish, but no new ones start.
+          </p>
+        )}
+
+        {jobs.length > 0 ? (
+          <>
+            <p className="text-xs text-slate-400 mb-2">
+              {count('running')} running · {count('queued')} queued ·{' '}
+              {count('completed')} completed · {count('failed')} failed
+            </p>
+            <ul className="space-y-2">
+              {jobs.map(job => (
+                <li
+                  key={job.id}
+                  className="flex items-center justify-between bg-slate-800 rounded-lg px-4 py-2"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-slate-200 truncate">
+                      {job.title}
+                    </p>
+                    <p className="text-xs text-slate-500">{describeJob(job)}</p>
+                    {job.error && job.status !== 'completed' && (
+                      <p className="text-xs text-red-400">{job.error}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`text-xs ${STATUS_CLASSES[job.status]}`}>
+                      {STATUS_LABELS[job.status]}
+                    </span>
+                    {job.status === 'queued' && (
+                      <>
+                        {job.id !== nextJobId && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              handleAction(() =>
+                                queue.setPriority(job.id, topPriority + 1)
+                              )
+                            }
+                          >
+                            Run next
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            handleAction(() => queue.pauseJob(job.id))
+                          }
+                        >
+                          Pause
+                        </Button>
+                      </>
+                    )}
+                    {job.status === 'paused' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          handleAction(() => queue.resumeJob(job.id))
+                        }
+                      >
+                        Resume
+                      </Button>
+                    )}
+                    {(job.status === 'failed' ||
+                      job.status === 'cancelled') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          handleAction(() => queue.retryJob(job.id))
+                        }
+                      >
+                        Retry
+                      </Button>
+                    )}
+                    {['queued', 'paused', 'running'].includes(job.status) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          handleAction(() => queue.cancelJob(job.id))
+                        }
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="text-sm text-slate-500">No jobs are queued.</p>
+        )}
+
+        {error && <p className="text-sm text-red-400 mt-4">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
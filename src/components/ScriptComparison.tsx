@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTheme } from './ThemeProvider';
 import { Card, CardContent, CardHeader } from './ui/Card';
@@ -6,7 +6,8 @@ import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { ScriptRating } from './ScriptRating';
 import { ComparisonExport } from './ComparisonExport';
-import { ScriptWithSummary, ScriptEvaluation } from '../types';
+import { CharacterAnalyticsService } from '../services/analytics';
+import { ScriptWithSummary, ScriptEvaluation, CharacterReport } from '../types';
 
 interface ScriptComparisonProps {
   scripts: ScriptWithSummary[];
@@ -51,6 +52,20 @@ export const ScriptComparison: React.FC<ScriptComparisonProps> = ({
       !selectedScripts.find(selected => selected.id === script.id)
   );
 
+  // Dialogue statistics for the selected scripts with loaded content
+  const characterReports = useMemo(() => {
+    const reports: Record<string, CharacterReport> = {};
+    selectedScripts.forEach(script => {
+      if (script.content) {
+        reports[script.id] = CharacterAnalyticsService.analyze(
+          script.content,
+          script.elements
+        );
+      }
+    });
+    return reports;
+  }, [selectedScripts]);
+
   // Calculate comparison metrics
   const calculateMetrics = (
     script1: ScriptWithSummary,
@@ -454,6 +469,38 @@ export const ScriptComparison: React.FC<ScriptComparisonProps> = ({
                               </div>
                             </div>
 
+                            {/* Dialogue */}
+                            {characterReports[script.id] && (
+                              <div>
+                                <h4 className="font-medium text-slate-200 mb-2">
+                                  Dialogue (
+                                  {
+                                    characterReports[script.id].characters
+                                      .length
+                                  }{' '}
+                                  speaking)
+                                </h4>
+                                <div className="space-y-1">
+                                  {characterReports[script.id].characters
+                                    .slice(0, 5)
+                                    .map(character => (
+                                      <div
+                                        key={character.name}
+                                        className="flex justify-between text-sm"
+                                      >
+                                        <span className="text-slate-100">
+                                          {character.name}
+                                        </span>
+                                        <span className="text-slate-400">
+                                          {character.dialogueLines} lines ·{' '}
+                                          {character.sceneCount} scenes
+                                        </span>
+                                      </div>
+                                    ))}
+                                </div>
+                              </div>
+                            )}
+
                             {/* Themes */}
                             <div>
                               <h4 className="font-medium text-slate-200 mb-2">
@@ -1,15 +1,21 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useTheme } from './ThemeProvider';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Card, CardContent } from './ui/Card';
+import type {
+  DatabaseScriptSearchResult,
+  SearchSnippetSegment,
+} from '../database/types';
 
 interface ProcessedScript {
   id: string;
   title: string;
   content: string;
   filePath: string;
+  fileMissing?: boolean;
+  processingError?: string;
   summary?: any;
 }
 
@@ -24,6 +30,9 @@ const getWordCount = (content: string): number => {
   return content.trim().split(/\s+/).length;
 };
 
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 200;
+
 export const ScriptLibrary: React.FC<ScriptLibraryProps> = ({
   scripts,
   onScriptSelect,
@@ -32,11 +41,49 @@ export const ScriptLibrary: React.FC<ScriptLibraryProps> = ({
 }) => {
   const { animationsEnabled } = useTheme();
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<
+    DatabaseScriptSearchResult[] | null
+  >(null);
+
+  // Search script text, summaries and notes in the database
+  useEffect(() => {
+    setSearchResults(null);
+    if (!searchQuery.trim()) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      window.electronAPI.db
+        .searchScripts(searchQuery)
+        .then(results => {
+          if (!cancelled) {
+            setSearchResults(results);
+          }
+        })
+        .catch(error => console.error('Failed to search scripts:', error));
+    }, SEARCH_DELAY_MS);
 
-  // Filter scripts based on search
-  const filteredScripts = scripts.filter(script =>
-    script.title.toLowerCase().includes(searchQuery.toLowerCase())
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
+  // Best matches first; titles are filtered until the search returns
+  const snippets = new Map<string, SearchSnippetSegment[]>(
+    searchResults?.map(result => [result.id.toString(), result.snippet])
   );
+  const filteredScripts = !searchQuery.trim()
+    ? scripts
+    : searchResults
+      ? searchResults.flatMap(
+          result =>
+            scripts.find(script => script.id === result.id.toString()) ?? []
+        )
+      : scripts.filter(script =>
+          script.title.toLowerCase().includes(searchQuery.toLowerCase())
+        );
 
   return (
     <div className={`w-full space-y-6 ${className}`}>
@@ -52,7 +99,7 @@ export const ScriptLibrary: React.FC<ScriptLibraryProps> = ({
       <div className="max-w-md">
         <Input
           type="text"
-          placeholder="Search scripts..."
+          placeholder="Search scripts, or try character:Maya or theme:grief"
           value={searchQuery}
           onChange={e => setSearchQuery(e.target.value)}
           className="w-full"
@@ -135,8 +182,36 @@ export const ScriptLibrary: React.FC<ScriptLibraryProps> = ({
                     <div className="truncate">
                       Path: {script.filePath.split('/').pop()}
                     </div>
+                    {script.fileMissing && (
+                      <div className="text-amber-400">Source file missing</div>
+                    )}
+                    {script.processingError && (
+                      <div
+                        className="text-amber-400"
+                        title={script.processingError}
+                      >
+                        Source file changed but could not be read
+                      </div>
+                    )}
                   </div>
 
+                  {snippets.get(script.id)?.length ? (
+                    <p className="mt-4 text-sm text-slate-400 line-clamp-3">
+                      {snippets.get(script.id)?.map((segment, i) =>
+                        segment.highlighted ? (
+                          <mark
+                            key={i}
+                            className="bg-amber-400/20 text-amber-200 rounded px-0.5"
+                          >
+                            {segment.text}
+                          </mark>
+                        ) : (
+                          <span key={i}>{segment.text}</span>
+                        )
+                      )}
+                    </p>
+                  ) : null}
+
                   {script.summary && (
                     <div className="mt-4 p-3 bg-slate-800 rounded-lg">
                       <p className="text-sm text-slate-300 line-clamp-3">
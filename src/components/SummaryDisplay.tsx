@@ -1,13 +1,20 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useTheme } from './ThemeProvider';
 import { Card, CardContent, CardHeader } from './ui/Card';
 import { Button } from './ui/Button';
+import { CharacterAnalyticsService } from '../services/analytics';
+import { SummaryStreamTracker } from '../services/llm/summary-stream';
+import { SummaryVersionService } from '../services/summary-versions';
+import type { ScreenplayElement } from '../types/file-processing';
+import type { GenerationProgress } from '../types/llm-service';
+import type { SummaryVersion } from '../types/summary-version';
 
 interface ProcessedScript {
   id: string;
   title: string;
   content: string;
+  elements?: ScreenplayElement[];
   filePath: string;
   summary?: any;
 }
@@ -15,6 +22,14 @@ interface ProcessedScript {
 interface SummaryDisplayProps {
   script: ProcessedScript;
   summary?: any;
+  generationProgress?: GenerationProgress;
+  onCancelGeneration?: (operationId: string) => void;
+  /** Every generated version of the summary, newest first */
+  versions?: SummaryVersion[];
+  /** Pin a version as the official summary, or unpin with null */
+  onPinVersion?: (summaryId: number | null) => void;
+  /** Generate a new version of the summary */
+  onRegenerate?: () => void;
   className?: string;
 }
 
@@ -22,12 +37,73 @@ const getWordCount = (content: string): number => {
   return content.trim().split(/\s+/).length;
 };
 
+const formatTimeRemaining = (milliseconds: number): string => {
+  const seconds = Math.ceil(milliseconds / 1000);
+  return seconds < 60
+    ? `About ${seconds}s remaining`
+    : `About ${Math.ceil(seconds / 60)} min remaining`;
+};
+
+const describeVersion = (version: SummaryVersion): string =>
+  [
+    `Version ${version.version}`,
+    version.modelUsed || 'Unknown model',
+    version.createdAt.toLocaleString(),
+    ...(version.pinned ? ['Official'] : []),
+  ].join(' · ');
+
 export const SummaryDisplay: React.FC<SummaryDisplayProps> = ({
   script,
   summary,
+  generationProgress,
+  onCancelGeneration,
+  versions = [],
+  onPinVersion,
+  onRegenerate,
   className = '',
 }) => {
   const { animationsEnabled } = useTheme();
+  // The official version is shown until another one is picked
+  const [selectedVersionId, setSelectedVersionId] = useState<number | null>(
+    null
+  );
+  const [compareVersionId, setCompareVersionId] = useState<number | null>(null);
+  const officialVersion = SummaryVersionService.getOfficial(versions);
+  const selectedVersion =
+    versions.find(version => version.id === selectedVersionId) ??
+    officialVersion;
+  const compareVersion = versions.find(
+    version =>
+      version.id === compareVersionId && version.id !== selectedVersion?.id
+  );
+  const shownSummary =
+    selectedVersion && selectedVersion.id !== officialVersion?.id
+      ? selectedVersion
+      : summary;
+  const versionDiffs = useMemo(() => {
+    if (!selectedVersion || !compareVersion) {
+      return [];
+    }
+    const [older, newer] =
+      compareVersion.version < selectedVersion.version
+        ? [compareVersion, selectedVersion]
+        : [selectedVersion, compareVersion];
+    return SummaryVersionService.diff(older, newer).filter(
+      diff => diff.changed
+    );
+  }, [selectedVersion, compareVersion]);
+  const characterReport = useMemo(
+    () => CharacterAnalyticsService.analyze(script.content, script.elements),
+    [script.content, script.elements]
+  );
+  const partialSections = useMemo(
+    () =>
+      SummaryStreamTracker.splitSections(generationProgress?.partialText ?? ''),
+    [generationProgress?.partialText]
+  );
+
+  const formatAppearance = (sceneIndex: number | null): string =>
+    sceneIndex === null ? 'Opening' : `Scene ${sceneIndex}`;
 
   return (
     <div className={`w-full space-y-6 ${className}`}>
@@ -49,15 +125,208 @@ export const SummaryDisplay: React.FC<SummaryDisplayProps> = ({
                 <div>
                   Words: {getWordCount(script.content).toLocaleString()}
                 </div>
-                <div>Status: {summary ? 'Analyzed' : 'Uploaded'}</div>
+                <div>
+                  Status:{' '}
+                  {generationProgress
+                    ? 'Analyzing'
+                    : summary
+                      ? 'Analyzed'
+                      : 'Uploaded'}
+                </div>
               </div>
             </div>
           </CardHeader>
         </Card>
       </motion.div>
 
+      {/* Versions */}
+      {(versions.length > 0 || onRegenerate) && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+                <span className="mr-2">🕘</span>
+                Versions ({versions.length})
+              </h3>
+              <div className="flex gap-2">
+                {selectedVersion && onPinVersion && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() =>
+                      onPinVersion(
+                        selectedVersion.pinned ? null : selectedVersion.id
+                      )
+                    }
+                  >
+                    {selectedVersion.pinned ? 'Unpin' : 'Pin as official'}
+                  </Button>
+                )}
+                {onRegenerate && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={Boolean(generationProgress)}
+                    onClick={onRegenerate}
+                  >
+                    Regenerate
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {selectedVersion ? (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-4">
+                  <label className="block text-sm text-slate-300">
+                    <span className="block mb-1">Summary version</span>
+                    <select
+                      className="bg-slate-800 rounded-lg px-3 py-2 text-slate-200"
+                      value={selectedVersion.id}
+                      onChange={e =>
+                        setSelectedVersionId(parseInt(e.target.value))
+                      }
+                    >
+                      {versions.map(version => (
+                        <option key={version.id} value={version.id}>
+                          {describeVersion(version)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {versions.length > 1 && (
+                    <label className="block text-sm text-slate-300">
+                      <span className="block mb-1">Compare with</span>
+                      <select
+                        className="bg-slate-800 rounded-lg px-3 py-2 text-slate-200"
+                        value={compareVersion?.id ?? ''}
+                        onChange={e =>
+                          setCompareVersionId(
+                            e.target.value ? parseInt(e.target.value) : null
+                          )
+                        }
+                      >
+                        <option value="">No comparison</option>
+                        {versions
+                          .filter(version => version.id !== selectedVersion.id)
+                          .map(version => (
+                            <option key={version.id} value={version.id}>
+                              {describeVersion(version)}
+                            </option>
+                          ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+
+                {compareVersion &&
+                  (versionDiffs.length > 0 ? (
+                    <div className="space-y-3">
+                      {versionDiffs.map(diff => (
+                        <div
+                          key={diff.field}
+                          className="bg-slate-800/30 p-4 rounded-lg"
+                        >
+                          <h4 className="font-semibold text-slate-100 mb-2">
+                            {diff.label}
+                          </h4>
+                          <ul className="space-y-1 text-sm">
+                            {diff.removed.map(item => (
+                              <li key={`-${item}`} className="text-red-400">
+                                − {item}
+                              </li>
+                            ))}
+                            {diff.added.map(item => (
+                              <li key={`+${item}`} className="text-green-400">
+                                + {item}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-400">
+                      The versions are the same.
+                    </p>
+                  ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400">
+                No versions have been generated yet.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Summary being generated, above the current version */}
+      {generationProgress && (
+        <div className="space-y-6">
+          {/* Generation Progress */}
+          <Card>
+            <CardContent className="py-6">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-slate-200">
+                  {generationProgress.message}
+                </span>
+                <div className="flex items-center space-x-2">
+                  <span className="text-xs text-slate-400">
+                    {generationProgress.progress}%
+                  </span>
+                  {onCancelGeneration &&
+                    generationProgress.cancellable &&
+                    generationProgress.stage !== 'cancelled' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          onCancelGeneration(generationProgress.operationId)
+                        }
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                </div>
+              </div>
+              <div className="w-full bg-slate-700 rounded-full h-2 overflow-hidden">
+                <motion.div
+                  className="h-full rounded-full bg-primary-500"
+                  initial={{ width: 0 }}
+                  animate={{ width: `${generationProgress.progress}%` }}
+                />
+              </div>
+              {generationProgress.estimatedTimeRemaining !== undefined && (
+                <p className="text-xs text-slate-400 mt-2">
+                  {formatTimeRemaining(
+                    generationProgress.estimatedTimeRemaining
+                  )}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Summary so far */}
+          {partialSections.map((section, index) => (
+            <Card key={index}>
+              <CardHeader>
+                <h3 className="text-lg font-semibold text-slate-100">
+                  {section.title}
+                </h3>
+              </CardHeader>
+              <CardContent>
+                <p className="text-slate-300 leading-relaxed whitespace-pre-line">
+                  {section.text}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
       {/* Content */}
-      {summary ? (
+      {shownSummary ? (
         <div className="space-y-6">
           {/* Plot Overview */}
           <Card>
@@ -69,44 +338,46 @@ export const SummaryDisplay: React.FC<SummaryDisplayProps> = ({
             </CardHeader>
             <CardContent>
               <p className="text-slate-300 leading-relaxed">
-                {summary.plotOverview || 'No plot overview available'}
+                {shownSummary.plotOverview || 'No plot overview available'}
               </p>
             </CardContent>
           </Card>
 
           {/* Characters */}
-          {summary.mainCharacters && summary.mainCharacters.length > 0 && (
-            <Card>
-              <CardHeader>
-                <h3 className="text-lg font-semibold text-slate-100 flex items-center">
-                  <span className="mr-2">🎭</span>
-                  Characters ({summary.mainCharacters.length})
-                </h3>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {summary.mainCharacters.map(
-                    (character: unknown, index: number) => (
-                      <div
-                        key={index}
-                        className="bg-slate-800/30 p-4 rounded-lg"
-                      >
-                        <h4 className="font-semibold text-slate-100 mb-2">
-                          {character.name || `Character ${index + 1}`}
-                        </h4>
-                        <p className="text-slate-300 text-sm">
-                          {character.description || 'No description available'}
-                        </p>
-                      </div>
-                    )
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          {shownSummary.mainCharacters &&
+            shownSummary.mainCharacters.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+                    <span className="mr-2">🎭</span>
+                    Characters ({shownSummary.mainCharacters.length})
+                  </h3>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {shownSummary.mainCharacters.map(
+                      (character: unknown, index: number) => (
+                        <div
+                          key={index}
+                          className="bg-slate-800/30 p-4 rounded-lg"
+                        >
+                          <h4 className="font-semibold text-slate-100 mb-2">
+                            {character.name || `Character ${index + 1}`}
+                          </h4>
+                          <p className="text-slate-300 text-sm">
+                            {character.description ||
+                              'No description available'}
+                          </p>
+                        </div>
+                      )
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
 
           {/* Themes */}
-          {summary.themes && summary.themes.length > 0 && (
+          {shownSummary.themes && shownSummary.themes.length > 0 && (
             <Card>
               <CardHeader>
                 <h3 className="text-lg font-semibold text-slate-100 flex items-center">
@@ -116,7 +387,7 @@ export const SummaryDisplay: React.FC<SummaryDisplayProps> = ({
               </CardHeader>
               <CardContent>
                 <div className="flex flex-wrap gap-2">
-                  {summary.themes.map((theme: string, index: number) => (
+                  {shownSummary.themes.map((theme: string, index: number) => (
                     <span
                       key={index}
                       className="px-3 py-1 bg-primary-600/20 text-primary-300 rounded-full text-sm"
@@ -130,7 +401,7 @@ export const SummaryDisplay: React.FC<SummaryDisplayProps> = ({
           )}
 
           {/* Genre */}
-          {summary.genre && (
+          {shownSummary.genre && (
             <Card>
               <CardHeader>
                 <h3 className="text-lg font-semibold text-slate-100 flex items-center">
@@ -139,22 +410,80 @@ export const SummaryDisplay: React.FC<SummaryDisplayProps> = ({
                 </h3>
               </CardHeader>
               <CardContent>
-                <p className="text-slate-300">{summary.genre}</p>
+                <p className="text-slate-300">{shownSummary.genre}</p>
               </CardContent>
             </Card>
           )}
         </div>
       ) : (
+        !generationProgress && (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="text-6xl mb-4">⏳</div>
+              <h3 className="text-lg font-semibold text-slate-300 mb-2">
+                No Summary Available
+              </h3>
+              <p className="text-slate-400">
+                This script hasn't been analyzed yet or the analysis is still in
+                progress.
+              </p>
+            </CardContent>
+          </Card>
+        )
+      )}
+
+      {/* Dialogue Statistics */}
+      {characterReport.characters.length > 0 && (
         <Card>
-          <CardContent className="text-center py-12">
-            <div className="text-6xl mb-4">⏳</div>
-            <h3 className="text-lg font-semibold text-slate-300 mb-2">
-              No Summary Available
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+              <span className="mr-2">💬</span>
+              Dialogue Statistics ({characterReport.characters.length})
             </h3>
-            <p className="text-slate-400">
-              This script hasn't been analyzed yet or the analysis is still in
-              progress.
-            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-slate-400">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">Character</th>
+                    <th className="py-2 pr-4 font-medium text-right">Lines</th>
+                    <th className="py-2 pr-4 font-medium text-right">Words</th>
+                    <th className="py-2 pr-4 font-medium text-right">Scenes</th>
+                    <th className="py-2 pr-4 font-medium">First</th>
+                    <th className="py-2 font-medium">Last</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-300">
+                  {characterReport.characters.map(character => (
+                    <tr
+                      key={character.name}
+                      className="border-t border-slate-700/50"
+                    >
+                      <td className="py-2 pr-4 text-slate-100">
+                        {character.name}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {character.dialogueLines}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {character.dialogueWords.toLocaleString()} (
+                        {Math.round(character.dialogueShare * 100)}%)
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {character.sceneCount}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {formatAppearance(character.firstAppearance.sceneIndex)}
+                      </td>
+                      <td className="py-2">
+                        {formatAppearance(character.lastAppearance.sceneIndex)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,93 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AnalysisSettings } from '../AnalysisSettings';
+import { ThemeProvider } from '../ThemeProvider';
+import { LLMModel } from '../../types/llm-service';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ThemeProvider defaultTheme="dark" enableAnimations={false}>
+    {children}
+  </ThemeProvider>
+);
+
+const models = [
+  { id: 'llama2:7b', name: 'llama2:7b', performance: {} },
+  {
+    id: 'mistral:7b',
+    name: 'mistral:7b',
+    performance: {
+      tokensPerSecond: 41.6,
+      accuracy: 0.83,
+      benchmarkedAt: new Date('2024-01-15T10:30:00Z'),
+    },
+  },
+] as LLMModel[];
+
+describe('AnalysisSettings', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    mockOnChange.mockClear();
+  });
+
+  it('turns deep analysis on', () => {
+    render(
+      <TestWrapper>
+        <AnalysisSettings
+          settings={{ deepAnalysis: false, passModels: {} }}
+          models={models}
+          onChange={mockOnChange}
+        />
+      </TestWrapper>
+    );
+
+    // Pass models are only offered once deep analysis is on
+    expect(screen.queryByLabelText('Themes model')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Run deep analysis'));
+    expect(mockOnChange).toHaveBeenCalledWith({
+      deepAnalysis: true,
+      passModels: {},
+    });
+  });
+
+  it('chooses a model for each pass', () => {
+    render(
+      <TestWrapper>
+        <AnalysisSettings
+          settings={{
+            deepAnalysis: true,
+            passModels: { characters: 'llama2:7b' },
+          }}
+          models={models}
+          onChange={mockOnChange}
+        />
+      </TestWrapper>
+    );
+
+    fireEvent.change(screen.getByLabelText('Themes model'), {
+      target: { value: 'mistral:7b' },
+    });
+    expect(mockOnChange).toHaveBeenLastCalledWith({
+      deepAnalysis: true,
+      passModels: { characters: 'llama2:7b', themes: 'mistral:7b' },
+    });
+
+    // Benchmarked models show their measured speed and accuracy
+    expect(
+      screen.getAllByRole('option', {
+        name: 'mistral:7b (42 tokens/s, 83% accuracy)',
+      })
+    ).toHaveLength(3);
+
+    // Choosing the active model clears the override
+    fireEvent.change(screen.getByLabelText('Characters model'), {
+      target: { value: '' },
+    });
+    expect(mockOnChange).toHaveBeenLastCalledWith({
+      deepAnalysis: true,
+      passModels: {},
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CoverageReportDisplay } from '../CoverageReportDisplay';
+import { ThemeProvider } from '../ThemeProvider';
+import type { CoverageReport } from '../../types/coverage';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ThemeProvider defaultTheme="dark" enableAnimations={false}>
+    {children}
+  </ThemeProvider>
+);
+
+const report: CoverageReport = {
+  id: 'coverage-1',
+  scriptId: 'script-1',
+  logline: 'A retired safecracker must pull one last job.',
+  synopsis: 'MAYA is pulled back into the game.',
+  comments: 'Lean and well paced.',
+  ratings: {
+    premise: 'good',
+    structure: 'fair',
+    characters: 'excellent',
+    dialogue: 'good',
+    marketability: 'poor',
+  },
+  verdict: 'recommend',
+  genre: 'Crime Thriller',
+  modelUsed: 'llama3.1:8b',
+  createdAt: new Date('2024-01-15T10:30:00Z'),
+};
+
+describe('CoverageReportDisplay', () => {
+  const mockOnGenerate = vi.fn();
+  const mockFile = {
+    saveDialog: vi.fn(),
+    write: vi.fn(),
+  };
+
+  beforeEach(() => {
+    mockOnGenerate.mockClear();
+    mockFile.saveDialog
+      .mockReset()
+      .mockResolvedValue({ canceled: false, filePath: '/tmp/coverage.txt' });
+    mockFile.write.mockReset().mockResolvedValue({ success: true });
+    Object.defineProperty(window, 'electronAPI', {
+      value: { file: mockFile },
+      configurable: true,
+    });
+  });
+
+  const renderDisplay = (
+    props: {
+      report?: CoverageReport;
+      isGenerating?: boolean;
+      onCancel?: () => void;
+    } = {}
+  ) =>
+    render(
+      <TestWrapper>
+        <CoverageReportDisplay
+          title="The Last Job"
+          onGenerate={mockOnGenerate}
+          {...props}
+        />
+      </TestWrapper>
+    );
+
+  it('offers to generate coverage when there is no report', () => {
+    renderDisplay();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Generate coverage' }));
+    expect(mockOnGenerate).toHaveBeenCalled();
+    expect(
+      screen.queryByRole('button', { name: 'Export' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('offers to cancel coverage while it is generating', () => {
+    const onCancel = vi.fn();
+    renderDisplay({ isGenerating: true, onCancel });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('shows the report with its ratings and verdict', () => {
+    renderDisplay({ report });
+
+    expect(screen.getByText('RECOMMEND')).toBeInTheDocument();
+    expect(screen.getByText(report.logline)).toBeInTheDocument();
+    expect(screen.getByText(report.synopsis)).toBeInTheDocument();
+    expect(screen.getByText(report.comments)).toBeInTheDocument();
+
+    const row = screen.getByText('Characters').closest('tr')!;
+    const cells = Array.from(row.querySelectorAll('td'));
+    // Columns are excellent, good, fair, poor after the category
+    expect(cells[1]).toHaveTextContent('✓');
+    expect(cells[2]).toHaveTextContent('');
+  });
+
+  it('exports the report to the coverage template', async () => {
+    renderDisplay({ report });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+
+    await waitFor(() => {
+      expect(mockFile.write).toHaveBeenCalledWith(
+        '/tmp/coverage.txt',
+        expect.stringContaining('Title: The Last Job')
+      );
+    });
+    expect(mockFile.saveDialog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        defaultPath: expect.stringMatching(/^The_Last_Job_coverage_/),
+      })
+    );
+  });
+});
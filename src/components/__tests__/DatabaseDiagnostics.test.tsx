@@ -0,0 +1,107 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DatabaseDiagnostics } from '../DatabaseDiagnostics';
+import { ThemeProvider } from '../ThemeProvider';
+import type { DatabaseDiagnostics as Diagnostics } from '../../types/diagnostics';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ThemeProvider defaultTheme="dark" enableAnimations={false}>
+    {children}
+  </ThemeProvider>
+);
+
+const diagnostics = (overrides: Partial<Diagnostics> = {}): Diagnostics => ({
+  databasePath: '/data/script-summarizer.db',
+  appliedMigrations: [
+    { version: '001', appliedAt: new Date('2026-03-01T10:30:00Z') },
+    { version: '002', appliedAt: new Date('2026-03-01T10:30:00Z') },
+  ],
+  pendingMigrations: [],
+  backups: ['/data/backups/script-summarizer-2026-03-02T09-00-00-000Z.db'],
+  ...overrides,
+});
+
+describe('DatabaseDiagnostics', () => {
+  const mockGetDiagnostics = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.defineProperty(window, 'electronAPI', {
+      value: { db: { getDiagnostics: mockGetDiagnostics } },
+      configurable: true,
+    });
+  });
+
+  const renderDiagnostics = () =>
+    render(
+      <TestWrapper>
+        <DatabaseDiagnostics />
+      </TestWrapper>
+    );
+
+  it('should show the applied migrations and backups', async () => {
+    mockGetDiagnostics.mockResolvedValue(diagnostics());
+
+    renderDiagnostics();
+
+    expect(
+      await screen.findByText('/data/script-summarizer.db')
+    ).toBeInTheDocument();
+    expect(screen.getByText('001')).toBeInTheDocument();
+    expect(screen.getByText('002')).toBeInTheDocument();
+    expect(screen.getByText('The database is up to date.')).toBeInTheDocument();
+    expect(
+      screen.getByText('script-summarizer-2026-03-02T09-00-00-000Z.db')
+    ).toBeInTheDocument();
+  });
+
+  it('should show pending migrations', async () => {
+    mockGetDiagnostics.mockResolvedValue(
+      diagnostics({
+        pendingMigrations: [{ version: '003', description: 'file missing' }],
+        backups: [],
+      })
+    );
+
+    renderDiagnostics();
+
+    expect(await screen.findByText('003 · file missing')).toBeInTheDocument();
+    expect(
+      screen.getByText('The database is backed up before each migration.')
+    ).toBeInTheDocument();
+  });
+
+  it('should reload the diagnostics on refresh', async () => {
+    mockGetDiagnostics.mockResolvedValueOnce(
+      diagnostics({ appliedMigrations: [] })
+    );
+    mockGetDiagnostics.mockResolvedValueOnce(diagnostics());
+
+    renderDiagnostics();
+    expect(
+      await screen.findByText('No migrations have been applied.')
+    ).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Refresh'));
+
+    expect(await screen.findByText('001')).toBeInTheDocument();
+    expect(mockGetDiagnostics).toHaveBeenCalledTimes(2);
+  });
+
+  it('should show errors', async () => {
+    mockGetDiagnostics.mockRejectedValue(
+      new Error('Failed to get database diagnostics: Database not connected')
+    );
+
+    renderDiagnostics();
+
+    await waitFor(() => {
+      expect(
+        screen.getByText(
+          'Failed to get database diagnostics: Database not connected'
+        )
+      ).toBeInTheDocument();
+    });
+  });
+});
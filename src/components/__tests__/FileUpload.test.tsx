@@ -46,7 +46,9 @@ describe('FileUpload', () => {
       )
     ).toBeInTheDocument();
     expect(
-      screen.getByText('Supported formats: .pdf, .docx, .txt • Max size: 50MB')
+      screen.getByText(
+        'Supported formats: .pdf, .docx, .txt, .fdx, .fountain • Max size: 50MB'
+      )
     ).toBeInTheDocument();
     expect(
       screen.getByRole('button', { name: 'Browse Files' })
@@ -263,7 +265,9 @@ describe('FileUpload', () => {
     );
 
     expect(
-      screen.getByText('Supported formats: .pdf, .docx, .txt • Max size: 25MB')
+      screen.getByText(
+        'Supported formats: .pdf, .docx, .txt, .fdx, .fountain • Max size: 25MB'
+      )
     ).toBeInTheDocument();
   });
 
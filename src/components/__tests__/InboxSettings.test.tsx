@@ -0,0 +1,105 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InboxSettings } from '../InboxSettings';
+import { ThemeProvider } from '../ThemeProvider';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ThemeProvider defaultTheme="dark" enableAnimations={false}>
+    {children}
+  </ThemeProvider>
+);
+
+describe('InboxSettings', () => {
+  const mockOnChange = vi.fn();
+  const mockChooseFolder = vi.fn();
+
+  beforeEach(() => {
+    mockOnChange.mockClear();
+    mockChooseFolder.mockReset();
+    Object.defineProperty(window, 'electronAPI', {
+      value: { inbox: { chooseFolder: mockChooseFolder } },
+      configurable: true,
+    });
+  });
+
+  it('lists watched folders with their errors', () => {
+    render(
+      <TestWrapper>
+        <InboxSettings
+          settings={{
+            watchedFolders: ['/shared/inbox', '/missing'],
+            autoSummarizeImports: false,
+          }}
+          status={{
+            watchedFolders: ['/shared/inbox'],
+            autoSummarizeImports: false,
+            pendingFiles: 2,
+            errors: [{ folder: '/missing', message: 'Folder not found' }],
+          }}
+          onChange={mockOnChange}
+        />
+      </TestWrapper>
+    );
+
+    expect(screen.getByText('/shared/inbox')).toBeInTheDocument();
+    expect(screen.getByText('Folder not found')).toBeInTheDocument();
+    expect(screen.getByText('Importing 2 file(s)...')).toBeInTheDocument();
+  });
+
+  it('adds chosen folders', async () => {
+    mockChooseFolder.mockResolvedValue({
+      canceled: false,
+      filePaths: ['/shared/inbox', '/shared/new'],
+    });
+
+    render(
+      <TestWrapper>
+        <InboxSettings
+          settings={{
+            watchedFolders: ['/shared/inbox'],
+            autoSummarizeImports: false,
+          }}
+          onChange={mockOnChange}
+        />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add Folder' }));
+
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenCalledWith({
+        watchedFolders: ['/shared/inbox', '/shared/new'],
+        autoSummarizeImports: false,
+      });
+    });
+  });
+
+  it('removes folders and toggles summary generation', () => {
+    render(
+      <TestWrapper>
+        <InboxSettings
+          settings={{
+            watchedFolders: ['/shared/inbox'],
+            autoSummarizeImports: false,
+          }}
+          onChange={mockOnChange}
+        />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove' }));
+    expect(mockOnChange).toHaveBeenCalledWith({
+      watchedFolders: [],
+      autoSummarizeImports: false,
+    });
+
+    fireEvent.click(
+      screen.getByLabelText('Generate summaries for imported scripts')
+    );
+    expect(mockOnChange).toHaveBeenCalledWith({
+      watchedFolders: ['/shared/inbox'],
+      autoSummarizeImports: true,
+    });
+  });
+});
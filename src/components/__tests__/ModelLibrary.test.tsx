@@ -0,0 +1,176 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ModelLibrary } from '../ModelLibrary';
+import { ThemeProvider } from '../ThemeProvider';
+import type { LLMModel, ModelPullProgress } from '../../types/llm-service';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ThemeProvider defaultTheme="dark" enableAnimations={false}>
+    {children}
+  </ThemeProvider>
+);
+
+const model: LLMModel = {
+  id: 'llama3.1:8b',
+  name: 'llama3.1:8b',
+  description: 'Ollama model: llama3.1:8b',
+  version: 'abc123',
+  parameterCount: '8B',
+  isAvailable: true,
+  isDownloaded: true,
+  capabilities: [],
+  performance: {
+    averageResponseTime: 5000,
+    qualityRating: 4,
+    memoryEfficiency: 3,
+    speedRating: 3,
+  },
+  requirements: {
+    minMemoryGB: 7,
+    recommendedMemoryGB: 14,
+    diskSpaceGB: 5,
+    supportsGPU: true,
+    minCPUCores: 4,
+  },
+  details: { quantization: 'Q4_K_M', sizeBytes: 4920753328 },
+};
+
+describe('ModelLibrary', () => {
+  const mockOnRegistryChange = vi.fn();
+  const mockOnModelsChange = vi.fn();
+  let pullProgress: ((progress: ModelPullProgress) => void) | undefined;
+  const mockLLM = {
+    pullModel: vi.fn(),
+    cancelPull: vi.fn(),
+    deleteModel: vi.fn(),
+    getModelDetails: vi.fn(),
+    onPullProgress: vi.fn(),
+    runBenchmark: vi.fn(),
+    onBenchmarkProgress: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    pullProgress = undefined;
+    mockLLM.onPullProgress.mockImplementation(callback => {
+      pullProgress = callback;
+      return vi.fn();
+    });
+    mockLLM.onBenchmarkProgress.mockReturnValue(vi.fn());
+    mockLLM.deleteModel.mockResolvedValue(undefined);
+    mockLLM.runBenchmark.mockResolvedValue([]);
+    Object.defineProperty(window, 'electronAPI', {
+      value: { llm: mockLLM },
+      configurable: true,
+    });
+  });
+
+  const renderLibrary = (registry = '', models = [model]) =>
+    render(
+      <TestWrapper>
+        <ModelLibrary
+          models={models}
+          registry={registry}
+          onRegistryChange={mockOnRegistryChange}
+          onModelsChange={mockOnModelsChange}
+        />
+      </TestWrapper>
+    );
+
+  it('lists models with their size and quantization', () => {
+    renderLibrary();
+
+    expect(screen.getByText('llama3.1:8b')).toBeInTheDocument();
+    expect(screen.getByText('8B · Q4_K_M · 4.6 GB')).toBeInTheDocument();
+    expect(screen.getByText('Not benchmarked')).toBeInTheDocument();
+  });
+
+  it('shows measured performance of benchmarked models', () => {
+    renderLibrary('', [
+      {
+        ...model,
+        performance: {
+          ...model.performance,
+          tokensPerSecond: 41.6,
+          timeToFirstTokenMs: 352.4,
+          accuracy: 0.83,
+          benchmarkedAt: new Date('2024-01-15T10:30:00Z'),
+        },
+      },
+    ]);
+
+    expect(
+      screen.getByText('42 tokens/s · 352 ms to first token · 83% accuracy')
+    ).toBeInTheDocument();
+  });
+
+  it('benchmarks a model and reloads the list', async () => {
+    renderLibrary();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Benchmark' }));
+
+    await waitFor(() => expect(mockOnModelsChange).toHaveBeenCalled());
+    expect(mockLLM.runBenchmark).toHaveBeenCalledWith(['llama3.1:8b']);
+  });
+
+  it('shows the details Ollama reports', async () => {
+    mockLLM.getModelDetails.mockResolvedValue({
+      family: 'llama',
+      contextLength: 131072,
+      parameters: { temperature: '0.6' },
+    });
+    renderLibrary();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Details' }));
+
+    expect(await screen.findByText('llama')).toBeInTheDocument();
+    expect(screen.getByText((131072).toLocaleString())).toBeInTheDocument();
+    expect(screen.getByText('temperature')).toBeInTheDocument();
+    expect(mockLLM.getModelDetails).toHaveBeenCalledWith('llama3.1:8b');
+  });
+
+  it('deletes a model and reloads the list', async () => {
+    renderLibrary();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(mockOnModelsChange).toHaveBeenCalled());
+    expect(mockLLM.deleteModel).toHaveBeenCalledWith('llama3.1:8b');
+  });
+
+  it('pulls from the registry and shows download progress', async () => {
+    let finishPull: () => void = vi.fn();
+    mockLLM.pullModel.mockReturnValue(
+      new Promise<void>(resolve => {
+        finishPull = resolve;
+      })
+    );
+    renderLibrary('http://mirror.local:5000');
+
+    fireEvent.change(screen.getByPlaceholderText('llama3.1:8b'), {
+      target: { value: 'gemma3:1b' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Pull' }));
+
+    expect(mockLLM.pullModel).toHaveBeenCalledWith('gemma3:1b', {
+      registry: 'http://mirror.local:5000',
+    });
+
+    pullProgress?.({
+      modelName: 'gemma3:1b',
+      status: 'pulling 7cd4618c1faf',
+      completedBytes: 512 * 1024 * 1024,
+      totalBytes: 1024 * 1024 * 1024,
+    });
+
+    expect(await screen.findByText('512.0 MB of 1.0 GB')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toHaveAttribute(
+      'aria-valuenow',
+      '50'
+    );
+
+    finishPull();
+    await waitFor(() => expect(mockOnModelsChange).toHaveBeenCalled());
+  });
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PromptTemplateSettings } from '../PromptTemplateSettings';
+import { ThemeProvider } from '../ThemeProvider';
+import { PromptService } from '../../services/llm/prompt-service';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ThemeProvider defaultTheme="dark" enableAnimations={false}>
+    {children}
+  </ThemeProvider>
+);
+
+const template = {
+  id: 3,
+  name: 'Studio coverage',
+  description: null,
+  body: 'Write studio coverage of {{script}}',
+  version: 2,
+  created_at: '2026-01-01',
+  updated_at: '2026-01-02',
+};
+
+describe('PromptTemplateSettings', () => {
+  const mockOnSelect = vi.fn();
+  const mockDB = {
+    getPromptTemplates: vi.fn(),
+    savePromptTemplate: vi.fn(),
+    deletePromptTemplate: vi.fn(),
+  };
+
+  beforeEach(() => {
+    mockOnSelect.mockClear();
+    mockDB.getPromptTemplates.mockReset().mockResolvedValue([template]);
+    mockDB.savePromptTemplate.mockReset().mockResolvedValue(template);
+    mockDB.deletePromptTemplate.mockReset().mockResolvedValue(undefined);
+    Object.defineProperty(window, 'electronAPI', {
+      value: { db: mockDB },
+      configurable: true,
+    });
+  });
+
+  const renderSettings = (selectedTemplateId?: string) =>
+    render(
+      <TestWrapper>
+        <PromptTemplateSettings
+          selectedTemplateId={selectedTemplateId}
+          onSelect={mockOnSelect}
+        />
+      </TestWrapper>
+    );
+
+  it('lists stored templates with their versions', async () => {
+    renderSettings();
+
+    expect(await screen.findByText('Version 2')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Template for new summaries'), {
+      target: { value: '3' },
+    });
+    expect(mockOnSelect).toHaveBeenCalledWith('3');
+  });
+
+  it('edits a template and resets it to the default', async () => {
+    renderSettings();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Edit' }));
+    const body = screen.getByLabelText('Template');
+    expect(body).toHaveValue('Write studio coverage of {{script}}');
+
+    // Templates without the script cannot be saved
+    fireEvent.change(body, { target: { value: 'Write coverage' } });
+    expect(
+      screen.getByText('The template must include {{script}}')
+    ).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset to default' }));
+    expect(body).toHaveValue(PromptService.DEFAULT_SUMMARY_TEMPLATE);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    await waitFor(() => {
+      expect(mockDB.savePromptTemplate).toHaveBeenCalledWith({
+        id: 3,
+        name: 'Studio coverage',
+        description: null,
+        body: PromptService.DEFAULT_SUMMARY_TEMPLATE,
+      });
+    });
+  });
+
+  it('falls back to the built-in template when the selected one is deleted', async () => {
+    renderSettings('3');
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => {
+      expect(mockDB.deletePromptTemplate).toHaveBeenCalledWith('3');
+      expect(mockOnSelect).toHaveBeenCalledWith(undefined);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ProviderSettings } from '../ProviderSettings';
+import { ThemeProvider } from '../ThemeProvider';
+import { LLMProviderInfo } from '../../types/llm-service';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ThemeProvider defaultTheme="dark" enableAnimations={false}>
+    {children}
+  </ThemeProvider>
+);
+
+const providers: LLMProviderInfo[] = [
+  {
+    id: 'ollama',
+    name: 'Ollama',
+    description: 'Models run by a local Ollama server',
+    defaultEndpoint: 'http://localhost:11434',
+  },
+  {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible',
+    description: 'Servers with an OpenAI-compatible API',
+    defaultEndpoint: 'http://localhost:8080',
+  },
+];
+
+describe('ProviderSettings', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    mockOnChange.mockClear();
+  });
+
+  it('shows the connection status', () => {
+    render(
+      <TestWrapper>
+        <ProviderSettings
+          settings={{ provider: 'ollama', endpoint: '' }}
+          providers={providers}
+          status={{
+            isRunning: false,
+            version: 'Unknown',
+            availableModels: 0,
+            lastHealthCheck: new Date(),
+            warnings: ['Service connection failed: fetch failed'],
+          }}
+          onChange={mockOnChange}
+        />
+      </TestWrapper>
+    );
+
+    expect(
+      screen.getByText('Service connection failed: fetch failed')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByPlaceholderText('http://localhost:11434')
+    ).toBeInTheDocument();
+  });
+
+  it('connects to the chosen provider and endpoint', () => {
+    render(
+      <TestWrapper>
+        <ProviderSettings
+          settings={{ provider: 'ollama', endpoint: '' }}
+          providers={providers}
+          onChange={mockOnChange}
+        />
+      </TestWrapper>
+    );
+
+    fireEvent.change(screen.getByLabelText('Provider'), {
+      target: { value: 'openai-compatible' },
+    });
+    fireEvent.change(screen.getByLabelText('Endpoint'), {
+      target: { value: 'http://localhost:1234' },
+    });
+    fireEvent.change(screen.getByLabelText('API key (optional)'), {
+      target: { value: 'secret' },
+    });
+
+    // Nothing is applied until Connect is pressed
+    expect(mockOnChange).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Connect' }));
+    expect(mockOnChange).toHaveBeenCalledWith({
+      provider: 'openai-compatible',
+      endpoint: 'http://localhost:1234',
+      apiKey: 'secret',
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QueuePanel } from '../QueuePanel';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Job, JobQueueStatus } from '../../types/jobs';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ThemeProvider defaultTheme="dark" enableAnimations={false}>
+    {children}
+  </ThemeProvider>
+);
+
+const job = (overrides: Partial<Job>): Job => ({
+  id: 1,
+  type: 'process',
+  status: 'queued',
+  priority: 0,
+  filePath: '/scripts/pilot.pdf',
+  title: 'pilot.pdf',
+  attempts: 0,
+  maxAttempts: 3,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const queueStatus = (jobs: Job[], paused = false): JobQueueStatus => ({
+  paused,
+  concurrency: 2,
+  jobs,
+});
+
+describe('QueuePanel', () => {
+  const mockOnSummarizeAll = vi.fn();
+  const mockOnConcurrencyChange = vi.fn();
+  let statusListener: ((status: JobQueueStatus) => void) | undefined;
+  const mockQueue = {
+    getStatus: vi.fn(),
+    onStatus: vi.fn(),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    pauseJob: vi.fn(),
+    resumeJob: vi.fn(),
+    setPriority: vi.fn(),
+    cancelJob: vi.fn(),
+    retryJob: vi.fn(),
+    clearFinished: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    statusListener = undefined;
+    mockQueue.onStatus.mockImplementation(callback => {
+      statusListener = callback;
+      return vi.fn();
+    });
+    Object.defineProperty(window, 'electronAPI', {
+      value: { queue: mockQueue },
+      configurable: true,
+    });
+  });
+
+  const renderPanel = (status: JobQueueStatus, unsummarizedCount = 0) => {
+    mockQueue.getStatus.mockResolvedValue(status);
+    return render(
+      <TestWrapper>
+        <QueuePanel
+          unsummarizedCount={unsummarizedCount}
+          onSummarizeAll={mockOnSummarizeAll}
+          onConcurrencyChange={mockOnConcurrencyChange}
+        />
+      </TestWrapper>
+    );
+  };
+
+  it('should list jobs with their status and errors', async () => {
+    renderPanel(
+      queueStatus([
+        job({ id: 1, status: 'running', attempts: 2 }),
+        job({
+          id: 2,
+          type: 'summarize',
+          status: 'failed',
+          title: 'Finale',
+          error: 'Model not found',
+        }),
+      ])
+    );
+
+    expect(await screen.findByText('pilot.pdf')).toBeInTheDocument();
+    expect(screen.getByText('Processing · Attempt 2 of 3')).toBeInTheDocument();
+    expect(screen.getByText('Failed')).toBeInTheDocument();
+    expect(screen.getByText('Model not found')).toBeInTheDocument();
+    expect(
+      screen.getByText('1 running · 0 queued · 0 completed · 1 failed')
+    ).toBeInTheDocument();
+  });
+
+  it('should follow status updates from the main process', async () => {
+    renderPanel(queueStatus([]));
+    expect(await screen.findByText('No jobs are queued.')).toBeInTheDocument();
+
+    statusListener?.(queueStatus([job({ status: 'completed' })]));
+
+    expect(await screen.findByText('Completed')).toBeInTheDocument();
+  });
+
+  it('should move a queued job ahead of the others', async () => {
+    const jobs = [job({ id: 1 }), job({ id: 2, title: 'finale.pdf' })];
+    mockQueue.setPriority.mockResolvedValue(queueStatus(jobs));
+    renderPanel(queueStatus(jobs));
+
+    // The job that starts next cannot be moved ahead
+    const runNext = await screen.findAllByRole('button', { name: 'Run next' });
+    expect(runNext).toHaveLength(1);
+
+    fireEvent.click(runNext[0]);
+
+    await waitFor(() => {
+      expect(mockQueue.setPriority).toHaveBeenCalledWith(2, 1);
+    });
+  });
+
+  it('should pause and resume the queue', async () => {
+    mockQueue.pause.mockResolvedValue(queueStatus([], true));
+    renderPanel(queueStatus([]));
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Pause queue' }));
+
+    expect(
+      await screen.findByRole('button', { name: 'Resume queue' })
+    ).toBeInTheDocument();
+    expect(screen.getByText(/The queue is paused/)).toBeInTheDocument();
+  });
+
+  it('should retry failed jobs and show why actions fail', async () => {
+    mockQueue.retryJob.mockRejectedValue(
+      new Error('Failed to update job: Job 1 not found')
+    );
+    renderPanel(queueStatus([job({ status: 'failed' })]));
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Retry' }));
+
+    expect(
+      await screen.findByText('Failed to update job: Job 1 not found')
+    ).toBeInTheDocument();
+    expect(mockQueue.retryJob).toHaveBeenCalledWith(1);
+  });
+
+  it('should summarize unsummarized scripts and change the concurrency', async () => {
+    renderPanel(queueStatus([]), 3);
+
+    fireEvent.click(
+      await screen.findByRole('button', {
+        name: 'Summarize 3 unsummarized scripts',
+      })
+    );
+    fireEvent.change(screen.getByLabelText('Jobs at a time'), {
+      target: { value: '4' },
+    });
+
+    expect(mockOnSummarizeAll).toHaveBeenCalled();
+    expect(mockOnConcurrencyChange).toHaveBeenCalledWith(4);
+  });
+});
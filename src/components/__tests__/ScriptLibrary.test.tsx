@@ -418,4 +418,88 @@ describe('ScriptLibrary', () => {
       ).toBeInTheDocument();
     });
   });
+
+  describe('full-text search', () => {
+    const scripts = [
+      {
+        id: '1',
+        title: 'Night Heist',
+        content: 'INT. BANK - NIGHT',
+        filePath: '/scripts/heist.fountain',
+      },
+      {
+        id: '2',
+        title: 'The Lighthouse',
+        content: 'EXT. LIGHTHOUSE - NIGHT',
+        filePath: '/scripts/lighthouse.fountain',
+      },
+    ];
+    const mockSearchScripts = vi.fn();
+
+    beforeEach(() => {
+      mockSearchScripts.mockReset();
+      Object.defineProperty(window, 'electronAPI', {
+        value: { db: { searchScripts: mockSearchScripts } },
+        configurable: true,
+      });
+    });
+
+    it('shows the best matches first with highlighted snippets', async () => {
+      mockSearchScripts.mockResolvedValue([
+        {
+          id: 2,
+          title: 'The Lighthouse',
+          score: -4.2,
+          snippet: [
+            { text: 'A ', highlighted: false },
+            { text: 'Maya', highlighted: true },
+            { text: ' keeps the light', highlighted: false },
+          ],
+        },
+        { id: 1, title: 'Night Heist', score: -1.3, snippet: [] },
+      ]);
+
+      render(
+        <TestWrapper>
+          <ScriptLibrary scripts={scripts} />
+        </TestWrapper>
+      );
+
+      fireEvent.change(
+        screen.getByPlaceholderText(
+          'Search scripts, or try character:Maya or theme:grief'
+        ),
+        { target: { value: 'character:maya' } }
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('Maya').tagName).toBe('MARK');
+      });
+      expect(mockSearchScripts).toHaveBeenCalledWith('character:maya');
+      expect(
+        screen.getAllByRole('heading', { level: 3 }).map(h => h.textContent)
+      ).toEqual(['The Lighthouse', 'Night Heist']);
+    });
+
+    it('shows no results when nothing matches', async () => {
+      mockSearchScripts.mockResolvedValue([]);
+
+      render(
+        <TestWrapper>
+          <ScriptLibrary scripts={scripts} />
+        </TestWrapper>
+      );
+
+      fireEvent.change(
+        screen.getByPlaceholderText(
+          'Search scripts, or try character:Maya or theme:grief'
+        ),
+        { target: { value: 'theme:grief' } }
+      );
+
+      expect(
+        await screen.findByText('No scripts match your search')
+      ).toBeInTheDocument();
+    });
+  });
 });
@@ -4,6 +4,7 @@ import { vi, describe, it, expect, beforeEach } from 'vitest';
 import { SummaryDisplay } from '../SummaryDisplay';
 import { ThemeProvider } from '../ThemeProvider';
 import type { ScriptSummary } from '../../types/summary';
+import type { SummaryVersion } from '../../types/summary-version';
 
 // Mock framer-motion to avoid animation issues in tests
 vi.mock('framer-motion', () => ({
@@ -507,4 +508,204 @@ describe('SummaryDisplay', () => {
       expect(document.activeElement).toBe(plotButton);
     });
   });
+
+  describe('Generation Progress', () => {
+    const script = {
+      id: '1',
+      title: 'The Walk',
+      content: 'INT. KITCHEN - DAY\n\nJo walks across the room.',
+      filePath: '/scripts/the-walk.txt',
+    };
+
+    it('renders the summary streamed so far', () => {
+      renderWithTheme(
+        <SummaryDisplay
+          script={script}
+          generationProgress={{
+            operationId: 'op_1',
+            progress: 42,
+            stage: 'identifying_characters',
+            message: 'Describing characters',
+            estimatedTimeRemaining: 12400,
+            cancellable: true,
+            scriptId: '1',
+            partialText:
+              '## PLOT OVERVIEW\nJo walks home.\n\n## MAIN CHARACTERS\n- Jo',
+          }}
+        />
+      );
+
+      expect(screen.getByText('Status: Analyzing')).toBeInTheDocument();
+      expect(screen.getByText('Describing characters')).toBeInTheDocument();
+      expect(screen.getByText('42%')).toBeInTheDocument();
+      expect(screen.getByText('About 13s remaining')).toBeInTheDocument();
+      expect(screen.getByText('PLOT OVERVIEW')).toBeInTheDocument();
+      expect(screen.getByText('Jo walks home.')).toBeInTheDocument();
+      expect(screen.getByText('MAIN CHARACTERS')).toBeInTheDocument();
+      expect(
+        screen.queryByText('No Summary Available')
+      ).not.toBeInTheDocument();
+    });
+
+    it('cancels generation from the progress card', () => {
+      const onCancelGeneration = vi.fn();
+      renderWithTheme(
+        <SummaryDisplay
+          script={script}
+          generationProgress={{
+            operationId: 'op_1',
+            progress: 10,
+            stage: 'analyzing_content',
+            message: 'Analyzing script',
+            cancellable: true,
+          }}
+          onCancelGeneration={onCancelGeneration}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+      expect(onCancelGeneration).toHaveBeenCalledWith('op_1');
+    });
+
+    it('shows a new summary being generated above the current one', () => {
+      const onCancelGeneration = vi.fn();
+      renderWithTheme(
+        <SummaryDisplay
+          script={script}
+          summary={mockSummary}
+          generationProgress={{
+            operationId: 'op_2',
+            progress: 30,
+            stage: 'extracting_plot',
+            message: 'Writing plot overview',
+            cancellable: true,
+            partialText: '## PLOT OVERVIEW\nJo runs home.',
+          }}
+          onCancelGeneration={onCancelGeneration}
+        />
+      );
+
+      expect(screen.getByText('Status: Analyzing')).toBeInTheDocument();
+      expect(screen.getByText('Writing plot overview')).toBeInTheDocument();
+      expect(screen.getByText('Jo runs home.')).toBeInTheDocument();
+      expect(screen.getByText(mockSummary.plotOverview)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+      expect(onCancelGeneration).toHaveBeenCalledWith('op_2');
+    });
+  });
+
+  describe('Summary Versions', () => {
+    const script = {
+      id: '1',
+      title: 'The Walk',
+      content: 'INT. KITCHEN - DAY\n\nJo walks across the room.',
+      filePath: '/scripts/the-walk.txt',
+    };
+
+    const version = (overrides: Partial<SummaryVersion>): SummaryVersion => ({
+      id: 1,
+      scriptId: 1,
+      version: 1,
+      pinned: false,
+      plotOverview: 'Jo walks home.',
+      mainCharacters: [],
+      themes: ['Solitude'],
+      productionNotes: [],
+      genre: 'Drama',
+      modelUsed: 'llama3.1:8b',
+      createdAt: new Date('2026-03-01T10:30:00Z'),
+      ...overrides,
+    });
+
+    const versions = [
+      version({
+        id: 2,
+        version: 2,
+        plotOverview: 'Jo runs home.',
+        themes: ['Solitude', 'Haste'],
+        modelUsed: 'gemma3:1b',
+      }),
+      version({}),
+    ];
+
+    it('shows the version picked instead of the official one', () => {
+      renderWithTheme(
+        <SummaryDisplay
+          script={script}
+          summary={versions[0]}
+          versions={versions}
+        />
+      );
+
+      expect(screen.getByText('Jo runs home.')).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('Summary version'), {
+        target: { value: '1' },
+      });
+
+      expect(screen.getByText('Jo walks home.')).toBeInTheDocument();
+      expect(screen.queryByText('Jo runs home.')).not.toBeInTheDocument();
+    });
+
+    it('compares two versions field by field', () => {
+      renderWithTheme(
+        <SummaryDisplay
+          script={script}
+          summary={versions[0]}
+          versions={versions}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText('Compare with'), {
+        target: { value: '1' },
+      });
+
+      expect(screen.getByText('Plot overview')).toBeInTheDocument();
+      expect(screen.getByText('− Jo walks home.')).toBeInTheDocument();
+      expect(screen.getByText('+ Jo runs home.')).toBeInTheDocument();
+      expect(screen.getByText('+ Haste')).toBeInTheDocument();
+      expect(screen.getByText('− llama3.1:8b')).toBeInTheDocument();
+      expect(screen.queryByText('Production notes')).not.toBeInTheDocument();
+    });
+
+    it('pins and unpins the official version and regenerates', () => {
+      const onPinVersion = vi.fn();
+      const onRegenerate = vi.fn();
+      const { rerender } = renderWithTheme(
+        <SummaryDisplay
+          script={script}
+          summary={versions[0]}
+          versions={versions}
+          onPinVersion={onPinVersion}
+          onRegenerate={onRegenerate}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText('Summary version'), {
+        target: { value: '1' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Pin as official' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Regenerate' }));
+
+      expect(onPinVersion).toHaveBeenCalledWith(1);
+      expect(onRegenerate).toHaveBeenCalled();
+
+      rerender(
+        <ThemeProvider enableAnimations={false}>
+          <SummaryDisplay
+            script={script}
+            summary={versions[1]}
+            versions={[versions[0], { ...versions[1], pinned: true }]}
+            onPinVersion={onPinVersion}
+          />
+        </ThemeProvider>
+      );
+      fireEvent.click(screen.getByRole('button', { name: 'Unpin' }));
+
+      expect(onPinVersion).toHaveBeenLastCalledWith(null);
+    });
+  });
 });
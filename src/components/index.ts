@@ -3,6 +3,10 @@ export { AppShell } from './AppShell';
 export { FileUpload } from './FileUpload';
 export { ScriptLibrary } from './ScriptLibrary';
 export { SummaryDisplay } from './SummaryDisplay';
+export { CoverageReportDisplay } from './CoverageReportDisplay';
+export { ModelLibrary } from './ModelLibrary';
+export { QueuePanel } from './QueuePanel';
+export { DatabaseDiagnostics } from './DatabaseDiagnostics';
 export { ThemeProvider } from './ThemeProvider';
 export { ToastNotification } from './ToastNotification';
 export { ConfettiAnimation } from './ConfettiAnimation';
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { DatabaseManager } from '../connection';
+import { MigrationManager } from '../migrations';
 import fs from 'fs';
+import zlib from 'zlib';
 import path from 'path';
 import os from 'os';
 
@@ -27,8 +29,17 @@ describe('DatabaseManager', () => {
     if (fs.existsSync(testDbPath)) {
       fs.unlinkSync(testDbPath);
     }
+    new MigrationManager(dbManager)
+      .getBackups()
+      .forEach(backup => fs.unlinkSync(backup));
   });
 
+  // Connect the way the app starts, with the schema from the migrations
+  const connectAndMigrate = async () => {
+    await dbManager.connect();
+    await new MigrationManager(dbManager).runMigrations();
+  };
+
   describe('connection management', () => {
     it('should connect to database successfully', async () => {
       const connection = await dbManager.connect();
@@ -61,8 +72,8 @@ describe('DatabaseManager', () => {
   });
 
   describe('schema initialization', () => {
-    it('should create tables on connection', async () => {
-      await dbManager.connect();
+    it('should create tables from the migrations', async () => {
+      await connectAndMigrate();
       const db = dbManager.getConnection();
 
       // Check if tables exist
@@ -83,7 +94,7 @@ describe('DatabaseManager', () => {
     });
 
     it('should create indexes', async () => {
-      await dbManager.connect();
+      await connectAndMigrate();
       const db = dbManager.getConnection();
 
       // Check if indexes exist
@@ -107,6 +118,47 @@ describe('DatabaseManager', () => {
       const result = db.prepare('PRAGMA foreign_keys').get();
       expect(result.foreign_keys).toBe(1);
     });
+
+    it('should bring databases created before migrations were recorded up to date', async () => {
+      await connectAndMigrate();
+      const db = dbManager.getConnection();
+      db.exec('ALTER TABLE scripts DROP COLUMN file_missing');
+      db.exec('DELETE FROM migrations');
+      await dbManager.close();
+
+      await connectAndMigrate();
+      const columns = dbManager
+        .getConnection()
+        .prepare('PRAGMA table_info(scripts)')
+        .all();
+      const status = new MigrationManager(dbManager).getStatus();
+
+      expect(columns.map(c => c.name)).toContain('file_missing');
+      expect(status.pending).toHaveLength(0);
+      expect(status.backups).toHaveLength(1);
+    });
+
+    it('should roll back the migrations with their down scripts', async () => {
+      await connectAndMigrate();
+      const migrationManager = new MigrationManager(dbManager);
+
+      await migrationManager.rollback('003');
+      const columns = dbManager
+        .getConnection()
+        .prepare('PRAGMA table_info(summaries)')
+        .all();
+      expect(columns.map(c => c.name)).not.toContain('prompt_template_id');
+
+      await migrationManager.rollback();
+      const tables = dbManager
+        .getConnection()
+        .prepare(
+          "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+        )
+        .all();
+      expect(tables.map(t => t.name)).toEqual(['migrations']);
+      expect(migrationManager.getStatus().backups).toHaveLength(2);
+    });
   });
 
   describe('health check', () => {
@@ -148,7 +200,7 @@ describe('DatabaseManager', () => {
 
   describe('database operations', () => {
     beforeEach(async () => {
-      await dbManager.connect();
+      await connectAndMigrate();
     });
 
     it('should insert and retrieve data from scripts table', async () => {
@@ -177,6 +229,85 @@ describe('DatabaseManager', () => {
       expect(script.word_count).toBe(1000);
     });
 
+    it('should find a script by content hash', async () => {
+      const saved = await dbManager.saveScript({
+        title: 'Test Script',
+        file_path: '/path/to/script.pdf',
+        content_hash: 'hash123',
+        word_count: 1000,
+      });
+
+      const found = await dbManager.getScriptByContentHash('hash123');
+
+      expect(found?.id).toBe(saved.id);
+      expect(await dbManager.getScriptByContentHash('missing')).toBeNull();
+    });
+
+    it('should store script content with or without compression', async () => {
+      const saved = await dbManager.saveScript({
+        title: 'Test Script',
+        file_path: '/path/to/script.fountain',
+        content_hash: 'hash123',
+        word_count: 2,
+      });
+      const parsed = {
+        content: 'INT. HOUSE - DAY',
+        title: 'Test Script',
+        metadata: {
+          title: 'Test Script',
+          wordCount: 2,
+          characterCount: 16,
+          fileSize: 16,
+        },
+        elements: [
+          {
+            type: 'scene_heading' as const,
+            text: 'INT. HOUSE - DAY',
+            start: 0,
+            end: 16,
+          },
+        ],
+      };
+
+      for (const compress of [false, true]) {
+        await dbManager.saveScriptContent(
+          saved.id,
+          { parsed, fileHash: 'file123', fileMtime: 1000 },
+          { compress }
+        );
+
+        expect(await dbManager.getScriptContent(saved.id)).toEqual({
+          parsed,
+          fileHash: 'file123',
+          fileMtime: 1000,
+        });
+      }
+
+      const row = dbManager
+        .getConnection()
+        .prepare('SELECT content, encoding FROM script_contents')
+        .get();
+      expect(row.encoding).toBe('gzip');
+      expect(Buffer.isBuffer(row.content)).toBe(true);
+      expect(await dbManager.getScriptContent(saved.id + 1)).toBeNull();
+    });
+
+    it('should flag scripts whose source file is missing', async () => {
+      const saved = await dbManager.saveScript({
+        title: 'Test Script',
+        file_path: '/path/to/script.pdf',
+        content_hash: 'hash123',
+        word_count: 1000,
+      });
+      expect(saved.file_missing).toBe(0);
+
+      await dbManager.setScriptFileMissing(saved.id, true);
+
+      expect((await dbManager.getScript(String(saved.id)))?.file_missing).toBe(
+        1
+      );
+    });
+
     it('should enforce foreign key constraints', async () => {
       const db = dbManager.getConnection();
 
@@ -235,5 +366,465 @@ describe('DatabaseManager', () => {
       expect(summaryCount.count).toBe(0);
       expect(evaluationCount.count).toBe(0);
     });
+
+    it('should replace and retrieve scenes for a script', async () => {
+      const db = dbManager.getConnection();
+      const scriptId = db
+        .prepare(
+          'INSERT INTO scripts (title, file_path, content_hash) VALUES (?, ?, ?)'
+        )
+        .run('Test Script', '/path/to/script.pdf', 'hash123').lastInsertRowid;
+
+      const scene = {
+        scene_index: 1,
+        scene_number: null,
+        heading: 'INT. KITCHEN - DAY',
+        location_type: 'INT',
+        location: 'KITCHEN',
+        time_of_day: 'DAY',
+        eighths: 3,
+        page: '12A',
+      };
+
+      await dbManager.saveScenes(Number(scriptId), [scene]);
+      const scenes = await dbManager.saveScenes(Number(scriptId), [
+        scene,
+        { ...scene, scene_index: 2, heading: 'EXT. GARDEN - NIGHT' },
+      ]);
+
+      expect(scenes).toHaveLength(2);
+      expect(scenes[0]).toMatchObject({
+        script_id: Number(scriptId),
+        heading: 'INT. KITCHEN - DAY',
+        eighths: 3,
+        page: '12A',
+      });
+      expect(
+        (await dbManager.getScenesByScriptId(String(scriptId))).map(
+          s => s.scene_index
+        )
+      ).toEqual([1, 2]);
+
+      await dbManager.deleteScript(String(scriptId));
+      expect(await dbManager.getScenesByScriptId(String(scriptId))).toEqual([]);
+    });
+
+    it('should keep every version of a prompt template', async () => {
+      const created = await dbManager.savePromptTemplate({
+        name: 'Coverage',
+        description: null,
+        body: 'Write coverage of {{script}}',
+      });
+      expect(created.version).toBe(1);
+
+      // Renaming keeps the version; changing the text makes a new one
+      await dbManager.savePromptTemplate({
+        ...created,
+        name: 'Studio coverage',
+      });
+      const updated = await dbManager.savePromptTemplate({
+        ...created,
+        name: 'Studio coverage',
+        body: 'Write studio coverage of {{script}}',
+      });
+
+      expect(updated).toMatchObject({
+        id: created.id,
+        name: 'Studio coverage',
+        version: 2,
+      });
+      expect(
+        (await dbManager.getPromptTemplateVersions(String(created.id))).map(
+          version => [version.version, version.body]
+        )
+      ).toEqual([
+        [2, 'Write studio coverage of {{script}}'],
+        [1, 'Write coverage of {{script}}'],
+      ]);
+      expect(await dbManager.getPromptTemplates()).toHaveLength(1);
+
+      await dbManager.deletePromptTemplate(String(created.id));
+      expect(await dbManager.getPromptTemplate(String(created.id))).toBeNull();
+      expect(
+        await dbManager.getPromptTemplateVersions(String(created.id))
+      ).toEqual([]);
+    });
+
+    it('should record the prompt template used for a summary', async () => {
+      const db = dbManager.getConnection();
+      const scriptId = db
+        .prepare(
+          'INSERT INTO scripts (title, file_path, content_hash) VALUES (?, ?, ?)'
+        )
+        .run('Test Script', '/path/to/script.pdf', 'hash123').lastInsertRowid;
+
+      const summary = await dbManager.saveSummary({
+        script_id: Number(scriptId),
+        plot_overview: 'Jo walks home.',
+        characters: '[]',
+        themes: '[]',
+        production_notes: '[]',
+        genre: 'Drama',
+        model_used: 'llama2:7b',
+        prompt_template_id: 3,
+        prompt_template_version: 2,
+      });
+
+      expect(summary).toMatchObject({
+        prompt_template_id: 3,
+        prompt_template_version: 2,
+      });
+    });
+
+    it('should store every summary field', async () => {
+      const db = dbManager.getConnection();
+      const scriptId = db
+        .prepare(
+          'INSERT INTO scripts (title, file_path, content_hash) VALUES (?, ?, ?)'
+        )
+        .run('Test Script', '/path/to/script.pdf', 'hash123').lastInsertRowid;
+      const fields = {
+        estimated_budget: 'low',
+        target_audience: 'Adult drama audiences',
+        tone_and_style: 'Quiet and atmospheric',
+        key_scenes: '["The storm"]',
+        production_challenges: '["Night shoots at sea"]',
+        marketability: 'Festival circuit',
+      };
+
+      await dbManager.saveSummary({
+        script_id: Number(scriptId),
+        plot_overview: 'Jo walks home.',
+        characters: '[]',
+        themes: '[]',
+        production_notes: '[]',
+        genre: 'Drama',
+        model_used: 'llama2:7b',
+        ...fields,
+      });
+
+      expect(
+        await dbManager.getSummaryByScriptId(String(scriptId))
+      ).toMatchObject(fields);
+    });
+
+    it('should keep every summary as a version and pin one', async () => {
+      const db = dbManager.getConnection();
+      const scriptId = Number(
+        db
+          .prepare(
+            'INSERT INTO scripts (title, file_path, content_hash) VALUES (?, ?, ?)'
+          )
+          .run('Test Script', '/path/to/script.pdf', 'hash123').lastInsertRowid
+      );
+      const summaryData = {
+        script_id: scriptId,
+        plot_overview: 'Jo walks home.',
+        characters: '[]',
+        themes: '[]',
+        production_notes: '[]',
+        genre: 'Drama',
+        model_used: 'llama2:7b',
+      };
+
+      const first = await dbManager.saveSummary(summaryData);
+      const second = await dbManager.saveSummary({
+        ...summaryData,
+        model_used: 'gemma3:1b',
+        generation_options: '{"length":"brief"}',
+      });
+
+      expect(first).toMatchObject({ version: 1, is_pinned: 0 });
+      expect(second).toMatchObject({
+        version: 2,
+        generation_options: '{"length":"brief"}',
+      });
+      expect(
+        (await dbManager.getSummaryVersions(scriptId)).map(row => row.version)
+      ).toEqual([2, 1]);
+      expect(
+        await dbManager.getSummaryByScriptId(String(scriptId))
+      ).toMatchObject({ id: second.id });
+
+      // The pinned version is official even when it is not the latest
+      await dbManager.pinSummary(scriptId, first.id);
+      expect(
+        await dbManager.getSummaryByScriptId(String(scriptId))
+      ).toMatchObject({ id: first.id, is_pinned: 1 });
+
+      await dbManager.pinSummary(scriptId, null);
+      expect(
+        await dbManager.getSummaryByScriptId(String(scriptId))
+      ).toMatchObject({ id: second.id, is_pinned: 0 });
+
+      await expect(dbManager.pinSummary(scriptId, 99)).rejects.toThrow(
+        'Failed to pin summary: Summary 99 not found'
+      );
+    });
+
+    it('should keep the latest benchmark of each model', async () => {
+      const benchmark = {
+        model_id: 'llama3.1:8b',
+        tokens_per_second: 20,
+        time_to_first_token_ms: 300,
+        duration_ms: 10000,
+        memory_bytes: null,
+        character_accuracy: 1,
+        genre_accuracy: 0.5,
+        theme_accuracy: 0.75,
+        overall_accuracy: 0.75,
+        samples: '[]',
+      };
+
+      await dbManager.saveModelBenchmark(benchmark);
+      const latest = await dbManager.saveModelBenchmark({
+        ...benchmark,
+        tokens_per_second: 25,
+      });
+      await dbManager.saveModelBenchmark({
+        ...benchmark,
+        model_id: 'gemma3:1b',
+      });
+
+      expect(latest).toMatchObject({
+        model_id: 'llama3.1:8b',
+        memory_bytes: null,
+      });
+      expect(
+        (await dbManager.getLatestModelBenchmarks()).map(row => [
+          row.model_id,
+          row.tokens_per_second,
+        ])
+      ).toEqual([
+        ['gemma3:1b', 20],
+        ['llama3.1:8b', 25],
+      ]);
+    });
+
+    it('should return the latest coverage report of a script', async () => {
+      const script = await dbManager.saveScript({
+        title: 'Coverage Script',
+        file_path: '/test/coverage.pdf',
+        content_hash: 'coverage123',
+        word_count: 1000,
+      });
+      const report = {
+        script_id: script.id,
+        logline: 'A keeper searches the coast for her brother.',
+        synopsis: 'The keeper finds him.',
+        comments: 'Strong premise.',
+        ratings: '{}',
+        verdict: 'consider',
+        genre: null,
+        comparables: null,
+        model_used: 'llama3.1:8b',
+      };
+
+      expect(await dbManager.getCoverageReport(script.id)).toBeNull();
+
+      await dbManager.saveCoverageReport(report);
+      await dbManager.saveCoverageReport({ ...report, verdict: 'recommend' });
+
+      expect(await dbManager.getCoverageReport(script.id)).toMatchObject({
+        script_id: script.id,
+        verdict: 'recommend',
+        genre: null,
+      });
+    });
+
+    describe('full-text search', () => {
+      const saveScript = (title: string, contentHash: string) =>
+        dbManager.saveScript({
+          title,
+          file_path: `/scripts/${contentHash}.fountain`,
+          content_hash: contentHash,
+          word_count: 100,
+        });
+      const summaryData = (scriptId: number, overrides = {}) => ({
+        script_id: scriptId,
+        plot_overview: 'A keeper searches the coast for her brother.',
+        characters: JSON.stringify([
+          { name: 'Maya', description: 'A lighthouse keeper' },
+        ]),
+        themes: JSON.stringify(['Grief', 'Family']),
+        production_notes: '[]',
+        genre: 'Drama',
+        model_used: 'llama3.1:8b',
+        ...overrides,
+      });
+
+      it('should search summaries and notes as they change', async () => {
+        const lighthouse = await saveScript('The Lighthouse', 'lighthouse');
+        const heist = await saveScript('Night Heist', 'heist');
+        const summary = await dbManager.saveSummary(summaryData(lighthouse.id));
+        await dbManager.saveSummary(
+          summaryData(heist.id, {
+            plot_overview: 'A crew robs a bank.',
+            characters: JSON.stringify([{ name: 'Rook' }]),
+            themes: JSON.stringify(['Greed']),
+          })
+        );
+        await dbManager.saveEvaluation({
+          script_id: heist.id,
+          rating: 4,
+          notes: 'Great for the lighthouse festival slate',
+          tags: null,
+          updated_at: '',
+        });
+
+        const ids = async (query: string) =>
+          (await dbManager.searchScripts(query)).map(result => result.id);
+
+        expect(await ids('lighthouse')).toEqual([lighthouse.id, heist.id]);
+        expect(await ids('character:maya')).toEqual([lighthouse.id]);
+        expect(await ids('theme:grief')).toEqual([lighthouse.id]);
+        expect(await ids('note:festival')).toEqual([heist.id]);
+        expect(await ids('keeper')).toEqual([lighthouse.id]);
+        expect(await ids('"keeper searches"')).toEqual([lighthouse.id]);
+
+        // A new version replaces the indexed summary; pinning the older
+        // version brings it back
+        await dbManager.saveSummary(
+          summaryData(lighthouse.id, {
+            characters: JSON.stringify([{ name: 'Eli' }]),
+          })
+        );
+        expect(await ids('character:maya')).toEqual([]);
+        await dbManager.pinSummary(lighthouse.id, summary.id);
+        expect(await ids('character:maya')).toEqual([lighthouse.id]);
+
+        await dbManager.saveEvaluation({
+          script_id: heist.id,
+          rating: 4,
+          notes: 'Pass',
+          tags: null,
+          updated_at: '',
+        });
+        expect(await ids('note:festival')).toEqual([]);
+
+        await dbManager.deleteScript(String(lighthouse.id));
+        expect(await ids('lighthouse')).toEqual([]);
+      });
+
+      it('should search compressed script text with highlighted snippets', async () => {
+        const saved = await saveScript('The Lighthouse', 'lighthouse');
+        await dbManager.saveScriptContent(
+          saved.id,
+          {
+            parsed: {
+              content: 'EXT. LIGHTHOUSE - NIGHT\nMaya climbs the stairs.',
+              title: 'The Lighthouse',
+              metadata: {
+                title: 'The Lighthouse',
+                wordCount: 7,
+                characterCount: 47,
+                fileSize: 47,
+              },
+              elements: [],
+            },
+            fileHash: 'file123',
+            fileMtime: 1000,
+          },
+          { compress: true }
+        );
+
+        const [result] = await dbManager.searchScripts('text:stairs');
+
+        expect(result).toMatchObject({ id: saved.id, title: 'The Lighthouse' });
+        expect(result.snippet).toContainEqual({
+          text: 'stairs',
+          highlighted: true,
+        });
+        expect(await dbManager.searchScripts('  ')).toEqual([]);
+      });
+
+      it('should index compressed text stored before the search index', async () => {
+        const saved = await saveScript('The Lighthouse', 'lighthouse');
+        const db = dbManager.getConnection();
+        db.prepare(
+          "INSERT INTO script_contents (script_id, content, encoding) VALUES (?, ?, 'gzip')"
+        ).run(saved.id, zlib.gzipSync('Maya climbs the stairs.'));
+
+        expect(await dbManager.searchScripts('stairs')).toEqual([]);
+        expect(await dbManager.indexScriptContents()).toBe(1);
+        expect(await dbManager.searchScripts('stairs')).toHaveLength(1);
+      });
+
+      it('should skip stored text that cannot be read', async () => {
+        const broken = await saveScript('Broken', 'broken');
+        const saved = await saveScript('The Lighthouse', 'lighthouse');
+        const db = dbManager.getConnection();
+        const insert = db.prepare(
+          "INSERT INTO script_contents (script_id, content, encoding) VALUES (?, ?, 'gzip')"
+        );
+        insert.run(broken.id, Buffer.from('not gzip'));
+        insert.run(saved.id, zlib.gzipSync('Maya climbs the stairs.'));
+        const warn = vi.spyOn(console, 'warn').mockImplementation(vi.fn());
+
+        expect(await dbManager.indexScriptContents()).toBe(1);
+        expect(await dbManager.searchScripts('stairs')).toHaveLength(1);
+        expect(warn).toHaveBeenCalledWith(
+          `Skipped indexing the text of script ${broken.id}:`,
+          expect.any(String)
+        );
+        warn.mockRestore();
+      });
+    });
+
+    it('should save, update and delete jobs', async () => {
+      const job = await dbManager.saveJob({
+        type: 'process',
+        status: 'queued',
+        priority: 0,
+        file_path: '/scripts/pilot.pdf',
+        script_id: null,
+        title: 'pilot.pdf',
+        summary_options: null,
+        attempts: 0,
+        max_attempts: 3,
+        error: null,
+        next_attempt_at: null,
+      });
+
+      await dbManager.updateJob(job.id, {
+        status: 'queued',
+        attempts: 1,
+        error: 'Model not found',
+        next_attempt_at: 1767225600000,
+      });
+
+      expect(await dbManager.getJobs()).toEqual([
+        expect.objectContaining({
+          id: job.id,
+          attempts: 1,
+          error: 'Model not found',
+          next_attempt_at: 1767225600000,
+        }),
+      ]);
+
+      await dbManager.deleteJobs([job.id]);
+      expect(await dbManager.getJobs()).toEqual([]);
+    });
+
+    it('should remember the latest version of each inbox file', async () => {
+      await dbManager.saveInboxFile({
+        file_path: '/inbox/pilot.pdf',
+        file_mtime: 1000,
+        status: 'failed',
+      });
+      await dbManager.saveInboxFile({
+        file_path: '/inbox/pilot.pdf',
+        file_mtime: 2000,
+        status: 'duplicate',
+      });
+
+      expect(await dbManager.getInboxFiles()).toEqual([
+        expect.objectContaining({
+          file_path: '/inbox/pilot.pdf',
+          file_mtime: 2000,
+          status: 'duplicate',
+        }),
+      ]);
+    });
   });
 });
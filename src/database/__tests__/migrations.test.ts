@@ -44,6 +44,7 @@ describe('MigrationManager', () => {
     if (fs.existsSync(testMigrationsPath)) {
       fs.rmSync(testMigrationsPath, { recursive: true, force: true });
     }
+    migrationManager.getBackups().forEach(backup => fs.unlinkSync(backup));
   });
 
   describe('migration execution', () => {
@@ -259,6 +260,56 @@ DROP TABLE posts;`
     });
   });
 
+  describe('backups', () => {
+    const writeMigration = (version: string) =>
+      fs.writeFileSync(
+        path.join(testMigrationsPath, `${version}_create_table_${version}.sql`),
+        `CREATE TABLE table_${version} (id INTEGER PRIMARY KEY);
+
+-- DOWN
+DROP TABLE table_${version};`
+      );
+
+    it('should not back up a new database', async () => {
+      writeMigration('001');
+
+      await migrationManager.runMigrations();
+
+      expect(migrationManager.getBackups()).toHaveLength(0);
+    });
+
+    it('should back up the database before migrating it', async () => {
+      writeMigration('001');
+      await migrationManager.runMigrations();
+      writeMigration('002');
+
+      await migrationManager.runMigrations();
+
+      const backups = migrationManager.getBackups();
+      expect(backups).toHaveLength(1);
+      expect(path.basename(backups[0])).toMatch(
+        new RegExp(`^${path.basename(testDbPath, '.db')}-.+\\.db$`)
+      );
+    });
+
+    it('should back up the database before rolling back', async () => {
+      writeMigration('001');
+      await migrationManager.runMigrations();
+
+      await migrationManager.rollback();
+
+      expect(migrationManager.getBackups()).toHaveLength(1);
+    });
+
+    it('should keep only the most recent backups', async () => {
+      for (let i = 0; i < 7; i++) {
+        await migrationManager.backup();
+      }
+
+      expect(migrationManager.getBackups()).toHaveLength(5);
+    });
+  });
+
   describe('migration status', () => {
     it('should return correct migration status', async () => {
       // Create migrations
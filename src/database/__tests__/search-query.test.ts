@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SNIPPET_END,
+  SNIPPET_START,
+  toMatchQuery,
+  toSnippetSegments,
+} from '../search-query';
+
+describe('search query', () => {
+  describe('toMatchQuery', () => {
+    it('should match every term, including words the terms start', () => {
+      expect(toMatchQuery('maya light')).toBe('"maya"* "light"*');
+    });
+
+    it('should scope terms to a field', () => {
+      expect(toMatchQuery('character:Maya theme:grief')).toBe(
+        'characters : "Maya"* themes : "grief"*'
+      );
+      expect(toMatchQuery('NOTES:"festival slate"')).toBe(
+        'notes : "festival slate"'
+      );
+    });
+
+    it('should match quoted phrases exactly', () => {
+      expect(toMatchQuery('"keeper searches" coast')).toBe(
+        '"keeper searches" "coast"*'
+      );
+    });
+
+    it('should search unknown fields and query syntax as text', () => {
+      expect(toMatchQuery('INT:house')).toBe('"INT:house"*');
+      expect(toMatchQuery('maya AND NOT eli*')).toBe(
+        '"maya"* "AND"* "NOT"* "eli*"*'
+      );
+      expect(toMatchQuery('say"hi')).toBe('"say""hi"*');
+    });
+
+    it('should return null when there is nothing to search for', () => {
+      expect(toMatchQuery('')).toBeNull();
+      expect(toMatchQuery('  - "" :')).toBeNull();
+    });
+  });
+
+  describe('toSnippetSegments', () => {
+    it('should split a snippet into plain and highlighted parts', () => {
+      expect(
+        toSnippetSegments(
+          `…${SNIPPET_START}Maya${SNIPPET_END} climbs the ${SNIPPET_START}stairs${SNIPPET_END}`
+        )
+      ).toEqual([
+        { text: '…', highlighted: false },
+        { text: 'Maya', highlighted: true },
+        { text: ' climbs the ', highlighted: false },
+        { text: 'stairs', highlighted: true },
+      ]);
+      expect(toSnippetSegments('')).toEqual([]);
+    });
+  });
+});
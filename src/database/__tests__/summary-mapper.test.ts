@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { toScriptSummary, toSummaryRow } from '../summary-mapper';
+import type { ScriptSummary } from '../../types/summary';
+import type { DatabaseSummary } from '../types';
+
+const summary: ScriptSummary = {
+  id: '4',
+  scriptId: '7',
+  plotOverview: 'Maya searches the lighthouse for her missing brother.',
+  mainCharacters: [
+    {
+      name: 'MAYA',
+      description: 'A lighthouse keeper',
+      importance: 'protagonist',
+      relationships: ['Sister of Eli'],
+    },
+  ],
+  themes: ['Grief', 'Family'],
+  productionNotes: [
+    {
+      category: 'location',
+      content: 'Coastal exteriors',
+      priority: 'high',
+      budgetImpact: 'moderate',
+    },
+  ],
+  genre: 'Drama',
+  estimatedBudget: 'low',
+  targetAudience: 'Adult drama audiences',
+  toneAndStyle: 'Quiet and atmospheric',
+  keyScenes: ['The storm', 'The empty boat'],
+  productionChallenges: ['Night shoots at sea'],
+  marketability: 'Festival circuit',
+  modelUsed: 'llama3.1:8b',
+  generationOptions: {
+    length: 'detailed',
+    focusAreas: ['plot', 'characters'],
+    includeProductionNotes: true,
+    analyzeCharacterRelationships: true,
+    identifyThemes: true,
+    assessMarketability: true,
+    temperature: 0.7,
+  },
+  promptTemplateId: '3',
+  promptTemplateVersion: 2,
+  createdAt: new Date('2026-03-01T10:30:00Z'),
+  updatedAt: new Date('2026-03-01T10:30:00Z'),
+};
+
+// Saves a row the way the summaries table returns it
+const stored = (row: ReturnType<typeof toSummaryRow>): DatabaseSummary => ({
+  ...row,
+  id: 4,
+  version: 1,
+  is_pinned: 0,
+  created_at: '2026-03-01 10:30:00',
+});
+
+describe('summary mapper', () => {
+  it('should return every field of a saved summary', () => {
+    const row = toSummaryRow(7, summary);
+
+    expect(row).toMatchObject({
+      script_id: 7,
+      estimated_budget: 'low',
+      key_scenes: '["The storm","The empty boat"]',
+      prompt_template_id: 3,
+    });
+    expect(toScriptSummary(stored(row))).toEqual(summary);
+  });
+
+  it('should leave fields that were not stored unset', () => {
+    const row = toSummaryRow(7, {
+      ...summary,
+      estimatedBudget: undefined,
+      targetAudience: undefined,
+      toneAndStyle: undefined,
+      keyScenes: undefined,
+      productionChallenges: undefined,
+      marketability: undefined,
+      generationOptions: undefined,
+      promptTemplateId: undefined,
+      promptTemplateVersion: undefined,
+    });
+
+    expect(row).toMatchObject({
+      estimated_budget: null,
+      key_scenes: null,
+      generation_options: null,
+      prompt_template_id: null,
+    });
+
+    const restored = toScriptSummary(stored(row));
+    expect(restored.keyScenes).toBeUndefined();
+    expect(restored.generationOptions).toBeUndefined();
+    expect(restored.promptTemplateId).toBeUndefined();
+  });
+
+  it('should read rows saved before every field was stored', () => {
+    const restored = toScriptSummary({
+      id: 1,
+      script_id: 7,
+      plot_overview: null,
+      characters: null,
+      themes: '["Grief"]',
+      production_notes: null,
+      genre: null,
+      model_used: 'gemma3:1b',
+      version: 1,
+      is_pinned: 0,
+      created_at: '2026-03-01 10:30:00',
+    });
+
+    expect(restored).toMatchObject({
+      id: '1',
+      scriptId: '7',
+      plotOverview: '',
+      mainCharacters: [],
+      themes: ['Grief'],
+      productionNotes: [],
+      genre: 'Unknown',
+      modelUsed: 'gemma3:1b',
+    });
+    expect(restored.estimatedBudget).toBeUndefined();
+  });
+});
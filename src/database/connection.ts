@@ -2,7 +2,28 @@ import Database from 'better-sqlite3';
 import { app } from 'electron';
 import path from 'path';
 import fs from 'fs';
-import { DatabaseConnection } from './types';
+import zlib from 'zlib';
+import { MigrationManager } from './migrations';
+import {
+  SNIPPET_END,
+  SNIPPET_START,
+  toMatchQuery,
+  toSnippetSegments,
+} from './search-query';
+import {
+  DatabaseConnection,
+  DatabaseInboxFile,
+  DatabaseJob,
+  DatabaseModelBenchmark,
+  DatabaseCoverageReport,
+  DatabasePromptTemplate,
+  DatabasePromptTemplateVersion,
+  DatabaseScene,
+  DatabaseScriptContent,
+  DatabaseScriptSearchResult,
+  NewDatabaseSummary,
+  StoredScriptContent,
+} from './types';
 
 export class DatabaseManager {
   private db: Database.Database | null = null;
@@ -56,62 +77,16 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Create the table that records applied migrations. The schema itself
+   * is created by the migrations, which initializeDatabase runs.
+   */
   private async initializeSchema(): Promise<void> {
     if (!this.db) {
       throw new Error('Database not connected');
     }
 
     try {
-      // Embedded schema instead of reading from file
-      const schema = `
-        -- Scripts table
-        CREATE TABLE IF NOT EXISTS scripts (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          title TEXT NOT NULL,
-          file_path TEXT NOT NULL,
-          content_hash TEXT UNIQUE NOT NULL,
-          word_count INTEGER DEFAULT 0,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-        );
-
-        -- Summaries table
-        CREATE TABLE IF NOT EXISTS summaries (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
-          plot_overview TEXT,
-          characters TEXT, -- JSON string
-          themes TEXT, -- JSON string
-          production_notes TEXT, -- JSON string
-          genre TEXT,
-          model_used TEXT,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (script_id) REFERENCES scripts(id)
-        );
-
-        -- User ratings and notes
-        CREATE TABLE IF NOT EXISTS script_evaluations (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
-          rating INTEGER CHECK(rating >= 1 AND rating <= 5),
-          notes TEXT,
-          tags TEXT, -- JSON string
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (script_id) REFERENCES scripts(id)
-        );
-
-        -- Create indexes for better performance
-        CREATE INDEX IF NOT EXISTS idx_scripts_content_hash ON scripts(content_hash);
-        CREATE INDEX IF NOT EXISTS idx_summaries_script_id ON summaries(script_id);
-        CREATE INDEX IF NOT EXISTS idx_evaluations_script_id ON script_evaluations(script_id);
-        CREATE INDEX IF NOT EXISTS idx_scripts_created_at ON scripts(created_at);
-      `;
-
-      // Execute schema
-      this.db.exec(schema);
-
-      // Initialize migrations table
       this.db.exec(`
         CREATE TABLE IF NOT EXISTS migrations (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -139,6 +114,10 @@ export class DatabaseManager {
     }
   }
 
+  public getDatabasePath(): string {
+    return this.dbPath;
+  }
+
   public isConnected(): boolean {
     return this.db !== null && this.db.open;
   }
@@ -214,6 +193,26 @@ export class DatabaseManager {
     }
   }
 
+  public async getScriptByContentHash(
+    contentHash: string
+  ): Promise<DatabaseScript | null> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(
+        'SELECT * FROM scripts WHERE content_hash = ?'
+      );
+      const script = stmt.get(contentHash) as DatabaseScript | undefined;
+      return script || null;
+    } catch (error) {
+      throw new Error(
+        `Failed to get script: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   public async getAllScripts(): Promise<DatabaseScript[]> {
     if (!this.db) {
       throw new Error('Database not connected');
@@ -245,6 +244,7 @@ export class DatabaseManager {
         'file_path',
         'content_hash',
         'word_count',
+        'file_missing',
       ];
       const updateFields = Object.keys(updates).filter(key =>
         allowedFields.includes(key)
@@ -284,13 +284,19 @@ export class DatabaseManager {
 
     try {
       const transaction = this.db.transaction(() => {
-        // Delete related summaries and evaluations first
+        // Delete related summaries, evaluations, scenes and content first
         this.db!.prepare('DELETE FROM summaries WHERE script_id = ?').run(
           parseInt(scriptId)
         );
         this.db
           ?.prepare('DELETE FROM script_evaluations WHERE script_id = ?')
           .run(parseInt(scriptId));
+        this.db
+          ?.prepare('DELETE FROM scenes WHERE script_id = ?')
+          .run(parseInt(scriptId));
+        this.db
+          ?.prepare('DELETE FROM script_contents WHERE script_id = ?')
+          .run(parseInt(scriptId));
 
         // Delete the script
         this.db
@@ -306,33 +312,197 @@ export class DatabaseManager {
     }
   }
 
-  // CRUD operations for summaries
-  public async saveSummary(
-    summaryData: Omit<DatabaseSummary, 'id' | 'created_at'>
-  ): Promise<DatabaseSummary> {
+  // Stored script content
+  public async saveScriptContent(
+    scriptId: number,
+    stored: StoredScriptContent,
+    options: { compress?: boolean } = {}
+  ): Promise<void> {
     if (!this.db) {
       throw new Error('Database not connected');
     }
 
     try {
+      const { content, ...structure } = stored.parsed;
+      const encode = (value: string): string | Buffer =>
+        options.compress ? zlib.gzipSync(value) : value;
+
       const stmt = this.db.prepare(`
-        INSERT INTO summaries (script_id, plot_overview, characters, themes, production_notes, genre, model_used)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+        INSERT OR REPLACE INTO script_contents (script_id, content, structure, encoding, file_hash, file_mtime, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
       `);
+      // The search index needs the text before it is compressed
+      const indexStmt = this.db.prepare(
+        'UPDATE script_search SET content = ? WHERE rowid = ?'
+      );
 
-      const result = stmt.run(
-        summaryData.script_id,
-        summaryData.plot_overview,
-        summaryData.characters,
-        summaryData.themes,
-        summaryData.production_notes,
-        summaryData.genre,
-        summaryData.model_used
+      const transaction = this.db.transaction(() => {
+        stmt.run(
+          scriptId,
+          encode(content),
+          encode(JSON.stringify(structure)),
+          options.compress ? 'gzip' : 'plain',
+          stored.fileHash,
+          stored.fileMtime
+        );
+        indexStmt.run(content, scriptId);
+      });
+
+      transaction();
+    } catch (error) {
+      throw new Error(
+        `Failed to save script content: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Index the text of stored scripts that the search index is missing, such
+   * as compressed scripts stored before the index existed. Scripts whose
+   * text cannot be read are skipped. Returns the number indexed.
+   */
+  public async indexScriptContents(): Promise<number> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const missingStmt = this.db.prepare(`
+        SELECT script_contents.script_id FROM script_contents
+        JOIN script_search ON script_search.rowid = script_contents.script_id
+        WHERE script_search.content IS NULL
+      `);
+      const rows = missingStmt.all() as Array<{ script_id: number }>;
+      const stmt = this.db.prepare(
+        'UPDATE script_search SET content = ? WHERE rowid = ?'
+      );
+
+      let indexed = 0;
+      for (const { script_id } of rows) {
+        try {
+          const stored = await this.getScriptContent(script_id);
+          if (stored) {
+            stmt.run(stored.parsed.content, script_id);
+            indexed++;
+          }
+        } catch (error) {
+          console.warn(
+            `Skipped indexing the text of script ${script_id}:`,
+            error instanceof Error ? error.message : error
+          );
+        }
+      }
+
+      return indexed;
+    } catch (error) {
+      throw new Error(
+        `Failed to index script contents: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async getScriptContent(
+    scriptId: number
+  ): Promise<StoredScriptContent | null> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(
+        'SELECT * FROM script_contents WHERE script_id = ?'
+      );
+      const row = stmt.get(scriptId) as DatabaseScriptContent | undefined;
+      if (!row) {
+        return null;
+      }
+
+      const decode = (value: string | Buffer): string =>
+        row.encoding === 'gzip'
+          ? zlib.gunzipSync(value).toString('utf8')
+          : value.toString();
+
+      return {
+        parsed: {
+          ...(row.structure ? JSON.parse(decode(row.structure)) : {}),
+          content: decode(row.content),
+        },
+        fileHash: row.file_hash,
+        fileMtime: row.file_mtime,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to get script content: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async setScriptFileMissing(
+    scriptId: number,
+    missing: boolean
+  ): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      // Leaves updated_at alone; the script itself has not changed
+      const stmt = this.db.prepare(
+        'UPDATE scripts SET file_missing = ? WHERE id = ?'
       );
+      stmt.run(missing ? 1 : 0, scriptId);
+    } catch (error) {
+      throw new Error(
+        `Failed to update script: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // CRUD operations for summaries
+  public async saveSummary(
+    summaryData: NewDatabaseSummary
+  ): Promise<DatabaseSummary> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      // Each summary is kept as the next version of the script's summary
+      const transaction = this.db.transaction((): number | bigint => {
+        const { latest } = this.db!.prepare(
+          'SELECT MAX(version) AS latest FROM summaries WHERE script_id = ?'
+        ).get(summaryData.script_id) as { latest: number | null };
+
+        const stmt = this.db!.prepare(`
+          INSERT INTO summaries (script_id, plot_overview, characters, themes, production_notes, genre, estimated_budget, target_audience, tone_and_style, key_scenes, production_challenges, marketability, model_used, prompt_template_id, prompt_template_version, version, generation_options)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+
+        return stmt.run(
+          summaryData.script_id,
+          summaryData.plot_overview,
+          summaryData.characters,
+          summaryData.themes,
+          summaryData.production_notes,
+          summaryData.genre,
+          summaryData.estimated_budget ?? null,
+          summaryData.target_audience ?? null,
+          summaryData.tone_and_style ?? null,
+          summaryData.key_scenes ?? null,
+          summaryData.production_challenges ?? null,
+          summaryData.marketability ?? null,
+          summaryData.model_used,
+          summaryData.prompt_template_id ?? null,
+          summaryData.prompt_template_version ?? null,
+          (latest ?? 0) + 1,
+          summaryData.generation_options ?? null
+        ).lastInsertRowid;
+      });
+      const summaryId = transaction();
 
       // Get the inserted record
       const getStmt = this.db.prepare('SELECT * FROM summaries WHERE id = ?');
-      const summary = getStmt.get(result.lastInsertRowid) as DatabaseSummary;
+      const summary = getStmt.get(summaryId) as DatabaseSummary;
 
       return summary;
     } catch (error) {
@@ -342,6 +512,10 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Get the script's official summary: the pinned version, or the latest
+   * one when none is pinned
+   */
   public async getSummaryByScriptId(
     scriptId: string
   ): Promise<DatabaseSummary | null> {
@@ -351,11 +525,10 @@ export class DatabaseManager {
 
     try {
       const stmt = this.db.prepare(
-        'SELECT * FROM summaries WHERE script_id = ? ORDER BY created_at DESC LIMIT 1'
+        'SELECT * FROM summaries WHERE script_id = ? ORDER BY is_pinned DESC, version DESC, id DESC LIMIT 1'
       );
       const summary = stmt.get(parseInt(scriptId)) as
-        | DatabaseSummary
-        | undefined;
+        DatabaseSummary | undefined;
       return summary || null;
     } catch (error) {
       throw new Error(
@@ -364,6 +537,61 @@ export class DatabaseManager {
     }
   }
 
+  // Every version of the script's summary, newest first
+  public async getSummaryVersions(
+    scriptId: number
+  ): Promise<DatabaseSummary[]> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(
+        'SELECT * FROM summaries WHERE script_id = ? ORDER BY version DESC, id DESC'
+      );
+      return stmt.all(scriptId) as DatabaseSummary[];
+    } catch (error) {
+      throw new Error(
+        `Failed to get summary versions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Pin one version as the script's official summary, or unpin them all
+   * so the latest version is used
+   */
+  public async pinSummary(
+    scriptId: number,
+    summaryId: number | null
+  ): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const transaction = this.db.transaction(() => {
+        if (summaryId !== null) {
+          const summary = this.db!.prepare(
+            'SELECT id FROM summaries WHERE id = ? AND script_id = ?'
+          ).get(summaryId, scriptId);
+          if (!summary) {
+            throw new Error(`Summary ${summaryId} not found`);
+          }
+        }
+
+        this.db!.prepare(
+          'UPDATE summaries SET is_pinned = CASE WHEN id = ? THEN 1 ELSE 0 END WHERE script_id = ?'
+        ).run(summaryId, scriptId);
+      });
+      transaction();
+    } catch (error) {
+      throw new Error(
+        `Failed to pin summary: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   // CRUD operations for evaluations
   public async saveEvaluation(
     evaluationData: Omit<DatabaseScriptEvaluation, 'id' | 'created_at'>
@@ -436,8 +664,7 @@ export class DatabaseManager {
         'SELECT * FROM script_evaluations WHERE script_id = ?'
       );
       const evaluation = stmt.get(parseInt(scriptId)) as
-        | DatabaseScriptEvaluation
-        | undefined;
+        DatabaseScriptEvaluation | undefined;
       return evaluation || null;
     } catch (error) {
       throw new Error(
@@ -446,20 +673,553 @@ export class DatabaseManager {
     }
   }
 
+  // Scene breakdown operations
+  public async saveScenes(
+    scriptId: number,
+    scenes: Omit<DatabaseScene, 'id' | 'script_id' | 'created_at'>[]
+  ): Promise<DatabaseScene[]> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const deleteStmt = this.db.prepare(
+        'DELETE FROM scenes WHERE script_id = ?'
+      );
+      const insertStmt = this.db.prepare(`
+        INSERT INTO scenes (script_id, scene_index, scene_number, heading, location_type, location, time_of_day, eighths, page)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      // Replace the previous breakdown for this script
+      const transaction = this.db.transaction(() => {
+        deleteStmt.run(scriptId);
+        for (const scene of scenes) {
+          insertStmt.run(
+            scriptId,
+            scene.scene_index,
+            scene.scene_number,
+            scene.heading,
+            scene.location_type,
+            scene.location,
+            scene.time_of_day,
+            scene.eighths,
+            scene.page
+          );
+        }
+      });
+
+      transaction();
+
+      return await this.getScenesByScriptId(scriptId.toString());
+    } catch (error) {
+      throw new Error(
+        `Failed to save scenes: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async getScenesByScriptId(scriptId: string): Promise<DatabaseScene[]> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(
+        'SELECT * FROM scenes WHERE script_id = ? ORDER BY scene_index'
+      );
+      return stmt.all(parseInt(scriptId)) as DatabaseScene[];
+    } catch (error) {
+      throw new Error(
+        `Failed to get scenes: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Prompt template operations
+  public async getPromptTemplates(): Promise<DatabasePromptTemplate[]> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(
+        'SELECT * FROM prompt_templates ORDER BY name COLLATE NOCASE'
+      );
+      return stmt.all() as DatabasePromptTemplate[];
+    } catch (error) {
+      throw new Error(
+        `Failed to get prompt templates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async getPromptTemplate(
+    templateId: string
+  ): Promise<DatabasePromptTemplate | null> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(
+        'SELECT * FROM prompt_templates WHERE id = ?'
+      );
+      const template = stmt.get(parseInt(templateId)) as
+        DatabasePromptTemplate | undefined;
+      return template || null;
+    } catch (error) {
+      throw new Error(
+        `Failed to get prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async getPromptTemplateVersions(
+    templateId: string
+  ): Promise<DatabasePromptTemplateVersion[]> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(
+        'SELECT * FROM prompt_template_versions WHERE template_id = ? ORDER BY version DESC'
+      );
+      return stmt.all(parseInt(templateId)) as DatabasePromptTemplateVersion[];
+    } catch (error) {
+      throw new Error(
+        `Failed to get prompt template versions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Create a template, or update one when an ID is given. Changing the text
+   * of a template makes a new version of it.
+   */
+  public async savePromptTemplate(
+    templateData: Pick<
+      DatabasePromptTemplate,
+      'name' | 'description' | 'body'
+    > & {
+      id?: number;
+    }
+  ): Promise<DatabasePromptTemplate> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const insertVersion = this.db.prepare(`
+        INSERT INTO prompt_template_versions (template_id, version, body)
+        VALUES (?, ?, ?)
+      `);
+
+      const transaction = this.db.transaction((): number => {
+        const existing =
+          templateData.id === undefined
+            ? undefined
+            : (this.db!.prepare(
+                'SELECT * FROM prompt_templates WHERE id = ?'
+              ).get(templateData.id) as DatabasePromptTemplate | undefined);
+
+        if (templateData.id !== undefined && !existing) {
+          throw new Error(`Prompt template ${templateData.id} not found`);
+        }
+
+        if (!existing) {
+          const result = this.db!.prepare(
+            `
+            INSERT INTO prompt_templates (name, description, body)
+            VALUES (?, ?, ?)
+          `
+          ).run(templateData.name, templateData.description, templateData.body);
+          insertVersion.run(result.lastInsertRowid, 1, templateData.body);
+          return Number(result.lastInsertRowid);
+        }
+
+        const version =
+          existing.body === templateData.body
+            ? existing.version
+            : existing.version + 1;
+        this.db!.prepare(
+          `
+          UPDATE prompt_templates
+          SET name = ?, description = ?, body = ?, version = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `
+        ).run(
+          templateData.name,
+          templateData.description,
+          templateData.body,
+          version,
+          existing.id
+        );
+        if (version !== existing.version) {
+          insertVersion.run(existing.id, version, templateData.body);
+        }
+        return existing.id;
+      });
+
+      const templateId = transaction();
+      return (await this.getPromptTemplate(
+        templateId.toString()
+      )) as DatabasePromptTemplate;
+    } catch (error) {
+      throw new Error(
+        `Failed to save prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async deletePromptTemplate(templateId: string): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const transaction = this.db.transaction(() => {
+        this.db!.prepare(
+          'DELETE FROM prompt_template_versions WHERE template_id = ?'
+        ).run(parseInt(templateId));
+        this.db!.prepare('DELETE FROM prompt_templates WHERE id = ?').run(
+          parseInt(templateId)
+        );
+      });
+
+      transaction();
+    } catch (error) {
+      throw new Error(
+        `Failed to delete prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Model benchmark operations
+  public async saveModelBenchmark(
+    benchmarkData: Omit<DatabaseModelBenchmark, 'id' | 'run_at'>
+  ): Promise<DatabaseModelBenchmark> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(`
+        INSERT INTO model_benchmarks (model_id, tokens_per_second, time_to_first_token_ms, duration_ms, memory_bytes, character_accuracy, genre_accuracy, theme_accuracy, overall_accuracy, samples)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      const result = stmt.run(
+        benchmarkData.model_id,
+        benchmarkData.tokens_per_second,
+        benchmarkData.time_to_first_token_ms,
+        benchmarkData.duration_ms,
+        benchmarkData.memory_bytes,
+        benchmarkData.character_accuracy,
+        benchmarkData.genre_accuracy,
+        benchmarkData.theme_accuracy,
+        benchmarkData.overall_accuracy,
+        benchmarkData.samples
+      );
+
+      return this.db
+        .prepare('SELECT * FROM model_benchmarks WHERE id = ?')
+        .get(result.lastInsertRowid) as DatabaseModelBenchmark;
+    } catch (error) {
+      throw new Error(
+        `Failed to save model benchmark: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * The most recent benchmark of each model
+   */
+  public async getLatestModelBenchmarks(): Promise<DatabaseModelBenchmark[]> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM model_benchmarks
+        WHERE id IN (SELECT MAX(id) FROM model_benchmarks GROUP BY model_id)
+        ORDER BY model_id
+      `);
+      return stmt.all() as DatabaseModelBenchmark[];
+    } catch (error) {
+      throw new Error(
+        `Failed to get model benchmarks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Coverage report operations
+  public async saveCoverageReport(
+    reportData: Omit<DatabaseCoverageReport, 'id' | 'created_at'>
+  ): Promise<DatabaseCoverageReport> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(`
+        INSERT INTO coverage_reports (script_id, logline, synopsis, comments, ratings, verdict, genre, comparables, model_used)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      const result = stmt.run(
+        reportData.script_id,
+        reportData.logline,
+        reportData.synopsis,
+        reportData.comments,
+        reportData.ratings,
+        reportData.verdict,
+        reportData.genre,
+        reportData.comparables,
+        reportData.model_used
+      );
+
+      return this.db
+        .prepare('SELECT * FROM coverage_reports WHERE id = ?')
+        .get(result.lastInsertRowid) as DatabaseCoverageReport;
+    } catch (error) {
+      throw new Error(
+        `Failed to save coverage report: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * The most recent coverage report of a script
+   */
+  public async getCoverageReport(
+    scriptId: number
+  ): Promise<DatabaseCoverageReport | null> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(`
+        SELECT * FROM coverage_reports
+        WHERE script_id = ?
+        ORDER BY id DESC
+        LIMIT 1
+      `);
+      return (stmt.get(scriptId) as DatabaseCoverageReport) || null;
+    } catch (error) {
+      throw new Error(
+        `Failed to get coverage report: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Job queue operations
+  public async saveJob(
+    jobData: Omit<DatabaseJob, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<DatabaseJob> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare(`
+        INSERT INTO jobs (type, status, priority, file_path, script_id, title, summary_options, attempts, max_attempts, error, next_attempt_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      const result = stmt.run(
+        jobData.type,
+        jobData.status,
+        jobData.priority,
+        jobData.file_path,
+        jobData.script_id,
+        jobData.title,
+        jobData.summary_options,
+        jobData.attempts,
+        jobData.max_attempts,
+        jobData.error,
+        jobData.next_attempt_at
+      );
+
+      return this.db
+        .prepare('SELECT * FROM jobs WHERE id = ?')
+        .get(result.lastInsertRowid) as DatabaseJob;
+    } catch (error) {
+      throw new Error(
+        `Failed to save job: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async updateJob(
+    jobId: number,
+    updates: Partial<DatabaseJob>
+  ): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const allowedFields = [
+        'status',
+        'priority',
+        'script_id',
+        'title',
+        'attempts',
+        'error',
+        'next_attempt_at',
+      ];
+      const updateFields = Object.keys(updates).filter(key =>
+        allowedFields.includes(key)
+      );
+
+      if (updateFields.length === 0) {
+        throw new Error('No valid fields to update');
+      }
+
+      const setClause = updateFields.map(field => `${field} = ?`).join(', ');
+      const values = updateFields.map(
+        field => updates[field as keyof DatabaseJob]
+      );
+      values.push(jobId);
+
+      this.db
+        .prepare(
+          `
+        UPDATE jobs
+        SET ${setClause}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `
+        )
+        .run(...values);
+    } catch (error) {
+      throw new Error(
+        `Failed to update job: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async getJobs(): Promise<DatabaseJob[]> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare('SELECT * FROM jobs ORDER BY id');
+      return stmt.all() as DatabaseJob[];
+    } catch (error) {
+      throw new Error(
+        `Failed to get jobs: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async deleteJobs(jobIds: number[]): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare('DELETE FROM jobs WHERE id = ?');
+      const transaction = this.db.transaction(() => {
+        jobIds.forEach(jobId => stmt.run(jobId));
+      });
+
+      transaction();
+    } catch (error) {
+      throw new Error(
+        `Failed to delete jobs: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Inbox file operations
+  public async getInboxFiles(): Promise<DatabaseInboxFile[]> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const stmt = this.db.prepare('SELECT * FROM inbox_files');
+      return stmt.all() as DatabaseInboxFile[];
+    } catch (error) {
+      throw new Error(
+        `Failed to get inbox files: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Remember how a file in a watched folder was handled, replacing what was
+   * stored for an earlier version of it
+   */
+  public async saveInboxFile(
+    file: Omit<DatabaseInboxFile, 'handled_at'>
+  ): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      this.db
+        .prepare(
+          `
+        INSERT INTO inbox_files (file_path, file_mtime, status)
+        VALUES (?, ?, ?)
+        ON CONFLICT(file_path) DO UPDATE SET
+          file_mtime = excluded.file_mtime,
+          status = excluded.status,
+          handled_at = CURRENT_TIMESTAMP
+      `
+        )
+        .run(file.file_path, file.file_mtime, file.status);
+    } catch (error) {
+      throw new Error(
+        `Failed to save inbox file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   // Search functionality
-  public async searchScripts(query: string): Promise<DatabaseScript[]> {
+  /**
+   * Search script titles, paths, text, official summaries and evaluation
+   * notes, best matches first. Terms can be scoped to a field, as in
+   * `character:Maya` or `theme:grief`.
+   */
+  public async searchScripts(
+    query: string
+  ): Promise<DatabaseScriptSearchResult[]> {
     if (!this.db) {
       throw new Error('Database not connected');
     }
 
+    const matchQuery = toMatchQuery(query);
+    if (!matchQuery) {
+      return [];
+    }
+
     try {
+      // Titles weigh most, then summaries, notes and paths, then the text
       const stmt = this.db.prepare(`
-        SELECT * FROM scripts 
-        WHERE title LIKE ? OR file_path LIKE ?
-        ORDER BY created_at DESC
+        SELECT scripts.*,
+          bm25(script_search, 10.0, 2.0, 1.0, 4.0, 4.0, 4.0, 3.0) AS score,
+          snippet(script_search, -1, ?, ?, '…', 16) AS snippet
+        FROM script_search
+        JOIN scripts ON scripts.id = script_search.rowid
+        WHERE script_search MATCH ?
+        ORDER BY score
       `);
-      const searchTerm = `%${query}%`;
-      return stmt.all(searchTerm, searchTerm) as DatabaseScript[];
+      const rows = stmt.all(SNIPPET_START, SNIPPET_END, matchQuery) as Array<
+        Omit<DatabaseScriptSearchResult, 'snippet'> & { snippet: string }
+      >;
+
+      return rows.map(row => ({
+        ...row,
+        snippet: toSnippetSegments(row.snippet),
+      }));
     } catch (error) {
       throw new Error(
         `Failed to search scripts: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -482,5 +1242,15 @@ export async function initializeDatabase(
   dbPath?: string
 ): Promise<DatabaseConnection> {
   const manager = getDatabaseManager(dbPath);
-  return await manager.connect();
+  const connection = await manager.connect();
+
+  // Bring the schema up to date with the migrations shipped with the app
+  await new MigrationManager(manager).runMigrations();
+  // Index compressed script text the migrations could not read. Search
+  // works without it, so a failure must not stop the app from starting.
+  await manager.indexScriptContents().catch(error => {
+    console.error('Failed to index script contents:', error);
+  });
+
+  return connection;
 }
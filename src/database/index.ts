@@ -4,11 +4,27 @@ export {
   initializeDatabase,
 } from './connection';
 export { MigrationManager } from './migrations';
+export { toSummaryRow, toScriptSummary } from './summary-mapper';
+export { toMatchQuery, toSnippetSegments } from './search-query';
 export type {
   DatabaseScript,
   DatabaseSummary,
+  NewDatabaseSummary,
   DatabaseScriptEvaluation,
+  DatabaseScriptSearchResult,
+  SearchSnippetSegment,
+  DatabaseScene,
+  DatabasePromptTemplate,
+  DatabasePromptTemplateVersion,
+  DatabaseModelBenchmark,
+  DatabaseCoverageReport,
+  DatabaseJob,
+  DatabaseInboxFile,
+  DatabaseScriptContent,
+  StoredScriptContent,
+  LoadedScript,
+  ScriptImport,
   DatabaseConnection,
   MigrationRecord,
 } from './types';
-export type { Migration } from './migrations';
+export type { Migration, MigrationStatus } from './migrations';
@@ -1,4 +1,4 @@
-import { DatabaseManager } from './connection';
+import type { DatabaseManager } from './connection';
 import { MigrationRecord } from './types';
 import fs from 'fs';
 import path from 'path';
@@ -10,6 +10,16 @@ export interface Migration {
   down?: string;
 }
 
+export interface MigrationStatus {
+  applied: MigrationRecord[];
+  pending: Migration[];
+  /** Backups taken before migrating, newest first */
+  backups: string[];
+}
+
+// Number of backups kept for each database
+const BACKUPS_KEPT = 5;
+
 export class MigrationManager {
   private dbManager: DatabaseManager;
   private migrationsPath: string;
@@ -43,6 +53,15 @@ export class MigrationManager {
       // Sort migrations by version
       pendingMigrations.sort((a, b) => a.version.localeCompare(b.version));
 
+      // Databases created before migrations were recorded already have
+      // tables and some of the columns the migrations add
+      const legacy = appliedMigrations.length === 0 && this.hasTable('scripts');
+
+      // Keep a copy of any existing data before changing the schema
+      if (appliedMigrations.length > 0 || legacy) {
+        await this.backup();
+      }
+
       // Run migrations in transaction
       const runMigrations = db.transaction(() => {
         for (const migration of pendingMigrations) {
@@ -51,7 +70,9 @@ export class MigrationManager {
           );
 
           // Execute migration
-          db.exec(migration.up);
+          db.exec(
+            legacy ? this.skipExistingColumns(migration.up) : migration.up
+          );
 
           // Record migration
           const insertMigration = db.prepare(`
@@ -71,6 +92,92 @@ export class MigrationManager {
     }
   }
 
+  /**
+   * Copy the database to the backups folder next to it, keeping the most
+   * recent backups
+   */
+  public async backup(): Promise<string> {
+    const db = this.dbManager.getConnection();
+
+    try {
+      const backupDir = this.getBackupDir();
+      fs.mkdirSync(backupDir, { recursive: true });
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const backupPath = path.join(
+        backupDir,
+        `${this.getBackupPrefix()}${timestamp}.db`
+      );
+      await db.backup(backupPath);
+      console.log(`Database backed up to ${backupPath}`);
+
+      for (const oldBackup of this.getBackups().slice(BACKUPS_KEPT)) {
+        fs.unlinkSync(oldBackup);
+      }
+
+      return backupPath;
+    } catch (error) {
+      throw new Error(
+        `Backup failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public getBackups(): string[] {
+    const backupDir = this.getBackupDir();
+    if (!fs.existsSync(backupDir)) {
+      return [];
+    }
+
+    // Timestamps in the names sort backups oldest first
+    return fs
+      .readdirSync(backupDir)
+      .filter(
+        file => file.startsWith(this.getBackupPrefix()) && file.endsWith('.db')
+      )
+      .sort()
+      .reverse()
+      .map(file => path.join(backupDir, file));
+  }
+
+  private getBackupDir(): string {
+    return path.join(path.dirname(this.dbManager.getDatabasePath()), 'backups');
+  }
+
+  private getBackupPrefix(): string {
+    return `${path.basename(this.dbManager.getDatabasePath(), '.db')}-`;
+  }
+
+  private hasTable(name: string): boolean {
+    const db = this.dbManager.getConnection();
+    const table = db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?"
+      )
+      .get(name);
+    return table !== undefined;
+  }
+
+  /**
+   * Leave out statements adding columns the database already has, for
+   * databases whose schema was created before migrations were recorded
+   */
+  private skipExistingColumns(sql: string): string {
+    const db = this.dbManager.getConnection();
+
+    return sql.replace(
+      /^ALTER TABLE (\w+) ADD COLUMN (\w+)[^;]*;/gim,
+      (statement, table: string, column: string) => {
+        const columns = db.prepare(`PRAGMA table_info(${table})`).all() as {
+          name: string;
+        }[];
+        return columns.some(existing => existing.name === column)
+          ? ''
+          : statement;
+      }
+    );
+  }
+
   private getAppliedMigrations(): MigrationRecord[] {
     const db = this.dbManager.getConnection();
 
@@ -160,6 +267,15 @@ export class MigrationManager {
         availableMigrations.map(m => [m.version, m])
       );
 
+      // Keep a copy of the data the down migrations remove
+      if (
+        appliedMigrations.some(
+          migration => !targetVersion || migration.version > targetVersion
+        )
+      ) {
+        await this.backup();
+      }
+
       const rollbackMigrations = db.transaction(() => {
         for (const appliedMigration of appliedMigrations) {
           if (targetVersion && appliedMigration.version <= targetVersion) {
@@ -198,13 +314,13 @@ export class MigrationManager {
     }
   }
 
-  public getStatus(): { applied: MigrationRecord[]; pending: Migration[] } {
+  public getStatus(): MigrationStatus {
     const applied = this.getAppliedMigrations();
     const available = this.getAvailableMigrations();
     const appliedVersions = new Set(applied.map(m => m.version));
 
     const pending = available.filter(m => !appliedVersions.has(m.version));
 
-    return { applied, pending };
+    return { applied, pending, backups: this.getBackups() };
   }
 }
@@ -0,0 +1,22 @@
+-- Scene breakdown
+-- Stores the slugline-based scene list extracted from each script
+
+-- Scene breakdown
+CREATE TABLE IF NOT EXISTS scenes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+  scene_index INTEGER NOT NULL,
+  scene_number TEXT,
+  heading TEXT NOT NULL,
+  location_type TEXT NOT NULL,
+  location TEXT NOT NULL,
+  time_of_day TEXT NOT NULL,
+  eighths INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_scenes_script_id ON scenes(script_id);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_scenes_script_id;
+DROP TABLE IF EXISTS scenes;
@@ -0,0 +1,20 @@
+-- Stored script content
+-- Keeps the extracted text and structure of each script so it loads without
+-- re-reading the source file, and flags scripts whose file has gone missing
+
+ALTER TABLE scripts ADD COLUMN file_missing INTEGER DEFAULT 0;
+
+-- Extracted script content, so scripts load without their source file
+CREATE TABLE IF NOT EXISTS script_contents (
+  script_id INTEGER PRIMARY KEY REFERENCES scripts(id) ON DELETE CASCADE,
+  content BLOB NOT NULL,
+  structure BLOB, -- JSON string: the parsed script without its content
+  encoding TEXT NOT NULL DEFAULT 'plain',
+  file_hash TEXT,
+  file_mtime INTEGER,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- DOWN
+DROP TABLE IF EXISTS script_contents;
+ALTER TABLE scripts DROP COLUMN file_missing;
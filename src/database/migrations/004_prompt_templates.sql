@@ -0,0 +1,32 @@
+-- Prompt templates
+-- Stores user-edited summary prompt templates with every version of their
+-- text, and records which template version produced each summary
+
+-- Summary prompt templates
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  description TEXT,
+  body TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Text of every version of each template
+CREATE TABLE IF NOT EXISTS prompt_template_versions (
+  template_id INTEGER NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (template_id, version)
+);
+
+ALTER TABLE summaries ADD COLUMN prompt_template_id INTEGER;
+ALTER TABLE summaries ADD COLUMN prompt_template_version INTEGER;
+
+-- DOWN
+ALTER TABLE summaries DROP COLUMN prompt_template_version;
+ALTER TABLE summaries DROP COLUMN prompt_template_id;
+DROP TABLE IF EXISTS prompt_template_versions;
+DROP TABLE IF EXISTS prompt_templates;
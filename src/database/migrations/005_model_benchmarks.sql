@@ -0,0 +1,25 @@
+-- Model benchmarks
+-- Stores the results of benchmarking models on the bundled sample scripts,
+-- which replace the performance estimated from model names
+
+-- Measured speed and accuracy of models on the bundled sample scripts
+CREATE TABLE IF NOT EXISTS model_benchmarks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  model_id TEXT NOT NULL,
+  tokens_per_second REAL NOT NULL,
+  time_to_first_token_ms REAL NOT NULL,
+  duration_ms REAL NOT NULL,
+  memory_bytes INTEGER,
+  character_accuracy REAL NOT NULL,
+  genre_accuracy REAL NOT NULL,
+  theme_accuracy REAL NOT NULL,
+  overall_accuracy REAL NOT NULL,
+  samples TEXT NOT NULL, -- JSON string
+  run_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_benchmarks_model_id ON model_benchmarks(model_id);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_model_benchmarks_model_id;
+DROP TABLE IF EXISTS model_benchmarks;
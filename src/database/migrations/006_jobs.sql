@@ -0,0 +1,26 @@
+-- Background jobs
+-- Stores processing and summary jobs so the queue survives app restarts
+
+-- Processing and summary jobs queued in the background
+CREATE TABLE IF NOT EXISTS jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  priority INTEGER NOT NULL DEFAULT 0,
+  file_path TEXT,
+  script_id INTEGER,
+  title TEXT NOT NULL,
+  summary_options TEXT, -- JSON string
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  error TEXT,
+  next_attempt_at INTEGER, -- Milliseconds since the epoch
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_jobs_status;
+DROP TABLE IF EXISTS jobs;
@@ -0,0 +1,18 @@
+-- Summary versions
+-- Keeps every generated summary of a script as a numbered version with the
+-- options that produced it, and lets one version be pinned as official
+
+ALTER TABLE summaries ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE summaries ADD COLUMN generation_options TEXT;
+ALTER TABLE summaries ADD COLUMN is_pinned INTEGER DEFAULT 0;
+
+-- Number existing summaries of each script in the order they were saved
+UPDATE summaries SET version = (
+  SELECT COUNT(*) FROM summaries AS earlier
+  WHERE earlier.script_id = summaries.script_id AND earlier.id <= summaries.id
+);
+
+-- DOWN
+ALTER TABLE summaries DROP COLUMN is_pinned;
+ALTER TABLE summaries DROP COLUMN generation_options;
+ALTER TABLE summaries DROP COLUMN version;
@@ -0,0 +1,18 @@
+-- Full summaries
+-- Stores the summary fields that were dropped on save, so a saved summary
+-- reads back complete
+
+ALTER TABLE summaries ADD COLUMN estimated_budget TEXT;
+ALTER TABLE summaries ADD COLUMN target_audience TEXT;
+ALTER TABLE summaries ADD COLUMN tone_and_style TEXT;
+ALTER TABLE summaries ADD COLUMN key_scenes TEXT;
+ALTER TABLE summaries ADD COLUMN production_challenges TEXT;
+ALTER TABLE summaries ADD COLUMN marketability TEXT;
+
+-- DOWN
+ALTER TABLE summaries DROP COLUMN marketability;
+ALTER TABLE summaries DROP COLUMN production_challenges;
+ALTER TABLE summaries DROP COLUMN key_scenes;
+ALTER TABLE summaries DROP COLUMN tone_and_style;
+ALTER TABLE summaries DROP COLUMN target_audience;
+ALTER TABLE summaries DROP COLUMN estimated_budget;
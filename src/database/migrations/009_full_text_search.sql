@@ -0,0 +1,164 @@
+-- Full-text search
+-- Indexes each script's title, path, text, official summary and evaluation
+-- notes in one FTS5 row, whose rowid is the script id. Triggers keep the
+-- index in step with the tables; script text is stored compressed, so it is
+-- indexed by the app when the content is saved.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS script_search USING fts5(
+  title,
+  file_path,
+  content,
+  plot,
+  characters,
+  themes,
+  notes,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Searchable text of each script's official summary: the pinned version, or
+-- the latest when none is pinned
+CREATE VIEW IF NOT EXISTS script_search_summaries AS
+SELECT
+  s.script_id,
+  s.plot_overview AS plot,
+  (
+    SELECT group_concat(
+      trim(
+        coalesce(json_extract(value, '$.name'), '') || ' ' ||
+        coalesce(json_extract(value, '$.description'), '')
+      ),
+      char(10)
+    )
+    FROM json_each(CASE WHEN json_valid(s.characters) THEN s.characters ELSE '[]' END)
+  ) AS characters,
+  (
+    SELECT group_concat(value, char(10))
+    FROM json_each(CASE WHEN json_valid(s.themes) THEN s.themes ELSE '[]' END)
+  ) AS themes
+FROM summaries s
+WHERE s.id = (
+  SELECT id FROM summaries
+  WHERE script_id = s.script_id
+  ORDER BY is_pinned DESC, version DESC, id DESC
+  LIMIT 1
+);
+
+-- Scripts
+CREATE TRIGGER IF NOT EXISTS scripts_search_insert AFTER INSERT ON scripts
+BEGIN
+  INSERT INTO script_search (rowid, title, file_path)
+  VALUES (NEW.id, NEW.title, NEW.file_path);
+END;
+
+CREATE TRIGGER IF NOT EXISTS scripts_search_update
+AFTER UPDATE OF title, file_path ON scripts
+BEGIN
+  UPDATE script_search SET title = NEW.title, file_path = NEW.file_path
+  WHERE rowid = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS scripts_search_delete AFTER DELETE ON scripts
+BEGIN
+  DELETE FROM script_search WHERE rowid = OLD.id;
+END;
+
+-- Script text
+CREATE TRIGGER IF NOT EXISTS script_contents_search_delete
+AFTER DELETE ON script_contents
+BEGIN
+  UPDATE script_search SET content = NULL WHERE rowid = OLD.script_id;
+END;
+
+-- Summaries
+CREATE TRIGGER IF NOT EXISTS summaries_search_insert AFTER INSERT ON summaries
+BEGIN
+  UPDATE script_search SET (plot, characters, themes) = (
+    SELECT plot, characters, themes FROM script_search_summaries
+    WHERE script_id = NEW.script_id
+  )
+  WHERE rowid = NEW.script_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS summaries_search_update AFTER UPDATE ON summaries
+BEGIN
+  UPDATE script_search SET (plot, characters, themes) = (
+    SELECT plot, characters, themes FROM script_search_summaries
+    WHERE script_id = NEW.script_id
+  )
+  WHERE rowid = NEW.script_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS summaries_search_delete AFTER DELETE ON summaries
+BEGIN
+  UPDATE script_search SET (plot, characters, themes) = (
+    SELECT plot, characters, themes FROM script_search_summaries
+    WHERE script_id = OLD.script_id
+  )
+  WHERE rowid = OLD.script_id;
+END;
+
+-- Evaluation notes
+CREATE TRIGGER IF NOT EXISTS evaluations_search_insert
+AFTER INSERT ON script_evaluations
+BEGIN
+  UPDATE script_search SET notes = (
+    SELECT group_concat(notes, char(10)) FROM script_evaluations
+    WHERE script_id = NEW.script_id
+  )
+  WHERE rowid = NEW.script_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS evaluations_search_update
+AFTER UPDATE OF notes ON script_evaluations
+BEGIN
+  UPDATE script_search SET notes = (
+    SELECT group_concat(notes, char(10)) FROM script_evaluations
+    WHERE script_id = NEW.script_id
+  )
+  WHERE rowid = NEW.script_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS evaluations_search_delete
+AFTER DELETE ON script_evaluations
+BEGIN
+  UPDATE script_search SET notes = (
+    SELECT group_concat(notes, char(10)) FROM script_evaluations
+    WHERE script_id = OLD.script_id
+  )
+  WHERE rowid = OLD.script_id;
+END;
+
+-- Index existing scripts. Compressed script text is indexed by the app on
+-- startup.
+INSERT INTO script_search (rowid, title, file_path, content, plot, characters, themes, notes)
+SELECT
+  sc.id,
+  sc.title,
+  sc.file_path,
+  (
+    SELECT CAST(content AS TEXT) FROM script_contents
+    WHERE script_id = sc.id AND encoding = 'plain'
+  ),
+  ss.plot,
+  ss.characters,
+  ss.themes,
+  (
+    SELECT group_concat(notes, char(10)) FROM script_evaluations
+    WHERE script_id = sc.id
+  )
+FROM scripts sc
+LEFT JOIN script_search_summaries ss ON ss.script_id = sc.id;
+
+-- DOWN
+DROP TRIGGER IF EXISTS evaluations_search_delete;
+DROP TRIGGER IF EXISTS evaluations_search_update;
+DROP TRIGGER IF EXISTS evaluations_search_insert;
+DROP TRIGGER IF EXISTS summaries_search_delete;
+DROP TRIGGER IF EXISTS summaries_search_update;
+DROP TRIGGER IF EXISTS summaries_search_insert;
+DROP TRIGGER IF EXISTS script_contents_search_delete;
+DROP TRIGGER IF EXISTS scripts_search_delete;
+DROP TRIGGER IF EXISTS scripts_search_update;
+DROP TRIGGER IF EXISTS scripts_search_insert;
+DROP VIEW IF EXISTS script_search_summaries;
+DROP TABLE IF EXISTS script_search;
@@ -0,0 +1,14 @@
+-- Inbox files
+-- Remembers the files handled in watched folders, so files already in the
+-- library under another path, or that failed to import, are not read again
+-- until they change
+
+CREATE TABLE IF NOT EXISTS inbox_files (
+  file_path TEXT PRIMARY KEY,
+  file_mtime INTEGER NOT NULL, -- Milliseconds since the epoch
+  status TEXT NOT NULL, -- 'imported', 'duplicate' or 'failed'
+  handled_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- DOWN
+DROP TABLE IF EXISTS inbox_files;
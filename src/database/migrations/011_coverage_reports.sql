@@ -0,0 +1,23 @@
+-- Coverage reports
+-- Stores the coverage generated for each script, so reports are kept
+-- between sessions
+
+CREATE TABLE IF NOT EXISTS coverage_reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+  logline TEXT NOT NULL,
+  synopsis TEXT NOT NULL,
+  comments TEXT NOT NULL,
+  ratings TEXT NOT NULL, -- JSON string
+  verdict TEXT NOT NULL, -- 'pass', 'consider' or 'recommend'
+  genre TEXT,
+  comparables TEXT, -- JSON string
+  model_used TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_coverage_reports_script_id ON coverage_reports(script_id);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_coverage_reports_script_id;
+DROP TABLE IF EXISTS coverage_reports;
@@ -0,0 +1,8 @@
+-- Scene pages
+-- Stores the printed page each scene starts on, for scripts with page
+-- boundaries
+
+ALTER TABLE scenes ADD COLUMN page TEXT;
+
+-- DOWN
+ALTER TABLE scenes DROP COLUMN page;
@@ -0,0 +1,78 @@
+/**
+ * Full-text search queries over the script search index
+ * Requirements: 6.1, 6.2
+ */
+
+import type { SearchSnippetSegment } from './types';
+
+// Field names accepted in queries such as `character:Maya`, and the search
+// index column each one searches
+const SEARCH_FIELDS = new Map<string, string>([
+  ['title', 'title'],
+  ['path', 'file_path'],
+  ['file', 'file_path'],
+  ['text', 'content'],
+  ['content', 'content'],
+  ['plot', 'plot'],
+  ['character', 'characters'],
+  ['characters', 'characters'],
+  ['theme', 'themes'],
+  ['themes', 'themes'],
+  ['note', 'notes'],
+  ['notes', 'notes'],
+]);
+
+// Marks matched terms in snippets; control characters never occur in
+// indexed text
+export const SNIPPET_START = '\u0002';
+export const SNIPPET_END = '\u0003';
+
+// field:term, field:"a phrase", "a phrase" or term
+const TERM_PATTERN = /(?:([\p{L}\p{N}_]+):)?(?:"([^"]*)"?|(\S+))/gu;
+
+/**
+ * Convert a search box query to an FTS5 match expression. Every term must
+ * match; unquoted terms also match words they start, so results appear
+ * while typing. Returns null when the query has nothing to search for.
+ */
+export function toMatchQuery(query: string): string | null {
+  const terms: string[] = [];
+
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const [text, field, phrase, word] = match;
+    const column = field ? SEARCH_FIELDS.get(field.toLowerCase()) : undefined;
+    // Unknown fields are searched for as text
+    const value = field && !column ? text : (phrase ?? word);
+
+    if (!/[\p{L}\p{N}]/u.test(value)) {
+      continue;
+    }
+
+    // Quoted phrases match exactly
+    const exact = phrase !== undefined && (!field || column !== undefined);
+    const quoted = `"${value.replace(/"/g, '""')}"${exact ? '' : '*'}`;
+    terms.push(column ? `${column} : ${quoted}` : quoted);
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * Split a snippet marked with SNIPPET_START and SNIPPET_END into plain and
+ * highlighted parts
+ */
+export function toSnippetSegments(snippet: string): SearchSnippetSegment[] {
+  return snippet
+    .split(SNIPPET_START)
+    .flatMap((part, index) => {
+      if (index === 0) {
+        return [{ text: part, highlighted: false }];
+      }
+      const [highlighted, rest = ''] = part.split(SNIPPET_END);
+      return [
+        { text: highlighted, highlighted: true },
+        { text: rest, highlighted: false },
+      ];
+    })
+    .filter(segment => segment.text.length > 0);
+}
@@ -0,0 +1,87 @@
+/**
+ * Conversion between script summaries and stored summary rows
+ * Requirements: 3.1, 4.1
+ */
+
+import type {
+  BudgetCategory,
+  Character,
+  ProductionNote,
+  ScriptSummary,
+} from '../types/summary';
+import type { DatabaseSummary, NewDatabaseSummary } from './types';
+
+// JSON list columns read as an empty list when unset
+const parseList = <T>(value: string | null | undefined): T[] =>
+  value ? JSON.parse(value) : [];
+
+const parseTimestamp = (value: string): Date =>
+  new Date(`${value.replace(' ', 'T')}Z`);
+
+/**
+ * Convert a summary to the row saved for a script
+ */
+export function toSummaryRow(
+  scriptId: number,
+  summary: ScriptSummary
+): NewDatabaseSummary {
+  return {
+    script_id: scriptId,
+    plot_overview: summary.plotOverview,
+    characters: JSON.stringify(summary.mainCharacters),
+    themes: JSON.stringify(summary.themes),
+    production_notes: JSON.stringify(summary.productionNotes),
+    genre: summary.genre || 'Unknown',
+    estimated_budget: summary.estimatedBudget ?? null,
+    target_audience: summary.targetAudience ?? null,
+    tone_and_style: summary.toneAndStyle ?? null,
+    key_scenes: summary.keyScenes ? JSON.stringify(summary.keyScenes) : null,
+    production_challenges: summary.productionChallenges
+      ? JSON.stringify(summary.productionChallenges)
+      : null,
+    marketability: summary.marketability ?? null,
+    model_used: summary.modelUsed,
+    prompt_template_id: summary.promptTemplateId
+      ? parseInt(summary.promptTemplateId)
+      : null,
+    prompt_template_version: summary.promptTemplateVersion ?? null,
+    generation_options: summary.generationOptions
+      ? JSON.stringify(summary.generationOptions)
+      : null,
+  };
+}
+
+/**
+ * Convert a stored row back to the summary it was saved from. Optional
+ * fields that were not stored are left unset.
+ */
+export function toScriptSummary(row: DatabaseSummary): ScriptSummary {
+  const createdAt = parseTimestamp(row.created_at);
+
+  return {
+    id: row.id.toString(),
+    scriptId: row.script_id.toString(),
+    plotOverview: row.plot_overview ?? '',
+    mainCharacters: parseList<Character>(row.characters),
+    themes: parseList<string>(row.themes),
+    productionNotes: parseList<ProductionNote>(row.production_notes),
+    genre: row.genre ?? 'Unknown',
+    estimatedBudget: (row.estimated_budget ?? undefined) as
+      BudgetCategory | undefined,
+    targetAudience: row.target_audience ?? undefined,
+    toneAndStyle: row.tone_and_style ?? undefined,
+    keyScenes: row.key_scenes ? parseList<string>(row.key_scenes) : undefined,
+    productionChallenges: row.production_challenges
+      ? parseList<string>(row.production_challenges)
+      : undefined,
+    marketability: row.marketability ?? undefined,
+    modelUsed: row.model_used ?? '',
+    generationOptions: row.generation_options
+      ? JSON.parse(row.generation_options)
+      : undefined,
+    promptTemplateId: row.prompt_template_id?.toString(),
+    promptTemplateVersion: row.prompt_template_version ?? undefined,
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
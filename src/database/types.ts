@@ -1,13 +1,58 @@
+import type { ParsedScript } from '../types/file-processing';
+
 export interface DatabaseScript {
   id: number;
   title: string;
   file_path: string;
   content_hash: string;
   word_count: number;
+  file_missing?: number; // 1 when the source file could not be found
   created_at: string;
   updated_at: string;
 }
 
+export interface DatabaseScriptContent {
+  script_id: number;
+  content: string | Buffer; // Buffer when gzip encoded
+  structure: string | Buffer | null; // JSON string
+  encoding: 'plain' | 'gzip';
+  file_hash: string | null;
+  file_mtime: number | null;
+  updated_at: string;
+}
+
+/** Extracted script stored with the fingerprint of its source file */
+export interface StoredScriptContent {
+  parsed: ParsedScript;
+  fileHash: string | null;
+  fileMtime: number | null;
+}
+
+/** A script file imported into the library */
+export interface ScriptImport {
+  /** The new script, or the one that already has the file's content */
+  script: DatabaseScript;
+  /** Whether the file's content was already in the library */
+  duplicate: boolean;
+  /** Content extracted from the file */
+  parsed: ParsedScript;
+}
+
+/** A stored script loaded for display */
+export interface LoadedScript {
+  script: DatabaseScript;
+  /** Null when nothing was stored and the source file cannot be read */
+  parsed: ParsedScript | null;
+  fileMissing: boolean;
+  /** Whether the source file changed and was processed again */
+  reprocessed: boolean;
+  /**
+   * Why the changed source file could not be processed again; the stored
+   * content, if any, is loaded instead
+   */
+  processingError?: string;
+}
+
 export interface DatabaseSummary {
   id: number;
   script_id: number;
@@ -16,10 +61,97 @@ export interface DatabaseSummary {
   themes: string | null; // JSON string
   production_notes: string | null; // JSON string
   genre: string | null;
+  estimated_budget?: string | null;
+  target_audience?: string | null;
+  tone_and_style?: string | null;
+  key_scenes?: string | null; // JSON string
+  production_challenges?: string | null; // JSON string
+  marketability?: string | null;
   model_used: string | null;
+  prompt_template_id?: number | null; // Null for the built-in template
+  prompt_template_version?: number | null;
+  version: number; // Numbered per script, starting at 1
+  generation_options?: string | null; // JSON string
+  is_pinned: number; // 1 for the official version
+  created_at: string;
+}
+
+// A summary as saved; the version and pinned flag are set by the database
+export type NewDatabaseSummary = Omit<
+  DatabaseSummary,
+  'id' | 'created_at' | 'version' | 'is_pinned'
+>;
+
+export interface DatabasePromptTemplate {
+  id: number;
+  name: string;
+  description: string | null;
+  body: string; // Text of the current version
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabasePromptTemplateVersion {
+  template_id: number;
+  version: number;
+  body: string;
   created_at: string;
 }
 
+export interface DatabaseModelBenchmark {
+  id: number;
+  model_id: string;
+  tokens_per_second: number;
+  time_to_first_token_ms: number;
+  duration_ms: number;
+  memory_bytes: number | null; // Null when the backend does not report it
+  character_accuracy: number;
+  genre_accuracy: number;
+  theme_accuracy: number;
+  overall_accuracy: number;
+  samples: string; // JSON string
+  run_at: string;
+}
+
+export interface DatabaseCoverageReport {
+  id: number;
+  script_id: number;
+  logline: string;
+  synopsis: string;
+  comments: string;
+  ratings: string; // JSON string
+  verdict: string; // 'pass', 'consider' or 'recommend'
+  genre: string | null;
+  comparables: string | null; // JSON string
+  model_used: string;
+  created_at: string;
+}
+
+export interface DatabaseJob {
+  id: number;
+  type: string; // 'process' or 'summarize'
+  status: string;
+  priority: number;
+  file_path: string | null;
+  script_id: number | null;
+  title: string;
+  summary_options: string | null; // JSON string
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+  next_attempt_at: number | null; // Milliseconds since the epoch
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseInboxFile {
+  file_path: string;
+  file_mtime: number; // Milliseconds since the epoch
+  status: string; // 'imported', 'duplicate' or 'failed'
+  handled_at: string;
+}
+
 export interface DatabaseScriptEvaluation {
   id: number;
   script_id: number;
@@ -30,6 +162,32 @@ export interface DatabaseScriptEvaluation {
   updated_at: string;
 }
 
+/** Part of a search snippet; highlighted parts matched the query */
+export interface SearchSnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/** A script found by full-text search */
+export interface DatabaseScriptSearchResult extends DatabaseScript {
+  score: number; // bm25 score; lower is a better match
+  snippet: SearchSnippetSegment[]; // From the field that best matched
+}
+
+export interface DatabaseScene {
+  id: number;
+  script_id: number;
+  scene_index: number;
+  scene_number: string | null;
+  heading: string;
+  location_type: string;
+  location: string;
+  time_of_day: string;
+  eighths: number;
+  page: string | null; // Printed page the scene starts on
+  created_at: string;
+}
+
 export interface DatabaseConnection {
   close(): void;
   prepare(sql: string): any;
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the worker thread file processing runner
+ * Requirements: 2.1, 2.2
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+
+const workers = vi.hoisted(() => [] as any[]);
+
+// Mock worker threads with controllable event emitters
+vi.mock('node:worker_threads', async () => {
+  const { EventEmitter } = await import('node:events');
+
+  class MockWorker extends EventEmitter {
+    terminate = vi.fn(async () => {
+      this.emit('exit', 1);
+      return 1;
+    });
+
+    constructor(
+      public filename: string,
+      public options: { workerData: unknown }
+    ) {
+      super();
+      workers.push(this);
+    }
+  }
+
+  return { Worker: MockWorker, default: { Worker: MockWorker } };
+});
+
+import { FileProcessingRunner } from '../file-processing-runner';
+
+const script = {
+  content: 'INT. HOUSE - DAY',
+  title: 'Test Script',
+  metadata: {
+    title: 'Test Script',
+    wordCount: 4,
+    characterCount: 16,
+    fileSize: 16,
+  },
+};
+
+describe('FileProcessingRunner', () => {
+  let runner: FileProcessingRunner;
+
+  beforeEach(() => {
+    workers.length = 0;
+    runner = new FileProcessingRunner();
+  });
+
+  const lastWorker = (): EventEmitter & {
+    options: { workerData: unknown };
+    terminate: ReturnType<typeof vi.fn>;
+  } => workers[workers.length - 1];
+
+  it('should pass the job to the worker and resolve with its result', async () => {
+    const result = runner.run('/scripts/test.txt', 'txt');
+
+    expect(lastWorker().options.workerData).toEqual({
+      filePath: '/scripts/test.txt',
+      fileType: 'txt',
+    });
+    expect(runner.isProcessing('/scripts/test.txt')).toBe(true);
+
+    lastWorker().emit('message', { type: 'result', script });
+
+    await expect(result).resolves.toEqual(script);
+    expect(runner.isProcessing('/scripts/test.txt')).toBe(false);
+    expect(lastWorker().terminate).toHaveBeenCalled();
+  });
+
+  it('should forward progress and report completion', async () => {
+    const onProgress = vi.fn();
+    const result = runner.run('/scripts/test.txt', 'txt', onProgress);
+
+    lastWorker().emit('message', {
+      type: 'progress',
+      progress: {
+        currentStep: 'parsing',
+        progress: 25,
+        message: 'Parsing document',
+        cancellable: true,
+      },
+    });
+    lastWorker().emit('message', { type: 'result', script });
+    await result;
+
+    expect(
+      onProgress.mock.calls.map(([progress]) => progress.currentStep)
+    ).toEqual(['parsing', 'complete']);
+  });
+
+  it('should reject with the worker error', async () => {
+    const onProgress = vi.fn();
+    const result = runner.run('/scripts/test.pdf', 'pdf', onProgress);
+
+    lastWorker().emit('message', {
+      type: 'error',
+      message: 'Failed to parse PDF file: bad header',
+    });
+
+    await expect(result).rejects.toThrow(
+      'Failed to parse PDF file: bad header'
+    );
+    expect(onProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ currentStep: 'error' })
+    );
+  });
+
+  it('should reject when the worker exits without a result', async () => {
+    const result = runner.run('/scripts/test.pdf', 'pdf');
+
+    lastWorker().emit('exit', 1);
+
+    await expect(result).rejects.toThrow('stopped unexpectedly');
+  });
+
+  it('should cancel processing and terminate the worker', async () => {
+    const onProgress = vi.fn();
+    const result = runner.run('/scripts/test.pdf', 'pdf', onProgress);
+
+    expect(runner.cancel('/scripts/test.pdf')).toBe(true);
+
+    await expect(result).rejects.toThrow('File processing was cancelled');
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ currentStep: 'cancelled' })
+    );
+    expect(lastWorker().terminate).toHaveBeenCalled();
+    expect(runner.isProcessing('/scripts/test.pdf')).toBe(false);
+    expect(runner.cancel('/scripts/test.pdf')).toBe(false);
+  });
+
+  it('should cancel a previous job for the same file', async () => {
+    const first = runner.run('/scripts/test.pdf', 'pdf');
+    const second = runner.run('/scripts/test.pdf', 'pdf');
+
+    await expect(first).rejects.toThrow('File processing was cancelled');
+
+    lastWorker().emit('message', { type: 'result', script });
+    await expect(second).resolves.toEqual(script);
+  });
+
+  it('should cancel all running jobs', async () => {
+    const first = runner.run('/scripts/a.pdf', 'pdf');
+    const second = runner.run('/scripts/b.txt', 'txt');
+
+    runner.cancelAll();
+
+    await expect(first).rejects.toThrow('cancelled');
+    await expect(second).rejects.toThrow('cancelled');
+  });
+});
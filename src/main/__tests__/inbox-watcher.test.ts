@@ -0,0 +1,310 @@
+/**
+ * Unit tests for the watched inbox folder importer
+ * Requirements: 2.1, 6.1
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+const mockProcessor = vi.hoisted(() => ({
+  validateFile: vi.fn(),
+}));
+
+// Mock services
+vi.mock('../../services/file-processing', async () => {
+  const { generateContentHash } =
+    await import('../../services/file-processing/content-hash');
+  return {
+    fileProcessorFactory: {
+      createProcessor: vi.fn(() => mockProcessor),
+    },
+    generateContentHash,
+  };
+});
+
+vi.mock('../../database', () => ({
+  getDatabaseManager: vi.fn(),
+}));
+
+import { InboxWatcher } from '../inbox-watcher';
+import { getDatabaseManager } from '../../database';
+import { generateContentHash } from '../../services/file-processing/content-hash';
+import type { InboxImportReport } from '../../types/inbox';
+
+describe('InboxWatcher', () => {
+  let tempDir: string;
+  let watcher: InboxWatcher;
+  let runner: { run: ReturnType<typeof vi.fn> };
+  let contentStore: { save: ReturnType<typeof vi.fn> };
+  let mockDB: Record<string, ReturnType<typeof vi.fn>>;
+  let onImportsFinished: ReturnType<typeof vi.fn>;
+  let summarize: ReturnType<typeof vi.fn>;
+
+  const nextReport = (): Promise<InboxImportReport> =>
+    new Promise(resolve => onImportsFinished.mockImplementationOnce(resolve));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'inbox-'));
+
+    mockProcessor.validateFile.mockResolvedValue({
+      isValid: true,
+      errors: [],
+      warnings: [],
+      fileSize: 100,
+      isReadable: true,
+    });
+    runner = {
+      run: vi.fn(async (filePath: string) => ({
+        content: `Content of ${path.basename(filePath)}`,
+        title: path.basename(filePath, path.extname(filePath)),
+        metadata: { wordCount: 3 },
+      })),
+    };
+    contentStore = { save: vi.fn().mockResolvedValue(undefined) };
+    mockDB = {
+      getAllScripts: vi.fn().mockResolvedValue([]),
+      getScriptByContentHash: vi.fn().mockResolvedValue(null),
+      saveScript: vi.fn(async script => ({ id: 1, ...script })),
+      getInboxFiles: vi.fn().mockResolvedValue([]),
+      saveInboxFile: vi.fn().mockResolvedValue(undefined),
+    };
+    vi.mocked(getDatabaseManager).mockReturnValue(mockDB as any);
+    onImportsFinished = vi.fn();
+    summarize = vi.fn().mockResolvedValue(undefined);
+
+    watcher = new InboxWatcher({
+      runner: runner as any,
+      contentStore: contentStore as any,
+      onImportsFinished,
+      summarize,
+      settleDelayMs: 50,
+    });
+  });
+
+  afterEach(async () => {
+    watcher.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should import scripts already in a watched folder', async () => {
+    await fs.writeFile(path.join(tempDir, 'pilot.txt'), 'FADE IN:');
+    await fs.writeFile(path.join(tempDir, 'notes.md'), 'Not a script');
+    const report = nextReport();
+
+    const status = await watcher.configure({
+      watchedFolders: [tempDir],
+      autoSummarizeImports: false,
+    });
+
+    expect(status.watchedFolders).toEqual([path.resolve(tempDir)]);
+    expect(await report).toMatchObject({
+      importedCount: 1,
+      duplicateCount: 0,
+      failedCount: 0,
+      items: [
+        {
+          filePath: path.join(tempDir, 'pilot.txt'),
+          status: 'imported',
+          title: 'pilot',
+          content: 'Content of pilot.txt',
+        },
+      ],
+    });
+    expect(runner.run).toHaveBeenCalledWith(
+      path.join(tempDir, 'pilot.txt'),
+      'txt',
+      undefined
+    );
+    expect(mockDB.saveScript).toHaveBeenCalledWith({
+      title: 'pilot',
+      file_path: path.join(tempDir, 'pilot.txt'),
+      content_hash: generateContentHash('Content of pilot.txt'),
+      word_count: 3,
+    });
+    expect(contentStore.save).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1 }),
+      expect.objectContaining({ content: 'Content of pilot.txt' })
+    );
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('should import every script file type the app reads', async () => {
+    await fs.writeFile(path.join(tempDir, 'pilot.fdx'), '<FinalDraft />');
+    await fs.writeFile(path.join(tempDir, 'pilot.fountain'), 'FADE IN:');
+    const report = nextReport();
+
+    await watcher.configure({
+      watchedFolders: [tempDir],
+      autoSummarizeImports: false,
+    });
+
+    expect((await report).importedCount).toBe(2);
+    expect(runner.run).toHaveBeenCalledWith(
+      path.join(tempDir, 'pilot.fdx'),
+      'fdx',
+      undefined
+    );
+    expect(runner.run).toHaveBeenCalledWith(
+      path.join(tempDir, 'pilot.fountain'),
+      'fountain',
+      undefined
+    );
+  });
+
+  it('should skip files already saved from the folder', async () => {
+    const filePath = path.join(tempDir, 'pilot.txt');
+    await fs.writeFile(filePath, 'FADE IN:');
+    mockDB.getAllScripts.mockResolvedValue([{ id: 1, file_path: filePath }]);
+
+    await watcher.configure({
+      watchedFolders: [tempDir],
+      autoSummarizeImports: false,
+    });
+
+    expect(watcher.getStatus().pendingFiles).toBe(0);
+    expect(runner.run).not.toHaveBeenCalled();
+  });
+
+  it('should not read handled files again until they change', async () => {
+    const handled = path.join(tempDir, 'failed.pdf');
+    await fs.writeFile(handled, '%PDF-1.4');
+    await fs.writeFile(path.join(tempDir, 'new.txt'), 'FADE IN:');
+    const failed = {
+      file_path: handled,
+      file_mtime: Math.floor((await fs.stat(handled)).mtimeMs),
+      status: 'failed',
+    };
+    mockDB.getInboxFiles.mockResolvedValue([failed]);
+    const report = nextReport();
+
+    await watcher.configure({
+      watchedFolders: [tempDir],
+      autoSummarizeImports: false,
+    });
+
+    expect((await report).items).toEqual([
+      expect.objectContaining({ filePath: path.join(tempDir, 'new.txt') }),
+    ]);
+    expect(runner.run).toHaveBeenCalledTimes(1);
+    expect(mockDB.saveInboxFile).toHaveBeenCalledWith({
+      file_path: path.join(tempDir, 'new.txt'),
+      file_mtime: expect.any(Number),
+      status: 'imported',
+    });
+
+    // A changed file is read again
+    const changed = nextReport();
+    const later = new Date(Date.now() + 60_000);
+    await fs.utimes(handled, later, later);
+    mockDB.getInboxFiles.mockResolvedValue([
+      failed,
+      mockDB.saveInboxFile.mock.calls[0][0],
+    ]);
+    await watcher.configure({
+      watchedFolders: [tempDir],
+      autoSummarizeImports: false,
+    });
+
+    expect((await changed).items).toEqual([
+      expect.objectContaining({ filePath: handled }),
+    ]);
+  });
+
+  it('should dedupe scripts by content hash', async () => {
+    await fs.writeFile(path.join(tempDir, 'copy.pdf'), '%PDF-1.4');
+    mockDB.getScriptByContentHash.mockResolvedValue({
+      id: 7,
+      title: 'Original',
+    });
+    const report = nextReport();
+
+    await watcher.configure({
+      watchedFolders: [tempDir],
+      autoSummarizeImports: true,
+    });
+
+    expect(await report).toMatchObject({
+      importedCount: 0,
+      duplicateCount: 1,
+      items: [{ status: 'duplicate', scriptId: 7, title: 'Original' }],
+    });
+    expect(mockDB.getScriptByContentHash).toHaveBeenCalledWith(
+      generateContentHash('Content of copy.pdf')
+    );
+    expect(mockDB.saveScript).not.toHaveBeenCalled();
+    expect(contentStore.save).not.toHaveBeenCalled();
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('should report files that fail validation', async () => {
+    await fs.writeFile(path.join(tempDir, 'broken.docx'), 'not a zip');
+    mockProcessor.validateFile.mockResolvedValue({
+      isValid: false,
+      errors: [{ code: 'CORRUPTED_FILE', message: 'File is corrupted' }],
+      warnings: [],
+      fileSize: 9,
+      isReadable: true,
+    });
+    const report = nextReport();
+
+    await watcher.configure({
+      watchedFolders: [tempDir],
+      autoSummarizeImports: false,
+    });
+
+    expect(await report).toMatchObject({
+      failedCount: 1,
+      items: [{ status: 'failed', error: 'File is corrupted' }],
+    });
+    expect(runner.run).not.toHaveBeenCalled();
+  });
+
+  it('should queue summaries for imported scripts when enabled', async () => {
+    await fs.writeFile(path.join(tempDir, 'pilot.txt'), 'FADE IN:');
+    const report = nextReport();
+
+    await watcher.configure({
+      watchedFolders: [tempDir],
+      autoSummarizeImports: true,
+    });
+    await report;
+
+    await vi.waitFor(() => {
+      expect(summarize).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1, title: 'pilot' }),
+        expect.objectContaining({ content: 'Content of pilot.txt' })
+      );
+    });
+  });
+
+  it('should import files added to a watched folder', async () => {
+    await watcher.configure({
+      watchedFolders: [tempDir],
+      autoSummarizeImports: false,
+    });
+    const report = nextReport();
+
+    await fs.writeFile(path.join(tempDir, 'new-draft.txt'), 'FADE IN:');
+
+    expect(await report).toMatchObject({
+      importedCount: 1,
+      items: [{ filePath: path.join(tempDir, 'new-draft.txt') }],
+    });
+  });
+
+  it('should report folders that cannot be watched', async () => {
+    const missing = path.join(tempDir, 'missing');
+
+    const status = await watcher.configure({
+      watchedFolders: [missing],
+      autoSummarizeImports: false,
+    });
+
+    expect(status.watchedFolders).toEqual([]);
+    expect(status.errors).toEqual([
+      { folder: missing, message: expect.any(String) },
+    ]);
+  });
+});
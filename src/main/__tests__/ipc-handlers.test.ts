@@ -17,6 +17,9 @@ vi.mock('electron', () => ({
   dialog: {
     showOpenDialog: vi.fn(),
   },
+  BrowserWindow: {
+    getAllWindows: vi.fn(() => []),
+  },
 }));
 
 // Mock file system
@@ -29,29 +32,74 @@ vi.mock('../../services/file-processing', () => ({
   },
 }));
 
-vi.mock('../../services/llm', () => ({
+const mockRunner = vi.hoisted(() => ({
+  run: vi.fn(),
+  cancel: vi.fn(),
+  cancelAll: vi.fn(),
+}));
+
+vi.mock('../file-processing-runner', () => ({
+  FileProcessingRunner: vi.fn(() => mockRunner),
+}));
+
+const mockContentStore = vi.hoisted(() => ({
+  save: vi.fn(),
+  load: vi.fn(),
+}));
+
+vi.mock('../script-content-store', () => ({
+  ScriptContentStore: vi.fn(() => mockContentStore),
+}));
+
+vi.mock('../script-importer', () => ({
+  importScriptFile: vi.fn(),
+}));
+
+vi.mock('../../services/llm', async () => ({
   OllamaService: vi.fn(),
+  PromptService: (
+    await vi.importActual<typeof import('../../services/llm/prompt-service')>(
+      '../../services/llm/prompt-service'
+    )
+  ).PromptService,
+  BenchmarkScorer: (
+    await vi.importActual<typeof import('../../services/llm/benchmark-scorer')>(
+      '../../services/llm/benchmark-scorer'
+    )
+  ).BenchmarkScorer,
+  llmProviderRegistry: {
+    getProviders: vi.fn(),
+    createService: vi.fn(),
+  },
+  promptTemplateRegistry: {
+    setLoader: vi.fn(),
+  },
 }));
 
 vi.mock('../../database', () => ({
   getDatabaseManager: vi.fn(),
+  MigrationManager: vi.fn(),
 }));
 
 import {
   registerFileHandlers,
   registerLLMHandlers,
   registerDatabaseHandlers,
+  registerInboxHandlers,
+  registerQueueHandlers,
   initializeIPCHandlers,
   cleanupIPCHandlers,
 } from '../ipc-handlers';
 import { fileProcessorFactory } from '../../services/file-processing';
-import { OllamaService } from '../../services/llm';
-import { getDatabaseManager } from '../../database';
+import { importScriptFile } from '../script-importer';
+import { OllamaService, llmProviderRegistry } from '../../services/llm';
+import { getDatabaseManager, MigrationManager } from '../../database';
 
 describe('IPC Handlers', () => {
   const mockIpcMain = ipcMain as any;
   const mockFileProcessorFactory = fileProcessorFactory as any;
   const mockOllamaService = OllamaService as any;
+  const mockProviderRegistry = llmProviderRegistry as any;
   const mockGetDatabaseManager = getDatabaseManager as any;
 
   beforeEach(() => {
@@ -88,6 +136,20 @@ describe('IPC Handlers', () => {
       );
     });
 
+    it('should register processing cancellation handler', () => {
+      expect(mockIpcMain.handle).toHaveBeenCalledWith(
+        'file:cancel-processing',
+        expect.any(Function)
+      );
+    });
+
+    it('should register scene breakdown handler', () => {
+      expect(mockIpcMain.handle).toHaveBeenCalledWith(
+        'file:scene-breakdown',
+        expect.any(Function)
+      );
+    });
+
     describe('File Validation', () => {
       let validateHandler: Function;
 
@@ -154,34 +216,230 @@ describe('IPC Handlers', () => {
         processHandler = processCall[1];
       });
 
-      it('should process valid files', async () => {
-        const mockProcessor = {
-          parseFile: vi.fn().mockResolvedValue({
-            content: 'Script content',
-            title: 'Test Script',
-            metadata: { wordCount: 100 },
-            warnings: [],
-          }),
-        };
-
-        mockFileProcessorFactory.createProcessor.mockReturnValue(mockProcessor);
+      it('should process valid files in a worker', async () => {
+        mockRunner.run.mockResolvedValue({
+          content: 'Script content',
+          title: 'Test Script',
+          metadata: { wordCount: 100 },
+          warnings: [],
+        });
         vi.mocked(fs.stat).mockResolvedValue({ size: 1024 } as any);
 
-        const result = await processHandler(null, '/path/to/script.pdf');
+        const result = await processHandler(
+          { sender: { send: vi.fn(), isDestroyed: () => false } },
+          '/path/to/script.pdf'
+        );
 
-        expect(mockProcessor.parseFile).toHaveBeenCalledWith(
+        expect(mockRunner.run).toHaveBeenCalledWith(
           '/path/to/script.pdf',
-          'pdf'
+          'pdf',
+          expect.any(Function)
         );
         expect(result.content).toBe('Script content');
       });
 
+      it('should forward progress to the renderer', async () => {
+        const progress = {
+          currentStep: 'parsing',
+          progress: 25,
+          message: 'Parsing document',
+          cancellable: true,
+        };
+        mockRunner.run.mockImplementation(
+          async (_filePath, _fileType, onProgress) => {
+            onProgress(progress);
+            return { content: '', title: 'Test Script', metadata: {} };
+          }
+        );
+        vi.mocked(fs.stat).mockResolvedValue({ size: 1024 } as any);
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        await processHandler({ sender }, '/path/to/script.txt');
+
+        expect(sender.send).toHaveBeenCalledWith(
+          'file:processing-progress',
+          '/path/to/script.txt',
+          progress
+        );
+      });
+
+      it('should import files into the library with progress', async () => {
+        const progress = {
+          currentStep: 'parsing',
+          progress: 25,
+          message: 'Parsing document',
+          cancellable: true,
+        };
+        const imported = {
+          script: { id: 1, title: 'Test Script' },
+          duplicate: false,
+          parsed: { content: 'Script content' },
+        };
+        vi.mocked(importScriptFile).mockImplementation(
+          async (_filePath, _runner, _contentStore, onProgress) => {
+            onProgress?.(progress as any);
+            return imported as any;
+          }
+        );
+        const importCall = mockIpcMain.handle.mock.calls.find(
+          (call: unknown[]) => call[0] === 'file:import'
+        );
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        const result = await importCall[1]({ sender }, '/path/to/script.pdf');
+
+        expect(result).toEqual(imported);
+        expect(importScriptFile).toHaveBeenCalledWith(
+          '/path/to/script.pdf',
+          mockRunner,
+          mockContentStore,
+          expect.any(Function)
+        );
+        expect(sender.send).toHaveBeenCalledWith(
+          'file:processing-progress',
+          '/path/to/script.pdf',
+          progress
+        );
+      });
+
+      it('should resolve null when processing is cancelled', async () => {
+        const cancelled = {
+          currentStep: 'cancelled',
+          progress: 100,
+          message: 'File processing was cancelled',
+          cancellable: false,
+        };
+        mockRunner.run.mockImplementation(
+          async (_filePath, _fileType, onProgress) => {
+            onProgress(cancelled);
+            throw new Error('File processing was cancelled');
+          }
+        );
+        vi.mocked(importScriptFile).mockImplementation(
+          async (_filePath, _runner, _contentStore, onProgress) => {
+            onProgress?.(cancelled as any);
+            throw new Error('File processing was cancelled');
+          }
+        );
+        vi.mocked(fs.stat).mockResolvedValue({ size: 1024 } as any);
+        const importCall = mockIpcMain.handle.mock.calls.find(
+          (call: unknown[]) => call[0] === 'file:import'
+        );
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        expect(
+          await processHandler({ sender }, '/path/to/script.pdf')
+        ).toBeNull();
+        expect(await importCall[1]({ sender }, '/path/to/script.pdf')).toBe(
+          null
+        );
+      });
+
+      it('should cancel processing of a file', async () => {
+        mockRunner.cancel.mockReturnValue(true);
+        const cancelCall = mockIpcMain.handle.mock.calls.find(
+          (call: unknown[]) => call[0] === 'file:cancel-processing'
+        );
+
+        const result = await cancelCall[1](null, '/path/to/script.pdf');
+
+        expect(result).toBe(true);
+        expect(mockRunner.cancel).toHaveBeenCalledWith('/path/to/script.pdf');
+      });
+
       it('should reject invalid file paths', async () => {
         await expect(
           processHandler(null, '../../../etc/passwd')
         ).rejects.toThrow('Invalid file path');
       });
     });
+
+    describe('Scene Breakdown', () => {
+      let breakdownHandler: (...args: unknown[]) => Promise<any>;
+
+      beforeEach(() => {
+        const calls = mockIpcMain.handle.mock.calls;
+        const breakdownCall = calls.find(
+          (call: unknown[]) => call[0] === 'file:scene-breakdown'
+        );
+        breakdownHandler = breakdownCall[1];
+
+        mockRunner.run.mockResolvedValue({
+          content: 'INT. DINER - NIGHT\n\nSam waits.',
+          title: 'Test Script',
+          metadata: { wordCount: 5 },
+        });
+        vi.mocked(fs.stat).mockResolvedValue({ size: 1024 } as any);
+      });
+
+      it('should return the scene breakdown of a file', async () => {
+        const result = await breakdownHandler(null, '/path/to/script.txt');
+
+        expect(result.scenes).toHaveLength(1);
+        expect(result.scenes[0]).toMatchObject({
+          locationType: 'INT',
+          location: 'DINER',
+          timeOfDay: 'NIGHT',
+        });
+        expect(mockGetDatabaseManager).not.toHaveBeenCalled();
+      });
+
+      it('should persist scenes when a script ID is given', async () => {
+        const mockDB = {
+          getScript: vi.fn().mockResolvedValue(null),
+          saveScenes: vi.fn().mockResolvedValue([]),
+        };
+        mockGetDatabaseManager.mockReturnValue(mockDB);
+
+        await breakdownHandler(null, '/path/to/script.txt', '7');
+
+        expect(mockDB.saveScenes).toHaveBeenCalledWith(7, [
+          expect.objectContaining({
+            scene_index: 1,
+            scene_number: null,
+            heading: 'INT. DINER - NIGHT',
+            location_type: 'INT',
+            location: 'DINER',
+            time_of_day: 'NIGHT',
+            page: null,
+          }),
+        ]);
+      });
+
+      it('should use the stored content of a saved script', async () => {
+        const script = { id: 7, file_path: '/path/to/script.txt' };
+        const mockDB = {
+          getScript: vi.fn().mockResolvedValue(script),
+          saveScenes: vi.fn().mockResolvedValue([]),
+        };
+        mockGetDatabaseManager.mockReturnValue(mockDB);
+        mockContentStore.load.mockResolvedValue({
+          script,
+          parsed: {
+            content: 'EXT. BEACH - DAY\n\nWaves.\n\nINT. CAR - NIGHT\n\nRain.',
+            metadata: { wordCount: 10 },
+          },
+          fileMissing: false,
+          reprocessed: false,
+        });
+
+        const result = await breakdownHandler(null, '/path/to/script.txt', '7');
+
+        expect(mockDB.getScript).toHaveBeenCalledWith('7');
+        expect(mockContentStore.load).toHaveBeenCalledWith(script);
+        expect(mockRunner.run).not.toHaveBeenCalled();
+        expect(result.scenes.map((scene: any) => scene.location)).toEqual([
+          'BEACH',
+          'CAR',
+        ]);
+      });
+
+      it('should reject invalid file paths', async () => {
+        await expect(
+          breakdownHandler(null, '../../../etc/passwd')
+        ).rejects.toThrow('Scene breakdown failed: Invalid file path');
+      });
+    });
   });
 
   describe('LLM Handlers', () => {
@@ -193,9 +451,17 @@ describe('IPC Handlers', () => {
         getServiceStatus: vi.fn(),
         listAvailableModels: vi.fn(),
         getCurrentModel: vi.fn(),
-        setActiveModel: vi.fn(),
+        setActiveModel: vi.fn().mockResolvedValue(undefined),
         testModel: vi.fn(),
+        benchmarkModel: vi.fn(),
+        pullModel: vi.fn(),
+        cancelPull: vi.fn(),
+        deleteModel: vi.fn(),
+        getModelDetails: vi.fn(),
         generateSummary: vi.fn(),
+        startSummary: vi.fn(),
+        generateCoverage: vi.fn(),
+        startCoverage: vi.fn(),
         cancelGeneration: vi.fn(),
       };
 
@@ -207,11 +473,20 @@ describe('IPC Handlers', () => {
       const expectedHandlers = [
         'llm:is-available',
         'llm:get-status',
+        'llm:list-providers',
+        'llm:configure-provider',
         'llm:list-models',
         'llm:get-current-model',
         'llm:set-model',
         'llm:test-model',
+        'llm:run-benchmark',
+        'llm:pull-model',
+        'llm:cancel-pull',
+        'llm:delete-model',
+        'llm:get-model-details',
         'llm:generate-summary',
+        'llm:start-summary',
+        'llm:start-coverage',
         'llm:cancel-generation',
       ];
 
@@ -254,14 +529,480 @@ describe('IPC Handlers', () => {
       const handler = summaryCall[1];
 
       const options = { length: 'standard', focusAreas: ['plot'] };
-      const result = await handler(null, 'Script content', options);
+      const sender = { send: vi.fn(), isDestroyed: () => false };
+      const result = await handler(
+        { sender },
+        'Script content',
+        options,
+        'script_1'
+      );
 
       expect(result).toEqual(mockSummary);
       expect(mockLLMInstance.generateSummary).toHaveBeenCalledWith(
         'Script content',
-        options
+        options,
+        'script_1',
+        expect.any(Function)
       );
     });
+
+    it('should forward generation progress to the renderer', async () => {
+      const progress = {
+        operationId: 'op_1',
+        progress: 40,
+        stage: 'extracting_plot',
+        message: 'Writing plot overview',
+        cancellable: true,
+        scriptId: 'script_1',
+        partialText: '## PLOT OVERVIEW\n',
+      };
+      mockLLMInstance.generateSummary.mockImplementation(
+        async (
+          _content: string,
+          _options: unknown,
+          _scriptId: string,
+          onProgress: (update: typeof progress) => void
+        ) => {
+          onProgress(progress);
+          return { plotOverview: 'Test plot' };
+        }
+      );
+      const handler = mockIpcMain.handle.mock.calls.find(
+        (call: unknown[]) => call[0] === 'llm:generate-summary'
+      )[1];
+      const sender = { send: vi.fn(), isDestroyed: () => false };
+
+      await handler({ sender }, 'Script content', {}, 'script_1');
+
+      expect(sender.send).toHaveBeenCalledWith(
+        'llm:generation-progress',
+        progress
+      );
+    });
+
+    describe('llm:configure-provider', () => {
+      const configureProvider = (...args: unknown[]) =>
+        mockIpcMain.handle.mock.calls
+          .find((call: unknown[]) => call[0] === 'llm:configure-provider')[1]
+          .apply(null, args);
+
+      const settings = {
+        provider: 'openai-compatible',
+        endpoint: 'http://localhost:8080',
+      };
+      const status = {
+        isRunning: true,
+        version: 'Unknown',
+        availableModels: 1,
+        lastHealthCheck: new Date(),
+        warnings: [],
+      };
+
+      it('should switch to the configured provider', async () => {
+        const providerService = {
+          listAvailableModels: vi
+            .fn()
+            .mockResolvedValue([{ id: 'qwen2.5-7b-instruct' }]),
+          setActiveModel: vi.fn().mockResolvedValue(undefined),
+          getServiceStatus: vi.fn().mockResolvedValue(status),
+          isAvailable: vi.fn().mockResolvedValue(true),
+        };
+        mockProviderRegistry.createService.mockReturnValue(providerService);
+
+        const result = await configureProvider({}, settings);
+
+        expect(mockProviderRegistry.createService).toHaveBeenCalledWith(
+          settings
+        );
+        expect(providerService.setActiveModel).toHaveBeenCalledWith(
+          'qwen2.5-7b-instruct'
+        );
+        expect(result).toEqual(status);
+
+        // Later requests go to the new provider
+        const isAvailable = mockIpcMain.handle.mock.calls.find(
+          (call: unknown[]) => call[0] === 'llm:is-available'
+        )[1];
+        await isAvailable();
+        expect(providerService.isAvailable).toHaveBeenCalled();
+        expect(mockLLMInstance.isAvailable).not.toHaveBeenCalled();
+      });
+
+      it('should keep the current provider when configuration fails', async () => {
+        mockProviderRegistry.createService.mockImplementation(() => {
+          throw new Error('Unknown LLM provider: other');
+        });
+
+        await expect(
+          configureProvider({}, { provider: 'other', endpoint: '' })
+        ).rejects.toThrow(
+          'Provider configuration failed: Unknown LLM provider: other'
+        );
+      });
+    });
+
+    describe('llm:start-summary', () => {
+      const startSummary = (...args: unknown[]) =>
+        mockIpcMain.handle.mock.calls
+          .find((call: unknown[]) => call[0] === 'llm:start-summary')[1]
+          .apply(null, args);
+
+      it('should return the operation ID and send the summary when done', async () => {
+        const summary = { plotOverview: 'Test plot' };
+        mockLLMInstance.startSummary.mockReturnValue({
+          operationId: 'op_1',
+          result: Promise.resolve(summary),
+        });
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        const operationId = await startSummary(
+          { sender },
+          'Script content',
+          {},
+          'script_1'
+        );
+        await Promise.resolve();
+
+        expect(operationId).toBe('op_1');
+        expect(sender.send).toHaveBeenCalledWith('llm:generation-complete', {
+          operationId: 'op_1',
+          scriptId: 'script_1',
+          summary,
+        });
+      });
+
+      it('should report cancelled generation', async () => {
+        mockLLMInstance.startSummary.mockImplementation(
+          (
+            _content: string,
+            _options: unknown,
+            _scriptId: string,
+            onProgress: (progress: unknown) => void
+          ) => {
+            onProgress({ operationId: 'op_1', stage: 'cancelled' });
+            return {
+              operationId: 'op_1',
+              result: Promise.reject(
+                new Error('Summary generation was cancelled')
+              ),
+            };
+          }
+        );
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        await startSummary({ sender }, 'Script content', {}, 'script_1');
+        await Promise.resolve();
+
+        expect(sender.send).toHaveBeenCalledWith('llm:generation-complete', {
+          operationId: 'op_1',
+          scriptId: 'script_1',
+          error: 'Summary generation was cancelled',
+          cancelled: true,
+        });
+      });
+    });
+
+    describe('benchmarks', () => {
+      const invoke = (channel: string, ...args: unknown[]) =>
+        mockIpcMain.handle.mock.calls
+          .find((call: unknown[]) => call[0] === channel)[1]
+          .apply(null, args);
+
+      const benchmarkRow = {
+        id: 1,
+        model_id: 'llama2:7b',
+        tokens_per_second: 25,
+        time_to_first_token_ms: 300,
+        duration_ms: 10000,
+        memory_bytes: null,
+        character_accuracy: 1,
+        genre_accuracy: 0.5,
+        theme_accuracy: 0.75,
+        overall_accuracy: 0.75,
+        samples: '[]',
+        run_at: '2024-01-15 10:30:00',
+      };
+
+      it('should benchmark each model and store the results', async () => {
+        const result = {
+          modelId: 'llama2:7b',
+          tokensPerSecond: 25,
+          timeToFirstTokenMs: 300,
+          durationMs: 10000,
+          accuracy: { characters: 1, genre: 0.5, themes: 0.75, overall: 0.75 },
+          samples: [],
+          runAt: new Date(),
+        };
+        mockLLMInstance.benchmarkModel.mockImplementation(
+          async (
+            _modelId: string,
+            _samples: unknown,
+            onProgress: (progress: unknown) => void
+          ) => {
+            onProgress({ modelId: 'llama2:7b', sampleIndex: 0 });
+            return result;
+          }
+        );
+        const mockDB = { saveModelBenchmark: vi.fn() };
+        vi.mocked(getDatabaseManager).mockReturnValue(mockDB as any);
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        const results = await invoke('llm:run-benchmark', { sender }, [
+          'llama2:7b',
+        ]);
+
+        expect(results).toEqual([result]);
+        expect(sender.send).toHaveBeenCalledWith('llm:benchmark-progress', {
+          modelId: 'llama2:7b',
+          sampleIndex: 0,
+        });
+        expect(mockDB.saveModelBenchmark).toHaveBeenCalledWith(
+          expect.objectContaining({
+            model_id: 'llama2:7b',
+            tokens_per_second: 25,
+            memory_bytes: null,
+            samples: '[]',
+          })
+        );
+      });
+
+      it('should list models with their measured performance', async () => {
+        mockLLMInstance.listAvailableModels.mockResolvedValue([
+          { id: 'llama2:7b', performance: { qualityRating: 4 } },
+          { id: 'mistral:7b', performance: { qualityRating: 4 } },
+        ]);
+        vi.mocked(getDatabaseManager).mockReturnValue({
+          getLatestModelBenchmarks: vi.fn().mockResolvedValue([benchmarkRow]),
+        } as any);
+
+        const [benchmarked, estimated] = await invoke('llm:list-models');
+
+        expect(benchmarked.performance).toMatchObject({
+          tokensPerSecond: 25,
+          accuracy: 0.75,
+          benchmarkedAt: new Date('2024-01-15T10:30:00Z'),
+        });
+        expect(estimated.performance).toEqual({ qualityRating: 4 });
+      });
+    });
+
+    describe('model management', () => {
+      const invoke = (channel: string, ...args: unknown[]) =>
+        mockIpcMain.handle.mock.calls
+          .find((call: unknown[]) => call[0] === channel)[1]
+          .apply(null, args);
+
+      it('should pull a model and forward its progress', async () => {
+        mockLLMInstance.pullModel.mockImplementation(
+          async (
+            _modelName: string,
+            _options: unknown,
+            onProgress: (progress: unknown) => void
+          ) => {
+            onProgress({ modelName: 'llama3.1:8b', status: 'success' });
+          }
+        );
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        await invoke('llm:pull-model', { sender }, 'llama3.1:8b', {
+          registry: 'http://mirror.local:5000',
+        });
+
+        expect(mockLLMInstance.pullModel).toHaveBeenCalledWith(
+          'llama3.1:8b',
+          { registry: 'http://mirror.local:5000' },
+          expect.any(Function)
+        );
+        expect(sender.send).toHaveBeenCalledWith('llm:pull-progress', {
+          modelName: 'llama3.1:8b',
+          status: 'success',
+        });
+      });
+
+      it('should wrap pull errors', async () => {
+        mockLLMInstance.pullModel.mockRejectedValue(
+          new Error('file does not exist')
+        );
+
+        await expect(
+          invoke('llm:pull-model', { sender: {} }, 'missing')
+        ).rejects.toThrow('Model pull failed: file does not exist');
+      });
+
+      it('should delete a model and read model details', async () => {
+        mockLLMInstance.getModelDetails.mockResolvedValue({ family: 'llama' });
+
+        await invoke('llm:delete-model', {}, 'llama2:7b');
+        const details = await invoke('llm:get-model-details', {}, 'llama2:7b');
+
+        expect(mockLLMInstance.deleteModel).toHaveBeenCalledWith('llama2:7b');
+        expect(details).toEqual({ family: 'llama' });
+      });
+
+      it('should reject providers that do not manage models', async () => {
+        delete mockLLMInstance.pullModel;
+
+        await expect(
+          invoke('llm:delete-model', {}, 'llama2:7b')
+        ).rejects.toThrow('does not manage its own models');
+      });
+    });
+
+    describe('llm:start-coverage', () => {
+      const startCoverage = (...args: unknown[]) =>
+        mockIpcMain.handle.mock.calls
+          .find((call: unknown[]) => call[0] === 'llm:start-coverage')[1]
+          .apply(null, args);
+      const report = {
+        id: 'coverage_1',
+        scriptId: '7',
+        logline: 'Test logline',
+        synopsis: 'Test synopsis',
+        comments: 'Test comments',
+        ratings: { premise: 'good' },
+        verdict: 'pass',
+        modelUsed: 'llama2:7b',
+        createdAt: new Date(),
+      };
+
+      it('should save the report with the script and send it when done', async () => {
+        mockLLMInstance.startCoverage.mockImplementation(
+          (
+            _content: string,
+            _options: unknown,
+            _scriptId: string,
+            onProgress: (progress: unknown) => void
+          ) => {
+            onProgress({ operationId: 'op_1', stage: 'analyzing_content' });
+            return { operationId: 'op_1', result: Promise.resolve(report) };
+          }
+        );
+        const mockDB = {
+          saveCoverageReport: vi.fn().mockResolvedValue({
+            id: 3,
+            script_id: 7,
+            logline: 'Test logline',
+            synopsis: 'Test synopsis',
+            comments: 'Test comments',
+            ratings: '{"premise":"good"}',
+            verdict: 'pass',
+            genre: null,
+            comparables: null,
+            model_used: 'llama2:7b',
+            created_at: '2024-01-01 12:00:00',
+          }),
+        };
+        vi.mocked(getDatabaseManager).mockReturnValue(mockDB as any);
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        const operationId = await startCoverage(
+          { sender },
+          'Script content',
+          {},
+          '7'
+        );
+
+        expect(operationId).toBe('op_1');
+        expect(sender.send).toHaveBeenCalledWith('llm:generation-progress', {
+          operationId: 'op_1',
+          stage: 'analyzing_content',
+        });
+        await vi.waitFor(() =>
+          expect(sender.send).toHaveBeenCalledWith('llm:coverage-complete', {
+            operationId: 'op_1',
+            scriptId: '7',
+            report: expect.objectContaining({
+              id: '3',
+              scriptId: '7',
+              ratings: { premise: 'good' },
+              genre: undefined,
+              createdAt: new Date('2024-01-01T12:00:00Z'),
+            }),
+          })
+        );
+        expect(mockDB.saveCoverageReport).toHaveBeenCalledWith({
+          script_id: 7,
+          logline: 'Test logline',
+          synopsis: 'Test synopsis',
+          comments: 'Test comments',
+          ratings: '{"premise":"good"}',
+          verdict: 'pass',
+          genre: null,
+          comparables: null,
+          model_used: 'llama2:7b',
+        });
+      });
+
+      it('should report cancelled generation without saving', async () => {
+        mockLLMInstance.startCoverage.mockImplementation(
+          (
+            _content: string,
+            _options: unknown,
+            _scriptId: string,
+            onProgress: (progress: unknown) => void
+          ) => {
+            onProgress({ operationId: 'op_1', stage: 'cancelled' });
+            return {
+              operationId: 'op_1',
+              result: Promise.reject(
+                new Error('Coverage generation was cancelled')
+              ),
+            };
+          }
+        );
+        const mockDB = { saveCoverageReport: vi.fn() };
+        vi.mocked(getDatabaseManager).mockReturnValue(mockDB as any);
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        await startCoverage({ sender }, 'Script content', {}, '7');
+
+        await vi.waitFor(() =>
+          expect(sender.send).toHaveBeenCalledWith('llm:coverage-complete', {
+            operationId: 'op_1',
+            scriptId: '7',
+            error: 'Coverage generation was cancelled',
+            cancelled: true,
+          })
+        );
+        expect(mockDB.saveCoverageReport).not.toHaveBeenCalled();
+      });
+
+      it('should send the report with the error when it cannot be saved', async () => {
+        mockLLMInstance.startCoverage.mockReturnValue({
+          operationId: 'op_1',
+          result: Promise.resolve(report),
+        });
+        vi.mocked(getDatabaseManager).mockReturnValue({
+          saveCoverageReport: vi
+            .fn()
+            .mockRejectedValue(
+              new Error('Failed to save coverage report: disk full')
+            ),
+        } as any);
+        const sender = { send: vi.fn(), isDestroyed: () => false };
+
+        await startCoverage({ sender }, 'Script content', {}, '7');
+
+        await vi.waitFor(() =>
+          expect(sender.send).toHaveBeenCalledWith('llm:coverage-complete', {
+            operationId: 'op_1',
+            scriptId: '7',
+            report,
+            error: 'Failed to save coverage report: disk full',
+          })
+        );
+      });
+
+      it('should wrap errors starting generation', async () => {
+        mockLLMInstance.startCoverage.mockImplementation(() => {
+          throw new Error('No model selected');
+        });
+
+        await expect(
+          startCoverage({ sender: {} }, 'Script content', {})
+        ).rejects.toThrow('Coverage generation failed: No model selected');
+      });
+    });
   });
 
   describe('Database Handlers', () => {
@@ -294,9 +1035,20 @@ describe('IPC Handlers', () => {
         'db:delete-script',
         'db:save-summary',
         'db:get-summary',
+        'db:get-summary-versions',
+        'db:get-coverage-report',
+        'db:pin-summary',
+        'db:get-diagnostics',
         'db:save-evaluation',
         'db:get-evaluation',
+        'db:get-scenes',
         'db:search-scripts',
+        'db:save-script-content',
+        'db:load-script',
+        'db:get-prompt-templates',
+        'db:get-prompt-template-versions',
+        'db:save-prompt-template',
+        'db:delete-prompt-template',
       ];
 
       expectedHandlers.forEach(handler => {
@@ -359,6 +1111,265 @@ describe('IPC Handlers', () => {
       expect(result).toEqual(mockScript);
       expect(mockDB.getScript).toHaveBeenCalledWith('1');
     });
+
+    it('should store the content of a saved script', async () => {
+      const mockScript = { id: 1, file_path: '/path/to/script.pdf' };
+      const parsed = { content: 'FADE IN:', title: 'Test Script' };
+      mockDB.getScript.mockResolvedValue(mockScript);
+
+      const saveCall = mockIpcMain.handle.mock.calls.find(
+        (call: unknown[]) => call[0] === 'db:save-script-content'
+      );
+      await saveCall[1](null, '1', parsed);
+
+      expect(mockContentStore.save).toHaveBeenCalledWith(mockScript, parsed);
+
+      mockDB.getScript.mockResolvedValue(null);
+      await expect(saveCall[1](null, '2', parsed)).rejects.toThrow(
+        'Failed to save script content: Script 2 not found'
+      );
+    });
+
+    it('should load a script from the content store', async () => {
+      const mockScript = { id: 1, file_path: '/path/to/script.pdf' };
+      const loaded = {
+        script: mockScript,
+        parsed: { content: 'FADE IN:' },
+        fileMissing: true,
+        reprocessed: false,
+      };
+      mockDB.getScript.mockResolvedValue(mockScript);
+      mockContentStore.load.mockResolvedValue(loaded);
+
+      const loadCall = mockIpcMain.handle.mock.calls.find(
+        (call: unknown[]) => call[0] === 'db:load-script'
+      );
+
+      expect(await loadCall[1](null, '1')).toEqual(loaded);
+      expect(mockContentStore.load).toHaveBeenCalledWith(mockScript);
+    });
+
+    it('should only save prompt templates that include the script', async () => {
+      const templateDB = { savePromptTemplate: vi.fn() };
+      mockGetDatabaseManager.mockReturnValue(templateDB);
+      const template = {
+        name: 'Coverage',
+        description: null,
+        body: 'Write coverage of {{script}}',
+      };
+      templateDB.savePromptTemplate.mockResolvedValue({
+        id: 1,
+        version: 1,
+        ...template,
+      });
+
+      const saveCall = mockIpcMain.handle.mock.calls.find(
+        (call: unknown[]) => call[0] === 'db:save-prompt-template'
+      );
+
+      expect(await saveCall[1](null, template)).toMatchObject({ version: 1 });
+      expect(templateDB.savePromptTemplate).toHaveBeenCalledWith(template);
+
+      await expect(
+        saveCall[1](null, { ...template, body: 'Write coverage' })
+      ).rejects.toThrow(
+        'Failed to save prompt template: The template must include {{script}}'
+      );
+      expect(templateDB.savePromptTemplate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should list and pin summary versions', async () => {
+      const versionDB = {
+        getSummaryVersions: vi.fn().mockResolvedValue([
+          { id: 2, script_id: 1, version: 2, is_pinned: 0 },
+          { id: 1, script_id: 1, version: 1, is_pinned: 1 },
+        ]),
+        pinSummary: vi.fn().mockRejectedValue(new Error('Summary 9 not found')),
+      };
+      mockGetDatabaseManager.mockReturnValue(versionDB);
+
+      const versionsCall = mockIpcMain.handle.mock.calls.find(
+        (call: unknown[]) => call[0] === 'db:get-summary-versions'
+      );
+      const pinCall = mockIpcMain.handle.mock.calls.find(
+        (call: unknown[]) => call[0] === 'db:pin-summary'
+      );
+
+      expect(await versionsCall[1](null, 1)).toHaveLength(2);
+      expect(versionDB.getSummaryVersions).toHaveBeenCalledWith(1);
+      await expect(pinCall[1](null, 1, 9)).rejects.toThrow(
+        'Failed to pin summary: Summary 9 not found'
+      );
+      expect(versionDB.pinSummary).toHaveBeenCalledWith(1, 9);
+    });
+
+    it('should return null when a script has no coverage report', async () => {
+      const coverageDB = { getCoverageReport: vi.fn().mockResolvedValue(null) };
+      mockGetDatabaseManager.mockReturnValue(coverageDB);
+
+      const coverageCall = mockIpcMain.handle.mock.calls.find(
+        (call: unknown[]) => call[0] === 'db:get-coverage-report'
+      );
+
+      expect(await coverageCall[1](null, 1)).toBeNull();
+      expect(coverageDB.getCoverageReport).toHaveBeenCalledWith(1);
+    });
+
+    it('should report the migrations applied to the database', async () => {
+      mockGetDatabaseManager.mockReturnValue({
+        getDatabasePath: vi.fn(() => '/data/script-summarizer.db'),
+      });
+      vi.mocked(MigrationManager).mockImplementation(function () {
+        return {
+          getStatus: () => ({
+            applied: [
+              { id: 1, version: '001', applied_at: '2026-03-01 10:30:00' },
+            ],
+            pending: [
+              { version: '002', description: 'scene breakdown', up: '' },
+            ],
+            backups: ['/data/backups/script-summarizer-2026.db'],
+          }),
+        } as any;
+      });
+
+      const diagnosticsCall = mockIpcMain.handle.mock.calls.find(
+        (call: unknown[]) => call[0] === 'db:get-diagnostics'
+      );
+
+      expect(await diagnosticsCall[1](null)).toEqual({
+        databasePath: '/data/script-summarizer.db',
+        appliedMigrations: [
+          { version: '001', appliedAt: new Date('2026-03-01T10:30:00Z') },
+        ],
+        pendingMigrations: [{ version: '002', description: 'scene breakdown' }],
+        backups: ['/data/backups/script-summarizer-2026.db'],
+      });
+    });
+  });
+
+  describe('Inbox Handlers', () => {
+    beforeEach(() => {
+      registerInboxHandlers({} as any);
+    });
+
+    it('should register all inbox handlers', () => {
+      ['inbox:configure', 'inbox:get-status', 'inbox:choose-folder'].forEach(
+        handler => {
+          expect(mockIpcMain.handle).toHaveBeenCalledWith(
+            handler,
+            expect.any(Function)
+          );
+        }
+      );
+    });
+
+    it('should report the watcher status', async () => {
+      const statusCall = mockIpcMain.handle.mock.calls.find(
+        (call: unknown[]) => call[0] === 'inbox:get-status'
+      );
+
+      const result = await statusCall[1](null);
+
+      expect(result).toEqual({
+        watchedFolders: [],
+        autoSummarizeImports: false,
+        pendingFiles: 0,
+        errors: [],
+      });
+    });
+  });
+
+  describe('Queue Handlers', () => {
+    const invoke = (channel: string, ...args: unknown[]) =>
+      mockIpcMain.handle.mock.calls
+        .find((call: unknown[]) => call[0] === channel)[1]
+        .apply(null, [null, ...args]);
+
+    let mockDB: Record<string, ReturnType<typeof vi.fn>>;
+
+    beforeEach(() => {
+      mockDB = {
+        getJobs: vi.fn().mockResolvedValue([]),
+        saveJob: vi.fn(async job => ({
+          id: 1,
+          created_at: '2026-01-01 00:00:00',
+          updated_at: '2026-01-01 00:00:00',
+          ...job,
+        })),
+        updateJob: vi.fn(),
+        getScript: vi.fn().mockResolvedValue(null),
+      };
+      vi.mocked(getDatabaseManager).mockReturnValue(mockDB as any);
+      registerQueueHandlers({} as any);
+    });
+
+    it('should register all queue handlers', () => {
+      [
+        'queue:get-status',
+        'queue:configure',
+        'queue:enqueue-files',
+        'queue:enqueue-summaries',
+        'queue:pause',
+        'queue:resume',
+        'queue:pause-job',
+        'queue:resume-job',
+        'queue:set-priority',
+        'queue:cancel-job',
+        'queue:retry-job',
+        'queue:clear-finished',
+      ].forEach(handler => {
+        expect(mockIpcMain.handle).toHaveBeenCalledWith(
+          handler,
+          expect.any(Function)
+        );
+      });
+    });
+
+    it('should queue files while the queue is paused', async () => {
+      await invoke('queue:pause');
+
+      const status = await invoke(
+        'queue:enqueue-files',
+        ['/scripts/pilot.pdf'],
+        { priority: 2 }
+      );
+
+      expect(status.paused).toBe(true);
+      expect(status.jobs).toEqual([
+        expect.objectContaining({
+          type: 'process',
+          status: 'queued',
+          filePath: '/scripts/pilot.pdf',
+          title: 'pilot.pdf',
+          priority: 2,
+        }),
+      ]);
+      expect(mockDB.saveJob).toHaveBeenCalledWith(
+        expect.objectContaining({ file_path: '/scripts/pilot.pdf' })
+      );
+    });
+
+    it('should reject files that are not scripts', async () => {
+      await expect(
+        invoke('queue:enqueue-files', ['/scripts/notes.exe'])
+      ).rejects.toThrow('Failed to queue files: Invalid file path');
+      expect(mockDB.saveJob).not.toHaveBeenCalled();
+    });
+
+    it('should report scripts that cannot be summarized', async () => {
+      await expect(invoke('queue:enqueue-summaries', ['42'])).rejects.toThrow(
+        'Failed to queue summaries: Script 42 not found'
+      );
+    });
+
+    it('should apply the concurrency setting', async () => {
+      const status = await invoke('queue:configure', {
+        maxConcurrentProcessing: 4,
+      });
+
+      expect(status.concurrency).toBe(4);
+    });
   });
 
   describe('Initialization and Cleanup', () => {
@@ -366,8 +1377,8 @@ describe('IPC Handlers', () => {
       const initialCallCount = mockIpcMain.handle.mock.calls.length;
       initializeIPCHandlers();
 
-      // Should register 21 handlers total (3 file + 8 LLM + 10 database)
-      expect(mockIpcMain.handle).toHaveBeenCalledTimes(initialCallCount + 21);
+      // Should register 61 handlers total (8 file + 17 LLM + 21 database + 3 inbox + 12 queue)
+      expect(mockIpcMain.handle).toHaveBeenCalledTimes(initialCallCount + 61);
     });
 
     it('should cleanup all handlers', () => {
@@ -377,13 +1388,25 @@ describe('IPC Handlers', () => {
         'file:open-dialog',
         'file:validate',
         'file:process',
+        'file:import',
+        'file:cancel-processing',
+        'file:scene-breakdown',
         'llm:is-available',
         'llm:get-status',
+        'llm:list-providers',
+        'llm:configure-provider',
         'llm:list-models',
         'llm:get-current-model',
         'llm:set-model',
         'llm:test-model',
+        'llm:run-benchmark',
+        'llm:pull-model',
+        'llm:cancel-pull',
+        'llm:delete-model',
+        'llm:get-model-details',
         'llm:generate-summary',
+        'llm:start-summary',
+        'llm:start-coverage',
         'llm:cancel-generation',
         'db:save-script',
         'db:get-script',
@@ -392,14 +1415,41 @@ describe('IPC Handlers', () => {
         'db:delete-script',
         'db:save-summary',
         'db:get-summary',
+        'db:get-summary-versions',
+        'db:get-coverage-report',
+        'db:pin-summary',
+        'db:get-diagnostics',
         'db:save-evaluation',
         'db:get-evaluation',
+        'db:get-scenes',
         'db:search-scripts',
+        'db:save-script-content',
+        'db:load-script',
+        'db:get-prompt-templates',
+        'db:get-prompt-template-versions',
+        'db:save-prompt-template',
+        'db:delete-prompt-template',
+        'inbox:configure',
+        'inbox:get-status',
+        'inbox:choose-folder',
+        'queue:get-status',
+        'queue:configure',
+        'queue:enqueue-files',
+        'queue:enqueue-summaries',
+        'queue:pause',
+        'queue:resume',
+        'queue:pause-job',
+        'queue:resume-job',
+        'queue:set-priority',
+        'queue:cancel-job',
+        'queue:retry-job',
+        'queue:clear-finished',
       ];
 
       expectedHandlers.forEach(handler => {
         expect(mockIpcMain.removeAllListeners).toHaveBeenCalledWith(handler);
       });
+      expect(mockRunner.cancelAll).toHaveBeenCalled();
     });
   });
 });
@@ -45,9 +45,24 @@ vi.mock('../../services/llm', () => ({
     getCurrentModel: vi.fn(),
     setActiveModel: vi.fn(),
     testModel: vi.fn(),
+    benchmarkModel: vi.fn(),
+    pullModel: vi.fn(),
+    cancelPull: vi.fn(),
+    deleteModel: vi.fn(),
+    getModelDetails: vi.fn(),
     generateSummary: vi.fn(),
+    startSummary: vi.fn(),
+    generateCoverage: vi.fn(),
+    startCoverage: vi.fn(),
     cancelGeneration: vi.fn(),
   })),
+  llmProviderRegistry: {
+    getProviders: vi.fn(),
+    createService: vi.fn(),
+  },
+  promptTemplateRegistry: {
+    setLoader: vi.fn(),
+  },
 }));
 
 vi.mock('../../database', () => ({
@@ -139,9 +154,34 @@ describe('IPC Integration Tests', () => {
         'db:delete-script',
         'db:save-summary',
         'db:get-summary',
+        'db:get-summary-versions',
+        'db:get-coverage-report',
+        'db:pin-summary',
+        'db:get-diagnostics',
         'db:save-evaluation',
         'db:get-evaluation',
         'db:search-scripts',
+        'db:save-script-content',
+        'db:load-script',
+        'db:get-prompt-templates',
+        'db:get-prompt-template-versions',
+        'db:save-prompt-template',
+        'db:delete-prompt-template',
+        'inbox:configure',
+        'inbox:get-status',
+        'inbox:choose-folder',
+        'queue:get-status',
+        'queue:configure',
+        'queue:enqueue-files',
+        'queue:enqueue-summaries',
+        'queue:pause',
+        'queue:resume',
+        'queue:pause-job',
+        'queue:resume-job',
+        'queue:set-priority',
+        'queue:cancel-job',
+        'queue:retry-job',
+        'queue:clear-finished',
       ];
 
       expectedHandlers.forEach(handlerName => {
@@ -160,11 +200,20 @@ describe('IPC Integration Tests', () => {
       const expectedHandlers = [
         'llm:is-available',
         'llm:get-status',
+        'llm:list-providers',
+        'llm:configure-provider',
         'llm:list-models',
         'llm:get-current-model',
         'llm:set-model',
         'llm:test-model',
+        'llm:run-benchmark',
+        'llm:pull-model',
+        'llm:cancel-pull',
+        'llm:delete-model',
+        'llm:get-model-details',
         'llm:generate-summary',
+        'llm:start-summary',
+        'llm:start-coverage',
         'llm:cancel-generation',
       ];
 
@@ -267,13 +316,24 @@ describe('IPC Integration Tests', () => {
         'file:open-dialog',
         'file:validate',
         'file:process',
+        'file:import',
+        'file:cancel-processing',
         'llm:is-available',
         'llm:get-status',
+        'llm:list-providers',
+        'llm:configure-provider',
         'llm:list-models',
         'llm:get-current-model',
         'llm:set-model',
         'llm:test-model',
+        'llm:run-benchmark',
+        'llm:pull-model',
+        'llm:cancel-pull',
+        'llm:delete-model',
+        'llm:get-model-details',
         'llm:generate-summary',
+        'llm:start-summary',
+        'llm:start-coverage',
         'llm:cancel-generation',
         'db:save-script',
         'db:get-script',
@@ -282,9 +342,34 @@ describe('IPC Integration Tests', () => {
         'db:delete-script',
         'db:save-summary',
         'db:get-summary',
+        'db:get-summary-versions',
+        'db:get-coverage-report',
+        'db:pin-summary',
+        'db:get-diagnostics',
         'db:save-evaluation',
         'db:get-evaluation',
         'db:search-scripts',
+        'db:save-script-content',
+        'db:load-script',
+        'db:get-prompt-templates',
+        'db:get-prompt-template-versions',
+        'db:save-prompt-template',
+        'db:delete-prompt-template',
+        'inbox:configure',
+        'inbox:get-status',
+        'inbox:choose-folder',
+        'queue:get-status',
+        'queue:configure',
+        'queue:enqueue-files',
+        'queue:enqueue-summaries',
+        'queue:pause',
+        'queue:resume',
+        'queue:pause-job',
+        'queue:resume-job',
+        'queue:set-priority',
+        'queue:cancel-job',
+        'queue:retry-job',
+        'queue:clear-finished',
       ];
 
       expectedHandlers.forEach(handlerName => {
@@ -0,0 +1,451 @@
+/**
+ * Unit tests for the background job queue
+ * Requirements: 2.1, 3.2
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../database', () => ({
+  getDatabaseManager: vi.fn(),
+}));
+
+vi.mock('../script-importer', () => ({
+  importScriptFile: vi.fn(),
+}));
+
+import { JobQueue } from '../job-queue';
+import { getDatabaseManager } from '../../database';
+import { importScriptFile } from '../script-importer';
+import type { DatabaseJob } from '../../database';
+import type { JobQueueStatus } from '../../types/jobs';
+import type { SummaryOptions } from '../../types/llm-service';
+
+const summaryOptions: SummaryOptions = {
+  length: 'brief',
+  focusAreas: ['plot'],
+  includeProductionNotes: false,
+  analyzeCharacterRelationships: false,
+  identifyThemes: true,
+  assessMarketability: false,
+};
+
+// Stores jobs in memory the way the jobs table does
+const createJobTable = (initial: Partial<DatabaseJob>[] = []) => {
+  const rows = new Map<number, DatabaseJob>();
+  let nextId = 1;
+
+  const insert = (data: Partial<DatabaseJob>): DatabaseJob => {
+    const row: DatabaseJob = {
+      id: nextId++,
+      type: 'process',
+      status: 'queued',
+      priority: 0,
+      file_path: null,
+      script_id: null,
+      title: 'Job',
+      summary_options: null,
+      attempts: 0,
+      max_attempts: 3,
+      error: null,
+      next_attempt_at: null,
+      created_at: '2026-01-01 00:00:00',
+      updated_at: '2026-01-01 00:00:00',
+      ...data,
+    };
+    rows.set(row.id, row);
+    return row;
+  };
+  initial.forEach(insert);
+
+  return {
+    rows,
+    saveJob: vi.fn(async (data: Partial<DatabaseJob>) => insert(data)),
+    updateJob: vi.fn(async (jobId: number, updates: Partial<DatabaseJob>) => {
+      Object.assign(rows.get(jobId)!, updates);
+    }),
+    getJobs: vi.fn(async () => [...rows.values()]),
+    deleteJobs: vi.fn(async (jobIds: number[]) => {
+      jobIds.forEach(jobId => rows.delete(jobId));
+    }),
+  };
+};
+
+describe('JobQueue', () => {
+  let table: ReturnType<typeof createJobTable>;
+  let mockDB: Record<string, ReturnType<typeof vi.fn>>;
+  let runner: { cancel: ReturnType<typeof vi.fn> };
+  let contentStore: { load: ReturnType<typeof vi.fn> };
+  let summarize: ReturnType<typeof vi.fn>;
+  let onChange: ReturnType<typeof vi.fn>;
+  let onJobCompleted: ReturnType<typeof vi.fn>;
+  let onSummaryProgress: ReturnType<typeof vi.fn>;
+  let queue: JobQueue;
+
+  const createQueue = () =>
+    new JobQueue({
+      runner: runner as any,
+      contentStore: contentStore as any,
+      summarize,
+      onChange,
+      onJobCompleted,
+      onSummaryProgress,
+      retryDelayMs: 20,
+    });
+
+  // Resolves once every job has completed, failed or been cancelled
+  const settled = (): Promise<JobQueueStatus> =>
+    vi.waitFor(() => {
+      const status = queue.getStatus();
+      const busy = status.jobs.some(job =>
+        ['queued', 'running'].includes(job.status)
+      );
+      if (busy) {
+        throw new Error('Jobs are still running');
+      }
+      return status;
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    table = createJobTable();
+    mockDB = {
+      saveJob: table.saveJob,
+      updateJob: table.updateJob,
+      getJobs: table.getJobs,
+      deleteJobs: table.deleteJobs,
+      getScript: vi.fn(async (scriptId: string) => ({
+        id: parseInt(scriptId),
+        title: `Script ${scriptId}`,
+        file_path: `/scripts/${scriptId}.txt`,
+      })),
+      getSummaryByScriptId: vi.fn().mockResolvedValue(null),
+    };
+    vi.mocked(getDatabaseManager).mockReturnValue(mockDB as any);
+    vi.mocked(importScriptFile).mockImplementation(async filePath => ({
+      script: {
+        id: filePath.length,
+        title: filePath.slice(1, -4),
+        file_path: filePath,
+      } as any,
+      duplicate: false,
+      parsed: { content: `Content of ${filePath}` } as any,
+    }));
+
+    runner = { cancel: vi.fn() };
+    contentStore = {
+      load: vi.fn(async script => ({
+        script,
+        parsed: { content: `Content of ${script.title}` },
+        fileMissing: false,
+        reprocessed: false,
+      })),
+    };
+    summarize = vi.fn().mockResolvedValue(undefined);
+    onChange = vi.fn();
+    onJobCompleted = vi.fn();
+    onSummaryProgress = vi.fn();
+    queue = createQueue();
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  it('should process files and queue their summaries', async () => {
+    await queue.start();
+    await queue.enqueueFiles(['/pilot.txt'], { summaryOptions });
+
+    const status = await settled();
+
+    expect(status.jobs).toHaveLength(2);
+    expect(status.jobs[0]).toMatchObject({
+      type: 'process',
+      status: 'completed',
+      title: 'pilot',
+      scriptId: 10,
+    });
+    expect(status.jobs[1]).toMatchObject({
+      type: 'summarize',
+      status: 'completed',
+      scriptId: 10,
+    });
+    expect(summarize).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 10 }),
+      expect.objectContaining({ content: 'Content of Script 10' }),
+      summaryOptions,
+      expect.any(AbortSignal),
+      expect.any(Function)
+    );
+    expect(onJobCompleted).toHaveBeenCalledTimes(2);
+    expect(table.rows.get(1)!.status).toBe('completed');
+  });
+
+  it('should not summarize duplicates that already have a summary', async () => {
+    vi.mocked(importScriptFile).mockResolvedValueOnce({
+      script: { id: 3, title: 'pilot', file_path: '/pilot.txt' } as any,
+      duplicate: true,
+      parsed: { content: 'FADE IN:' } as any,
+    });
+    mockDB.getSummaryByScriptId.mockResolvedValue({ id: 1, script_id: 3 });
+
+    await queue.start();
+    await queue.enqueueFiles(['/pilot.txt'], { summaryOptions });
+
+    const status = await settled();
+    expect(status.jobs).toHaveLength(1);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('should run no more jobs at a time than the concurrency', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    summarize.mockImplementation(async () => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running--;
+    });
+
+    queue.setConcurrency(2);
+    await queue.start();
+    await queue.enqueueSummaries(
+      [1, 2, 3, 4, 5].map(id => ({ id, title: `Script ${id}` }))
+    );
+
+    await settled();
+    expect(summarize).toHaveBeenCalledTimes(5);
+    expect(mostRunning).toBe(2);
+  });
+
+  it('should start jobs with a higher priority first', async () => {
+    queue.setConcurrency(1);
+    queue.pause();
+    await queue.start();
+    const status = await queue.enqueueSummaries([
+      { id: 1, title: 'First' },
+      { id: 2, title: 'Second' },
+      { id: 3, title: 'Third' },
+    ]);
+    await queue.setPriority(status.jobs[2].id, 1);
+    queue.resume();
+
+    await settled();
+    expect(summarize.mock.calls.map(([script]) => script.id)).toEqual([
+      3, 1, 2,
+    ]);
+  });
+
+  it('should retry failed jobs with backoff before giving up', async () => {
+    summarize.mockRejectedValue(new Error('Model not found'));
+
+    await queue.start();
+    await queue.enqueueSummaries([{ id: 1, title: 'Pilot' }]);
+
+    const status = await settled();
+
+    // The job waits longer before each retry
+    const retries = onChange.mock.calls
+      .map(([change]) => change.jobs[0])
+      .filter(job => job?.status === 'queued' && job.nextAttemptAt);
+    const delays = [1, 2].map(attempts => {
+      const retry = retries.find(job => job.attempts === attempts);
+      expect(retry.error).toBe('Model not found');
+      return retry.nextAttemptAt.getTime() - retry.updatedAt.getTime();
+    });
+    expect(delays[1]).toBeGreaterThan(delays[0]);
+
+    expect(status.jobs[0]).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      error: 'Model not found',
+    });
+    expect(summarize).toHaveBeenCalledTimes(3);
+
+    // A failed job can be run again from the start
+    summarize.mockResolvedValue(undefined);
+    await queue.retry(status.jobs[0].id);
+    expect((await settled()).jobs[0]).toMatchObject({
+      status: 'completed',
+      attempts: 1,
+    });
+  });
+
+  it('should hold back paused jobs until they are resumed', async () => {
+    queue.pause();
+    await queue.start();
+    const status = await queue.enqueueSummaries([
+      { id: 1, title: 'First' },
+      { id: 2, title: 'Second' },
+    ]);
+    await queue.pauseJob(status.jobs[0].id);
+    queue.resume();
+
+    await vi.waitFor(() => {
+      expect(queue.getStatus().jobs[1].status).toBe('completed');
+    });
+    expect(queue.getStatus().jobs[0].status).toBe('paused');
+    expect(summarize).toHaveBeenCalledTimes(1);
+
+    await queue.resumeJob(status.jobs[0].id);
+    await settled();
+    expect(summarize).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cancel queued jobs and stop files being processed', async () => {
+    queue.pause();
+    await queue.start();
+    let status = await queue.enqueueFiles(['/pilot.txt']);
+    status = await queue.cancel(status.jobs[0].id);
+    expect(status.jobs[0].status).toBe('cancelled');
+
+    vi.mocked(importScriptFile).mockImplementationOnce(
+      () =>
+        new Promise((_, reject) => {
+          runner.cancel.mockImplementation(() =>
+            reject(new Error('File processing was cancelled'))
+          );
+        })
+    );
+    status = await queue.enqueueFiles(['/finale.txt']);
+    queue.resume();
+    await vi.waitFor(() => {
+      expect(importScriptFile).toHaveBeenCalledTimes(1);
+    });
+    await queue.cancel(status.jobs[1].id);
+
+    status = await settled();
+    expect(runner.cancel).toHaveBeenCalledWith('/finale.txt');
+    expect(status.jobs[1]).toMatchObject({ status: 'cancelled', attempts: 1 });
+  });
+
+  it('should stop summaries being generated when cancelled', async () => {
+    summarize.mockImplementationOnce(
+      (_script, _content, _options, signal: AbortSignal) =>
+        new Promise((_, reject) => {
+          signal.addEventListener('abort', () =>
+            reject(new Error('Summary generation was cancelled'))
+          );
+        })
+    );
+    await queue.start();
+    const status = await queue.enqueueSummaries([{ id: 1, title: 'Pilot' }]);
+    await vi.waitFor(() => {
+      expect(summarize).toHaveBeenCalledTimes(1);
+    });
+
+    await queue.cancel(status.jobs[0].id);
+
+    const [signal] = summarize.mock.calls[0].slice(3);
+    expect(signal.aborted).toBe(true);
+    expect((await settled()).jobs[0]).toMatchObject({
+      status: 'cancelled',
+      attempts: 1,
+    });
+    expect(onJobCompleted).not.toHaveBeenCalled();
+  });
+
+  it('should cancel jobs whose step finishes after the cancel', async () => {
+    let jobId = 0;
+    vi.mocked(importScriptFile).mockImplementationOnce(async filePath => {
+      await queue.cancel(jobId);
+      return {
+        script: { id: 1, title: 'pilot', file_path: filePath } as any,
+        duplicate: false,
+        parsed: { content: 'FADE IN:' } as any,
+      };
+    });
+    summarize.mockImplementationOnce(async () => {
+      await queue.cancel(jobId);
+    });
+
+    await queue.start();
+    let status = await queue.enqueueFiles(['/pilot.txt'], { summaryOptions });
+    jobId = status.jobs[0].id;
+    status = await settled();
+
+    // The summary of the cancelled import is never queued
+    expect(status.jobs).toHaveLength(1);
+    expect(status.jobs[0]).toMatchObject({ status: 'cancelled', attempts: 1 });
+
+    status = await queue.enqueueSummaries([{ id: 1, title: 'Pilot' }]);
+    jobId = status.jobs[1].id;
+    status = await settled();
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(status.jobs[1]).toMatchObject({ status: 'cancelled', attempts: 1 });
+    expect(onJobCompleted).not.toHaveBeenCalled();
+  });
+
+  it('should report summary progress and cancel jobs whose generation is cancelled', async () => {
+    const progress = {
+      operationId: 'summary_1',
+      progress: 40,
+      stage: 'extracting_plot' as const,
+      message: 'Extracting plot',
+      cancellable: true,
+      scriptId: '1',
+    };
+    summarize.mockImplementationOnce(
+      async (_script, _content, _options, _signal, onProgress) => {
+        onProgress(progress);
+        onProgress({ ...progress, stage: 'cancelled', cancellable: false });
+        throw new Error('Summary generation was cancelled');
+      }
+    );
+
+    await queue.start();
+    await queue.enqueueSummaries([{ id: 1, title: 'Pilot' }]);
+    const status = await settled();
+
+    expect(onSummaryProgress).toHaveBeenCalledWith(progress);
+    expect(onSummaryProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ stage: 'cancelled' })
+    );
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(status.jobs[0]).toMatchObject({ status: 'cancelled', attempts: 1 });
+  });
+
+  it('should resume jobs saved before the app closed', async () => {
+    table = createJobTable([
+      { type: 'summarize', status: 'running', script_id: 1, attempts: 1 },
+      { type: 'summarize', status: 'queued', script_id: 2 },
+      { type: 'summarize', status: 'completed', script_id: 3, attempts: 1 },
+    ]);
+    Object.assign(mockDB, table);
+
+    await queue.start();
+    const status = await settled();
+
+    expect(summarize).toHaveBeenCalledTimes(2);
+    expect(status.jobs.map(job => job.status)).toEqual([
+      'completed',
+      'completed',
+      'completed',
+    ]);
+    expect(status.jobs[0].attempts).toBe(2);
+  });
+
+  it('should not queue a file that is already waiting', async () => {
+    queue.pause();
+    await queue.start();
+    await queue.enqueueFiles(['/pilot.txt']);
+    const status = await queue.enqueueFiles(['/pilot.txt', '/finale.txt']);
+
+    expect(status.jobs.map(job => job.filePath)).toEqual([
+      '/pilot.txt',
+      '/finale.txt',
+    ]);
+  });
+
+  it('should clear finished jobs', async () => {
+    await queue.start();
+    await queue.enqueueSummaries([{ id: 1, title: 'Pilot' }]);
+    await settled();
+
+    const status = await queue.clearFinished();
+
+    expect(status.jobs).toHaveLength(0);
+    expect(table.rows.size).toBe(0);
+    expect(onChange).toHaveBeenLastCalledWith(status);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for stored script content
+ * Requirements: 2.1, 6.1
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+// Mock services
+vi.mock('../../services/file-processing', async () => {
+  const { generateContentHash } =
+    await import('../../services/file-processing/content-hash');
+  return { generateContentHash };
+});
+
+vi.mock('../../database', () => ({
+  getDatabaseManager: vi.fn(),
+}));
+
+import { ScriptContentStore } from '../script-content-store';
+import { getDatabaseManager } from '../../database';
+import { generateContentHash } from '../../services/file-processing/content-hash';
+
+const parsedScript = (content: string) => ({
+  content,
+  title: 'Pilot',
+  metadata: {
+    title: 'Pilot',
+    wordCount: 2,
+    characterCount: content.length,
+    fileSize: 10,
+  },
+});
+
+describe('ScriptContentStore', () => {
+  let tempDir: string;
+  let filePath: string;
+  let store: ScriptContentStore;
+  let runner: { run: ReturnType<typeof vi.fn> };
+  let mockDB: Record<string, ReturnType<typeof vi.fn>>;
+  let script: any;
+
+  const mtimeOf = async (file: string) =>
+    Math.floor((await fs.stat(file)).mtimeMs);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-'));
+    filePath = path.join(tempDir, 'pilot.txt');
+    await fs.writeFile(filePath, 'FADE IN:');
+
+    script = { id: 1, title: 'Pilot', file_path: filePath, file_missing: 0 };
+    runner = {
+      run: vi.fn().mockResolvedValue(parsedScript('New content')),
+    };
+    mockDB = {
+      getScriptContent: vi.fn().mockResolvedValue(null),
+      saveScriptContent: vi.fn().mockResolvedValue(undefined),
+      setScriptFileMissing: vi.fn().mockResolvedValue(undefined),
+      updateScript: vi.fn(async (_, updates) => ({ ...script, ...updates })),
+    };
+    vi.mocked(getDatabaseManager).mockReturnValue(mockDB as any);
+
+    store = new ScriptContentStore({ runner: runner as any });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save content with the fingerprint of its file', async () => {
+    await store.save(script, parsedScript('FADE IN:'));
+
+    expect(mockDB.saveScriptContent).toHaveBeenCalledWith(
+      1,
+      {
+        parsed: parsedScript('FADE IN:'),
+        fileHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        fileMtime: await mtimeOf(filePath),
+      },
+      { compress: true }
+    );
+  });
+
+  it('should load stored content without reading an unchanged file', async () => {
+    mockDB.getScriptContent.mockResolvedValue({
+      parsed: parsedScript('Stored content'),
+      fileHash: 'unused',
+      fileMtime: await mtimeOf(filePath),
+    });
+
+    const loaded = await store.load(script);
+
+    expect(loaded).toMatchObject({
+      parsed: { content: 'Stored content' },
+      fileMissing: false,
+      reprocessed: false,
+    });
+    expect(runner.run).not.toHaveBeenCalled();
+    expect(mockDB.saveScriptContent).not.toHaveBeenCalled();
+  });
+
+  it('should only update the time of a touched but unchanged file', async () => {
+    await store.save(script, parsedScript('Stored content'));
+    const [, stored] = mockDB.saveScriptContent.mock.calls[0];
+    mockDB.getScriptContent.mockResolvedValue({ ...stored, fileMtime: 1 });
+
+    const loaded = await store.load(script);
+
+    expect(loaded.reprocessed).toBe(false);
+    expect(loaded.parsed?.content).toBe('Stored content');
+    expect(runner.run).not.toHaveBeenCalled();
+    expect(mockDB.saveScriptContent).toHaveBeenLastCalledWith(
+      1,
+      { ...stored, fileMtime: await mtimeOf(filePath) },
+      { compress: true }
+    );
+  });
+
+  it('should process a changed file again', async () => {
+    mockDB.getScriptContent.mockResolvedValue({
+      parsed: parsedScript('Old content'),
+      fileHash: 'old',
+      fileMtime: 1,
+    });
+
+    const loaded = await store.load(script);
+
+    expect(runner.run).toHaveBeenCalledWith(filePath, 'txt');
+    expect(loaded).toMatchObject({
+      parsed: { content: 'New content' },
+      reprocessed: true,
+    });
+    expect(mockDB.updateScript).toHaveBeenCalledWith('1', {
+      content_hash: generateContentHash('New content'),
+      word_count: 2,
+    });
+  });
+
+  it('should keep the stored content when a changed file fails to process', async () => {
+    mockDB.getScriptContent.mockResolvedValue({
+      parsed: parsedScript('Old content'),
+      fileHash: 'old',
+      fileMtime: 1,
+    });
+    runner.run.mockRejectedValue(new Error('PDF parsing error: bad XRef'));
+    vi.spyOn(console, 'warn').mockImplementation(vi.fn());
+
+    const loaded = await store.load(script);
+
+    expect(loaded).toMatchObject({
+      parsed: { content: 'Old content' },
+      fileMissing: false,
+      reprocessed: false,
+      processingError: 'PDF parsing error: bad XRef',
+    });
+    expect(mockDB.saveScriptContent).not.toHaveBeenCalled();
+    expect(mockDB.updateScript).not.toHaveBeenCalled();
+  });
+
+  it('should process files that have no stored content', async () => {
+    const loaded = await store.load(script);
+
+    expect(loaded.reprocessed).toBe(true);
+    expect(mockDB.saveScriptContent).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ parsed: parsedScript('New content') }),
+      { compress: true }
+    );
+  });
+
+  it('should flag a missing file and keep its stored content', async () => {
+    await fs.rm(filePath);
+    mockDB.getScriptContent.mockResolvedValue({
+      parsed: parsedScript('Stored content'),
+      fileHash: 'hash',
+      fileMtime: 1,
+    });
+
+    const loaded = await store.load(script);
+
+    expect(mockDB.setScriptFileMissing).toHaveBeenCalledWith(1, true);
+    expect(loaded).toMatchObject({
+      script: { file_missing: 1 },
+      parsed: { content: 'Stored content' },
+      fileMissing: true,
+    });
+    expect(runner.run).not.toHaveBeenCalled();
+  });
+
+  it('should clear the missing flag when the file returns', async () => {
+    await store.load({ ...script, file_missing: 1 });
+
+    expect(mockDB.setScriptFileMissing).toHaveBeenCalledWith(1, false);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Runs file processing in worker threads with progress and cancellation
+ * Requirements: 2.1, 2.2
+ */
+
+import path from 'node:path';
+import { Worker } from 'node:worker_threads';
+import type {
+  ParsedScript,
+  ProcessingProgress,
+  ProcessingProgressCallback,
+} from '../types/file-processing';
+import type { FileType } from '../types/script';
+
+/** Data passed to the processing worker */
+export interface FileProcessingJob {
+  filePath: string;
+  fileType: FileType;
+}
+
+/** Messages posted by the processing worker */
+export type FileProcessingMessage =
+  | { type: 'progress'; progress: ProcessingProgress }
+  | { type: 'result'; script: ParsedScript }
+  | { type: 'error'; message: string };
+
+// Built next to the main process bundle (see forge.config.ts)
+const WORKER_PATH = path.join(__dirname, 'file-processing-worker.js');
+
+export class FileProcessingRunner {
+  private activeJobs = new Map<
+    string,
+    { worker: Worker; cancel: () => void }
+  >();
+
+  /**
+   * Parse a file in a worker thread. Only one job runs per file path; a new
+   * job for the same file cancels the previous one.
+   */
+  run(
+    filePath: string,
+    fileType: FileType,
+    onProgress?: ProcessingProgressCallback
+  ): Promise<ParsedScript> {
+    this.cancel(filePath);
+
+    return new Promise<ParsedScript>((resolve, reject) => {
+      const job: FileProcessingJob = { filePath, fileType };
+      const worker = new Worker(WORKER_PATH, { workerData: job });
+      let settled = false;
+
+      const settle = (
+        error?: Error,
+        script?: ParsedScript,
+        cancelled = false
+      ): void => {
+        if (settled) return;
+        settled = true;
+        if (this.activeJobs.get(filePath)?.worker === worker) {
+          this.activeJobs.delete(filePath);
+        }
+        if (error) {
+          onProgress?.({
+            currentStep: cancelled ? 'cancelled' : 'error',
+            progress: 100,
+            message: error.message,
+            cancellable: false,
+          });
+          reject(error);
+        } else {
+          resolve(script as ParsedScript);
+        }
+      };
+
+      this.activeJobs.set(filePath, {
+        worker,
+        cancel: () => {
+          settle(new Error('File processing was cancelled'), undefined, true);
+          void worker.terminate();
+        },
+      });
+
+      worker.on('message', (message: FileProcessingMessage) => {
+        switch (message.type) {
+          case 'progress':
+            onProgress?.(message.progress);
+            break;
+          case 'result':
+            onProgress?.({
+              currentStep: 'complete',
+              progress: 100,
+              message: 'Processing complete',
+              cancellable: false,
+            });
+            settle(undefined, message.script);
+            void worker.terminate();
+            break;
+          case 'error':
+            settle(new Error(message.message));
+            void worker.terminate();
+            break;
+        }
+      });
+
+      worker.on('error', error => settle(error));
+      worker.on('exit', code => {
+        settle(
+          new Error(`File processing stopped unexpectedly (code ${code})`)
+        );
+      });
+    });
+  }
+
+  /**
+   * Stop processing a file. Its job rejects and reports the 'cancelled'
+   * step. Returns false when the file is not being processed.
+   */
+  cancel(filePath: string): boolean {
+    const job = this.activeJobs.get(filePath);
+    if (!job) {
+      return false;
+    }
+
+    job.cancel();
+    return true;
+  }
+
+  /**
+   * Stop all running jobs
+   */
+  cancelAll(): void {
+    for (const filePath of [...this.activeJobs.keys()]) {
+      this.cancel(filePath);
+    }
+  }
+
+  isProcessing(filePath: string): boolean {
+    return this.activeJobs.has(filePath);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Worker thread entry that parses a script file off the main process thread
+ * Requirements: 2.1, 2.2
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { fileProcessorFactory } from '../services/file-processing';
+import type {
+  FileProcessingJob,
+  FileProcessingMessage,
+} from './file-processing-runner';
+
+const { filePath, fileType } = workerData as FileProcessingJob;
+
+const post = (message: FileProcessingMessage): void => {
+  parentPort?.postMessage(message);
+};
+
+fileProcessorFactory
+  .createProcessor(fileType)
+  .parseFile(filePath, fileType, progress =>
+    post({ type: 'progress', progress })
+  )
+  .then(script => post({ type: 'result', script }))
+  .catch(error =>
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  );
@@ -0,0 +1,13 @@
+/**
+ * Script file types the app reads
+ * Requirements: 2.1
+ */
+
+// Extensions of the script files that can be processed and imported
+export const ALLOWED_EXTENSIONS = [
+  '.pdf',
+  '.docx',
+  '.txt',
+  '.fdx',
+  '.fountain',
+];
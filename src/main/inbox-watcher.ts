@@ -0,0 +1,307 @@
+/**
+ * Watches inbox folders and imports new script files into the library
+ * Requirements: 2.1, 6.1
+ */
+
+import path from 'node:path';
+import fs from 'node:fs';
+import { getDatabaseManager } from '../database';
+import { importScriptFile } from './script-importer';
+import { ALLOWED_EXTENSIONS } from './file-types';
+import type { DatabaseScript } from '../database';
+import type { FileProcessingRunner } from './file-processing-runner';
+import type { ScriptContentStore } from './script-content-store';
+import type { ParsedScript } from '../types/file-processing';
+import type {
+  InboxImportItem,
+  InboxImportReport,
+  InboxStatus,
+  InboxWatchSettings,
+} from '../types/inbox';
+
+// Files are imported once they stop changing for this long, so copies
+// still being written are not read half-finished
+const DEFAULT_SETTLE_DELAY_MS = 2000;
+
+export interface InboxWatcherOptions {
+  /** Runs file processing off the main thread */
+  runner: FileProcessingRunner;
+
+  /** Stores the extracted content of imported scripts */
+  contentStore: ScriptContentStore;
+
+  /** Called when every pending file has been handled */
+  onImportsFinished: (report: InboxImportReport) => void;
+
+  /** Generates and saves the summary of an imported script */
+  summarize?: (script: DatabaseScript, parsed: ParsedScript) => Promise<void>;
+
+  /** How long a file must stay unchanged before it is imported */
+  settleDelayMs?: number;
+}
+
+export class InboxWatcher {
+  private watchers = new Map<string, fs.FSWatcher>();
+  private errors: InboxStatus['errors'] = [];
+  private autoSummarizeImports = false;
+
+  // Files waiting for writes to settle, and files queued for import
+  private settling = new Map<string, NodeJS.Timeout>();
+  private queued = new Set<string>();
+  private importQueue: Promise<void> = Promise.resolve();
+  private summaryQueue: Promise<void> = Promise.resolve();
+  private batch: InboxImportItem[] = [];
+
+  // Modification time of each file already handled, by path
+  private handledFiles = new Map<string, number>();
+
+  constructor(private options: InboxWatcherOptions) {}
+
+  /**
+   * Watch the given folders, replacing any previous configuration. Files
+   * already in a folder that are not in the library are imported too,
+   * unless they were handled before and have not changed since.
+   */
+  async configure(settings: InboxWatchSettings): Promise<InboxStatus> {
+    this.stop();
+    this.autoSummarizeImports = settings.autoSummarizeImports;
+
+    const folders = [
+      ...new Set(settings.watchedFolders.map(folder => path.resolve(folder))),
+    ];
+    const knownPaths = await this.getKnownFilePaths();
+    this.handledFiles = await this.getHandledFiles();
+
+    for (const folder of folders) {
+      try {
+        const watcher = fs.watch(folder, (_, fileName) => {
+          if (fileName) {
+            this.scheduleImport(path.join(folder, fileName.toString()));
+          }
+        });
+        watcher.on('error', error => {
+          console.error(`Stopped watching ${folder}:`, error);
+          this.watchers.delete(folder);
+          this.errors.push({ folder, message: error.message });
+        });
+        this.watchers.set(folder, watcher);
+
+        // Pick up files added while the app was closed
+        const entries = await fs.promises.readdir(folder, {
+          withFileTypes: true,
+        });
+        entries
+          .filter(entry => entry.isFile())
+          .map(entry => path.join(folder, entry.name))
+          .filter(filePath => !knownPaths.has(filePath))
+          .forEach(filePath => this.enqueueImport(filePath));
+      } catch (error) {
+        this.watchers.get(folder)?.close();
+        this.watchers.delete(folder);
+        this.errors.push({
+          folder,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return this.getStatus();
+  }
+
+  getStatus(): InboxStatus {
+    return {
+      watchedFolders: [...this.watchers.keys()],
+      autoSummarizeImports: this.autoSummarizeImports,
+      pendingFiles: this.settling.size + this.queued.size,
+      errors: [...this.errors],
+    };
+  }
+
+  /**
+   * Stop watching all folders. Imports already queued still finish.
+   */
+  stop(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+    this.settling.forEach(timeout => clearTimeout(timeout));
+    this.settling.clear();
+    this.errors = [];
+  }
+
+  private scheduleImport(filePath: string): void {
+    if (!this.isInboxFile(filePath)) {
+      return;
+    }
+
+    clearTimeout(this.settling.get(filePath));
+    this.settling.set(
+      filePath,
+      setTimeout(() => {
+        this.settling.delete(filePath);
+        this.enqueueImport(filePath);
+      }, this.options.settleDelayMs ?? DEFAULT_SETTLE_DELAY_MS)
+    );
+  }
+
+  private enqueueImport(filePath: string): void {
+    if (!this.isInboxFile(filePath) || this.queued.has(filePath)) {
+      return;
+    }
+
+    // Imports run one at a time; each file is processed in a worker
+    this.queued.add(filePath);
+    this.importQueue = this.importQueue.then(async () => {
+      const item = await this.importFile(filePath);
+      this.queued.delete(filePath);
+
+      // Deleted or renamed files are not reported
+      if (item) {
+        this.batch.push(item);
+      }
+
+      if (this.queued.size === 0 && this.settling.size === 0) {
+        this.finishBatch();
+      }
+    });
+  }
+
+  private async importFile(
+    filePath: string
+  ): Promise<InboxImportItem | undefined> {
+    let mtime: number;
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (!stats.isFile()) {
+        return undefined;
+      }
+      mtime = Math.floor(stats.mtimeMs);
+    } catch {
+      return undefined;
+    }
+
+    // Unchanged files were imported, matched or reported before
+    if (this.handledFiles.get(filePath) === mtime) {
+      return undefined;
+    }
+
+    const item = await this.readFile(filePath);
+    await this.rememberFile(filePath, mtime, item.status);
+    return item;
+  }
+
+  private async readFile(filePath: string): Promise<InboxImportItem> {
+    try {
+      const { script, duplicate, parsed } = await importScriptFile(
+        filePath,
+        this.options.runner,
+        this.options.contentStore
+      );
+      if (duplicate) {
+        return {
+          filePath,
+          status: 'duplicate',
+          scriptId: script.id,
+          title: script.title,
+        };
+      }
+
+      if (this.autoSummarizeImports) {
+        this.queueSummary(script, parsed);
+      }
+
+      return {
+        filePath,
+        status: 'imported',
+        scriptId: script.id,
+        title: script.title,
+        content: parsed.content,
+      };
+    } catch (error) {
+      return {
+        filePath,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private queueSummary(script: DatabaseScript, parsed: ParsedScript): void {
+    const summarize = this.options.summarize;
+    if (!summarize) {
+      return;
+    }
+
+    // Summaries are generated one at a time after the imports
+    this.summaryQueue = this.summaryQueue.then(() =>
+      summarize(script, parsed).catch(error => {
+        console.error(
+          `Failed to generate summary for imported script ${script.title}:`,
+          error
+        );
+      })
+    );
+  }
+
+  private finishBatch(): void {
+    const items = this.batch;
+    this.batch = [];
+
+    if (items.length === 0) {
+      return;
+    }
+
+    const count = (status: InboxImportItem['status']): number =>
+      items.filter(item => item.status === status).length;
+
+    this.options.onImportsFinished({
+      items,
+      importedCount: count('imported'),
+      duplicateCount: count('duplicate'),
+      failedCount: count('failed'),
+    });
+  }
+
+  private async rememberFile(
+    filePath: string,
+    mtime: number,
+    status: InboxImportItem['status']
+  ): Promise<void> {
+    this.handledFiles.set(filePath, mtime);
+    try {
+      await getDatabaseManager().saveInboxFile({
+        file_path: filePath,
+        file_mtime: mtime,
+        status,
+      });
+    } catch (error) {
+      // The file is only read again after the app restarts
+      console.warn(`Could not remember inbox file ${filePath}:`, error);
+    }
+  }
+
+  private async getHandledFiles(): Promise<Map<string, number>> {
+    try {
+      const files = await getDatabaseManager().getInboxFiles();
+      return new Map(files.map(file => [file.file_path, file.file_mtime]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private async getKnownFilePaths(): Promise<Set<string>> {
+    try {
+      const scripts = await getDatabaseManager().getAllScripts();
+      return new Set(scripts.map(script => path.resolve(script.file_path)));
+    } catch {
+      return new Set();
+    }
+  }
+
+  private isInboxFile(filePath: string): boolean {
+    const fileName = path.basename(filePath);
+    return (
+      !fileName.startsWith('.') &&
+      ALLOWED_EXTENSIONS.includes(path.extname(fileName).toLowerCase())
+    );
+  }
+}
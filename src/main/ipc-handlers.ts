@@ -7,29 +7,233 @@ import { ipcMain, dialog, BrowserWindow } from 'electron';
 import path from 'node:path';
 import fs from 'node:fs/promises';
 import { fileProcessorFactory } from '../services/file-processing';
-import { OllamaService } from '../services/llm';
-import { getDatabaseManager } from '../database';
+import { PdfPageExtractor } from '../services/file-processing/pdf-pages';
+import { FileProcessingRunner } from './file-processing-runner';
+import { InboxWatcher } from './inbox-watcher';
+import { JobQueue } from './job-queue';
+import { ScriptContentStore } from './script-content-store';
+import { importScriptFile } from './script-importer';
+import { ALLOWED_EXTENSIONS } from './file-types';
+import {
+  BenchmarkScorer,
+  OllamaService,
+  PromptService,
+  llmProviderRegistry,
+  promptTemplateRegistry,
+} from '../services/llm';
+import { SceneBreakdownService } from '../services/scene-breakdown';
+import {
+  getDatabaseManager,
+  MigrationManager,
+  toScriptSummary,
+  toSummaryRow,
+} from '../database';
+import type {
+  DatabaseCoverageReport,
+  DatabaseModelBenchmark,
+  DatabasePromptTemplate,
+  DatabasePromptTemplateVersion,
+  DatabaseScene,
+  DatabaseScriptSearchResult,
+  LoadedScript,
+  ScriptImport,
+} from '../database';
 import type {
   ParsedScript,
   ValidationResult,
   FileProcessingOptions,
+  ProcessingProgressCallback,
 } from '../types/file-processing';
 import type {
+  LLMService,
+  GenerationProgressCallback,
   ScriptSummary,
   SummaryOptions,
+  SummaryGenerationResult,
+  CoverageGenerationResult,
   LLMModel,
+  LLMProviderInfo,
+  LLMProviderSettings,
+  ModelDetails,
+  ModelManager,
+  ModelPullOptions,
   ServiceStatus,
 } from '../types/llm-service';
+import type {
+  CoverageOptions,
+  CoverageReport,
+  CoverageVerdict,
+} from '../types/coverage';
+import type { ModelBenchmarkResult } from '../types/benchmark';
+import type { DatabaseDiagnostics } from '../types/diagnostics';
 import type {
   DatabaseScript,
   DatabaseSummary,
   DatabaseScriptEvaluation,
+  FileType,
+  SceneBreakdown,
+  InboxStatus,
+  InboxWatchSettings,
+  EnqueueOptions,
+  JobQueueSettings,
+  JobQueueStatus,
 } from '../types';
 
-// Security: Allowed file extensions
-const ALLOWED_EXTENSIONS = ['.pdf', '.docx', '.txt'];
+// Security: Maximum size of files read
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
+// Parses script files in worker threads so the main process stays responsive
+const fileProcessingRunner = new FileProcessingRunner();
+const scriptContentStore = new ScriptContentStore({
+  runner: fileProcessingRunner,
+});
+
+// Imports scripts dropped into watched folders
+let inboxWatcher: InboxWatcher | null = null;
+
+// Processes and summarizes scripts in the background
+let jobQueue: JobQueue | null = null;
+
+// Summary options for scripts imported from watched folders, and for
+// summaries queued without options
+const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = {
+  length: 'detailed',
+  focusAreas: ['plot', 'characters', 'themes', 'production'],
+  temperature: 0.7,
+  includeProductionNotes: true,
+  analyzeCharacterRelationships: true,
+  identifyThemes: true,
+  assessMarketability: false,
+};
+
+/**
+ * Generate the summary of a script, with its pages marked so key scenes can
+ * cite them, and save it. Aborting the signal cancels the generation, and
+ * nothing is saved.
+ */
+async function summarizeAndSave(
+  llmService: LLMService,
+  script: DatabaseScript,
+  parsed: ParsedScript,
+  options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS,
+  signal?: AbortSignal,
+  onProgress?: GenerationProgressCallback
+): Promise<void> {
+  if (signal?.aborted) {
+    throw new Error('Summary generation was cancelled');
+  }
+
+  const { operationId, result } = llmService.startSummary(
+    PdfPageExtractor.markPages(parsed.content, parsed.pages),
+    options,
+    script.id.toString(),
+    onProgress
+  );
+  const cancel = () => {
+    void llmService.cancelGeneration(operationId);
+  };
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    const summary = await result;
+    if (signal?.aborted) {
+      throw new Error('Summary generation was cancelled');
+    }
+    await getDatabaseManager().saveSummary(toSummaryRow(script.id, summary));
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Benchmark results as stored, with the sample results as JSON
+ */
+function toBenchmarkRow(
+  result: ModelBenchmarkResult
+): Omit<DatabaseModelBenchmark, 'id' | 'run_at'> {
+  return {
+    model_id: result.modelId,
+    tokens_per_second: result.tokensPerSecond,
+    time_to_first_token_ms: result.timeToFirstTokenMs,
+    duration_ms: result.durationMs,
+    memory_bytes: result.memoryBytes ?? null,
+    character_accuracy: result.accuracy.characters,
+    genre_accuracy: result.accuracy.genre,
+    theme_accuracy: result.accuracy.themes,
+    overall_accuracy: result.accuracy.overall,
+    samples: JSON.stringify(result.samples),
+  };
+}
+
+function fromBenchmarkRow(row: DatabaseModelBenchmark): ModelBenchmarkResult {
+  return {
+    modelId: row.model_id,
+    tokensPerSecond: row.tokens_per_second,
+    timeToFirstTokenMs: row.time_to_first_token_ms,
+    durationMs: row.duration_ms,
+    memoryBytes: row.memory_bytes ?? undefined,
+    accuracy: {
+      characters: row.character_accuracy,
+      genre: row.genre_accuracy,
+      themes: row.theme_accuracy,
+      overall: row.overall_accuracy,
+    },
+    samples: JSON.parse(row.samples),
+    // SQLite stores UTC timestamps without a zone
+    runAt: new Date(`${row.run_at.replace(' ', 'T')}Z`),
+  };
+}
+
+/**
+ * Coverage reports as stored, with the ratings and comparables as JSON
+ */
+function toCoverageRow(
+  scriptId: number,
+  report: CoverageReport
+): Omit<DatabaseCoverageReport, 'id' | 'created_at'> {
+  return {
+    script_id: scriptId,
+    logline: report.logline,
+    synopsis: report.synopsis,
+    comments: report.comments,
+    ratings: JSON.stringify(report.ratings),
+    verdict: report.verdict,
+    genre: report.genre ?? null,
+    comparables: report.comparables ? JSON.stringify(report.comparables) : null,
+    model_used: report.modelUsed,
+  };
+}
+
+function fromCoverageRow(row: DatabaseCoverageReport): CoverageReport {
+  return {
+    id: row.id.toString(),
+    scriptId: row.script_id.toString(),
+    logline: row.logline,
+    synopsis: row.synopsis,
+    comments: row.comments,
+    ratings: JSON.parse(row.ratings),
+    verdict: row.verdict as CoverageVerdict,
+    genre: row.genre ?? undefined,
+    comparables: row.comparables ? JSON.parse(row.comparables) : undefined,
+    modelUsed: row.model_used,
+    // SQLite stores UTC timestamps without a zone
+    createdAt: new Date(`${row.created_at.replace(' ', 'T')}Z`),
+  };
+}
+
+/**
+ * Latest stored benchmark results; empty when the database cannot be read
+ */
+async function getStoredBenchmarks(): Promise<ModelBenchmarkResult[]> {
+  try {
+    const rows = await getDatabaseManager().getLatestModelBenchmarks();
+    return rows.map(fromBenchmarkRow);
+  } catch (error) {
+    console.warn('Could not read model benchmarks:', error);
+    return [];
+  }
+}
+
 /**
  * Validates file path for security
  */
@@ -66,6 +270,28 @@ async function validateFileSize(filePath: string): Promise<boolean> {
   }
 }
 
+/**
+ * Validates a file and parses it with the matching processor in a worker
+ */
+async function parseScriptFile(
+  filePath: string,
+  onProgress?: ProcessingProgressCallback
+): Promise<ParsedScript> {
+  // Security validation
+  if (!validateFilePath(filePath)) {
+    throw new Error('Invalid file path or unsupported file type');
+  }
+
+  if (!(await validateFileSize(filePath))) {
+    throw new Error('File size exceeds maximum allowed size');
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  const fileType = extension.slice(1) as FileType;
+
+  return await fileProcessingRunner.run(filePath, fileType, onProgress);
+}
+
 /**
  * File upload and processing handlers
  */
@@ -75,10 +301,15 @@ export function registerFileHandlers(): void {
     const result = await dialog.showOpenDialog({
       properties: ['openFile', 'multiSelections'],
       filters: [
-        { name: 'Script Files', extensions: ['pdf', 'docx', 'txt'] },
+        {
+          name: 'Script Files',
+          extensions: ['pdf', 'docx', 'txt', 'fdx', 'fountain'],
+        },
         { name: 'PDF Files', extensions: ['pdf'] },
         { name: 'Word Documents', extensions: ['docx'] },
         { name: 'Text Files', extensions: ['txt'] },
+        { name: 'Final Draft Files', extensions: ['fdx'] },
+        { name: 'Fountain Files', extensions: ['fountain'] },
       ],
     });
 
@@ -138,7 +369,9 @@ export function registerFileHandlers(): void {
               {
                 code: 'UNSUPPORTED_FORMAT',
                 message: 'File type not allowed or invalid path',
-                suggestions: ['Please select a PDF, DOCX, or TXT file'],
+                suggestions: [
+                  'Please select a PDF, DOCX, TXT, FDX, or Fountain file',
+                ],
               },
             ],
             warnings: [],
@@ -166,7 +399,7 @@ export function registerFileHandlers(): void {
 
         // Use file processor for detailed validation
         const extension = path.extname(filePath).toLowerCase();
-        const fileType = extension.slice(1) as 'pdf' | 'docx' | 'txt';
+        const fileType = extension.slice(1) as FileType;
         const processor = fileProcessorFactory.createProcessor(fileType);
 
         return await processor.validateFile(filePath);
@@ -188,32 +421,114 @@ export function registerFileHandlers(): void {
     }
   );
 
-  // Handle file processing
+  // Handle file processing; resolves null when processing is cancelled
   ipcMain.handle(
     'file:process',
     async (
-      _,
+      event,
       filePath: string,
       options?: FileProcessingOptions
-    ): Promise<ParsedScript> => {
+    ): Promise<ParsedScript | null> => {
+      let cancelled = false;
+      try {
+        return await parseScriptFile(filePath, progress => {
+          cancelled = progress.currentStep === 'cancelled';
+          // The window may close while the file is still processing
+          if (!event.sender.isDestroyed()) {
+            event.sender.send('file:processing-progress', filePath, progress);
+          }
+        });
+      } catch (error) {
+        if (cancelled) {
+          return null;
+        }
+        throw new Error(
+          `File processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Import a script file into the library, unless its content is already
+  // there; resolves null when processing is cancelled
+  ipcMain.handle(
+    'file:import',
+    async (event, filePath: string): Promise<ScriptImport | null> => {
+      let cancelled = false;
       try {
-        // Security validation
         if (!validateFilePath(filePath)) {
           throw new Error('Invalid file path or unsupported file type');
         }
 
-        if (!(await validateFileSize(filePath))) {
-          throw new Error('File size exceeds maximum allowed size');
+        return await importScriptFile(
+          filePath,
+          fileProcessingRunner,
+          scriptContentStore,
+          progress => {
+            cancelled = progress.currentStep === 'cancelled';
+            if (!event.sender.isDestroyed()) {
+              event.sender.send('file:processing-progress', filePath, progress);
+            }
+          }
+        );
+      } catch (error) {
+        if (cancelled) {
+          return null;
         }
+        throw new Error(
+          `File import failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
 
-        const extension = path.extname(filePath).toLowerCase();
-        const fileType = extension.slice(1) as 'pdf' | 'docx' | 'txt';
-        const processor = fileProcessorFactory.createProcessor(fileType);
+  // Cancel file processing
+  ipcMain.handle(
+    'file:cancel-processing',
+    async (_, filePath: string): Promise<boolean> => {
+      // Returns false when the file already finished processing
+      return fileProcessingRunner.cancel(filePath);
+    }
+  );
 
-        return await processor.parseFile(filePath, fileType);
+  // Handle scene breakdown extraction
+  ipcMain.handle(
+    'file:scene-breakdown',
+    async (_, filePath: string, scriptId?: string): Promise<SceneBreakdown> => {
+      try {
+        // Saved scripts are broken down from their stored content, and the
+        // file is only parsed when there is none
+        const script = scriptId
+          ? await getDatabaseManager().getScript(scriptId)
+          : null;
+        const stored = script
+          ? (await scriptContentStore.load(script)).parsed
+          : null;
+        const parsedScript = stored ?? (await parseScriptFile(filePath));
+        const breakdown = SceneBreakdownService.analyze(parsedScript);
+
+        // Persist the scene list when the script is already saved
+        if (scriptId) {
+          const db = getDatabaseManager();
+          await db.saveScenes(
+            parseInt(scriptId),
+            breakdown.scenes.map(scene => ({
+              scene_index: scene.index,
+              scene_number: scene.sceneNumber ?? null,
+              heading: scene.heading,
+              location_type: scene.locationType,
+              location: scene.location,
+              time_of_day: scene.timeOfDay,
+              eighths: scene.eighths,
+              page: scene.page ?? null,
+            }))
+          );
+        }
+
+        return breakdown;
       } catch (error) {
         throw new Error(
-          `File processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          `Scene breakdown failed: ${error instanceof Error ? error.message : 'Unknown error'}`
         );
       }
     }
@@ -222,8 +537,9 @@ export function registerFileHandlers(): void {
  * 
 LLM service handlers
  */
-export function registerLLMHandlers(): void {
-  const llmService = new OllamaService();
+export function registerLLMHandlers(): () => LLMService {
+  // Ollama is used until the renderer configures a provider
+  let llmService: LLMService = new OllamaService();
 
   // Set default model if available
   const defaultModel = process.env.DEFAULT_MODEL || 'gemma3:1b';
@@ -231,6 +547,18 @@ export function registerLLMHandlers(): void {
     console.warn('Failed to set default model:', error);
   });
 
+  // Summaries can use prompt templates stored in the database
+  promptTemplateRegistry.setLoader(async templateId => {
+    const template = await getDatabaseManager().getPromptTemplate(templateId);
+    return (
+      template && {
+        id: template.id.toString(),
+        version: template.version,
+        body: template.body,
+      }
+    );
+  });
+
   // Check LLM availability
   ipcMain.handle('llm:is-available', async (): Promise<boolean> => {
     try {
@@ -252,10 +580,54 @@ export function registerLLMHandlers(): void {
     }
   });
 
-  // List available models
+  // List the LLM backends that can be configured
+  ipcMain.handle('llm:list-providers', async (): Promise<LLMProviderInfo[]> => {
+    return llmProviderRegistry.getProviders();
+  });
+
+  // Switch to another backend or endpoint
+  ipcMain.handle(
+    'llm:configure-provider',
+    async (_, settings: LLMProviderSettings): Promise<ServiceStatus> => {
+      try {
+        const service = llmProviderRegistry.createService(settings);
+
+        // Keep the default model if the server has it, otherwise use the
+        // first one it offers
+        const models = await service.listAvailableModels();
+        const model =
+          models.find(item => item.id === defaultModel) ?? models[0];
+        if (model) {
+          await service.setActiveModel(model.id);
+        }
+
+        llmService = service;
+        return await service.getServiceStatus();
+      } catch (error) {
+        throw new Error(
+          `Provider configuration failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // List available models, with measured performance for benchmarked ones
   ipcMain.handle('llm:list-models', async (): Promise<LLMModel[]> => {
     try {
-      return await llmService.listAvailableModels();
+      const models = await llmService.listAvailableModels();
+      const benchmarks = await getStoredBenchmarks();
+
+      return models.map(model => {
+        const benchmark = benchmarks.find(
+          result => result.modelId === model.id
+        );
+        return benchmark
+          ? {
+              ...model,
+              performance: BenchmarkScorer.toModelPerformance(benchmark),
+            }
+          : model;
+      });
     } catch (error) {
       throw new Error(
         `Failed to list models: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -298,16 +670,182 @@ export function registerLLMHandlers(): void {
     }
   });
 
+  // Benchmark models on the bundled samples one after another, storing
+  // each result
+  ipcMain.handle(
+    'llm:run-benchmark',
+    async (event, modelIds: string[]): Promise<ModelBenchmarkResult[]> => {
+      try {
+        const results: ModelBenchmarkResult[] = [];
+        for (const modelId of modelIds) {
+          const result = await llmService.benchmarkModel(
+            modelId,
+            undefined,
+            progress => {
+              if (!event.sender.isDestroyed()) {
+                event.sender.send('llm:benchmark-progress', progress);
+              }
+            }
+          );
+          await getDatabaseManager().saveModelBenchmark(toBenchmarkRow(result));
+          results.push(result);
+        }
+        return results;
+      } catch (error) {
+        throw new Error(
+          `Benchmark failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Only backends that install their own models, such as Ollama, can pull
+  // and delete them
+  const getModelManager = (): ModelManager => {
+    if (!('pullModel' in llmService)) {
+      throw new Error('The current provider does not manage its own models');
+    }
+    return llmService as LLMService & ModelManager;
+  };
+
+  // Pull a model, sending download progress to the renderer
+  ipcMain.handle(
+    'llm:pull-model',
+    async (
+      event,
+      modelName: string,
+      options?: ModelPullOptions
+    ): Promise<void> => {
+      try {
+        await getModelManager().pullModel(modelName, options, progress => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send('llm:pull-progress', progress);
+          }
+        });
+      } catch (error) {
+        throw new Error(
+          `Model pull failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Cancel a model pull
+  ipcMain.handle(
+    'llm:cancel-pull',
+    async (_, modelName: string): Promise<void> => {
+      try {
+        await getModelManager().cancelPull(modelName);
+      } catch (error) {
+        console.error('Failed to cancel model pull:', error);
+      }
+    }
+  );
+
+  // Delete a downloaded model
+  ipcMain.handle(
+    'llm:delete-model',
+    async (_, modelName: string): Promise<void> => {
+      try {
+        await getModelManager().deleteModel(modelName);
+      } catch (error) {
+        throw new Error(
+          `Failed to delete model: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Get the details of a downloaded model
+  ipcMain.handle(
+    'llm:get-model-details',
+    async (_, modelName: string): Promise<ModelDetails> => {
+      try {
+        return await getModelManager().getModelDetails(modelName);
+      } catch (error) {
+        throw new Error(
+          `Failed to get model details: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
   // Generate summary
   ipcMain.handle(
     'llm:generate-summary',
     async (
-      _,
+      event,
       content: string,
-      options: SummaryOptions
+      options: SummaryOptions,
+      scriptId?: string
     ): Promise<ScriptSummary> => {
       try {
-        return await llmService.generateSummary(content, options);
+        return await llmService.generateSummary(
+          content,
+          options,
+          scriptId,
+          progress => {
+            // The window may close while the summary is still generating
+            if (!event.sender.isDestroyed()) {
+              event.sender.send('llm:generation-progress', progress);
+            }
+          }
+        );
+      } catch (error) {
+        throw new Error(
+          `Summary generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Start summary generation and return its operation ID straight away so
+  // the renderer can cancel it; the result is sent as an event
+  ipcMain.handle(
+    'llm:start-summary',
+    async (
+      event,
+      content: string,
+      options: SummaryOptions,
+      scriptId?: string
+    ): Promise<string> => {
+      const send = (channel: string, payload: unknown) => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send(channel, payload);
+        }
+      };
+
+      try {
+        let cancelled = false;
+        const { operationId, result } = llmService.startSummary(
+          content,
+          options,
+          scriptId,
+          progress => {
+            cancelled = progress.stage === 'cancelled';
+            send('llm:generation-progress', progress);
+          }
+        );
+
+        const complete = (
+          outcome: Omit<SummaryGenerationResult, 'operationId' | 'scriptId'>
+        ) =>
+          send('llm:generation-complete', {
+            operationId,
+            scriptId,
+            ...outcome,
+          });
+
+        result.then(
+          summary => complete({ summary }),
+          error =>
+            complete({
+              error: error instanceof Error ? error.message : 'Unknown error',
+              cancelled,
+            })
+        );
+
+        return operationId;
       } catch (error) {
         throw new Error(
           `Summary generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -316,6 +854,80 @@ export function registerLLMHandlers(): void {
     }
   );
 
+  // Start coverage generation and return its operation ID straight away so
+  // the renderer can cancel it; the report is saved with the script and sent
+  // as an event
+  ipcMain.handle(
+    'llm:start-coverage',
+    async (
+      event,
+      content: string,
+      options: CoverageOptions,
+      scriptId?: string
+    ): Promise<string> => {
+      const send = (channel: string, payload: unknown) => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send(channel, payload);
+        }
+      };
+
+      try {
+        let cancelled = false;
+        const { operationId, result } = llmService.startCoverage(
+          content,
+          options,
+          scriptId,
+          progress => {
+            cancelled = progress.stage === 'cancelled';
+            send('llm:generation-progress', progress);
+          }
+        );
+
+        const complete = (
+          outcome: Omit<CoverageGenerationResult, 'operationId' | 'scriptId'>
+        ) =>
+          send('llm:coverage-complete', {
+            operationId,
+            scriptId,
+            ...outcome,
+          });
+
+        result.then(
+          async report => {
+            if (!scriptId) {
+              complete({ report });
+              return;
+            }
+
+            try {
+              const row = await getDatabaseManager().saveCoverageReport(
+                toCoverageRow(parseInt(scriptId), report)
+              );
+              complete({ report: fromCoverageRow(row) });
+            } catch (error) {
+              // Keep the report on screen even though it was not saved
+              complete({
+                report,
+                error: error instanceof Error ? error.message : 'Unknown error',
+              });
+            }
+          },
+          error =>
+            complete({
+              error: error instanceof Error ? error.message : 'Unknown error',
+              cancelled,
+            })
+        );
+
+        return operationId;
+      } catch (error) {
+        throw new Error(
+          `Coverage generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
   // Cancel generation
   ipcMain.handle(
     'llm:cancel-generation',
@@ -328,6 +940,8 @@ export function registerLLMHandlers(): void {
       }
     }
   );
+
+  return () => llmService;
 }
 
 /**
@@ -417,11 +1031,14 @@ export function registerDatabaseHandlers(): void {
     'db:save-summary',
     async (
       _,
-      summaryData: Omit<DatabaseSummary, 'id' | 'createdAt'>
-    ): Promise<DatabaseSummary> => {
+      scriptId: number,
+      summary: ScriptSummary
+    ): Promise<ScriptSummary> => {
       try {
         const db = getDatabaseManager();
-        return await db.saveSummary(summaryData);
+        return toScriptSummary(
+          await db.saveSummary(toSummaryRow(scriptId, summary))
+        );
       } catch (error) {
         throw new Error(
           `Failed to save summary: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -430,13 +1047,14 @@ export function registerDatabaseHandlers(): void {
     }
   );
 
-  // Get summary by script ID
+  // Get the official summary of a script
   ipcMain.handle(
     'db:get-summary',
-    async (_, scriptId: string): Promise<DatabaseSummary | null> => {
+    async (_, scriptId: string): Promise<ScriptSummary | null> => {
       try {
         const db = getDatabaseManager();
-        return await db.getSummaryByScriptId(scriptId);
+        const summary = await db.getSummaryByScriptId(scriptId);
+        return summary ? toScriptSummary(summary) : null;
       } catch (error) {
         console.error('Failed to get summary:', error);
         return null;
@@ -444,6 +1062,80 @@ export function registerDatabaseHandlers(): void {
     }
   );
 
+  // Get every version of a script's summary
+  ipcMain.handle(
+    'db:get-summary-versions',
+    async (_, scriptId: number): Promise<DatabaseSummary[]> => {
+      try {
+        const db = getDatabaseManager();
+        return await db.getSummaryVersions(scriptId);
+      } catch (error) {
+        throw new Error(
+          `Failed to get summary versions: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Get the latest coverage report of a script
+  ipcMain.handle(
+    'db:get-coverage-report',
+    async (_, scriptId: number): Promise<CoverageReport | null> => {
+      try {
+        const db = getDatabaseManager();
+        const row = await db.getCoverageReport(scriptId);
+        return row ? fromCoverageRow(row) : null;
+      } catch (error) {
+        throw new Error(
+          `Failed to get coverage report: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Pin the official version of a script's summary, or unpin it
+  ipcMain.handle(
+    'db:pin-summary',
+    async (_, scriptId: number, summaryId: number | null): Promise<void> => {
+      try {
+        const db = getDatabaseManager();
+        await db.pinSummary(scriptId, summaryId);
+      } catch (error) {
+        throw new Error(
+          `Failed to pin summary: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Get the migrations applied to the database and its backups
+  ipcMain.handle(
+    'db:get-diagnostics',
+    async (): Promise<DatabaseDiagnostics> => {
+      try {
+        const db = getDatabaseManager();
+        const status = new MigrationManager(db).getStatus();
+
+        return {
+          databasePath: db.getDatabasePath(),
+          appliedMigrations: status.applied.map(migration => ({
+            version: migration.version,
+            appliedAt: new Date(`${migration.applied_at.replace(' ', 'T')}Z`),
+          })),
+          pendingMigrations: status.pending.map(migration => ({
+            version: migration.version,
+            description: migration.description,
+          })),
+          backups: status.backups,
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get database diagnostics: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
   // Save script evaluation
   ipcMain.handle(
     'db:save-evaluation',
@@ -476,10 +1168,24 @@ export function registerDatabaseHandlers(): void {
     }
   );
 
+  // Get scene breakdown by script ID
+  ipcMain.handle(
+    'db:get-scenes',
+    async (_, scriptId: string): Promise<DatabaseScene[]> => {
+      try {
+        const db = getDatabaseManager();
+        return await db.getScenesByScriptId(scriptId);
+      } catch (error) {
+        console.error('Failed to get scenes:', error);
+        return [];
+      }
+    }
+  );
+
   // Search scripts
   ipcMain.handle(
     'db:search-scripts',
-    async (_, query: string): Promise<DatabaseScript[]> => {
+    async (_, query: string): Promise<DatabaseScriptSearchResult[]> => {
       try {
         const db = getDatabaseManager();
         return await db.searchScripts(query);
@@ -490,6 +1196,337 @@ export function registerDatabaseHandlers(): void {
       }
     }
   );
+
+  // Store the extracted content of a saved script
+  ipcMain.handle(
+    'db:save-script-content',
+    async (_, scriptId: string, parsed: ParsedScript): Promise<void> => {
+      try {
+        const script = await getDatabaseManager().getScript(scriptId);
+        if (!script) {
+          throw new Error(`Script ${scriptId} not found`);
+        }
+        await scriptContentStore.save(script, parsed);
+      } catch (error) {
+        throw new Error(
+          `Failed to save script content: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Load a script with its stored content
+  ipcMain.handle(
+    'db:load-script',
+    async (_, scriptId: string): Promise<LoadedScript | null> => {
+      try {
+        const script = await getDatabaseManager().getScript(scriptId);
+        return script ? await scriptContentStore.load(script) : null;
+      } catch (error) {
+        throw new Error(
+          `Failed to load script: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Get stored prompt templates
+  ipcMain.handle(
+    'db:get-prompt-templates',
+    async (): Promise<DatabasePromptTemplate[]> => {
+      try {
+        return await getDatabaseManager().getPromptTemplates();
+      } catch (error) {
+        throw new Error(
+          `Failed to get prompt templates: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Get every version of a prompt template
+  ipcMain.handle(
+    'db:get-prompt-template-versions',
+    async (_, templateId: string): Promise<DatabasePromptTemplateVersion[]> => {
+      try {
+        return await getDatabaseManager().getPromptTemplateVersions(templateId);
+      } catch (error) {
+        throw new Error(
+          `Failed to get prompt template versions: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Create or update a prompt template
+  ipcMain.handle(
+    'db:save-prompt-template',
+    async (
+      _,
+      templateData: Pick<
+        DatabasePromptTemplate,
+        'name' | 'description' | 'body'
+      > & { id?: number }
+    ): Promise<DatabasePromptTemplate> => {
+      try {
+        const errors = PromptService.validateTemplate(templateData.body);
+        if (errors.length > 0) {
+          throw new Error(errors.join('; '));
+        }
+        return await getDatabaseManager().savePromptTemplate(templateData);
+      } catch (error) {
+        throw new Error(
+          `Failed to save prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Delete a prompt template
+  ipcMain.handle(
+    'db:delete-prompt-template',
+    async (_, templateId: string): Promise<void> => {
+      try {
+        await getDatabaseManager().deletePromptTemplate(templateId);
+      } catch (error) {
+        throw new Error(
+          `Failed to delete prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+}
+
+/**
+ * Watched inbox folder handlers
+ */
+export function registerInboxHandlers(getLLMService: () => LLMService): void {
+  inboxWatcher = new InboxWatcher({
+    runner: fileProcessingRunner,
+    contentStore: scriptContentStore,
+    onImportsFinished: report => {
+      BrowserWindow.getAllWindows().forEach(window => {
+        window.webContents.send('inbox:import-complete', report);
+      });
+    },
+    summarize: (script, parsed) =>
+      summarizeAndSave(getLLMService(), script, parsed),
+  });
+
+  // Watch folders from the file processing settings
+  ipcMain.handle(
+    'inbox:configure',
+    async (_, settings: InboxWatchSettings): Promise<InboxStatus> => {
+      try {
+        return await inboxWatcher!.configure(settings);
+      } catch (error) {
+        throw new Error(
+          `Inbox configuration failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Get watched folders and pending imports
+  ipcMain.handle('inbox:get-status', async (): Promise<InboxStatus> => {
+    return inboxWatcher!.getStatus();
+  });
+
+  // Choose folders to watch
+  ipcMain.handle('inbox:choose-folder', async () => {
+    return await dialog.showOpenDialog({
+      properties: ['openDirectory', 'multiSelections'],
+    });
+  });
+}
+
+/**
+ * Background job queue handlers
+ */
+export function registerQueueHandlers(getLLMService: () => LLMService): void {
+  const sendToWindows = (channel: string, data: unknown) => {
+    BrowserWindow.getAllWindows().forEach(window => {
+      window.webContents.send(channel, data);
+    });
+  };
+
+  jobQueue = new JobQueue({
+    runner: fileProcessingRunner,
+    contentStore: scriptContentStore,
+    summarize: (script, parsed, options, signal, onProgress) =>
+      summarizeAndSave(
+        getLLMService(),
+        script,
+        parsed,
+        options,
+        signal,
+        onProgress
+      ),
+    // Queued summaries stream their progress like those started directly,
+    // so they can be followed and cancelled from the summary view
+    onSummaryProgress: progress =>
+      sendToWindows('llm:generation-progress', progress),
+    onChange: status => sendToWindows('queue:status', status),
+    onJobCompleted: job => sendToWindows('queue:job-completed', job),
+  });
+
+  // Run the jobs left from the previous session
+  jobQueue.start().catch(error => {
+    console.error('Failed to load queued jobs:', error);
+  });
+
+  // Get every job and whether the queue is paused
+  ipcMain.handle('queue:get-status', async (): Promise<JobQueueStatus> => {
+    return jobQueue!.getStatus();
+  });
+
+  // Apply the performance settings
+  ipcMain.handle(
+    'queue:configure',
+    async (_, settings: JobQueueSettings): Promise<JobQueueStatus> => {
+      return jobQueue!.setConcurrency(settings.maxConcurrentProcessing);
+    }
+  );
+
+  // Queue script files for processing and, optionally, summaries
+  ipcMain.handle(
+    'queue:enqueue-files',
+    async (
+      _,
+      filePaths: string[],
+      options?: EnqueueOptions
+    ): Promise<JobQueueStatus> => {
+      try {
+        const validPaths = filePaths.filter(validateFilePath);
+        if (validPaths.length < filePaths.length) {
+          throw new Error('Invalid file path');
+        }
+
+        return await jobQueue!.enqueueFiles(validPaths, options);
+      } catch (error) {
+        throw new Error(
+          `Failed to queue files: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Queue summaries of scripts in the library
+  ipcMain.handle(
+    'queue:enqueue-summaries',
+    async (
+      _,
+      scriptIds: string[],
+      options?: EnqueueOptions
+    ): Promise<JobQueueStatus> => {
+      try {
+        const db = getDatabaseManager();
+        const scripts = await Promise.all(
+          scriptIds.map(async scriptId => {
+            const script = await db.getScript(scriptId);
+            if (!script) {
+              throw new Error(`Script ${scriptId} not found`);
+            }
+            return script;
+          })
+        );
+
+        return await jobQueue!.enqueueSummaries(scripts, options);
+      } catch (error) {
+        throw new Error(
+          `Failed to queue summaries: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Stop and restart the whole queue
+  ipcMain.handle('queue:pause', async (): Promise<JobQueueStatus> => {
+    return jobQueue!.pause();
+  });
+
+  ipcMain.handle('queue:resume', async (): Promise<JobQueueStatus> => {
+    return jobQueue!.resume();
+  });
+
+  // Hold back and release single jobs
+  ipcMain.handle(
+    'queue:pause-job',
+    async (_, jobId: number): Promise<JobQueueStatus> => {
+      try {
+        return await jobQueue!.pauseJob(jobId);
+      } catch (error) {
+        throw new Error(
+          `Failed to update job: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'queue:resume-job',
+    async (_, jobId: number): Promise<JobQueueStatus> => {
+      try {
+        return await jobQueue!.resumeJob(jobId);
+      } catch (error) {
+        throw new Error(
+          `Failed to update job: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Change the order jobs run in
+  ipcMain.handle(
+    'queue:set-priority',
+    async (_, jobId: number, priority: number): Promise<JobQueueStatus> => {
+      try {
+        return await jobQueue!.setPriority(jobId, priority);
+      } catch (error) {
+        throw new Error(
+          `Failed to update job: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Cancel a job, or run a failed one again
+  ipcMain.handle(
+    'queue:cancel-job',
+    async (_, jobId: number): Promise<JobQueueStatus> => {
+      try {
+        return await jobQueue!.cancel(jobId);
+      } catch (error) {
+        throw new Error(
+          `Failed to update job: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'queue:retry-job',
+    async (_, jobId: number): Promise<JobQueueStatus> => {
+      try {
+        return await jobQueue!.retry(jobId);
+      } catch (error) {
+        throw new Error(
+          `Failed to update job: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  // Remove completed, failed and cancelled jobs
+  ipcMain.handle('queue:clear-finished', async (): Promise<JobQueueStatus> => {
+    try {
+      return await jobQueue!.clearFinished();
+    } catch (error) {
+      throw new Error(
+        `Failed to clear jobs: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
 }
 
 /**
@@ -497,28 +1534,48 @@ export function registerDatabaseHandlers(): void {
  */
 export function initializeIPCHandlers(): void {
   registerFileHandlers();
-  registerLLMHandlers();
+  const getLLMService = registerLLMHandlers();
   registerDatabaseHandlers();
+  registerInboxHandlers(getLLMService);
+  registerQueueHandlers(getLLMService);
 }
 
 /**
  * Clean up IPC handlers
  */
 export function cleanupIPCHandlers(): void {
+  // Stop watching inbox folders, starting queued jobs and file processing
+  // workers still running
+  inboxWatcher?.stop();
+  jobQueue?.stop();
+  fileProcessingRunner.cancelAll();
+
   // Remove all listeners to prevent memory leaks
   ipcMain.removeAllListeners('file:open-dialog');
   ipcMain.removeAllListeners('file:save-dialog');
   ipcMain.removeAllListeners('file:write');
   ipcMain.removeAllListeners('file:validate');
   ipcMain.removeAllListeners('file:process');
+  ipcMain.removeAllListeners('file:import');
+  ipcMain.removeAllListeners('file:cancel-processing');
+  ipcMain.removeAllListeners('file:scene-breakdown');
 
   ipcMain.removeAllListeners('llm:is-available');
   ipcMain.removeAllListeners('llm:get-status');
+  ipcMain.removeAllListeners('llm:list-providers');
+  ipcMain.removeAllListeners('llm:configure-provider');
   ipcMain.removeAllListeners('llm:list-models');
   ipcMain.removeAllListeners('llm:get-current-model');
   ipcMain.removeAllListeners('llm:set-model');
   ipcMain.removeAllListeners('llm:test-model');
+  ipcMain.removeAllListeners('llm:run-benchmark');
+  ipcMain.removeAllListeners('llm:pull-model');
+  ipcMain.removeAllListeners('llm:cancel-pull');
+  ipcMain.removeAllListeners('llm:delete-model');
+  ipcMain.removeAllListeners('llm:get-model-details');
   ipcMain.removeAllListeners('llm:generate-summary');
+  ipcMain.removeAllListeners('llm:start-summary');
+  ipcMain.removeAllListeners('llm:start-coverage');
   ipcMain.removeAllListeners('llm:cancel-generation');
 
   ipcMain.removeAllListeners('db:save-script');
@@ -528,7 +1585,35 @@ export function cleanupIPCHandlers(): void {
   ipcMain.removeAllListeners('db:delete-script');
   ipcMain.removeAllListeners('db:save-summary');
   ipcMain.removeAllListeners('db:get-summary');
+  ipcMain.removeAllListeners('db:get-summary-versions');
+  ipcMain.removeAllListeners('db:get-coverage-report');
+  ipcMain.removeAllListeners('db:pin-summary');
+  ipcMain.removeAllListeners('db:get-diagnostics');
   ipcMain.removeAllListeners('db:save-evaluation');
   ipcMain.removeAllListeners('db:get-evaluation');
+  ipcMain.removeAllListeners('db:get-scenes');
   ipcMain.removeAllListeners('db:search-scripts');
+  ipcMain.removeAllListeners('db:save-script-content');
+  ipcMain.removeAllListeners('db:load-script');
+  ipcMain.removeAllListeners('db:get-prompt-templates');
+  ipcMain.removeAllListeners('db:get-prompt-template-versions');
+  ipcMain.removeAllListeners('db:save-prompt-template');
+  ipcMain.removeAllListeners('db:delete-prompt-template');
+
+  ipcMain.removeAllListeners('inbox:configure');
+  ipcMain.removeAllListeners('inbox:get-status');
+  ipcMain.removeAllListeners('inbox:choose-folder');
+
+  ipcMain.removeAllListeners('queue:get-status');
+  ipcMain.removeAllListeners('queue:configure');
+  ipcMain.removeAllListeners('queue:enqueue-files');
+  ipcMain.removeAllListeners('queue:enqueue-summaries');
+  ipcMain.removeAllListeners('queue:pause');
+  ipcMain.removeAllListeners('queue:resume');
+  ipcMain.removeAllListeners('queue:pause-job');
+  ipcMain.removeAllListeners('queue:resume-job');
+  ipcMain.removeAllListeners('queue:set-priority');
+  ipcMain.removeAllListeners('queue:cancel-job');
+  ipcMain.removeAllListeners('queue:retry-job');
+  ipcMain.removeAllListeners('queue:clear-finished');
 }
@@ -0,0 +1,547 @@
+/**
+ * Persistent queue of background processing and summary jobs
+ * Requirements: 2.1, 3.2
+ */
+
+import path from 'node:path';
+import { getDatabaseManager } from '../database';
+import type { DatabaseJob, DatabaseScript } from '../database';
+import { importScriptFile } from './script-importer';
+import type { FileProcessingRunner } from './file-processing-runner';
+import type { ScriptContentStore } from './script-content-store';
+import type {
+  GenerationProgressCallback,
+  SummaryOptions,
+} from '../types/llm-service';
+import type { ParsedScript } from '../types/file-processing';
+import type {
+  EnqueueOptions,
+  Job,
+  JobQueueStatus,
+  JobStatus,
+} from '../types/jobs';
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Failed jobs are retried after this delay, doubled on each attempt
+const DEFAULT_RETRY_DELAY_MS = 5000;
+
+// Jobs that will not run again
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export interface JobQueueOptions {
+  /** Runs file processing off the main thread */
+  runner: FileProcessingRunner;
+
+  /** Stores and loads the extracted content of scripts */
+  contentStore: ScriptContentStore;
+
+  /**
+   * Generates and saves the summary of a script, with default options when
+   * the job has none, reporting its progress. Rejects without saving when the
+   * signal is aborted.
+   */
+  summarize: (
+    script: DatabaseScript,
+    parsed: ParsedScript,
+    options: SummaryOptions | undefined,
+    signal: AbortSignal,
+    onProgress: GenerationProgressCallback
+  ) => Promise<void>;
+
+  /** Called as the summaries of jobs are generated */
+  onSummaryProgress?: GenerationProgressCallback;
+
+  /** Called whenever a job or the queue changes */
+  onChange: (status: JobQueueStatus) => void;
+
+  /** Called when a job completes */
+  onJobCompleted?: (job: Job) => void;
+
+  /** Delay before the first retry of a failed job */
+  retryDelayMs?: number;
+}
+
+function fromJobRow(row: DatabaseJob): Job {
+  return {
+    id: row.id,
+    type: row.type as Job['type'],
+    status: row.status as JobStatus,
+    priority: row.priority,
+    filePath: row.file_path ?? undefined,
+    scriptId: row.script_id ?? undefined,
+    title: row.title,
+    summaryOptions: row.summary_options
+      ? JSON.parse(row.summary_options)
+      : undefined,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    error: row.error ?? undefined,
+    nextAttemptAt:
+      row.next_attempt_at !== null ? new Date(row.next_attempt_at) : undefined,
+    // SQLite stores UTC timestamps without a zone
+    createdAt: new Date(`${row.created_at.replace(' ', 'T')}Z`),
+    updatedAt: new Date(`${row.updated_at.replace(' ', 'T')}Z`),
+  };
+}
+
+export class JobQueue {
+  private jobs = new Map<number, Job>();
+  private running = new Set<number>();
+  private cancelling = new Set<number>();
+  private summaryControllers = new Map<number, AbortController>();
+  private paused = false;
+  private stopped = false;
+  private concurrency = DEFAULT_CONCURRENCY;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(private options: JobQueueOptions) {}
+
+  /**
+   * Load the jobs saved before the app closed and start running them. Jobs
+   * that were interrupted run again.
+   */
+  async start(): Promise<JobQueueStatus> {
+    this.stopped = false;
+    const rows = await getDatabaseManager().getJobs();
+
+    for (const row of rows) {
+      const job = fromJobRow(row);
+      this.jobs.set(job.id, job);
+      if (job.status === 'running') {
+        await this.update(job, { status: 'queued' });
+      }
+    }
+
+    this.pump();
+    return this.getStatus();
+  }
+
+  /**
+   * Stop starting jobs. Jobs already running still finish.
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  getStatus(): JobQueueStatus {
+    return {
+      paused: this.paused,
+      concurrency: this.concurrency,
+      jobs: [...this.jobs.values()]
+        .sort((a, b) => a.id - b.id)
+        .map(job => ({ ...job })),
+    };
+  }
+
+  setConcurrency(concurrency: number): JobQueueStatus {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.changed();
+    return this.getStatus();
+  }
+
+  /**
+   * Queue script files for processing. Files already waiting to be
+   * processed are not queued again.
+   */
+  async enqueueFiles(
+    filePaths: string[],
+    options: EnqueueOptions = {}
+  ): Promise<JobQueueStatus> {
+    const pending = new Set(
+      [...this.jobs.values()]
+        .filter(job => job.type === 'process' && !this.isFinished(job))
+        .map(job => job.filePath)
+    );
+
+    for (const filePath of filePaths) {
+      if (pending.has(filePath)) {
+        continue;
+      }
+      pending.add(filePath);
+      await this.add({
+        type: 'process',
+        file_path: filePath,
+        script_id: null,
+        title: path.basename(filePath),
+        ...this.toEnqueueRow(options),
+      });
+    }
+
+    this.pump();
+    return this.getStatus();
+  }
+
+  /**
+   * Queue scripts already in the library for summary generation
+   */
+  async enqueueSummaries(
+    scripts: Pick<DatabaseScript, 'id' | 'title'>[],
+    options: EnqueueOptions = {}
+  ): Promise<JobQueueStatus> {
+    for (const script of scripts) {
+      await this.add({
+        type: 'summarize',
+        file_path: null,
+        script_id: script.id,
+        title: script.title,
+        ...this.toEnqueueRow(options),
+      });
+    }
+
+    this.pump();
+    return this.getStatus();
+  }
+
+  /**
+   * Stop starting queued jobs
+   */
+  pause(): JobQueueStatus {
+    this.paused = true;
+    this.changed();
+    return this.getStatus();
+  }
+
+  resume(): JobQueueStatus {
+    this.paused = false;
+    this.pump();
+    return this.getStatus();
+  }
+
+  /**
+   * Hold a queued job back until it is resumed
+   */
+  async pauseJob(jobId: number): Promise<JobQueueStatus> {
+    const job = this.getJob(jobId);
+    if (job.status !== 'queued') {
+      throw new Error(`Job ${jobId} is not queued`);
+    }
+
+    await this.update(job, { status: 'paused' });
+    return this.getStatus();
+  }
+
+  async resumeJob(jobId: number): Promise<JobQueueStatus> {
+    const job = this.getJob(jobId);
+    if (job.status !== 'paused') {
+      throw new Error(`Job ${jobId} is not paused`);
+    }
+
+    await this.update(job, { status: 'queued' });
+    this.pump();
+    return this.getStatus();
+  }
+
+  /**
+   * Change when a job runs; jobs with a higher priority run first
+   */
+  async setPriority(jobId: number, priority: number): Promise<JobQueueStatus> {
+    await this.update(this.getJob(jobId), { priority });
+    this.pump();
+    return this.getStatus();
+  }
+
+  /**
+   * Cancel a job. A script file being processed or a summary being
+   * generated stops.
+   */
+  async cancel(jobId: number): Promise<JobQueueStatus> {
+    const job = this.getJob(jobId);
+    if (this.isFinished(job)) {
+      return this.getStatus();
+    }
+
+    if (job.status === 'running') {
+      this.cancelling.add(jobId);
+      if (job.type === 'process' && job.filePath) {
+        this.options.runner.cancel(job.filePath);
+      }
+      this.summaryControllers.get(jobId)?.abort();
+    } else {
+      await this.update(job, { status: 'cancelled' });
+    }
+    return this.getStatus();
+  }
+
+  /**
+   * Run a failed or cancelled job again, with its attempts reset
+   */
+  async retry(jobId: number): Promise<JobQueueStatus> {
+    const job = this.getJob(jobId);
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      throw new Error(`Job ${jobId} has not failed`);
+    }
+
+    await this.update(job, {
+      status: 'queued',
+      attempts: 0,
+      error: undefined,
+      nextAttemptAt: undefined,
+    });
+    this.pump();
+    return this.getStatus();
+  }
+
+  /**
+   * Remove completed, failed and cancelled jobs
+   */
+  async clearFinished(): Promise<JobQueueStatus> {
+    const finished = [...this.jobs.values()].filter(job =>
+      this.isFinished(job)
+    );
+
+    await getDatabaseManager().deleteJobs(finished.map(job => job.id));
+    finished.forEach(job => this.jobs.delete(job.id));
+    this.changed();
+    return this.getStatus();
+  }
+
+  // Start the highest priority jobs that are due, up to the concurrency
+  private pump(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.stopped) {
+      return;
+    }
+
+    const now = Date.now();
+    const queued = [...this.jobs.values()].filter(
+      job => job.status === 'queued'
+    );
+    const due = queued
+      .filter(job => !job.nextAttemptAt || job.nextAttemptAt.getTime() <= now)
+      .sort((a, b) => b.priority - a.priority || a.id - b.id);
+
+    while (
+      !this.paused &&
+      this.running.size < this.concurrency &&
+      due.length > 0
+    ) {
+      const job = due.shift()!;
+      this.running.add(job.id);
+      void this.run(job);
+    }
+
+    // Come back when the next job waiting to be retried is due
+    const retryTimes = queued
+      .filter(job => job.nextAttemptAt && job.nextAttemptAt.getTime() > now)
+      .map(job => job.nextAttemptAt!.getTime());
+    if (retryTimes.length > 0) {
+      this.retryTimer = setTimeout(
+        () => this.pump(),
+        Math.min(...retryTimes) - now
+      );
+    }
+
+    this.changed();
+  }
+
+  private async run(job: Job): Promise<void> {
+    try {
+      await this.update(job, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        nextAttemptAt: undefined,
+      });
+      if (this.cancelling.has(job.id)) {
+        throw new Error('Job was cancelled');
+      }
+
+      if (job.type === 'process') {
+        await this.processFile(job);
+      } else {
+        await this.summarizeScript(job);
+      }
+
+      // A cancel that lands after the step has finished still cancels the job
+      if (this.cancelling.has(job.id)) {
+        throw new Error('Job was cancelled');
+      }
+
+      await this.update(job, { status: 'completed', error: undefined });
+      this.options.onJobCompleted?.({ ...job });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (this.cancelling.has(job.id)) {
+        await this.update(job, { status: 'cancelled', error: undefined });
+      } else if (job.attempts < job.maxAttempts) {
+        const delay =
+          (this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) *
+          2 ** (job.attempts - 1);
+        await this.update(job, {
+          status: 'queued',
+          error: message,
+          nextAttemptAt: new Date(Date.now() + delay),
+        });
+      } else {
+        await this.update(job, { status: 'failed', error: message });
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.cancelling.delete(job.id);
+      this.pump();
+    }
+  }
+
+  private async processFile(job: Job): Promise<void> {
+    const { script, duplicate } = await importScriptFile(
+      job.filePath!,
+      this.options.runner,
+      this.options.contentStore
+    );
+    await this.update(job, { scriptId: script.id, title: script.title });
+
+    if (!job.summaryOptions || this.cancelling.has(job.id)) {
+      return;
+    }
+
+    // Scripts already in the library are only summarized if they have no
+    // summary yet
+    const summary = duplicate
+      ? await getDatabaseManager().getSummaryByScriptId(script.id.toString())
+      : null;
+    if (!summary) {
+      await this.add({
+        type: 'summarize',
+        file_path: null,
+        script_id: script.id,
+        title: script.title,
+        ...this.toEnqueueRow({
+          summaryOptions: job.summaryOptions,
+          priority: job.priority,
+        }),
+      });
+    }
+  }
+
+  private async summarizeScript(job: Job): Promise<void> {
+    const script = await getDatabaseManager().getScript(
+      job.scriptId!.toString()
+    );
+    if (!script) {
+      throw new Error(`Script ${job.scriptId} not found`);
+    }
+
+    const loaded = await this.options.contentStore.load(script);
+    if (!loaded.parsed) {
+      throw new Error(`The content of ${script.title} could not be loaded`);
+    }
+
+    const controller = new AbortController();
+    this.summaryControllers.set(job.id, controller);
+    try {
+      await this.options.summarize(
+        script,
+        loaded.parsed,
+        job.summaryOptions,
+        controller.signal,
+        progress => {
+          // Cancelling the generation itself, as the summary view does,
+          // cancels the job rather than leaving it to be retried
+          if (progress.stage === 'cancelled') {
+            this.cancelling.add(job.id);
+          }
+          this.options.onSummaryProgress?.(progress);
+        }
+      );
+    } finally {
+      this.summaryControllers.delete(job.id);
+    }
+  }
+
+  private async add(
+    row: Pick<
+      DatabaseJob,
+      | 'type'
+      | 'file_path'
+      | 'script_id'
+      | 'title'
+      | 'summary_options'
+      | 'priority'
+    >
+  ): Promise<Job> {
+    const saved = await getDatabaseManager().saveJob({
+      ...row,
+      status: 'queued',
+      attempts: 0,
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
+      error: null,
+      next_attempt_at: null,
+    });
+
+    const job = fromJobRow(saved);
+    this.jobs.set(job.id, job);
+    this.changed();
+    return job;
+  }
+
+  // Apply changes to a job and save them
+  private async update(
+    job: Job,
+    changes: Partial<
+      Pick<
+        Job,
+        | 'status'
+        | 'priority'
+        | 'scriptId'
+        | 'title'
+        | 'attempts'
+        | 'error'
+        | 'nextAttemptAt'
+      >
+    >
+  ): Promise<void> {
+    Object.assign(job, changes, { updatedAt: new Date() });
+    this.changed();
+
+    try {
+      await getDatabaseManager().updateJob(job.id, {
+        status: job.status,
+        priority: job.priority,
+        script_id: job.scriptId ?? null,
+        title: job.title,
+        attempts: job.attempts,
+        error: job.error ?? null,
+        next_attempt_at: job.nextAttemptAt?.getTime() ?? null,
+      });
+    } catch (error) {
+      // The job still runs; it is only lost if the app closes first
+      console.warn(`Could not save job ${job.id}:`, error);
+    }
+  }
+
+  private toEnqueueRow(
+    options: EnqueueOptions
+  ): Pick<DatabaseJob, 'summary_options' | 'priority'> {
+    return {
+      summary_options: options.summaryOptions
+        ? JSON.stringify(options.summaryOptions)
+        : null,
+      priority: options.priority ?? 0,
+    };
+  }
+
+  private getJob(jobId: number): Job {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  private isFinished(job: Job): boolean {
+    return FINISHED_STATUSES.includes(job.status);
+  }
+
+  private changed(): void {
+    this.options.onChange(this.getStatus());
+  }
+}
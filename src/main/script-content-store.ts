@@ -0,0 +1,177 @@
+/**
+ * Stores extracted script content in the database and loads it back,
+ * re-reading the source file only when it has changed
+ * Requirements: 2.1, 6.1
+ */
+
+import path from 'node:path';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import { generateContentHash } from '../services/file-processing';
+import { getDatabaseManager } from '../database';
+import type {
+  DatabaseScript,
+  LoadedScript,
+  StoredScriptContent,
+} from '../database';
+import type { FileProcessingRunner } from './file-processing-runner';
+import type { ParsedScript } from '../types/file-processing';
+import type { FileType } from '../types/script';
+
+type FileFingerprint = Pick<StoredScriptContent, 'fileHash' | 'fileMtime'>;
+
+export interface ScriptContentStoreOptions {
+  /** Runs file processing off the main thread */
+  runner: FileProcessingRunner;
+
+  /** Whether stored content is gzip compressed */
+  compress?: boolean;
+}
+
+export class ScriptContentStore {
+  constructor(private options: ScriptContentStoreOptions) {}
+
+  /**
+   * Store the parsed content of a script along with the fingerprint of its
+   * source file
+   */
+  async save(script: DatabaseScript, parsed: ParsedScript): Promise<void> {
+    let fingerprint: FileFingerprint = { fileHash: null, fileMtime: null };
+    try {
+      fingerprint = await this.readFingerprint(script.file_path);
+    } catch {
+      // The content is still worth keeping without a source file
+    }
+
+    await getDatabaseManager().saveScriptContent(
+      script.id,
+      { parsed, ...fingerprint },
+      { compress: this.options.compress ?? true }
+    );
+  }
+
+  /**
+   * Load a script from the database. The source file is only processed
+   * again when its modification time and hash have both changed, and a
+   * missing file flags the script instead of losing its content. A changed
+   * file that cannot be processed leaves the stored content in use.
+   */
+  async load(script: DatabaseScript): Promise<LoadedScript> {
+    const db = getDatabaseManager();
+    const stored = await db.getScriptContent(script.id);
+
+    let mtime: number;
+    try {
+      const stats = await fs.promises.stat(script.file_path);
+      mtime = Math.floor(stats.mtimeMs);
+    } catch {
+      if (!script.file_missing) {
+        await db.setScriptFileMissing(script.id, true);
+      }
+      return {
+        script: { ...script, file_missing: 1 },
+        parsed: stored?.parsed ?? null,
+        fileMissing: true,
+        reprocessed: false,
+      };
+    }
+
+    if (script.file_missing) {
+      await db.setScriptFileMissing(script.id, false);
+      script = { ...script, file_missing: 0 };
+    }
+
+    if (stored && stored.fileMtime === mtime) {
+      return {
+        script,
+        parsed: stored.parsed,
+        fileMissing: false,
+        reprocessed: false,
+      };
+    }
+
+    let fileHash: string;
+    try {
+      fileHash = await this.hashFile(script.file_path);
+    } catch (error) {
+      return this.keepStoredContent(script, stored, error);
+    }
+    if (stored && stored.fileHash === fileHash) {
+      // Touched but unchanged; remember the new time to skip hashing next load
+      await db.saveScriptContent(
+        script.id,
+        { ...stored, fileMtime: mtime },
+        { compress: this.options.compress ?? true }
+      );
+      return {
+        script,
+        parsed: stored.parsed,
+        fileMissing: false,
+        reprocessed: false,
+      };
+    }
+
+    const fileType = path
+      .extname(script.file_path)
+      .slice(1)
+      .toLowerCase() as FileType;
+    let parsed: ParsedScript;
+    try {
+      parsed = await this.options.runner.run(script.file_path, fileType);
+    } catch (error) {
+      return this.keepStoredContent(script, stored, error);
+    }
+
+    await db.saveScriptContent(
+      script.id,
+      { parsed, fileHash, fileMtime: mtime },
+      { compress: this.options.compress ?? true }
+    );
+
+    try {
+      script = await db.updateScript(script.id.toString(), {
+        content_hash: generateContentHash(parsed.content),
+        word_count: parsed.metadata.wordCount,
+      });
+    } catch (error) {
+      // The new content can match another script already in the library
+      console.warn(`Could not update script ${script.title}:`, error);
+    }
+
+    return { script, parsed, fileMissing: false, reprocessed: true };
+  }
+
+  private keepStoredContent(
+    script: DatabaseScript,
+    stored: StoredScriptContent | null,
+    error: unknown
+  ): LoadedScript {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Could not process ${script.file_path} again:`, message);
+    return {
+      script,
+      parsed: stored?.parsed ?? null,
+      fileMissing: false,
+      reprocessed: false,
+      processingError: message,
+    };
+  }
+
+  private async readFingerprint(filePath: string): Promise<FileFingerprint> {
+    const stats = await fs.promises.stat(filePath);
+    return {
+      fileHash: await this.hashFile(filePath),
+      fileMtime: Math.floor(stats.mtimeMs),
+    };
+  }
+
+  private hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      fs.createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('error', reject)
+        .on('end', () => resolve(hash.digest('hex')));
+    });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Imports a script file into the library
+ * Requirements: 2.1, 6.1
+ */
+
+import path from 'node:path';
+import {
+  fileProcessorFactory,
+  generateContentHash,
+} from '../services/file-processing';
+import { getDatabaseManager } from '../database';
+import type { ScriptImport } from '../database';
+import type { FileProcessingRunner } from './file-processing-runner';
+import type { ScriptContentStore } from './script-content-store';
+import type { ProcessingProgressCallback } from '../types/file-processing';
+import type { FileType } from '../types/script';
+
+/**
+ * Validate and process a script file, then save it along with its content
+ * unless the library already has a script with the same content
+ */
+export async function importScriptFile(
+  filePath: string,
+  runner: FileProcessingRunner,
+  contentStore: ScriptContentStore,
+  onProgress?: ProcessingProgressCallback
+): Promise<ScriptImport> {
+  const fileType = path.extname(filePath).slice(1).toLowerCase() as FileType;
+  const processor = fileProcessorFactory.createProcessor(fileType);
+
+  const validation = await processor.validateFile(filePath);
+  if (!validation.isValid) {
+    throw new Error(validation.errors.map(error => error.message).join(', '));
+  }
+
+  const parsed = await runner.run(filePath, fileType, onProgress);
+  const contentHash = generateContentHash(parsed.content);
+  const db = getDatabaseManager();
+
+  const existing = await db.getScriptByContentHash(contentHash);
+  if (existing) {
+    return { script: existing, duplicate: true, parsed };
+  }
+
+  const script = await db.saveScript({
+    title: parsed.title,
+    file_path: filePath,
+    content_hash: contentHash,
+    word_count: parsed.metadata.wordCount,
+  });
+  await contentStore.save(script, parsed);
+
+  return { script, duplicate: false, parsed };
+}
@@ -8,6 +8,7 @@ import type {
   ParsedScript,
   ValidationResult,
   FileProcessingOptions,
+  ProcessingProgress,
 } from './types/file-processing';
 import type {
   ScriptSummary,
@@ -15,12 +16,42 @@ import type {
   LLMModel,
   ServiceStatus,
   ModelTestResult,
+  GenerationProgress,
+  SummaryGenerationResult,
+  CoverageGenerationResult,
+  LLMProviderInfo,
+  LLMProviderSettings,
+  ModelDetails,
+  ModelPullOptions,
+  ModelPullProgress,
 } from './types/llm-service';
+import type { CoverageOptions, CoverageReport } from './types/coverage';
+import type {
+  BenchmarkProgress,
+  ModelBenchmarkResult,
+} from './types/benchmark';
 import type {
   DatabaseScript,
   DatabaseSummary,
   DatabaseScriptEvaluation,
+  SceneBreakdown,
+  InboxImportReport,
+  InboxStatus,
+  InboxWatchSettings,
+  EnqueueOptions,
+  Job,
+  JobQueueSettings,
+  JobQueueStatus,
+  DatabaseDiagnostics,
 } from './types';
+import type {
+  DatabasePromptTemplate,
+  DatabasePromptTemplateVersion,
+  DatabaseScene,
+  DatabaseScriptSearchResult,
+  LoadedScript,
+  ScriptImport,
+} from './database/types';
 
 // Define the API interface that will be exposed to the renderer
 export interface ElectronAPI {
@@ -33,25 +64,71 @@ export interface ElectronAPI {
     }) => Promise<Electron.SaveDialogReturnValue>;
     write: (filePath: string, content: string) => Promise<{ success: boolean }>;
     validate: (filePath: string) => Promise<ValidationResult>;
+    /** Resolves null when processing is cancelled */
     process: (
       filePath: string,
       options?: FileProcessingOptions
-    ) => Promise<ParsedScript>;
+    ) => Promise<ParsedScript | null>;
+    /** Resolves null when processing is cancelled */
+    import: (filePath: string) => Promise<ScriptImport | null>;
+    cancelProcessing: (filePath: string) => Promise<boolean>;
+    onProcessingProgress: (
+      callback: (filePath: string, progress: ProcessingProgress) => void
+    ) => () => void;
+    sceneBreakdown: (
+      filePath: string,
+      scriptId?: string
+    ) => Promise<SceneBreakdown>;
   };
 
   // LLM operations
   llm: {
     isAvailable: () => Promise<boolean>;
     getStatus: () => Promise<ServiceStatus>;
+    listProviders: () => Promise<LLMProviderInfo[]>;
+    configureProvider: (
+      settings: LLMProviderSettings
+    ) => Promise<ServiceStatus>;
     listModels: () => Promise<LLMModel[]>;
     getCurrentModel: () => Promise<LLMModel | null>;
     setModel: (modelId: string) => Promise<void>;
     testModel: (modelId: string) => Promise<ModelTestResult>;
+    runBenchmark: (modelIds: string[]) => Promise<ModelBenchmarkResult[]>;
+    onBenchmarkProgress: (
+      callback: (progress: BenchmarkProgress) => void
+    ) => () => void;
+    pullModel: (modelName: string, options?: ModelPullOptions) => Promise<void>;
+    cancelPull: (modelName: string) => Promise<void>;
+    deleteModel: (modelName: string) => Promise<void>;
+    getModelDetails: (modelName: string) => Promise<ModelDetails>;
+    onPullProgress: (
+      callback: (progress: ModelPullProgress) => void
+    ) => () => void;
     generateSummary: (
       content: string,
-      options: SummaryOptions
+      options: SummaryOptions,
+      scriptId?: string
     ) => Promise<ScriptSummary>;
+    startSummary: (
+      content: string,
+      options: SummaryOptions,
+      scriptId?: string
+    ) => Promise<string>;
+    startCoverage: (
+      content: string,
+      options: CoverageOptions,
+      scriptId?: string
+    ) => Promise<string>;
     cancelGeneration: (operationId: string) => Promise<void>;
+    onGenerationProgress: (
+      callback: (progress: GenerationProgress) => void
+    ) => () => void;
+    onGenerationComplete: (
+      callback: (result: SummaryGenerationResult) => void
+    ) => () => void;
+    onCoverageComplete: (
+      callback: (result: CoverageGenerationResult) => void
+    ) => () => void;
   };
 
   // Database operations
@@ -67,16 +144,72 @@ export interface ElectronAPI {
     ) => Promise<DatabaseScript>;
     deleteScript: (scriptId: string) => Promise<void>;
     saveSummary: (
-      summaryData: Omit<DatabaseSummary, 'id' | 'createdAt'>
-    ) => Promise<DatabaseSummary>;
-    getSummary: (scriptId: string) => Promise<DatabaseSummary | null>;
+      scriptId: number,
+      summary: ScriptSummary
+    ) => Promise<ScriptSummary>;
+    getSummary: (scriptId: string) => Promise<ScriptSummary | null>;
+    getSummaryVersions: (scriptId: number) => Promise<DatabaseSummary[]>;
+    getCoverageReport: (scriptId: number) => Promise<CoverageReport | null>;
+    pinSummary: (scriptId: number, summaryId: number | null) => Promise<void>;
+    getDiagnostics: () => Promise<DatabaseDiagnostics>;
     saveEvaluation: (
       evaluationData: Omit<DatabaseScriptEvaluation, 'id' | 'createdAt'>
     ) => Promise<DatabaseScriptEvaluation>;
     getEvaluation: (
       scriptId: string
     ) => Promise<DatabaseScriptEvaluation | null>;
-    searchScripts: (query: string) => Promise<DatabaseScript[]>;
+    getScenes: (scriptId: string) => Promise<DatabaseScene[]>;
+    searchScripts: (query: string) => Promise<DatabaseScriptSearchResult[]>;
+    saveScriptContent: (
+      scriptId: string,
+      parsed: ParsedScript
+    ) => Promise<void>;
+    loadScript: (scriptId: string) => Promise<LoadedScript | null>;
+    getPromptTemplates: () => Promise<DatabasePromptTemplate[]>;
+    getPromptTemplateVersions: (
+      templateId: string
+    ) => Promise<DatabasePromptTemplateVersion[]>;
+    savePromptTemplate: (
+      templateData: Pick<
+        DatabasePromptTemplate,
+        'name' | 'description' | 'body'
+      > & { id?: number }
+    ) => Promise<DatabasePromptTemplate>;
+    deletePromptTemplate: (templateId: string) => Promise<void>;
+  };
+
+  // Watched inbox folders
+  inbox: {
+    configure: (settings: InboxWatchSettings) => Promise<InboxStatus>;
+    getStatus: () => Promise<InboxStatus>;
+    chooseFolder: () => Promise<Electron.OpenDialogReturnValue>;
+    onImportComplete: (
+      callback: (report: InboxImportReport) => void
+    ) => () => void;
+  };
+
+  // Background processing and summary jobs
+  queue: {
+    getStatus: () => Promise<JobQueueStatus>;
+    configure: (settings: JobQueueSettings) => Promise<JobQueueStatus>;
+    enqueueFiles: (
+      filePaths: string[],
+      options?: EnqueueOptions
+    ) => Promise<JobQueueStatus>;
+    enqueueSummaries: (
+      scriptIds: string[],
+      options?: EnqueueOptions
+    ) => Promise<JobQueueStatus>;
+    pause: () => Promise<JobQueueStatus>;
+    resume: () => Promise<JobQueueStatus>;
+    pauseJob: (jobId: number) => Promise<JobQueueStatus>;
+    resumeJob: (jobId: number) => Promise<JobQueueStatus>;
+    setPriority: (jobId: number, priority: number) => Promise<JobQueueStatus>;
+    cancelJob: (jobId: number) => Promise<JobQueueStatus>;
+    retryJob: (jobId: number) => Promise<JobQueueStatus>;
+    clearFinished: () => Promise<JobQueueStatus>;
+    onStatus: (callback: (status: JobQueueStatus) => void) => () => void;
+    onJobCompleted: (callback: (job: Job) => void) => () => void;
   };
 }
 
@@ -94,20 +227,120 @@ const electronAPI: ElectronAPI = {
       ipcRenderer.invoke('file:validate', filePath),
     process: (filePath: string, options?: FileProcessingOptions) =>
       ipcRenderer.invoke('file:process', filePath, options),
+    import: (filePath: string) => ipcRenderer.invoke('file:import', filePath),
+    cancelProcessing: (filePath: string) =>
+      ipcRenderer.invoke('file:cancel-processing', filePath),
+    onProcessingProgress: (
+      callback: (filePath: string, progress: ProcessingProgress) => void
+    ) => {
+      const listener = (
+        _: Electron.IpcRendererEvent,
+        filePath: string,
+        progress: ProcessingProgress
+      ) => callback(filePath, progress);
+      ipcRenderer.on('file:processing-progress', listener);
+      return () => {
+        ipcRenderer.removeListener('file:processing-progress', listener);
+      };
+    },
+    sceneBreakdown: (filePath: string, scriptId?: string) =>
+      ipcRenderer.invoke('file:scene-breakdown', filePath, scriptId),
   },
 
   llm: {
     isAvailable: () => ipcRenderer.invoke('llm:is-available'),
     getStatus: () => ipcRenderer.invoke('llm:get-status'),
+    listProviders: () => ipcRenderer.invoke('llm:list-providers'),
+    configureProvider: (settings: LLMProviderSettings) =>
+      ipcRenderer.invoke('llm:configure-provider', settings),
     listModels: () => ipcRenderer.invoke('llm:list-models'),
     getCurrentModel: () => ipcRenderer.invoke('llm:get-current-model'),
     setModel: (modelId: string) => ipcRenderer.invoke('llm:set-model', modelId),
     testModel: (modelId: string) =>
       ipcRenderer.invoke('llm:test-model', modelId),
-    generateSummary: (content: string, options: SummaryOptions) =>
-      ipcRenderer.invoke('llm:generate-summary', content, options),
+    runBenchmark: (modelIds: string[]) =>
+      ipcRenderer.invoke('llm:run-benchmark', modelIds),
+    onBenchmarkProgress: (callback: (progress: BenchmarkProgress) => void) => {
+      const listener = (
+        _: Electron.IpcRendererEvent,
+        progress: BenchmarkProgress
+      ) => callback(progress);
+      ipcRenderer.on('llm:benchmark-progress', listener);
+      return () => {
+        ipcRenderer.removeListener('llm:benchmark-progress', listener);
+      };
+    },
+    pullModel: (modelName: string, options?: ModelPullOptions) =>
+      ipcRenderer.invoke('llm:pull-model', modelName, options),
+    cancelPull: (modelName: string) =>
+      ipcRenderer.invoke('llm:cancel-pull', modelName),
+    deleteModel: (modelName: string) =>
+      ipcRenderer.invoke('llm:delete-model', modelName),
+    getModelDetails: (modelName: string) =>
+      ipcRenderer.invoke('llm:get-model-details', modelName),
+    onPullProgress: (callback: (progress: ModelPullProgress) => void) => {
+      const listener = (
+        _: Electron.IpcRendererEvent,
+        progress: ModelPullProgress
+      ) => callback(progress);
+      ipcRenderer.on('llm:pull-progress', listener);
+      return () => {
+        ipcRenderer.removeListener('llm:pull-progress', listener);
+      };
+    },
+    generateSummary: (
+      content: string,
+      options: SummaryOptions,
+      scriptId?: string
+    ) => ipcRenderer.invoke('llm:generate-summary', content, options, scriptId),
+    startSummary: (
+      content: string,
+      options: SummaryOptions,
+      scriptId?: string
+    ) => ipcRenderer.invoke('llm:start-summary', content, options, scriptId),
+    startCoverage: (
+      content: string,
+      options: CoverageOptions,
+      scriptId?: string
+    ) => ipcRenderer.invoke('llm:start-coverage', content, options, scriptId),
     cancelGeneration: (operationId: string) =>
       ipcRenderer.invoke('llm:cancel-generation', operationId),
+    onGenerationProgress: (
+      callback: (progress: GenerationProgress) => void
+    ) => {
+      const listener = (
+        _: Electron.IpcRendererEvent,
+        progress: GenerationProgress
+      ) => callback(progress);
+      ipcRenderer.on('llm:generation-progress', listener);
+      return () => {
+        ipcRenderer.removeListener('llm:generation-progress', listener);
+      };
+    },
+    onGenerationComplete: (
+      callback: (result: SummaryGenerationResult) => void
+    ) => {
+      const listener = (
+        _: Electron.IpcRendererEvent,
+        result: SummaryGenerationResult
+      ) => callback(result);
+      ipcRenderer.on('llm:generation-complete', listener);
+      return () => {
+        ipcRenderer.removeListener('llm:generation-complete', listener);
+      };
+    },
+    onCoverageComplete: (
+      callback: (result: CoverageGenerationResult) => void
+    ) => {
+      const listener = (
+        _: Electron.IpcRendererEvent,
+        result: CoverageGenerationResult
+      ) => callback(result);
+      ipcRenderer.on('llm:coverage-complete', listener);
+      return () => {
+        ipcRenderer.removeListener('llm:coverage-complete', listener);
+      };
+    },
   },
 
   db: {
@@ -119,16 +352,88 @@ const electronAPI: ElectronAPI = {
       ipcRenderer.invoke('db:update-script', scriptId, updates),
     deleteScript: (scriptId: string) =>
       ipcRenderer.invoke('db:delete-script', scriptId),
-    saveSummary: summaryData =>
-      ipcRenderer.invoke('db:save-summary', summaryData),
+    saveSummary: (scriptId: number, summary) =>
+      ipcRenderer.invoke('db:save-summary', scriptId, summary),
     getSummary: (scriptId: string) =>
       ipcRenderer.invoke('db:get-summary', scriptId),
+    getSummaryVersions: (scriptId: number) =>
+      ipcRenderer.invoke('db:get-summary-versions', scriptId),
+    getCoverageReport: (scriptId: number) =>
+      ipcRenderer.invoke('db:get-coverage-report', scriptId),
+    pinSummary: (scriptId: number, summaryId: number | null) =>
+      ipcRenderer.invoke('db:pin-summary', scriptId, summaryId),
+    getDiagnostics: () => ipcRenderer.invoke('db:get-diagnostics'),
     saveEvaluation: evaluationData =>
       ipcRenderer.invoke('db:save-evaluation', evaluationData),
     getEvaluation: (scriptId: string) =>
       ipcRenderer.invoke('db:get-evaluation', scriptId),
+    getScenes: (scriptId: string) =>
+      ipcRenderer.invoke('db:get-scenes', scriptId),
     searchScripts: (query: string) =>
       ipcRenderer.invoke('db:search-scripts', query),
+    saveScriptContent: (scriptId: string, parsed: ParsedScript) =>
+      ipcRenderer.invoke('db:save-script-content', scriptId, parsed),
+    loadScript: (scriptId: string) =>
+      ipcRenderer.invoke('db:load-script', scriptId),
+    getPromptTemplates: () => ipcRenderer.invoke('db:get-prompt-templates'),
+    getPromptTemplateVersions: (templateId: string) =>
+      ipcRenderer.invoke('db:get-prompt-template-versions', templateId),
+    savePromptTemplate: templateData =>
+      ipcRenderer.invoke('db:save-prompt-template', templateData),
+    deletePromptTemplate: (templateId: string) =>
+      ipcRenderer.invoke('db:delete-prompt-template', templateId),
+  },
+
+  inbox: {
+    configure: (settings: InboxWatchSettings) =>
+      ipcRenderer.invoke('inbox:configure', settings),
+    getStatus: () => ipcRenderer.invoke('inbox:get-status'),
+    chooseFolder: () => ipcRenderer.invoke('inbox:choose-folder'),
+    onImportComplete: (callback: (report: InboxImportReport) => void) => {
+      const listener = (
+        _: Electron.IpcRendererEvent,
+        report: InboxImportReport
+      ) => callback(report);
+      ipcRenderer.on('inbox:import-complete', listener);
+      return () => {
+        ipcRenderer.removeListener('inbox:import-complete', listener);
+      };
+    },
+  },
+
+  queue: {
+    getStatus: () => ipcRenderer.invoke('queue:get-status'),
+    configure: (settings: JobQueueSettings) =>
+      ipcRenderer.invoke('queue:configure', settings),
+    enqueueFiles: (filePaths: string[], options?: EnqueueOptions) =>
+      ipcRenderer.invoke('queue:enqueue-files', filePaths, options),
+    enqueueSummaries: (scriptIds: string[], options?: EnqueueOptions) =>
+      ipcRenderer.invoke('queue:enqueue-summaries', scriptIds, options),
+    pause: () => ipcRenderer.invoke('queue:pause'),
+    resume: () => ipcRenderer.invoke('queue:resume'),
+    pauseJob: (jobId: number) => ipcRenderer.invoke('queue:pause-job', jobId),
+    resumeJob: (jobId: number) => ipcRenderer.invoke('queue:resume-job', jobId),
+    setPriority: (jobId: number, priority: number) =>
+      ipcRenderer.invoke('queue:set-priority', jobId, priority),
+    cancelJob: (jobId: number) => ipcRenderer.invoke('queue:cancel-job', jobId),
+    retryJob: (jobId: number) => ipcRenderer.invoke('queue:retry-job', jobId),
+    clearFinished: () => ipcRenderer.invoke('queue:clear-finished'),
+    onStatus: (callback: (status: JobQueueStatus) => void) => {
+      const listener = (_: Electron.IpcRendererEvent, status: JobQueueStatus) =>
+        callback(status);
+      ipcRenderer.on('queue:status', listener);
+      return () => {
+        ipcRenderer.removeListener('queue:status', listener);
+      };
+    },
+    onJobCompleted: (callback: (job: Job) => void) => {
+      const listener = (_: Electron.IpcRendererEvent, job: Job) =>
+        callback(job);
+      ipcRenderer.on('queue:job-completed', listener);
+      return () => {
+        ipcRenderer.removeListener('queue:job-completed', listener);
+      };
+    },
   },
 };
 
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for character dialogue statistics
+ * Requirements: 2.1, 2.2
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CharacterAnalyticsService } from '../character-analytics';
+
+describe('CharacterAnalyticsService', () => {
+  describe('analyze', () => {
+    const content = [
+      'INT. LIGHTHOUSE - NIGHT',
+      '',
+      'MAYA climbs the stairs. Eli follows.',
+      '',
+      'MAYA (V.O.)',
+      '(whispering)',
+      'Is anyone up here?',
+      '',
+      'ELI',
+      'Just us.',
+      '',
+      'EXT. PIER - DAWN',
+      '',
+      'Maya stares at the water.',
+      '',
+      "MAYA (CONT'D)",
+      'It is gone.',
+      '',
+      'INT. CAR - DAY',
+      '',
+      'Eli drives alone.',
+    ].join('\n');
+
+    it('should count dialogue lines and spoken words per character', () => {
+      const report = CharacterAnalyticsService.analyze(content);
+
+      expect(
+        report.characters.map(character => [
+          character.name,
+          character.dialogueLines,
+          character.dialogueWords,
+        ])
+      ).toEqual([
+        ['MAYA', 2, 7],
+        ['ELI', 1, 2],
+      ]);
+      expect(report.totalDialogueLines).toBe(3);
+      expect(report.totalDialogueWords).toBe(9);
+      expect(report.sceneCount).toBe(3);
+    });
+
+    it('should count every line of a speech', () => {
+      const report = CharacterAnalyticsService.analyze(
+        [
+          'INT. ROOM - DAY',
+          '',
+          'MAYA',
+          'Is anyone up here?',
+          '(beat)',
+          'Hello?',
+          'Anyone?',
+        ].join('\n')
+      );
+
+      expect(report.characters[0]).toMatchObject({
+        dialogueLines: 3,
+        dialogueWords: 6,
+      });
+      expect(report.totalDialogueLines).toBe(3);
+    });
+
+    it('should count scenes where characters speak or are mentioned', () => {
+      const report = CharacterAnalyticsService.analyze(content);
+      const [maya, eli] = report.characters;
+
+      expect(maya.scenes).toEqual([1, 2]);
+      expect(maya.sceneCount).toBe(2);
+      expect(eli.scenes).toEqual([1, 3]);
+    });
+
+    it('should report first and last appearances', () => {
+      const report = CharacterAnalyticsService.analyze(content);
+      const [maya, eli] = report.characters;
+
+      expect(maya.firstAppearance).toEqual({
+        sceneIndex: 1,
+        offset: content.indexOf('MAYA climbs'),
+      });
+      expect(maya.lastAppearance).toEqual({
+        sceneIndex: 2,
+        offset: content.indexOf("MAYA (CONT'D)"),
+      });
+      expect(eli.firstAppearance.offset).toBe(content.indexOf('Eli follows'));
+      expect(eli.lastAppearance).toEqual({
+        sceneIndex: 3,
+        offset: content.indexOf('Eli drives'),
+      });
+    });
+
+    it('should compute each character share of the dialogue', () => {
+      const report = CharacterAnalyticsService.analyze(content);
+
+      expect(report.characters[0].dialogueShare).toBeCloseTo(7 / 9);
+      expect(report.characters[1].dialogueShare).toBeCloseTo(2 / 9);
+    });
+
+    it('should not count mentions inside other words', () => {
+      const report = CharacterAnalyticsService.analyze(
+        'INT. ROOM - DAY\n\nAL\nHi.\n\nEXT. STREET - DAY\n\nAlice walks by.'
+      );
+
+      expect(report.characters[0].scenes).toEqual([1]);
+    });
+
+    it('should use processor elements when given', () => {
+      const text = 'Hello\nBOB\nHi there';
+      const report = CharacterAnalyticsService.analyze(text, [
+        { type: 'action', text: 'Hello', start: 0, end: 5 },
+        { type: 'character', text: 'BOB', start: 6, end: 9 },
+        { type: 'dialogue', text: 'Hi there', start: 10, end: 18 },
+      ]);
+
+      expect(report.characters).toHaveLength(1);
+      expect(report.characters[0]).toMatchObject({
+        name: 'BOB',
+        dialogueLines: 1,
+        dialogueWords: 2,
+        scenes: [],
+        firstAppearance: { sceneIndex: null, offset: 6 },
+      });
+    });
+
+    it('should return an empty report without dialogue', () => {
+      const report = CharacterAnalyticsService.analyze('Just some prose.');
+
+      expect(report).toEqual({
+        characters: [],
+        totalDialogueLines: 0,
+        totalDialogueWords: 0,
+        sceneCount: 0,
+      });
+    });
+  });
+
+  describe('normalizeName', () => {
+    it('should strip extensions and the dual dialogue caret', () => {
+      expect(CharacterAnalyticsService.normalizeName('MAYA (V.O.)')).toBe(
+        'MAYA'
+      );
+      expect(
+        CharacterAnalyticsService.normalizeName("DR.  ELI (CONT'D) ^")
+      ).toBe('DR. ELI');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Deterministic character dialogue statistics from screenplay text
+ * Requirements: 2.1, 2.2
+ */
+
+import { ScreenplayElementDetector } from '../file-processing/screenplay-elements';
+import type { ScreenplayElement } from '../../types/file-processing';
+import type {
+  CharacterAppearance,
+  CharacterReport,
+  CharacterStats,
+} from '../../types/character-stats';
+
+interface CharacterDraft {
+  name: string;
+  dialogueLines: number;
+  dialogueWords: number;
+  scenes: Set<number>;
+  first: CharacterAppearance;
+  last: CharacterAppearance;
+}
+
+export class CharacterAnalyticsService {
+  /**
+   * Count dialogue lines and words, scenes and appearances for every
+   * speaking character. Processor elements are used when given, otherwise
+   * they are detected from the content.
+   */
+  static analyze(
+    content: string,
+    elements?: ScreenplayElement[]
+  ): CharacterReport {
+    const source = elements ?? ScreenplayElementDetector.detect(content);
+    const drafts = new Map<string, CharacterDraft>();
+    const actions: Array<{ element: ScreenplayElement; scene: number | null }> =
+      [];
+
+    let scene: number | null = null;
+    let sceneCount = 0;
+    let speaker: CharacterDraft | null = null;
+
+    for (const element of source) {
+      switch (element.type) {
+        case 'scene_heading':
+          sceneCount++;
+          scene = sceneCount;
+          speaker = null;
+          break;
+        case 'character': {
+          const name = this.normalizeName(element.text);
+          if (name.length === 0) {
+            speaker = null;
+            break;
+          }
+
+          speaker = drafts.get(name) ?? this.createDraft(name, element, scene);
+          drafts.set(name, speaker);
+          this.recordAppearance(speaker, scene, element.start);
+          break;
+        }
+        case 'dialogue':
+          if (speaker) {
+            speaker.dialogueLines += this.countLines(element.text);
+            speaker.dialogueWords += this.countWords(element.text);
+          }
+          break;
+        case 'parenthetical':
+          // Parentheticals belong to the current speech
+          break;
+        case 'action':
+          actions.push({ element, scene });
+          speaker = null;
+          break;
+        default:
+          speaker = null;
+          break;
+      }
+    }
+
+    // Characters are also present in scenes where the action mentions them
+    for (const draft of drafts.values()) {
+      const pattern = this.mentionPattern(draft.name);
+      for (const { element, scene: actionScene } of actions) {
+        const text = content.slice(element.start, element.end);
+        for (const match of text.matchAll(pattern)) {
+          this.recordAppearance(
+            draft,
+            actionScene,
+            element.start + (match.index ?? 0)
+          );
+        }
+      }
+    }
+
+    const totalDialogueLines = Array.from(drafts.values()).reduce(
+      (sum, draft) => sum + draft.dialogueLines,
+      0
+    );
+    const totalDialogueWords = Array.from(drafts.values()).reduce(
+      (sum, draft) => sum + draft.dialogueWords,
+      0
+    );
+
+    const characters: CharacterStats[] = Array.from(drafts.values())
+      .map(draft => {
+        const scenes = Array.from(draft.scenes).sort((a, b) => a - b);
+        return {
+          name: draft.name,
+          dialogueLines: draft.dialogueLines,
+          dialogueWords: draft.dialogueWords,
+          sceneCount: scenes.length,
+          scenes,
+          firstAppearance: draft.first,
+          lastAppearance: draft.last,
+          dialogueShare:
+            totalDialogueWords > 0
+              ? draft.dialogueWords / totalDialogueWords
+              : 0,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.dialogueLines - a.dialogueLines ||
+          b.dialogueWords - a.dialogueWords ||
+          a.name.localeCompare(b.name)
+      );
+
+    return {
+      characters,
+      totalDialogueLines,
+      totalDialogueWords,
+      sceneCount,
+    };
+  }
+
+  /**
+   * Reduce a character cue such as "MAYA (V.O.)" or "ELI (CONT'D)^" to the
+   * character name
+   */
+  static normalizeName(cue: string): string {
+    return cue
+      .replace(/\s*\(.*?\)\s*/g, ' ')
+      .replace(/\^$/, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toUpperCase();
+  }
+
+  private static createDraft(
+    name: string,
+    element: ScreenplayElement,
+    scene: number | null
+  ): CharacterDraft {
+    const appearance = { sceneIndex: scene, offset: element.start };
+    return {
+      name,
+      dialogueLines: 0,
+      dialogueWords: 0,
+      scenes: new Set<number>(),
+      first: appearance,
+      last: appearance,
+    };
+  }
+
+  private static recordAppearance(
+    draft: CharacterDraft,
+    scene: number | null,
+    offset: number
+  ): void {
+    if (scene !== null) {
+      draft.scenes.add(scene);
+    }
+    if (offset < draft.first.offset) {
+      draft.first = { sceneIndex: scene, offset };
+    }
+    if (offset > draft.last.offset) {
+      draft.last = { sceneIndex: scene, offset };
+    }
+  }
+
+  private static mentionPattern(name: string): RegExp {
+    // Action lines introduce characters in capitals and later use the
+    // capitalized form (e.g. "MAYA" and "Maya")
+    const capitalized = name
+      .toLowerCase()
+      .replace(
+        /(^|[\s'-])([a-z])/g,
+        (_match, separator, letter) => `${separator}${letter.toUpperCase()}`
+      );
+    const alternatives = Array.from(new Set([name, capitalized])).map(form =>
+      form.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    );
+
+    return new RegExp(`(?<![\\w])(?:${alternatives.join('|')})(?![\\w])`, 'g');
+  }
+
+  private static countLines(text: string): number {
+    return text.split('\n').filter(line => line.trim().length > 0).length;
+  }
+
+  private static countWords(text: string): number {
+    const trimmed = text.trim();
+    return trimmed.length === 0 ? 0 : trimmed.split(/\s+/).length;
+  }
+}
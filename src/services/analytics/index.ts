@@ -0,0 +1 @@
+export { CharacterAnalyticsService } from './character-analytics';
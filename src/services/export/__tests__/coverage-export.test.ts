@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CoverageExportService } from '../coverage-export';
+import type { CoverageReport } from '../../../types';
+
+const mockReport: CoverageReport = {
+  id: 'coverage-1',
+  scriptId: 'script-1',
+  logline: 'A retired safecracker must pull one last job to save her brother.',
+  synopsis: 'MAYA is pulled back into the game by her brother NICK.',
+  comments: 'A lean, well-paced thriller with a predictable third act.',
+  ratings: {
+    premise: 'good',
+    structure: 'fair',
+    characters: 'excellent',
+    dialogue: 'good',
+    marketability: 'poor',
+  },
+  verdict: 'consider',
+  genre: 'Crime Thriller',
+  comparables: ['Heat', 'Widows'],
+  modelUsed: 'llama3.1:8b',
+  createdAt: new Date('2024-01-15T10:30:00Z'),
+};
+
+describe('CoverageExportService', () => {
+  let exportService: CoverageExportService;
+
+  beforeEach(() => {
+    exportService = new CoverageExportService();
+  });
+
+  it('exports the report in the coverage template', () => {
+    const result = exportService.exportCoverage(mockReport, 'The Last Job');
+    const lines = result.split('\n');
+
+    expect(lines[0]).toBe('SCRIPT COVERAGE');
+    expect(result).toContain('Title: The Last Job');
+    expect(result).toContain('Genre: Crime Thriller');
+    expect(result).toContain('Comparables: Heat; Widows');
+    expect(result).toContain('Model: llama3.1:8b');
+
+    // Sections appear in the template's order
+    const headings = ['LOGLINE', 'SYNOPSIS', 'COMMENTS', 'RATINGS', 'VERDICT'];
+    const positions = headings.map(heading => lines.indexOf(heading));
+    expect(positions.every(position => position > 0)).toBe(true);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+
+    expect(lines[lines.indexOf('LOGLINE') + 2]).toBe(mockReport.logline);
+  });
+
+  it('marks each rating in the grid', () => {
+    const lines = exportService.exportCoverage(mockReport).split('\n');
+    const header = lines[lines.indexOf('RATINGS') + 2];
+    const column = (label: string) => header.indexOf(label);
+
+    const row = (label: string) => lines.find(line => line.startsWith(label))!;
+    expect(row('Premise').indexOf('X')).toBe(column('Good'));
+    expect(row('Structure').indexOf('X')).toBe(column('Fair'));
+    expect(row('Characters').indexOf('X')).toBe(column('Excellent'));
+    expect(row('Marketability').indexOf('X')).toBe(column('Poor'));
+  });
+
+  it('checks the verdict', () => {
+    const result = exportService.exportCoverage(mockReport);
+
+    expect(result).toContain('[ ] PASS   [X] CONSIDER   [ ] RECOMMEND');
+  });
+
+  it('falls back to the script ID without a title', () => {
+    const result = exportService.exportCoverage({
+      ...mockReport,
+      genre: undefined,
+      comparables: undefined,
+    });
+
+    expect(result).toContain('Title: script-1');
+    expect(result).not.toContain('Genre:');
+    expect(result).not.toContain('Comparables:');
+  });
+
+  it('suggests a text filename based on the title', () => {
+    expect(
+      exportService.getSuggestedFilename(mockReport, 'The Last Job')
+    ).toMatch(/^The_Last_Job_coverage_\d{4}-\d{2}-\d{2}\.txt$/);
+  });
+});
@@ -0,0 +1,115 @@
+import type {
+  CoverageCategory,
+  CoverageRating,
+  CoverageReport,
+  CoverageVerdict,
+} from '../../types/coverage';
+
+export const COVERAGE_CATEGORY_LABELS: Record<CoverageCategory, string> = {
+  premise: 'Premise',
+  structure: 'Structure',
+  characters: 'Characters',
+  dialogue: 'Dialogue',
+  marketability: 'Marketability',
+};
+
+export const COVERAGE_RATING_LABELS: Record<CoverageRating, string> = {
+  excellent: 'Excellent',
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+};
+
+export const COVERAGE_VERDICT_LABELS: Record<CoverageVerdict, string> = {
+  pass: 'PASS',
+  consider: 'CONSIDER',
+  recommend: 'RECOMMEND',
+};
+
+// Column widths of the ratings grid
+const CATEGORY_COLUMN_WIDTH = 16;
+const RATING_COLUMN_WIDTH = 11;
+
+export class CoverageExportService {
+  /**
+   * Format a coverage report in the coverage template: header, logline,
+   * synopsis, comments, ratings grid and verdict
+   */
+  exportCoverage(report: CoverageReport, title?: string): string {
+    const sections: string[] = [];
+
+    // Header
+    sections.push('SCRIPT COVERAGE');
+    sections.push('='.repeat(50));
+    sections.push(`Title: ${title || report.scriptId}`);
+    if (report.genre) sections.push(`Genre: ${report.genre}`);
+    if (report.comparables && report.comparables.length > 0)
+      sections.push(`Comparables: ${report.comparables.join('; ')}`);
+    sections.push(`Date: ${report.createdAt.toLocaleDateString()}`);
+    sections.push(`Model: ${report.modelUsed}`);
+    sections.push('');
+
+    sections.push(...this.formatSection('LOGLINE', report.logline));
+    sections.push(...this.formatSection('SYNOPSIS', report.synopsis));
+    sections.push(...this.formatSection('COMMENTS', report.comments));
+
+    // Ratings grid with an X under each category's rating
+    const ratings = Object.keys(COVERAGE_RATING_LABELS) as CoverageRating[];
+    sections.push('RATINGS');
+    sections.push('-'.repeat(20));
+    sections.push(
+      [
+        ''.padEnd(CATEGORY_COLUMN_WIDTH),
+        ...ratings.map(rating =>
+          COVERAGE_RATING_LABELS[rating].padEnd(RATING_COLUMN_WIDTH)
+        ),
+      ]
+        .join('')
+        .trimEnd()
+    );
+    (Object.keys(COVERAGE_CATEGORY_LABELS) as CoverageCategory[]).forEach(
+      category => {
+        sections.push(
+          [
+            COVERAGE_CATEGORY_LABELS[category].padEnd(CATEGORY_COLUMN_WIDTH),
+            ...ratings.map(rating =>
+              (report.ratings[category] === rating ? 'X' : '').padEnd(
+                RATING_COLUMN_WIDTH
+              )
+            ),
+          ]
+            .join('')
+            .trimEnd()
+        );
+      }
+    );
+    sections.push('');
+
+    // Verdict
+    sections.push('VERDICT');
+    sections.push('-'.repeat(20));
+    sections.push(
+      (Object.keys(COVERAGE_VERDICT_LABELS) as CoverageVerdict[])
+        .map(
+          verdict =>
+            `[${report.verdict === verdict ? 'X' : ' '}] ${COVERAGE_VERDICT_LABELS[verdict]}`
+        )
+        .join('   ')
+    );
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Get suggested filename for export
+   */
+  getSuggestedFilename(report: CoverageReport, title?: string): string {
+    const baseTitle = (title || report.scriptId).replace(/[^a-zA-Z0-9]/g, '_');
+    const timestamp = new Date().toISOString().split('T')[0];
+    return `${baseTitle}_coverage_${timestamp}.txt`;
+  }
+
+  private formatSection(heading: string, content: string): string[] {
+    return [heading, '-'.repeat(20), content, ''];
+  }
+}
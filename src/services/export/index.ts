@@ -1,2 +1,8 @@
 export { SummaryExportService } from './summary-export';
 export type { ExportOptions, ExportProgress } from './summary-export';
+export {
+  CoverageExportService,
+  COVERAGE_CATEGORY_LABELS,
+  COVERAGE_RATING_LABELS,
+  COVERAGE_VERDICT_LABELS,
+} from './coverage-export';
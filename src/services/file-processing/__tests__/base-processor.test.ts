@@ -276,6 +276,49 @@ describe('BaseFileProcessor', () => {
     });
   });
 
+  describe('reportProgress', () => {
+    it('should report the start of a step', () => {
+      const onProgress = vi.fn();
+
+      processor['reportProgress'](onProgress, 'parsing');
+
+      expect(onProgress).toHaveBeenCalledWith({
+        currentStep: 'parsing',
+        progress: 25,
+        message: 'Parsing document',
+        cancellable: true,
+      });
+    });
+
+    it('should scale progress within a step', () => {
+      const onProgress = vi.fn();
+
+      processor['reportProgress'](
+        onProgress,
+        'recognizing_text',
+        0.5,
+        'Recognizing text on page 2 of 4'
+      );
+
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({
+          progress: 60,
+          message: 'Recognizing text on page 2 of 4',
+        })
+      );
+    });
+
+    it('should not allow cancelling a finished step', () => {
+      const onProgress = vi.fn();
+
+      processor['reportProgress'](onProgress, 'complete');
+
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({ progress: 100, cancellable: false })
+      );
+    });
+  });
+
   describe('validateFileContent', () => {
     it('should warn about low text content', async () => {
       const warnings = await processor['validateFileContent']('Short');
@@ -0,0 +1,320 @@
+/**
+ * Unit tests for FDX processor
+ * Requirements: 2.1, 2.2
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FdxProcessor } from '../fdx-processor';
+
+const buildFdx = (
+  body: string,
+  titlePage = ''
+): string => `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+${body}
+  </Content>
+${titlePage}
+</FinalDraft>`;
+
+const SAMPLE_BODY = `
+    <Paragraph Type="Scene Heading">
+      <SceneProperties Length="1" Page="1" Title=""/>
+      <Text>int. lighthouse - night</Text>
+    </Paragraph>
+    <Paragraph Type="Action">
+      <Text>Rain hammers the glass. MAYA (30s) climbs the spiral stairs.</Text>
+    </Paragraph>
+    <Paragraph Type="Character">
+      <Text>Maya</Text>
+    </Paragraph>
+    <Paragraph Type="Parenthetical">
+      <Text>(whispering)</Text>
+    </Paragraph>
+    <Paragraph Type="Dialogue">
+      <Text Style="Bold">Is anyone </Text><Text>up here?</Text>
+    </Paragraph>
+    <Paragraph Type="Transition">
+      <Text>cut to:</Text>
+    </Paragraph>`;
+
+const SAMPLE_TITLE_PAGE = `
+  <TitlePage>
+    <Content>
+      <Paragraph Alignment="Center" Type="Title"><Text>THE KEEPER</Text></Paragraph>
+      <Paragraph Alignment="Center" Type="General"><Text>Written by</Text></Paragraph>
+      <Paragraph Alignment="Center" Type="General"><Text>Jordan Reyes</Text></Paragraph>
+    </Content>
+  </TitlePage>`;
+
+describe('FdxProcessor', () => {
+  let processor: FdxProcessor;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    processor = new FdxProcessor();
+    tempDir = await fs.mkdtemp(path.join(__dirname, 'temp-fdx-'));
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('constructor', () => {
+    it('should initialize with correct extensions', () => {
+      expect(processor.getSupportedExtensions()).toEqual(['.fdx']);
+      expect(processor.isSupported('.fdx')).toBe(true);
+      expect(processor.isSupported('fdx')).toBe(true);
+      expect(processor.isSupported('.txt')).toBe(false);
+    });
+  });
+
+  describe('parseFile', () => {
+    it('should parse paragraphs and keep their types', async () => {
+      const testFile = path.join(tempDir, 'keeper.fdx');
+      await fs.writeFile(testFile, buildFdx(SAMPLE_BODY, SAMPLE_TITLE_PAGE));
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.metadata.additionalMetadata?.paragraphs).toEqual([
+        { type: 'Scene Heading', text: 'int. lighthouse - night' },
+        {
+          type: 'Action',
+          text: 'Rain hammers the glass. MAYA (30s) climbs the spiral stairs.',
+        },
+        { type: 'Character', text: 'Maya' },
+        { type: 'Parenthetical', text: '(whispering)' },
+        { type: 'Dialogue', text: 'Is anyone up here?' },
+        { type: 'Transition', text: 'cut to:' },
+      ]);
+      expect(result.metadata.additionalMetadata).toMatchObject({
+        fdxVersion: '5',
+        sceneCount: 1,
+        paragraphTypeCounts: {
+          'Scene Heading': 1,
+          Action: 1,
+          Character: 1,
+          Parenthetical: 1,
+          Dialogue: 1,
+          Transition: 1,
+        },
+      });
+    });
+
+    it('should render screenplay text with speech blocks together', async () => {
+      const testFile = path.join(tempDir, 'keeper.fdx');
+      await fs.writeFile(testFile, buildFdx(SAMPLE_BODY, SAMPLE_TITLE_PAGE));
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.content).toBe(
+        [
+          'INT. LIGHTHOUSE - NIGHT',
+          'Rain hammers the glass. MAYA (30s) climbs the spiral stairs.',
+          'MAYA\n(whispering)\nIs anyone up here?',
+          'CUT TO:',
+        ].join('\n\n')
+      );
+      expect(result.content).not.toContain('THE KEEPER');
+    });
+
+    it('should expose paragraphs as screenplay elements', async () => {
+      const testFile = path.join(tempDir, 'keeper.fdx');
+      await fs.writeFile(testFile, buildFdx(SAMPLE_BODY, SAMPLE_TITLE_PAGE));
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.elements?.map(element => element.type)).toEqual([
+        'scene_heading',
+        'action',
+        'character',
+        'parenthetical',
+        'dialogue',
+        'transition',
+      ]);
+      result.elements?.forEach(element => {
+        expect(result.content.slice(element.start, element.end)).toBe(
+          element.text
+        );
+      });
+      expect(result.elements?.[0].text).toBe('INT. LIGHTHOUSE - NIGHT');
+    });
+
+    it('should fill title and author from the title page', async () => {
+      const testFile = path.join(tempDir, 'draft-v3.fdx');
+      await fs.writeFile(testFile, buildFdx(SAMPLE_BODY, SAMPLE_TITLE_PAGE));
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.title).toBe('THE KEEPER');
+      expect(result.metadata.title).toBe('THE KEEPER');
+      expect(result.metadata.author).toBe('Jordan Reyes');
+      expect(result.metadata.additionalMetadata?.titlePage).toEqual([
+        'THE KEEPER',
+        'Written by',
+        'Jordan Reyes',
+      ]);
+      expect(result.warnings).toBeUndefined();
+    });
+
+    it('should read an author sharing the byline', async () => {
+      const testFile = path.join(tempDir, 'byline.fdx');
+      const titlePage = `
+  <TitlePage>
+    <Content>
+      <Paragraph><Text>Night Shift</Text></Paragraph>
+      <Paragraph><Text>by Sam Okafor</Text></Paragraph>
+    </Content>
+  </TitlePage>`;
+      await fs.writeFile(testFile, buildFdx(SAMPLE_BODY, titlePage));
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.title).toBe('Night Shift');
+      expect(result.metadata.author).toBe('Sam Okafor');
+    });
+
+    it('should fall back to the file name without a title page', async () => {
+      const testFile = path.join(tempDir, 'untitled.fdx');
+      await fs.writeFile(testFile, buildFdx(SAMPLE_BODY));
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.title).toBe('untitled');
+      expect(result.metadata.author).toBeUndefined();
+      expect(result.warnings).toContain(
+        'FDX title page has no title - using fallback title'
+      );
+    });
+
+    it('should decode XML entities', async () => {
+      const testFile = path.join(tempDir, 'entities.fdx');
+      const body = `
+    <Paragraph Type="Action">
+      <Text>Tom &amp; Jerry say &quot;hi&quot; &lt;loudly&gt; &#8212; it&apos;s late.</Text>
+    </Paragraph>`;
+      await fs.writeFile(testFile, buildFdx(body));
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.content).toBe(
+        'Tom & Jerry say "hi" <loudly> — it\'s late.'
+      );
+    });
+
+    it('should list SmartType characters', async () => {
+      const testFile = path.join(tempDir, 'smarttype.fdx');
+      const xml = buildFdx(SAMPLE_BODY).replace(
+        '</FinalDraft>',
+        `  <SmartType>
+    <Characters>
+      <Character>MAYA</Character>
+      <Character>ELI</Character>
+    </Characters>
+  </SmartType>
+</FinalDraft>`
+      );
+      await fs.writeFile(testFile, xml);
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.metadata.additionalMetadata?.smartTypeCharacters).toEqual([
+        'MAYA',
+        'ELI',
+      ]);
+    });
+
+    it('should map unknown paragraph types to General', async () => {
+      const testFile = path.join(tempDir, 'custom.fdx');
+      const body = `
+    <Paragraph Type="Lyrics"><Text>La la la</Text></Paragraph>
+    <Paragraph Type="Action"><Text/></Paragraph>`;
+      await fs.writeFile(testFile, buildFdx(body));
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.metadata.additionalMetadata?.paragraphs).toEqual([
+        { type: 'General', text: 'La la la' },
+      ]);
+      expect(result.confidence).toBeLessThan(0.5);
+    });
+
+    it('should warn when the document has no paragraphs', async () => {
+      const testFile = path.join(tempDir, 'empty.fdx');
+      await fs.writeFile(testFile, buildFdx(''));
+
+      const result = await processor.parseFile(testFile, 'fdx');
+
+      expect(result.content).toBe('');
+      expect(result.warnings).toContain(
+        'No screenplay paragraphs found in FDX document'
+      );
+      expect(result.confidence).toBe(0.1);
+    });
+
+    it('should throw error for invalid files', async () => {
+      const testFile = path.join(tempDir, 'invalid.fdx');
+      await fs.writeFile(testFile, '<html><body>Not a script</body></html>');
+
+      await expect(processor.parseFile(testFile, 'fdx')).rejects.toThrow(
+        'Failed to parse FDX file: FDX validation failed'
+      );
+    });
+  });
+
+  describe('validateFile', () => {
+    it('should validate a correct FDX file', async () => {
+      const testFile = path.join(tempDir, 'valid.fdx');
+      await fs.writeFile(testFile, buildFdx(SAMPLE_BODY));
+
+      const result = await processor.validateFile(testFile);
+
+      expect(result.isValid).toBe(true);
+      expect(result.detectedFileType).toBe('fdx');
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should accept files with a BOM and no XML declaration', async () => {
+      const testFile = path.join(tempDir, 'bom.fdx');
+      await fs.writeFile(
+        testFile,
+        '\uFEFF<FinalDraft Version="4"><Content></Content></FinalDraft>'
+      );
+
+      const result = await processor.validateFile(testFile);
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject XML without a FinalDraft root', async () => {
+      const testFile = path.join(tempDir, 'other.fdx');
+      await fs.writeFile(
+        testFile,
+        '<?xml version="1.0"?><Document><Content/></Document>'
+      );
+
+      const result = await processor.validateFile(testFile);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].code).toBe('CORRUPTED_FILE');
+      expect(result.errors[0].message).toBe(
+        'File does not appear to be a valid Final Draft document'
+      );
+    });
+
+    it('should reject missing files', async () => {
+      const result = await processor.validateFile(
+        path.join(tempDir, 'missing.fdx')
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].code).toBe('FILE_NOT_FOUND');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for Fountain parser
+ * Requirements: 2.1, 2.2
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FountainParser } from '../fountain-parser';
+
+const types = (source: string) =>
+  FountainParser.parse(source).tokens.map(token => token.type);
+
+describe('FountainParser', () => {
+  describe('title page', () => {
+    it('should read keys and indented multi-line values', () => {
+      const document = FountainParser.parse(
+        'Title:\n    _Night_\n    Shift\nAuthors: Sam Okafor\n\nINT. DINER - NIGHT\n'
+      );
+
+      expect(document.titlePage).toEqual({
+        title: 'Night\nShift',
+        authors: 'Sam Okafor',
+      });
+      expect(document.tokens[0]).toMatchObject({
+        type: 'scene_heading',
+        text: 'INT. DINER - NIGHT',
+      });
+    });
+
+    it('should treat a document without keys as body only', () => {
+      const document = FountainParser.parse('EXT. ROOF - DAY\n');
+
+      expect(document.titlePage).toEqual({});
+      expect(document.tokens).toHaveLength(1);
+    });
+  });
+
+  describe('scene headings', () => {
+    it('should recognize standard and forced headings with numbers', () => {
+      const tokens = FountainParser.parse(
+        'int. hall - day #12A#\n\n.FLASHBACK\n\nEST. CITY\n'
+      ).tokens;
+
+      expect(tokens).toEqual([
+        { type: 'scene_heading', text: 'INT. HALL - DAY', sceneNumber: '12A' },
+        { type: 'scene_heading', text: 'FLASHBACK', sceneNumber: undefined },
+        { type: 'scene_heading', text: 'EST. CITY', sceneNumber: undefined },
+      ]);
+    });
+
+    it('should not treat an ellipsis as a forced heading', () => {
+      expect(types('...and then silence.\n')).toEqual(['action']);
+    });
+  });
+
+  describe('dialogue', () => {
+    it('should parse cues with extensions, parentheticals and dialogue', () => {
+      expect(types("MAYA (V.O.)\n(quietly)\nYou're late.\n")).toEqual([
+        'character',
+        'parenthetical',
+        'dialogue',
+      ]);
+    });
+
+    it('should force character cues with @', () => {
+      const tokens = FountainParser.parse('@McCLANE\nYippee ki-yay.\n').tokens;
+
+      expect(tokens[0]).toEqual({ type: 'character', text: 'McCLANE' });
+    });
+
+    it('should keep dialogue open across a two-space line', () => {
+      expect(types('ELI\nFirst verse.\n  \nSecond verse.\n')).toEqual([
+        'character',
+        'dialogue',
+        'dialogue',
+        'dialogue',
+      ]);
+    });
+
+    it('should pair dual dialogue cues', () => {
+      const tokens = FountainParser.parse(
+        'BRICK\nScrew retirement.\n\nSTEEL ^\nScrew retirement.\n'
+      ).tokens;
+
+      expect(tokens[0]).toMatchObject({ text: 'BRICK', dual: 'left' });
+      expect(tokens[2]).toMatchObject({ text: 'STEEL', dual: 'right' });
+    });
+
+    it('should treat an upper-case line followed by a blank as action', () => {
+      expect(types('BOOM!\n\nThe wall collapses.\n')).toEqual([
+        'action',
+        'action',
+      ]);
+    });
+  });
+
+  describe('other elements', () => {
+    it('should recognize transitions, centered text and lyrics', () => {
+      const tokens = FountainParser.parse(
+        'SMASH CUT TO:\n\n> fade out.\n\n> THE END <\n\n~Row, row, row\n'
+      ).tokens;
+
+      expect(tokens).toEqual([
+        { type: 'transition', text: 'SMASH CUT TO:' },
+        { type: 'transition', text: 'FADE OUT.' },
+        { type: 'centered', text: 'THE END' },
+        { type: 'lyrics', text: 'Row, row, row' },
+      ]);
+    });
+
+    it('should parse sections, synopses and page breaks', () => {
+      const tokens = FountainParser.parse(
+        '# Act One\n\n## Opening\n\n= The keeper arrives.\n\n===\n'
+      ).tokens;
+
+      expect(tokens).toEqual([
+        { type: 'section', text: 'Act One', depth: 1 },
+        { type: 'section', text: 'Opening', depth: 2 },
+        { type: 'synopsis', text: 'The keeper arrives.' },
+        { type: 'page_break', text: '' },
+      ]);
+    });
+
+    it('should force action with ! and strip emphasis markup', () => {
+      const tokens = FountainParser.parse(
+        '!SCANNING THE ROOM\nShe sees **nothing** \\*at all\\*.\n'
+      ).tokens;
+
+      expect(tokens).toEqual([
+        {
+          type: 'action',
+          text: 'SCANNING THE ROOM\nShe sees nothing *at all*.',
+        },
+      ]);
+    });
+  });
+
+  describe('comments', () => {
+    it('should collect notes and boneyard and drop emptied lines', () => {
+      const document = FountainParser.parse(
+        'INT. HALL - DAY\n\n[[check location]]\n\nShe waits. /* too slow */\n\n/*\nOld scene\n*/\n'
+      );
+
+      expect(document.notes).toEqual(['check location']);
+      expect(document.boneyard).toEqual(['too slow', 'Old scene']);
+      expect(FountainParser.render(document.tokens)).toBe(
+        'INT. HALL - DAY\n\nShe waits.'
+      );
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit tests for Fountain processor
+ * Requirements: 2.1, 2.2
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FountainProcessor } from '../fountain-processor';
+
+const SAMPLE_FOUNTAIN = `Title: **THE KEEPER**
+Credit: Written by
+Author: Jordan Reyes
+Draft date: 1/2/2026
+
+# ACT ONE
+
+= Maya reaches the lighthouse.
+
+INT. LIGHTHOUSE - NIGHT #1#
+
+Rain hammers the glass. [[Add thunder here]]
+MAYA (30s) climbs the spiral stairs.
+
+/* Cut this scene?
+MAYA
+Hello?
+*/
+
+MAYA
+(whispering)
+Is anyone up here?
+
+CUT TO:
+`;
+
+describe('FountainProcessor', () => {
+  let processor: FountainProcessor;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    processor = new FountainProcessor();
+    tempDir = await fs.mkdtemp(path.join(__dirname, 'temp-fountain-'));
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('constructor', () => {
+    it('should initialize with correct extensions', () => {
+      expect(processor.getSupportedExtensions()).toEqual(['.fountain']);
+      expect(processor.isSupported('.fountain')).toBe(true);
+      expect(processor.isSupported('fountain')).toBe(true);
+      expect(processor.isSupported('.txt')).toBe(false);
+    });
+  });
+
+  describe('parseFile', () => {
+    it('should render screenplay text without notes or boneyard', async () => {
+      const testFile = path.join(tempDir, 'keeper.fountain');
+      await fs.writeFile(testFile, SAMPLE_FOUNTAIN);
+
+      const result = await processor.parseFile(testFile, 'fountain');
+
+      expect(result.content).toBe(
+        [
+          'INT. LIGHTHOUSE - NIGHT',
+          'Rain hammers the glass.\nMAYA (30s) climbs the spiral stairs.',
+          'MAYA\n(whispering)\nIs anyone up here?',
+          'CUT TO:',
+        ].join('\n\n')
+      );
+      expect(result.content).not.toContain('thunder');
+      expect(result.content).not.toContain('Hello?');
+      expect(result.content).not.toContain('ACT ONE');
+    });
+
+    it('should report progress for each processing step', async () => {
+      const testFile = path.join(tempDir, 'keeper.fountain');
+      await fs.writeFile(testFile, SAMPLE_FOUNTAIN);
+      const onProgress = vi.fn();
+
+      await processor.parseFile(testFile, 'fountain', onProgress);
+
+      expect(
+        onProgress.mock.calls.map(([progress]) => progress.currentStep)
+      ).toEqual([
+        'validating',
+        'reading',
+        'parsing',
+        'extracting_metadata',
+        'validating_content',
+      ]);
+    });
+
+    it('should expose rendered tokens as screenplay elements', async () => {
+      const testFile = path.join(tempDir, 'keeper.fountain');
+      await fs.writeFile(testFile, SAMPLE_FOUNTAIN);
+
+      const result = await processor.parseFile(testFile, 'fountain');
+
+      expect(result.elements?.map(element => element.type)).toEqual([
+        'scene_heading',
+        'action',
+        'character',
+        'parenthetical',
+        'dialogue',
+        'transition',
+      ]);
+      result.elements?.forEach(element => {
+        expect(result.content.slice(element.start, element.end)).toBe(
+          element.text
+        );
+      });
+    });
+
+    it('should fill title and author from the title page', async () => {
+      const testFile = path.join(tempDir, 'draft-v3.fountain');
+      await fs.writeFile(testFile, SAMPLE_FOUNTAIN);
+
+      const result = await processor.parseFile(testFile, 'fountain');
+
+      expect(result.title).toBe('THE KEEPER');
+      expect(result.metadata.title).toBe('THE KEEPER');
+      expect(result.metadata.author).toBe('Jordan Reyes');
+      expect(result.warnings).toBeUndefined();
+    });
+
+    it('should expose structure in additional metadata', async () => {
+      const testFile = path.join(tempDir, 'keeper.fountain');
+      await fs.writeFile(testFile, SAMPLE_FOUNTAIN);
+
+      const result = await processor.parseFile(testFile, 'fountain');
+
+      expect(result.metadata.additionalMetadata).toMatchObject({
+        titlePage: {
+          title: 'THE KEEPER',
+          credit: 'Written by',
+          author: 'Jordan Reyes',
+          'draft date': '1/2/2026',
+        },
+        sceneCount: 1,
+        sections: [{ text: 'ACT ONE', depth: 1 }],
+        synopses: ['Maya reaches the lighthouse.'],
+        noteCount: 1,
+        boneyardCount: 1,
+        hasDualDialogue: false,
+      });
+    });
+
+    it('should fall back to the file name without a title page', async () => {
+      const testFile = path.join(tempDir, 'untitled.fountain');
+      await fs.writeFile(
+        testFile,
+        'EXT. BEACH - DAY\n\nWaves roll in.\n\nELI\nWe made it.\n'
+      );
+
+      const result = await processor.parseFile(testFile, 'fountain');
+
+      expect(result.title).toBe('untitled');
+      expect(result.metadata.author).toBeUndefined();
+      expect(result.warnings).toContain(
+        'Fountain title page has no title - using fallback title'
+      );
+    });
+
+    it('should flag dual dialogue', async () => {
+      const testFile = path.join(tempDir, 'dual.fountain');
+      await fs.writeFile(
+        testFile,
+        'INT. KITCHEN - DAY\n\nBRICK\nScrew retirement.\n\nSTEEL ^\nScrew retirement.\n'
+      );
+
+      const result = await processor.parseFile(testFile, 'fountain');
+
+      expect(result.metadata.additionalMetadata?.hasDualDialogue).toBe(true);
+    });
+
+    it('should warn when there are no scene headings', async () => {
+      const testFile = path.join(tempDir, 'notes.fountain');
+      await fs.writeFile(testFile, 'Just some notes about the story.\n');
+
+      const result = await processor.parseFile(testFile, 'fountain');
+
+      expect(result.warnings).toContain(
+        'No scene headings found in Fountain document'
+      );
+      expect(result.confidence).toBeLessThan(0.5);
+    });
+
+    it('should throw error for missing files', async () => {
+      await expect(
+        processor.parseFile(path.join(tempDir, 'missing.fountain'), 'fountain')
+      ).rejects.toThrow(
+        'Failed to parse Fountain file: Fountain validation failed'
+      );
+    });
+  });
+});
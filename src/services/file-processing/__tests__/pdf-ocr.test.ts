@@ -0,0 +1,340 @@
+/**
+ * Unit tests for the scanned PDF OCR fallback
+ * Requirements: 2.1, 2.2
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as zlib from 'zlib';
+
+// Mock tesseract.js before importing
+vi.mock('tesseract.js', () => ({
+  createWorker: vi.fn(),
+}));
+
+import { PdfOcrService, PdfPageImage, toUnpackedPath } from '../pdf-ocr';
+
+const { createWorker } = await import('tesseract.js');
+const mockCreateWorker = vi.mocked(createWorker);
+
+const imageObject = (id: number, dictionary: string, data: string): string =>
+  `${id} 0 obj\n<< ${dictionary} >>\nstream\n${data}\nendstream\nendobj\n`;
+
+const object = (id: number, dictionary: string): string =>
+  `${id} 0 obj\n<< ${dictionary} >>\nendobj\n`;
+
+// Flate-compressed image stream, as latin1 text
+const flateImage = (
+  id: number,
+  dictionary: string,
+  samples: Buffer
+): string => {
+  const data = zlib.deflateSync(samples).toString('latin1');
+  return imageObject(
+    id,
+    `/Subtype /Image /Filter /FlateDecode /Length ${data.length} ${dictionary}`,
+    data
+  );
+};
+
+describe('PdfOcrService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('needsOcr', () => {
+    it('should compare text density with the page count', () => {
+      expect(PdfOcrService.needsOcr('', 3)).toBe(true);
+      expect(PdfOcrService.needsOcr('x'.repeat(250), 3)).toBe(true);
+      expect(PdfOcrService.needsOcr('x'.repeat(350), 3)).toBe(false);
+      expect(PdfOcrService.needsOcr('x'.repeat(50), 0, 40)).toBe(false);
+    });
+  });
+
+  describe('extractPageImages', () => {
+    it('should return full-page images in document order', () => {
+      const pdf = Buffer.from(
+        [
+          '%PDF-1.4',
+          imageObject(
+            4,
+            '/Type /XObject /Subtype /Image /Width 1700 /Height 2200 /Filter /DCTDecode /Length 6',
+            'PAGE-1'
+          ),
+          imageObject(
+            5,
+            '/Subtype /Image /Width 80 /Height 40 /Filter /DCTDecode /Length 4',
+            'LOGO'
+          ),
+          imageObject(
+            6,
+            '/Subtype /Image /Width 1700 /Height 2200 /Filter /FlateDecode /Length 4',
+            'FLAT'
+          ),
+          imageObject(
+            7,
+            '/Subtype /Image /Width 1700 /Height 2200 /Filter [/DCTDecode] /Length 12 0 R',
+            'PAGE-2'
+          ),
+          '%%EOF',
+        ].join('\n'),
+        'latin1'
+      );
+
+      const { images, unsupportedEncodings } =
+        PdfOcrService.extractPageImages(pdf);
+
+      expect(images).toHaveLength(2);
+      expect(images.map(image => image.data.toString('latin1'))).toEqual([
+        'PAGE-1',
+        'PAGE-2',
+      ]);
+      expect(images[0]).toMatchObject({
+        pageNumber: 1,
+        width: 1700,
+        height: 2200,
+      });
+      expect(images[1].pageNumber).toBe(2);
+      // The Flate image holds invalid data
+      expect(unsupportedEncodings).toEqual(['FlateDecode']);
+    });
+
+    it('should keep binary image data intact', () => {
+      const data = String.fromCharCode(0xff, 0xd8, 0x0a, 0x00, 0xff, 0xd9);
+      const pdf = Buffer.from(
+        imageObject(
+          1,
+          '/Subtype /Image /Width 600 /Height 800 /Filter /DCTDecode /Length 6',
+          data
+        ),
+        'latin1'
+      );
+
+      const [image] = PdfOcrService.extractPageImages(pdf).images;
+
+      expect([...image.data]).toEqual([0xff, 0xd8, 0x0a, 0x00, 0xff, 0xd9]);
+    });
+
+    it('should return no images for text PDFs', () => {
+      const pdf = Buffer.from(
+        `%PDF-1.4\n${imageObject(1, '/Length 20', 'BT (Hello) Tj ET')}`,
+        'latin1'
+      );
+
+      expect(PdfOcrService.extractPageImages(pdf)).toEqual({
+        images: [],
+        unsupportedEncodings: [],
+      });
+    });
+
+    it('should convert Flate-compressed bitmaps to PNM images', () => {
+      // One-bit scan: PDF paints 0 black, PBM marks black with 1
+      const bitmap = Buffer.alloc(38 * 300, 0xf0);
+      // Grayscale scan with the PNG "up" predictor on each row
+      const gray = Buffer.alloc(301 * 300);
+      for (let row = 0; row < 300; row++) {
+        gray[row * 301] = 2;
+        if (row === 0) gray.fill(0x40, 1, 301);
+      }
+      const pdf = Buffer.from(
+        [
+          '%PDF-1.4',
+          flateImage(
+            1,
+            '/Width 300 /Height 300 /ColorSpace /DeviceGray /BitsPerComponent 1',
+            bitmap
+          ),
+          flateImage(
+            2,
+            '/Width 300 /Height 300 /ColorSpace 9 0 R /BitsPerComponent 8 /DecodeParms << /Predictor 15 /Columns 300 >>',
+            gray
+          ),
+        ].join('\n'),
+        'latin1'
+      );
+
+      const { images } = PdfOcrService.extractPageImages(pdf);
+
+      expect(images).toHaveLength(2);
+      const pbm = images[0].data;
+      expect(pbm.subarray(0, 11).toString('latin1')).toBe('P4\n300 300\n');
+      expect(pbm.length).toBe(11 + 38 * 300);
+      expect(pbm[11]).toBe(0x0f);
+      const pgm = images[1].data;
+      expect(pgm.subarray(0, 15).toString('latin1')).toBe('P5\n300 300\n255\n');
+      expect(pgm.length).toBe(15 + 300 * 300);
+      expect(pgm.subarray(15).every(value => value === 0x40)).toBe(true);
+    });
+
+    it('should report page images in encodings it cannot read', () => {
+      const pdf = Buffer.from(
+        [
+          '%PDF-1.4',
+          imageObject(
+            1,
+            '/Subtype /Image /Width 2550 /Height 3300 /ImageMask true /Filter /CCITTFaxDecode /Length 4',
+            'FAX1'
+          ),
+          imageObject(
+            2,
+            '/Subtype /Image /Width 2550 /Height 3300 /Filter [/JBIG2Decode] /Length 4',
+            'JBIG'
+          ),
+        ].join('\n'),
+        'latin1'
+      );
+
+      expect(PdfOcrService.extractPageImages(pdf)).toEqual({
+        images: [],
+        unsupportedEncodings: ['CCITTFaxDecode', 'JBIG2Decode'],
+      });
+    });
+
+    it('should place images on the pages that draw them', () => {
+      const jpeg = (id: number, data: string) =>
+        imageObject(
+          id,
+          `/Subtype /Image /Width 1700 /Height 1100 /Filter /DCTDecode /Length ${data.length}`,
+          data
+        );
+      const pdf = Buffer.from(
+        [
+          '%PDF-1.4',
+          object(1, '/Type /Catalog /Pages 2 0 R'),
+          object(2, '/Type /Pages /Kids [3 0 R 4 0 R] /Count 2'),
+          // The first page is split into two images and links to page 2
+          object(
+            3,
+            '/Type /Page /Parent 2 0 R /Resources 5 0 R /Annots [<< /Dest [4 0 R /Fit] >>]'
+          ),
+          object(
+            4,
+            '/Type /Page /Parent 2 0 R /Resources << /XObject << /Im0 12 0 R >> >>'
+          ),
+          object(5, '/XObject << /Im0 10 0 R /Im1 11 0 R >>'),
+          jpeg(12, 'PAGE-2'),
+          jpeg(10, 'PAGE-1-TOP'),
+          jpeg(11, 'PAGE-1-BOTTOM'),
+        ].join('\n'),
+        'latin1'
+      );
+
+      const { images } = PdfOcrService.extractPageImages(pdf);
+
+      expect(
+        images.map(image => [image.pageNumber, image.data.toString('latin1')])
+      ).toEqual([
+        [1, 'PAGE-1-TOP'],
+        [1, 'PAGE-1-BOTTOM'],
+        [2, 'PAGE-2'],
+      ]);
+    });
+  });
+
+  describe('recognize', () => {
+    const images: PdfPageImage[] = [1, 2].map(pageNumber => ({
+      pageNumber,
+      data: Buffer.from(`page ${pageNumber}`),
+      width: 1700,
+      height: 2200,
+    }));
+
+    it('should recognize each page and report progress', async () => {
+      const worker = {
+        recognize: vi
+          .fn()
+          .mockResolvedValueOnce({
+            data: { text: 'INT. HOUSE - DAY\n', confidence: 90 },
+          })
+          .mockResolvedValueOnce({
+            data: { text: 'FADE OUT.', confidence: 70 },
+          }),
+        terminate: vi.fn().mockResolvedValue(undefined),
+      };
+      mockCreateWorker.mockResolvedValue(worker as any);
+      const onProgress = vi.fn();
+
+      const result = await PdfOcrService.recognize(images, {
+        langPath: '/data/tessdata',
+        workerPath: '/app/ocr-worker.js',
+        onProgress,
+      });
+
+      expect(mockCreateWorker).toHaveBeenCalledWith(
+        'eng',
+        1,
+        expect.objectContaining({
+          workerPath: '/app/ocr-worker.js',
+          langPath: '/data/tessdata',
+          cacheMethod: 'none',
+        })
+      );
+      expect(result.text).toBe('INT. HOUSE - DAY\n\nFADE OUT.');
+      expect(result.pages.map(page => page.confidence)).toEqual([0.9, 0.7]);
+      expect(result.confidence).toBeCloseTo(0.8);
+      expect(
+        onProgress.mock.calls.map(([progress]) => progress.progress)
+      ).toEqual([0, 50, 100]);
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({
+          currentStep: 'recognizing_text',
+          message: 'Recognizing text on page 2 of 2',
+        })
+      );
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should join the images of a page', async () => {
+      const worker = {
+        recognize: vi
+          .fn()
+          .mockResolvedValueOnce({ data: { text: 'TOP\n', confidence: 80 } })
+          .mockResolvedValueOnce({ data: { text: 'BOTTOM', confidence: 60 } }),
+        terminate: vi.fn().mockResolvedValue(undefined),
+      };
+      mockCreateWorker.mockResolvedValue(worker as any);
+
+      const result = await PdfOcrService.recognize(
+        images.map(image => ({ ...image, pageNumber: 3 })),
+        { langPath: '/data/tessdata', workerPath: '/app/ocr-worker.js' }
+      );
+
+      expect(result.pages).toEqual([
+        { pageNumber: 3, text: 'TOP\nBOTTOM', confidence: 0.7 },
+      ]);
+    });
+
+    it('should terminate the worker when recognition fails', async () => {
+      const worker = {
+        recognize: vi.fn().mockRejectedValue(new Error('bad image')),
+        terminate: vi.fn().mockResolvedValue(undefined),
+      };
+      mockCreateWorker.mockResolvedValue(worker as any);
+
+      await expect(
+        PdfOcrService.recognize(images, {
+          langPath: '/data/tessdata',
+          workerPath: '/app/ocr-worker.js',
+        })
+      ).rejects.toThrow('bad image');
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+  });
+
+  describe('toUnpackedPath', () => {
+    it('should point packaged files at the unpacked copy', () => {
+      expect(
+        toUnpackedPath(
+          '/opt/app/resources/app.asar/node_modules/tesseract.js/src/worker-script/node/index.js'
+        )
+      ).toBe(
+        '/opt/app/resources/app.asar.unpacked/node_modules/tesseract.js/src/worker-script/node/index.js'
+      );
+      expect(
+        toUnpackedPath('C:\\App\\resources\\app.asar\\node_modules\\x')
+      ).toBe('C:\\App\\resources\\app.asar.unpacked\\node_modules\\x');
+      expect(toUnpackedPath('/home/me/app/node_modules/x')).toBe(
+        '/home/me/app/node_modules/x'
+      );
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Unit tests for page-aware PDF text extraction
+ * Requirements: 2.1, 2.2
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PdfPageExtractor, PdfTextItem } from '../pdf-pages';
+
+const item = (str: string, x: number, y: number, width = 0): PdfTextItem => ({
+  str,
+  transform: [1, 0, 0, 1, x, y],
+  width,
+});
+
+describe('PdfPageExtractor', () => {
+  describe('renderTextItems', () => {
+    it('should break lines on vertical moves', () => {
+      expect(
+        PdfPageExtractor.renderTextItems([
+          item('INT. HOUSE - DAY', 100, 700, 120),
+          item('Jo enters.', 100, 680, 60),
+        ])
+      ).toBe('INT. HOUSE - DAY\nJo enters.');
+    });
+
+    it('should keep revision asterisks apart from the text', () => {
+      expect(
+        PdfPageExtractor.renderTextItems([
+          item('Jo enters.', 100, 680, 60),
+          item('*', 540, 680, 5),
+        ])
+      ).toBe('Jo enters. *');
+    });
+
+    it('should join adjacent items on the same line', () => {
+      expect(
+        PdfPageExtractor.renderTextItems([
+          item('Hel', 100, 680, 18),
+          item('lo', 118, 680, 12),
+        ])
+      ).toBe('Hello');
+    });
+  });
+
+  describe('createPageRenderer', () => {
+    it('should store rendered text by page index', async () => {
+      const pages: string[] = [];
+      const render = PdfPageExtractor.createPageRenderer(pages);
+
+      const text = await render({
+        pageIndex: 1,
+        getTextContent: async () => ({ items: [item('FADE IN:', 0, 0)] }),
+      });
+
+      expect(text).toBe('FADE IN:');
+      expect(pages[1]).toBe('FADE IN:');
+    });
+  });
+
+  describe('cleanPage', () => {
+    it('should strip page numbers and continued markers', () => {
+      const page = [
+        '12.',
+        'CONTINUED: (2)',
+        'Jo runs.',
+        '',
+        'JO',
+        'Wait!',
+        '(CONTINUED)',
+      ].join('\n');
+
+      expect(PdfPageExtractor.cleanPage(page)).toEqual({
+        text: 'Jo runs.\n\nJO\nWait!',
+        label: '12',
+      });
+    });
+
+    it('should read revised and lettered page numbers', () => {
+      expect(PdfPageExtractor.cleanPage('12A.*\nJo runs. *').label).toBe('12A');
+      expect(PdfPageExtractor.cleanPage('Jo runs.\n- 7 -')).toEqual({
+        text: 'Jo runs.',
+        label: '7',
+      });
+    });
+
+    it('should strip scene numbered continued headers', () => {
+      expect(
+        PdfPageExtractor.cleanPage('4.\n23 CONTINUED: 23\nJo runs.').text
+      ).toBe('Jo runs.');
+    });
+
+    it('should keep numbers in the body of the page', () => {
+      const page = 'Jo counts.\n3.\nStill counting.';
+
+      expect(PdfPageExtractor.cleanPage(page).text).toBe(page);
+    });
+
+    it('should keep revision asterisks', () => {
+      expect(PdfPageExtractor.cleanPage('5.\nJo runs. *').text).toBe(
+        'Jo runs. *'
+      );
+    });
+  });
+
+  describe('assemble', () => {
+    it('should record page boundaries in the content', () => {
+      const layout = PdfPageExtractor.assemble([
+        'MY SCRIPT\nby Jo',
+        '2.\nINT. HOUSE - DAY',
+        '3.\n(CONTINUED)',
+        '4.\nJo leaves.',
+      ]);
+
+      expect(layout.content).toBe(
+        'MY SCRIPT\nby Jo\n\nINT. HOUSE - DAY\n\nJo leaves.'
+      );
+      expect(layout.pages).toEqual([
+        { pageNumber: 1, label: undefined, start: 0, end: 15 },
+        { pageNumber: 2, label: '2', start: 17, end: 33 },
+        { pageNumber: 3, label: '3', start: 33, end: 33 },
+        { pageNumber: 4, label: '4', start: 35, end: 45 },
+      ]);
+      expect(
+        layout.content.slice(layout.pages[1].start, layout.pages[1].end)
+      ).toBe('INT. HOUSE - DAY');
+    });
+  });
+
+  describe('countPrintedPages', () => {
+    it('should use the highest printed page number', () => {
+      const { pages } = PdfPageExtractor.assemble([
+        'Title',
+        '1.\nA',
+        '1A.\nB',
+        '2.\nC',
+      ]);
+
+      expect(PdfPageExtractor.countPrintedPages(pages)).toBe(2);
+    });
+
+    it('should fall back to the number of pages', () => {
+      const { pages } = PdfPageExtractor.assemble(['A', 'B', 'C']);
+
+      expect(PdfPageExtractor.countPrintedPages(pages)).toBe(3);
+    });
+  });
+
+  describe('findPage', () => {
+    it('should find the page containing an offset', () => {
+      const { pages } = PdfPageExtractor.assemble(['1.\nAAA', '2.\nBBB']);
+
+      expect(PdfPageExtractor.findPage(pages, 1)?.label).toBe('1');
+      expect(PdfPageExtractor.findPage(pages, 6)?.label).toBe('2');
+      expect(PdfPageExtractor.findPage(pages, 100)).toBeUndefined();
+    });
+  });
+
+  describe('markPages', () => {
+    it('should mark where each page starts with its printed number', () => {
+      const { content, pages } = PdfPageExtractor.assemble([
+        'MY SCRIPT',
+        '1.\nINT. HOUSE - DAY',
+        '2.\n(CONTINUED)',
+        '3.\nJo leaves.',
+      ]);
+
+      expect(PdfPageExtractor.markPages(content, pages)).toBe(
+        'MY SCRIPT\n\n[Page 1]\nINT. HOUSE - DAY\n\n[Page 3]\nJo leaves.'
+      );
+    });
+
+    it('should number unnumbered pages by their position', () => {
+      const { content, pages } = PdfPageExtractor.assemble(['A', 'B']);
+
+      expect(PdfPageExtractor.markPages(content, pages)).toBe(
+        '[Page 1]\nA\n\n[Page 2]\nB'
+      );
+    });
+
+    it('should leave content without pages unchanged', () => {
+      expect(PdfPageExtractor.markPages('INT. HOUSE - DAY')).toBe(
+        'INT. HOUSE - DAY'
+      );
+    });
+  });
+});
@@ -24,6 +24,8 @@ import {
 import { PdfProcessor } from '../pdf-processor';
 import { DocxProcessor } from '../docx-processor';
 import { TxtProcessor } from '../txt-processor';
+import { FdxProcessor } from '../fdx-processor';
+import { FountainProcessor } from '../fountain-processor';
 
 describe('FileProcessorFactoryImpl', () => {
   let factory: FileProcessorFactoryImpl;
@@ -48,6 +50,16 @@ describe('FileProcessorFactoryImpl', () => {
       expect(processor).toBeInstanceOf(TxtProcessor);
     });
 
+    it('should create FDX processor', () => {
+      const processor = factory.createProcessor('fdx');
+      expect(processor).toBeInstanceOf(FdxProcessor);
+    });
+
+    it('should create Fountain processor', () => {
+      const processor = factory.createProcessor('fountain');
+      expect(processor).toBeInstanceOf(FountainProcessor);
+    });
+
     it('should throw error for unsupported file type', () => {
       expect(() => {
         // @ts-expect-error Testing invalid file type
@@ -89,6 +101,22 @@ describe('FileProcessorFactoryImpl', () => {
       expect(processor4).toBeInstanceOf(TxtProcessor);
     });
 
+    it('should create processor for FDX extension', () => {
+      const processor1 = factory.createProcessorByExtension('.fdx');
+      const processor2 = factory.createProcessorByExtension('FDX');
+
+      expect(processor1).toBeInstanceOf(FdxProcessor);
+      expect(processor2).toBeInstanceOf(FdxProcessor);
+    });
+
+    it('should create processor for Fountain extension', () => {
+      const processor1 = factory.createProcessorByExtension('.fountain');
+      const processor2 = factory.createProcessorByExtension('FOUNTAIN');
+
+      expect(processor1).toBeInstanceOf(FountainProcessor);
+      expect(processor2).toBeInstanceOf(FountainProcessor);
+    });
+
     it('should be case insensitive', () => {
       const processor1 = factory.createProcessorByExtension('.PDF');
       const processor2 = factory.createProcessorByExtension('DOCX');
@@ -122,6 +150,9 @@ describe('FileProcessorFactoryImpl', () => {
       expect(factory.isExtensionSupported('txt')).toBe(true);
       expect(factory.isExtensionSupported('.text')).toBe(true);
       expect(factory.isExtensionSupported('text')).toBe(true);
+      expect(factory.isExtensionSupported('.fdx')).toBe(true);
+      expect(factory.isExtensionSupported('fdx')).toBe(true);
+      expect(factory.isExtensionSupported('.fountain')).toBe(true);
     });
 
     it('should return false for unsupported extensions', () => {
@@ -147,6 +178,8 @@ describe('FileProcessorFactoryImpl', () => {
       expect(extensions).toContain('.doc');
       expect(extensions).toContain('.txt');
       expect(extensions).toContain('.text');
+      expect(extensions).toContain('.fdx');
+      expect(extensions).toContain('.fountain');
     });
 
     it('should return unique extensions', () => {
@@ -170,14 +203,18 @@ describe('FileProcessorFactoryImpl', () => {
     it('should return all available processors', () => {
       const processors = factory.getAvailableProcessors();
 
-      expect(processors.size).toBe(3);
+      expect(processors.size).toBe(5);
       expect(processors.has('pdf')).toBe(true);
       expect(processors.has('docx')).toBe(true);
       expect(processors.has('txt')).toBe(true);
+      expect(processors.has('fdx')).toBe(true);
 
       expect(processors.get('pdf')).toBeInstanceOf(PdfProcessor);
       expect(processors.get('docx')).toBeInstanceOf(DocxProcessor);
       expect(processors.get('txt')).toBeInstanceOf(TxtProcessor);
+      expect(processors.get('fdx')).toBeInstanceOf(FdxProcessor);
+      expect(processors.has('fountain')).toBe(true);
+      expect(processors.get('fountain')).toBeInstanceOf(FountainProcessor);
     });
 
     it('should return a copy of the processors map', () => {
@@ -211,5 +248,9 @@ describe('fileProcessorFactory singleton', () => {
     expect(() => fileProcessorFactory.createProcessor('pdf')).not.toThrow();
     expect(() => fileProcessorFactory.createProcessor('docx')).not.toThrow();
     expect(() => fileProcessorFactory.createProcessor('txt')).not.toThrow();
+    expect(() => fileProcessorFactory.createProcessor('fdx')).not.toThrow();
+    expect(() =>
+      fileProcessorFactory.createProcessor('fountain')
+    ).not.toThrow();
   });
 });
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for screenplay element detection
+ * Requirements: 2.1, 2.2
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ScreenplayElementDetector } from '../screenplay-elements';
+
+const summarize = (content: string, lineIsParagraph = false) =>
+  ScreenplayElementDetector.detect(content, { lineIsParagraph }).map(
+    element => [element.type, element.text]
+  );
+
+describe('ScreenplayElementDetector', () => {
+  describe('detect', () => {
+    it('should classify blank-line separated screenplay text', () => {
+      const content = [
+        'INT. LIGHTHOUSE - NIGHT',
+        '',
+        'Rain hammers the glass.',
+        'Maya climbs the stairs.',
+        '',
+        'MAYA (V.O.)',
+        '(whispering)',
+        'Is anyone',
+        'up here?',
+        '',
+        'CUT TO:',
+      ].join('\n');
+
+      expect(summarize(content)).toEqual([
+        ['scene_heading', 'INT. LIGHTHOUSE - NIGHT'],
+        ['action', 'Rain hammers the glass.\nMaya climbs the stairs.'],
+        ['character', 'MAYA (V.O.)'],
+        ['parenthetical', '(whispering)'],
+        ['dialogue', 'Is anyone\nup here?'],
+        ['transition', 'CUT TO:'],
+      ]);
+    });
+
+    it('should report offsets into the content', () => {
+      const content = 'EXT. BEACH - DAY\n\n    ELI\n    We made it.\n';
+      const elements = ScreenplayElementDetector.detect(content);
+
+      elements.forEach(element => {
+        expect(content.slice(element.start, element.end)).toBe(
+          element.text.split('\n').join('\n    ')
+        );
+      });
+      expect(elements[1]).toMatchObject({ type: 'character', start: 22 });
+    });
+
+    it('should use indentation when the layout provides it', () => {
+      const content = [
+        '1   INT. DINER - NIGHT',
+        '    Sam waits by the window.',
+        '                        SAM',
+        '              Coffee, please.',
+        '    The waitress ignores him.',
+        '                                            DISSOLVE:',
+      ].join('\n');
+
+      expect(summarize(content)).toEqual([
+        ['scene_heading', '1   INT. DINER - NIGHT'],
+        ['action', 'Sam waits by the window.'],
+        ['character', 'SAM'],
+        ['dialogue', 'Coffee, please.'],
+        ['action', 'The waitress ignores him.'],
+        ['transition', 'DISSOLVE:'],
+      ]);
+    });
+
+    it('should close speech after one paragraph when lines are paragraphs', () => {
+      const content = [
+        'INT. OFFICE - DAY',
+        'JO',
+        '(tired)',
+        'Not again.',
+        'She drops the file.',
+        'Papers scatter.',
+      ].join('\n');
+
+      expect(summarize(content, true)).toEqual([
+        ['scene_heading', 'INT. OFFICE - DAY'],
+        ['character', 'JO'],
+        ['parenthetical', '(tired)'],
+        ['dialogue', 'Not again.'],
+        ['action', 'She drops the file.'],
+        ['action', 'Papers scatter.'],
+      ]);
+    });
+
+    it('should not treat shouted action or page numbers as speech', () => {
+      const content = 'BOOM!\n\n12.\n\nThe wall collapses.\n';
+
+      expect(summarize(content)).toEqual([
+        ['action', 'BOOM!'],
+        ['action', 'The wall collapses.'],
+      ]);
+    });
+
+    it('should return no elements for empty content', () => {
+      expect(ScreenplayElementDetector.detect('  \n\n')).toEqual([]);
+    });
+  });
+
+  describe('locate', () => {
+    it('should attach offsets to classified elements in order', () => {
+      const content = 'MAYA\nHello.\n\nELI\nHello.';
+
+      expect(
+        ScreenplayElementDetector.locate(content, [
+          { type: 'character', text: 'MAYA' },
+          { type: 'dialogue', text: 'Hello.' },
+          { type: 'character', text: 'ELI' },
+          { type: 'dialogue', text: 'Hello.' },
+          { type: 'action', text: 'Missing text' },
+        ])
+      ).toEqual([
+        { type: 'character', text: 'MAYA', start: 0, end: 4 },
+        { type: 'dialogue', text: 'Hello.', start: 5, end: 11 },
+        { type: 'character', text: 'ELI', start: 13, end: 16 },
+        { type: 'dialogue', text: 'Hello.', start: 17, end: 23 },
+      ]);
+    });
+  });
+});
@@ -214,6 +214,28 @@ describe('TxtProcessor', () => {
       expect(result.title).toBe('fallback-title');
     });
 
+    it('should detect screenplay elements', async () => {
+      const testFile = path.join(tempDir, 'screenplay.txt');
+      const content =
+        'INT. KITCHEN - DAY\n\nJo pours coffee.\n\nJO\nMorning.\n';
+      await fs.writeFile(testFile, content);
+
+      const result = await processor.parseFile(testFile, 'txt');
+
+      expect(result.elements?.map(element => element.type)).toEqual([
+        'scene_heading',
+        'action',
+        'character',
+        'dialogue',
+      ]);
+      expect(result.elements?.[3]).toEqual({
+        type: 'dialogue',
+        text: 'Morning.',
+        start: content.indexOf('Morning.'),
+        end: content.indexOf('Morning.') + 'Morning.'.length,
+      });
+    });
+
     it('should fail validation for non-existent file', async () => {
       const nonExistentFile = path.join(tempDir, 'nonexistent.txt');
 
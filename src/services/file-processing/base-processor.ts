@@ -12,9 +12,35 @@ import {
   ValidationWarning,
   FileProcessingOptions,
   ParsedScript,
+  ProcessingProgressCallback,
+  ProcessingStep,
 } from '../../types/file-processing';
 import { FileType, ScriptMetadata } from '../../types/script';
 
+// Range of overall progress covered by each step and its status message
+const PROCESSING_STEPS: Record<
+  ProcessingStep,
+  { start: number; end: number; message: string }
+> = {
+  validating: { start: 0, end: 10, message: 'Validating file' },
+  reading: { start: 10, end: 25, message: 'Reading file' },
+  parsing: { start: 25, end: 40, message: 'Parsing document' },
+  recognizing_text: {
+    start: 40,
+    end: 80,
+    message: 'Recognizing scanned text',
+  },
+  extracting_metadata: { start: 80, end: 90, message: 'Extracting metadata' },
+  validating_content: {
+    start: 90,
+    end: 100,
+    message: 'Checking extracted content',
+  },
+  complete: { start: 100, end: 100, message: 'Processing complete' },
+  error: { start: 100, end: 100, message: 'Processing failed' },
+  cancelled: { start: 100, end: 100, message: 'Processing cancelled' },
+};
+
 export abstract class BaseFileProcessor implements FileProcessor {
   protected readonly maxFileSize: number;
   protected readonly supportedExtensions: string[];
@@ -29,7 +55,8 @@ export abstract class BaseFileProcessor implements FileProcessor {
 
   abstract parseFile(
     filePath: string,
-    fileType: FileType
+    fileType: FileType,
+    onProgress?: ProcessingProgressCallback
   ): Promise<ParsedScript>;
 
   async validateFile(filePath: string): Promise<ValidationResult> {
@@ -161,6 +188,8 @@ export abstract class BaseFileProcessor implements FileProcessor {
     if (['.pdf'].includes(ext)) return 'pdf';
     if (['.docx', '.doc'].includes(ext)) return 'docx';
     if (['.txt', '.text'].includes(ext)) return 'txt';
+    if (['.fdx'].includes(ext)) return 'fdx';
+    if (['.fountain'].includes(ext)) return 'fountain';
 
     return undefined;
   }
@@ -178,6 +207,25 @@ export abstract class BaseFileProcessor implements FileProcessor {
     return `${size.toFixed(1)} ${units[unitIndex]}`;
   }
 
+  /**
+   * Report that a processing step has started, or how far through the step
+   * processing is (0-1) with a more specific message
+   */
+  protected reportProgress(
+    onProgress: ProcessingProgressCallback | undefined,
+    step: ProcessingStep,
+    stepProgress = 0,
+    message?: string
+  ): void {
+    const { start, end, message: stepMessage } = PROCESSING_STEPS[step];
+    onProgress?.({
+      currentStep: step,
+      progress: Math.round(start + (end - start) * stepProgress),
+      message: message ?? stepMessage,
+      cancellable: step !== 'complete' && step !== 'error',
+    });
+  }
+
   protected createScriptMetadata(
     title: string,
     content: string,
@@ -0,0 +1,18 @@
+/**
+ * Content hash used to detect scripts that are already in the library
+ * Requirements: 2.1, 6.1
+ */
+
+/**
+ * Hash extracted script content. Shared by manual uploads and watched
+ * folder imports so both dedupe against the same `content_hash` values.
+ */
+export function generateContentHash(content: string): string {
+  let hash = 0;
+  for (let i = 0; i < content.length; i++) {
+    const char = content.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash).toString(16);
+}
@@ -7,7 +7,12 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as mammoth from 'mammoth';
 import { BaseFileProcessor } from './base-processor';
-import { ParsedScript, ValidationResult } from '../../types/file-processing';
+import { ScreenplayElementDetector } from './screenplay-elements';
+import {
+  ParsedScript,
+  ProcessingProgressCallback,
+  ValidationResult,
+} from '../../types/file-processing';
 import { FileType } from '../../types/script';
 
 export class DocxProcessor extends BaseFileProcessor {
@@ -15,9 +20,14 @@ export class DocxProcessor extends BaseFileProcessor {
     super(['.docx', '.doc'], 25 * 1024 * 1024); // 25MB max for DOCX files
   }
 
-  async parseFile(filePath: string, fileType: FileType): Promise<ParsedScript> {
+  async parseFile(
+    filePath: string,
+    fileType: FileType,
+    onProgress?: ProcessingProgressCallback
+  ): Promise<ParsedScript> {
     try {
       // First validate the file
+      this.reportProgress(onProgress, 'validating');
       const validation = await this.validateFile(filePath);
       if (!validation.isValid) {
         throw new Error(
@@ -26,12 +36,15 @@ export class DocxProcessor extends BaseFileProcessor {
       }
 
       // Read the DOCX file
+      this.reportProgress(onProgress, 'reading');
       const buffer = await fs.readFile(filePath);
 
       // Parse DOCX content using mammoth
+      this.reportProgress(onProgress, 'parsing');
       const result = await this.parseDocxBuffer(buffer);
 
       // Extract metadata
+      this.reportProgress(onProgress, 'extracting_metadata');
       const fileName = path.basename(filePath, path.extname(filePath));
       const title = this.extractTitleFromContent(result.value, fileName);
 
@@ -60,6 +73,7 @@ export class DocxProcessor extends BaseFileProcessor {
       );
 
       // Validate content and collect warnings
+      this.reportProgress(onProgress, 'validating_content');
       const contentWarnings = await this.validateFileContent(plainText);
       const warnings: string[] = [];
 
@@ -103,6 +117,9 @@ export class DocxProcessor extends BaseFileProcessor {
           plainText,
           validation.fileSize
         ),
+        elements: ScreenplayElementDetector.detect(plainText, {
+          lineIsParagraph: true,
+        }),
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -0,0 +1,435 @@
+/**
+ * Final Draft (FDX) file processor implementation
+ * Requirements: 2.1, 2.2
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BaseFileProcessor } from './base-processor';
+import { ScreenplayElementDetector } from './screenplay-elements';
+import {
+  ParsedScript,
+  ProcessingProgressCallback,
+  ScreenplayElementType,
+  ValidationResult,
+} from '../../types/file-processing';
+import { FileType } from '../../types/script';
+
+export type FdxParagraphType =
+  | 'Scene Heading'
+  | 'Action'
+  | 'Character'
+  | 'Dialogue'
+  | 'Parenthetical'
+  | 'Transition'
+  | 'Shot'
+  | 'General';
+
+export interface FdxParagraph {
+  /** Final Draft paragraph type */
+  type: FdxParagraphType;
+  /** Plain text of the paragraph */
+  text: string;
+}
+
+interface FdxTitlePage {
+  title?: string;
+  author?: string;
+  lines: string[];
+}
+
+const KNOWN_PARAGRAPH_TYPES: FdxParagraphType[] = [
+  'Scene Heading',
+  'Action',
+  'Character',
+  'Dialogue',
+  'Parenthetical',
+  'Transition',
+  'Shot',
+  'General',
+];
+
+const ELEMENT_TYPES: Record<FdxParagraphType, ScreenplayElementType> = {
+  'Scene Heading': 'scene_heading',
+  Action: 'action',
+  Character: 'character',
+  Dialogue: 'dialogue',
+  Parenthetical: 'parenthetical',
+  Transition: 'transition',
+  Shot: 'action',
+  General: 'action',
+};
+
+export class FdxProcessor extends BaseFileProcessor {
+  constructor() {
+    super(['.fdx'], 10 * 1024 * 1024); // 10MB max for FDX files
+  }
+
+  async parseFile(
+    filePath: string,
+    _fileType: FileType,
+    onProgress?: ProcessingProgressCallback
+  ): Promise<ParsedScript> {
+    try {
+      // First validate the file
+      this.reportProgress(onProgress, 'validating');
+      const validation = await this.validateFile(filePath);
+      if (!validation.isValid) {
+        throw new Error(
+          `FDX validation failed: ${validation.errors.map(e => e.message).join(', ')}`
+        );
+      }
+
+      // Read the FDX file (always UTF-8 XML)
+      this.reportProgress(onProgress, 'reading');
+      const xml = (await fs.readFile(filePath, 'utf8')).replace(/^\uFEFF/, '');
+
+      // Split title page from script body and parse both
+      this.reportProgress(onProgress, 'parsing');
+      const titlePage = this.parseTitlePage(xml);
+      const paragraphs = this.parseParagraphs(this.extractBodyContent(xml));
+      const content = this.paragraphsToText(paragraphs);
+
+      // Extract metadata
+      this.reportProgress(onProgress, 'extracting_metadata');
+      const fileName = path.basename(filePath, path.extname(filePath));
+      const title =
+        titlePage.title || this.extractTitleFromContent(content, fileName);
+
+      // Create additional metadata specific to FDX
+      const additionalMetadata = {
+        fdxVersion: this.getAttribute(xml, 'FinalDraft', 'Version'),
+        paragraphs,
+        paragraphTypeCounts: this.countParagraphTypes(paragraphs),
+        sceneCount: paragraphs.filter(p => p.type === 'Scene Heading').length,
+        titlePage: titlePage.lines,
+        smartTypeCharacters: this.extractSmartTypeCharacters(xml),
+      };
+
+      // Create script metadata
+      const metadata = this.createScriptMetadata(
+        title,
+        content,
+        validation.fileSize,
+        additionalMetadata
+      );
+
+      // Add author from the title page if available
+      if (titlePage.author) {
+        metadata.author = titlePage.author;
+      }
+
+      // Validate content and collect warnings
+      this.reportProgress(onProgress, 'validating_content');
+      const contentWarnings = await this.validateFileContent(content);
+      const warnings: string[] = [];
+
+      // Add FDX-specific warnings
+      if (paragraphs.length === 0) {
+        warnings.push('No screenplay paragraphs found in FDX document');
+      }
+
+      if (!titlePage.title) {
+        warnings.push('FDX title page has no title - using fallback title');
+      }
+
+      // Add content validation warnings
+      contentWarnings.forEach(warning => {
+        warnings.push(`${warning.code}: ${warning.message}`);
+      });
+
+      return {
+        content,
+        title,
+        metadata,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        confidence: this.calculateConfidence(paragraphs, content),
+        elements: ScreenplayElementDetector.locate(
+          content,
+          paragraphs.map(paragraph => ({
+            type: ELEMENT_TYPES[paragraph.type],
+            text: this.renderParagraphText(paragraph),
+          }))
+        ),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to parse FDX file: ${error.message}`);
+      }
+      throw new Error('Failed to parse FDX file: Unknown error');
+    }
+  }
+
+  /**
+   * Extract the main screenplay <Content> block, ignoring the title page
+   */
+  private extractBodyContent(xml: string): string {
+    const withoutTitlePage = xml.replace(
+      /<TitlePage\b[\s\S]*?<\/TitlePage>/gi,
+      ''
+    );
+    const match = withoutTitlePage.match(
+      /<Content\b[^>]*>([\s\S]*?)<\/Content>/i
+    );
+    return match ? match[1] : '';
+  }
+
+  private parseParagraphs(contentXml: string): FdxParagraph[] {
+    const paragraphs: FdxParagraph[] = [];
+    const paragraphPattern =
+      /<Paragraph\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Paragraph>)/gi;
+
+    let match: RegExpExecArray | null;
+    while ((match = paragraphPattern.exec(contentXml)) !== null) {
+      const attributes = match[1] || '';
+      const inner = match[2] || '';
+      const text = this.extractParagraphText(inner);
+
+      if (text.length === 0) continue;
+
+      paragraphs.push({
+        type: this.normalizeParagraphType(
+          this.readAttribute(attributes, 'Type')
+        ),
+        text,
+      });
+    }
+
+    return paragraphs;
+  }
+
+  private extractParagraphText(paragraphXml: string): string {
+    // Only <Text> runs carry visible text; skip SceneProperties, DualDialogue
+    // markers and other structural children
+    const textPattern = /<Text\b[^>]*?(?:\/>|>([\s\S]*?)<\/Text>)/gi;
+    let text = '';
+
+    let match: RegExpExecArray | null;
+    while ((match = textPattern.exec(paragraphXml)) !== null) {
+      text += this.decodeEntities(match[1] || '');
+    }
+
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private parseTitlePage(xml: string): FdxTitlePage {
+    const titlePageMatch = xml.match(
+      /<TitlePage\b[^>]*>([\s\S]*?)<\/TitlePage>/i
+    );
+    if (!titlePageMatch) {
+      return { lines: [] };
+    }
+
+    const lines = this.parseParagraphs(titlePageMatch[1]).map(p => p.text);
+    const result: FdxTitlePage = { lines };
+
+    if (lines.length === 0) {
+      return result;
+    }
+
+    // The title is the first line on the title page
+    result.title = lines[0];
+
+    // Author follows a "Written by" / "by" line, or shares a line with it
+    for (let i = 0; i < lines.length; i++) {
+      const bylineMatch = lines[i].match(
+        /^(?:(?:written|screenplay|teleplay|story)\s+)?by\s*:?\s*(.*)$/i
+      );
+      if (!bylineMatch) continue;
+
+      const author = bylineMatch[1].trim() || lines[i + 1];
+      if (author) {
+        result.author = author;
+      }
+      break;
+    }
+
+    return result;
+  }
+
+  private extractSmartTypeCharacters(xml: string): string[] {
+    const section = xml.match(
+      /<SmartType\b[\s\S]*?<Characters\b[^>]*>([\s\S]*?)<\/Characters>/i
+    );
+    if (!section) return [];
+
+    const names: string[] = [];
+    const characterPattern = /<Character\b[^>]*>([\s\S]*?)<\/Character>/gi;
+
+    let match: RegExpExecArray | null;
+    while ((match = characterPattern.exec(section[1])) !== null) {
+      const name = this.decodeEntities(match[1]).trim();
+      if (name.length > 0) {
+        names.push(name);
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Render paragraphs as conventional screenplay plain text
+   */
+  private paragraphsToText(paragraphs: FdxParagraph[]): string {
+    const blocks: string[] = [];
+
+    for (let i = 0; i < paragraphs.length; i++) {
+      const paragraph = paragraphs[i];
+      const previous = paragraphs[i - 1];
+      const text = this.renderParagraphText(paragraph);
+
+      // Dialogue and parentheticals stay attached to their character cue
+      const continuesSpeech =
+        previous &&
+        (paragraph.type === 'Dialogue' || paragraph.type === 'Parenthetical') &&
+        (previous.type === 'Character' ||
+          previous.type === 'Dialogue' ||
+          previous.type === 'Parenthetical');
+
+      if (continuesSpeech && blocks.length > 0) {
+        blocks[blocks.length - 1] += `\n${text}`;
+      } else {
+        blocks.push(text);
+      }
+    }
+
+    return blocks.join('\n\n');
+  }
+
+  private renderParagraphText(paragraph: FdxParagraph): string {
+    if (
+      paragraph.type === 'Scene Heading' ||
+      paragraph.type === 'Character' ||
+      paragraph.type === 'Transition'
+    ) {
+      return paragraph.text.toUpperCase();
+    }
+    return paragraph.text;
+  }
+
+  private countParagraphTypes(
+    paragraphs: FdxParagraph[]
+  ): Record<FdxParagraphType, number> {
+    const counts = KNOWN_PARAGRAPH_TYPES.reduce(
+      (acc, type) => ({ ...acc, [type]: 0 }),
+      {} as Record<FdxParagraphType, number>
+    );
+
+    paragraphs.forEach(paragraph => {
+      counts[paragraph.type]++;
+    });
+
+    return counts;
+  }
+
+  private normalizeParagraphType(type: string | undefined): FdxParagraphType {
+    const match = KNOWN_PARAGRAPH_TYPES.find(
+      known => known.toLowerCase() === (type || '').trim().toLowerCase()
+    );
+    return match || 'General';
+  }
+
+  private getAttribute(
+    xml: string,
+    element: string,
+    attribute: string
+  ): string | undefined {
+    const match = xml.match(new RegExp(`<${element}\\b([^>]*)>`, 'i'));
+    return match ? this.readAttribute(match[1], attribute) : undefined;
+  }
+
+  private readAttribute(
+    attributes: string,
+    attribute: string
+  ): string | undefined {
+    const match = attributes.match(
+      new RegExp(`\\b${attribute}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i')
+    );
+    if (!match) return undefined;
+    return this.decodeEntities(match[1] ?? match[2]);
+  }
+
+  private decodeEntities(text: string): string {
+    return text
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+        String.fromCodePoint(parseInt(hex, 16))
+      )
+      .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private calculateConfidence(
+    paragraphs: FdxParagraph[],
+    content: string
+  ): number {
+    let confidence = 1.0;
+
+    // Reduce confidence for empty or very short content
+    if (content.trim().length === 0) {
+      confidence = 0.1;
+    } else if (content.trim().length < 100) {
+      confidence = 0.3;
+    }
+
+    // A screenplay without any scene headings is unusual
+    if (
+      paragraphs.length > 0 &&
+      !paragraphs.some(p => p.type === 'Scene Heading')
+    ) {
+      confidence *= 0.8;
+    }
+
+    // Mostly untyped paragraphs suggest a non-standard template
+    const generalCount = paragraphs.filter(p => p.type === 'General').length;
+    if (paragraphs.length > 0 && generalCount / paragraphs.length > 0.5) {
+      confidence *= 0.7;
+    }
+
+    return Math.max(0.1, Math.min(1.0, confidence));
+  }
+
+  async validateFile(filePath: string): Promise<ValidationResult> {
+    // Get base validation
+    const baseValidation = await super.validateFile(filePath);
+
+    if (!baseValidation.isValid) {
+      return baseValidation;
+    }
+
+    // Add FDX-specific validation
+    try {
+      const header = (await fs.readFile(filePath, 'utf8'))
+        .slice(0, 4096)
+        .replace(/^\uFEFF/, '');
+
+      if (!this.isFdxFile(header)) {
+        baseValidation.errors.push({
+          code: 'CORRUPTED_FILE',
+          message: 'File does not appear to be a valid Final Draft document',
+          details: '<FinalDraft> root element not found in file header',
+          suggestions: [
+            'Ensure the file is a Final Draft (.fdx) document',
+            'Try opening the file in Final Draft to verify it works',
+            'Re-save the script as FDX if possible',
+          ],
+        });
+        baseValidation.isValid = false;
+      }
+    } catch (error) {
+      // File reading error already handled by base validation
+    }
+
+    return baseValidation;
+  }
+
+  private isFdxFile(header: string): boolean {
+    return /^\s*(?:<\?xml[^>]*\?>\s*)?(?:<!--[\s\S]*?-->\s*)*<FinalDraft\b/i.test(
+      header
+    );
+  }
+}
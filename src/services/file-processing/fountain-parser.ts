@@ -0,0 +1,344 @@
+/**
+ * Fountain screenplay markup parser
+ * Requirements: 2.1, 2.2
+ *
+ * Implements the element rules from https://fountain.io/syntax
+ */
+
+export type FountainTokenType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'dialogue'
+  | 'parenthetical'
+  | 'transition'
+  | 'centered'
+  | 'lyrics'
+  | 'section'
+  | 'synopsis'
+  | 'page_break';
+
+export interface FountainToken {
+  /** Element type */
+  type: FountainTokenType;
+  /** Element text with emphasis markup removed */
+  text: string;
+  /** Scene number for scene headings (e.g. "1A") */
+  sceneNumber?: string;
+  /** Nesting depth for sections */
+  depth?: number;
+  /** Side of a dual dialogue pair, set on character cues */
+  dual?: 'left' | 'right';
+}
+
+export interface FountainDocument {
+  /** Title page fields keyed by lower-case key (e.g. "title", "author") */
+  titlePage: Record<string, string>;
+  /** Screenplay elements in document order */
+  tokens: FountainToken[];
+  /** Text of [[notes]], removed from the body */
+  notes: string[];
+  /** Text of boneyard comments, removed from the body */
+  boneyard: string[];
+}
+
+const SCENE_HEADING_PATTERN = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i;
+const SCENE_NUMBER_PATTERN = /\s*#([\w.-]+)#\s*$/;
+const TITLE_KEY_PATTERN = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/;
+const REMOVED_MARKER = '\u0000';
+const ESCAPED_ASTERISK = '\u0001';
+const ESCAPED_UNDERSCORE = '\u0002';
+
+export class FountainParser {
+  /**
+   * Parse Fountain text into title page fields and screenplay tokens
+   */
+  static parse(source: string): FountainDocument {
+    const boneyard: string[] = [];
+    const notes: string[] = [];
+
+    // Strip boneyard and notes first - both may span lines. A marker is left
+    // behind so lines that only held a comment can be dropped entirely.
+    const text = source
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .replace(/\/\*([\s\S]*?)\*\//g, (_, comment: string) => {
+        boneyard.push(comment.trim());
+        return REMOVED_MARKER;
+      })
+      .replace(/\[\[([\s\S]*?)\]\]/g, (_, note: string) => {
+        notes.push(note.trim());
+        return REMOVED_MARKER;
+      });
+
+    const lines = text
+      .split('\n')
+      .filter(line => !(line.includes(REMOVED_MARKER) && this.isBlank(line)))
+      .map(line => line.split(REMOVED_MARKER).join(''));
+
+    const { titlePage, bodyStart } = this.parseTitlePage(lines);
+    const tokens = this.tokenize(lines.slice(bodyStart));
+
+    return { titlePage, tokens, notes, boneyard };
+  }
+
+  /**
+   * Render tokens as conventional screenplay plain text. Sections, synopses
+   * and page breaks are structural only and are not rendered.
+   */
+  static render(tokens: FountainToken[]): string {
+    const blocks: string[] = [];
+    let previous: FountainToken | undefined;
+
+    for (const token of tokens) {
+      if (
+        token.type === 'section' ||
+        token.type === 'synopsis' ||
+        token.type === 'page_break'
+      ) {
+        continue;
+      }
+
+      const continuesSpeech =
+        (token.type === 'dialogue' || token.type === 'parenthetical') &&
+        previous !== undefined &&
+        (previous.type === 'character' ||
+          previous.type === 'dialogue' ||
+          previous.type === 'parenthetical');
+
+      if (continuesSpeech && blocks.length > 0) {
+        blocks[blocks.length - 1] += `\n${token.text}`;
+      } else {
+        blocks.push(token.text);
+      }
+
+      previous = token;
+    }
+
+    return blocks.join('\n\n');
+  }
+
+  private static parseTitlePage(lines: string[]): {
+    titlePage: Record<string, string>;
+    bodyStart: number;
+  } {
+    const titlePage: Record<string, string> = {};
+
+    let start = 0;
+    while (start < lines.length && this.isBlank(lines[start])) {
+      start++;
+    }
+
+    // A title page must open with a "Key: value" line. An empty value must be
+    // continued on the next line, otherwise it is a transition like "CUT TO:"
+    const firstMatch =
+      start < lines.length && lines[start].match(TITLE_KEY_PATTERN);
+    if (
+      !firstMatch ||
+      (firstMatch[2].trim().length === 0 &&
+        !/^(\s{3,}|\t)\S/.test(lines[start + 1] || ''))
+    ) {
+      return { titlePage, bodyStart: 0 };
+    }
+
+    let currentKey: string | null = null;
+    let index = start;
+
+    for (; index < lines.length; index++) {
+      const line = lines[index];
+      if (this.isBlank(line)) break;
+
+      const keyMatch = line.match(TITLE_KEY_PATTERN);
+      if (keyMatch && !/^(\s{3,}|\t)/.test(line)) {
+        currentKey = keyMatch[1].trim().toLowerCase();
+        titlePage[currentKey] = this.stripEmphasis(keyMatch[2].trim());
+      } else if (currentKey) {
+        // Indented continuation of a multi-line value
+        const value = this.stripEmphasis(line.trim());
+        titlePage[currentKey] = titlePage[currentKey]
+          ? `${titlePage[currentKey]}\n${value}`
+          : value;
+      } else {
+        // Not a title page after all
+        return { titlePage: {}, bodyStart: 0 };
+      }
+    }
+
+    return { titlePage, bodyStart: index };
+  }
+
+  private static tokenize(lines: string[]): FountainToken[] {
+    const tokens: FountainToken[] = [];
+    let inDialogue = false;
+    let lastCharacter: FountainToken | undefined;
+
+    // Consecutive action lines form a single paragraph
+    const pushAction = (text: string, previousBlank: boolean) => {
+      const last = tokens[tokens.length - 1];
+      if (last && last.type === 'action' && !previousBlank) {
+        last.text += `\n${text}`;
+      } else {
+        tokens.push({ type: 'action', text });
+      }
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+      const raw = lines[index];
+      const line = raw.trim();
+      const previousBlank = index === 0 || this.isBlank(lines[index - 1]);
+      const nextBlank =
+        index + 1 >= lines.length || this.isBlank(lines[index + 1]);
+
+      if (line.length === 0) {
+        // Two spaces keep a dialogue block open across an empty line
+        if (inDialogue && raw === '  ') {
+          tokens.push({ type: 'dialogue', text: '' });
+        } else {
+          inDialogue = false;
+        }
+        continue;
+      }
+
+      if (inDialogue) {
+        tokens.push({
+          type: line.startsWith('(') ? 'parenthetical' : 'dialogue',
+          text: this.stripEmphasis(line),
+        });
+        continue;
+      }
+
+      if (/^={3,}$/.test(line)) {
+        tokens.push({ type: 'page_break', text: '' });
+        continue;
+      }
+
+      if (line.startsWith('#')) {
+        const depth = line.length - line.replace(/^#+/, '').length;
+        tokens.push({
+          type: 'section',
+          text: line.slice(depth).trim(),
+          depth,
+        });
+        continue;
+      }
+
+      if (line.startsWith('=')) {
+        tokens.push({ type: 'synopsis', text: line.slice(1).trim() });
+        continue;
+      }
+
+      if (line.startsWith('!')) {
+        pushAction(this.stripEmphasis(line.slice(1)), previousBlank);
+        continue;
+      }
+
+      if (
+        (line.startsWith('.') && !line.startsWith('..')) ||
+        (previousBlank && SCENE_HEADING_PATTERN.test(line))
+      ) {
+        const heading = line.startsWith('.') ? line.slice(1) : line;
+        const numberMatch = heading.match(SCENE_NUMBER_PATTERN);
+        tokens.push({
+          type: 'scene_heading',
+          text: this.stripEmphasis(
+            heading.replace(SCENE_NUMBER_PATTERN, '')
+          ).toUpperCase(),
+          sceneNumber: numberMatch ? numberMatch[1] : undefined,
+        });
+        continue;
+      }
+
+      if (line.startsWith('>') && line.endsWith('<')) {
+        tokens.push({
+          type: 'centered',
+          text: this.stripEmphasis(line.slice(1, -1).trim()),
+        });
+        continue;
+      }
+
+      if (line.startsWith('>')) {
+        tokens.push({
+          type: 'transition',
+          text: this.stripEmphasis(line.slice(1).trim()).toUpperCase(),
+        });
+        continue;
+      }
+
+      if (
+        previousBlank &&
+        nextBlank &&
+        this.isUpperCase(line) &&
+        /TO:$/.test(line)
+      ) {
+        tokens.push({ type: 'transition', text: line });
+        continue;
+      }
+
+      if (line.startsWith('~')) {
+        tokens.push({
+          type: 'lyrics',
+          text: this.stripEmphasis(line.slice(1).trim()),
+        });
+        continue;
+      }
+
+      const forcedCharacter = line.startsWith('@');
+      if (
+        !nextBlank &&
+        (forcedCharacter || (previousBlank && this.isCharacterCue(line)))
+      ) {
+        let cue = forcedCharacter ? line.slice(1).trim() : line;
+        const isDual = cue.endsWith('^');
+        if (isDual) {
+          cue = cue.slice(0, -1).trim();
+        }
+
+        const character: FountainToken = { type: 'character', text: cue };
+        if (isDual) {
+          character.dual = 'right';
+          if (lastCharacter) {
+            lastCharacter.dual = 'left';
+          }
+        }
+
+        tokens.push(character);
+        lastCharacter = character;
+        inDialogue = true;
+        continue;
+      }
+
+      pushAction(
+        this.stripEmphasis(raw.replace(/\t/g, '    ').trimEnd()),
+        previousBlank
+      );
+    }
+
+    return tokens;
+  }
+
+  private static isCharacterCue(line: string): boolean {
+    // Extensions like (V.O.) or (CONT'D) may contain lower-case letters
+    const name = line.replace(/\s*\(.*\)\s*/g, '').replace(/\^$/, '');
+    return /[A-Z]/.test(name) && this.isUpperCase(name);
+  }
+
+  private static isUpperCase(text: string): boolean {
+    return text === text.toUpperCase() && /[A-Z]/.test(text);
+  }
+
+  private static isBlank(line: string | undefined): boolean {
+    return line === undefined || line.trim().length === 0;
+  }
+
+  private static stripEmphasis(text: string): string {
+    // Escaped \* and \_ are kept as literal characters
+    return text
+      .replace(/\\\*/g, ESCAPED_ASTERISK)
+      .replace(/\\_/g, ESCAPED_UNDERSCORE)
+      .replace(/(\*{1,3}|_)(?=\S)([\s\S]*?\S)\1/g, '$2')
+      .split(ESCAPED_ASTERISK)
+      .join('*')
+      .split(ESCAPED_UNDERSCORE)
+      .join('_');
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Fountain screenplay file processor implementation
+ * Requirements: 2.1, 2.2
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BaseFileProcessor } from './base-processor';
+import { FountainParser, FountainToken } from './fountain-parser';
+import { ScreenplayElementDetector } from './screenplay-elements';
+import {
+  ParsedScript,
+  ProcessingProgressCallback,
+  ScreenplayElementType,
+} from '../../types/file-processing';
+import { FileType } from '../../types/script';
+
+export class FountainProcessor extends BaseFileProcessor {
+  constructor() {
+    super(['.fountain'], 10 * 1024 * 1024); // 10MB max for Fountain files
+  }
+
+  async parseFile(
+    filePath: string,
+    _fileType: FileType,
+    onProgress?: ProcessingProgressCallback
+  ): Promise<ParsedScript> {
+    try {
+      // First validate the file
+      this.reportProgress(onProgress, 'validating');
+      const validation = await this.validateFile(filePath);
+      if (!validation.isValid) {
+        throw new Error(
+          `Fountain validation failed: ${validation.errors.map(e => e.message).join(', ')}`
+        );
+      }
+
+      // Fountain files are plain UTF-8 text
+      this.reportProgress(onProgress, 'reading');
+      const source = await fs.readFile(filePath, 'utf8');
+
+      this.reportProgress(onProgress, 'parsing');
+      const document = FountainParser.parse(source);
+
+      // Notes and boneyard are already removed by the parser
+      const content = FountainParser.render(document.tokens);
+
+      // Extract metadata
+      this.reportProgress(onProgress, 'extracting_metadata');
+      const fileName = path.basename(filePath, path.extname(filePath));
+      const titlePageTitle = this.readTitle(document.titlePage);
+      const title =
+        titlePageTitle || this.extractTitleFromContent(content, fileName);
+
+      // Create additional metadata specific to Fountain
+      const additionalMetadata = {
+        titlePage: document.titlePage,
+        tokens: document.tokens,
+        sceneCount: document.tokens.filter(t => t.type === 'scene_heading')
+          .length,
+        sections: document.tokens
+          .filter(t => t.type === 'section')
+          .map(t => ({ text: t.text, depth: t.depth })),
+        synopses: document.tokens
+          .filter(t => t.type === 'synopsis')
+          .map(t => t.text),
+        noteCount: document.notes.length,
+        boneyardCount: document.boneyard.length,
+        hasDualDialogue: document.tokens.some(t => t.dual !== undefined),
+      };
+
+      // Create script metadata
+      const metadata = this.createScriptMetadata(
+        title,
+        content,
+        validation.fileSize,
+        additionalMetadata
+      );
+
+      // Add author from the title page if available
+      const author = this.readAuthor(document.titlePage);
+      if (author) {
+        metadata.author = author;
+      }
+
+      // Validate content and collect warnings
+      this.reportProgress(onProgress, 'validating_content');
+      const contentWarnings = await this.validateFileContent(content);
+      const warnings: string[] = [];
+
+      // Add Fountain-specific warnings
+      if (!document.tokens.some(t => t.type === 'scene_heading')) {
+        warnings.push('No scene headings found in Fountain document');
+      }
+
+      if (!titlePageTitle) {
+        warnings.push(
+          'Fountain title page has no title - using fallback title'
+        );
+      }
+
+      // Add content validation warnings
+      contentWarnings.forEach(warning => {
+        warnings.push(`${warning.code}: ${warning.message}`);
+      });
+
+      return {
+        content,
+        title,
+        metadata,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        confidence: this.calculateConfidence(document.tokens, content),
+        elements: ScreenplayElementDetector.locate(
+          content,
+          this.toElementItems(document.tokens)
+        ),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to parse Fountain file: ${error.message}`);
+      }
+      throw new Error('Failed to parse Fountain file: Unknown error');
+    }
+  }
+
+  private toElementItems(
+    tokens: FountainToken[]
+  ): Array<{ type: ScreenplayElementType; text: string }> {
+    const items: Array<{ type: ScreenplayElementType; text: string }> = [];
+
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'scene_heading':
+        case 'action':
+        case 'character':
+        case 'dialogue':
+        case 'parenthetical':
+        case 'transition':
+          items.push({ type: token.type, text: token.text });
+          break;
+        case 'centered':
+        case 'lyrics':
+          items.push({ type: 'action', text: token.text });
+          break;
+        default:
+          // Sections, synopses and page breaks are not rendered
+          break;
+      }
+    }
+
+    return items;
+  }
+
+  private readTitle(titlePage: Record<string, string>): string | undefined {
+    // Multi-line titles are joined into a single line
+    const title = titlePage.title?.split('\n').join(' ').trim();
+    return title || undefined;
+  }
+
+  private readAuthor(titlePage: Record<string, string>): string | undefined {
+    const author = (titlePage.author || titlePage.authors || '')
+      .split('\n')
+      .join(', ')
+      .trim();
+    return author || undefined;
+  }
+
+  private calculateConfidence(
+    tokens: FountainToken[],
+    content: string
+  ): number {
+    let confidence = 1.0;
+
+    // Reduce confidence for empty or very short content
+    if (content.trim().length === 0) {
+      confidence = 0.1;
+    } else if (content.trim().length < 100) {
+      confidence = 0.3;
+    }
+
+    // A screenplay without any scene headings is unusual
+    if (tokens.length > 0 && !tokens.some(t => t.type === 'scene_heading')) {
+      confidence *= 0.8;
+    }
+
+    // Without character cues the file is likely prose, not Fountain
+    if (tokens.length > 0 && !tokens.some(t => t.type === 'character')) {
+      confidence *= 0.7;
+    }
+
+    return Math.max(0.1, Math.min(1.0, confidence));
+  }
+}
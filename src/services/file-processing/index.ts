@@ -11,15 +11,46 @@ export {
 export { PdfProcessor } from './pdf-processor';
 export { DocxProcessor } from './docx-processor';
 export { TxtProcessor } from './txt-processor';
+export { FdxProcessor } from './fdx-processor';
+export type { FdxParagraph, FdxParagraphType } from './fdx-processor';
+export { FountainProcessor } from './fountain-processor';
+export { FountainParser } from './fountain-parser';
+export { PdfOcrService, OCR_MIN_CHARACTERS_PER_PAGE } from './pdf-ocr';
+export type {
+  PdfPageImage,
+  PdfPageImages,
+  OcrPageResult,
+  OcrResult,
+  OcrOptions,
+} from './pdf-ocr';
+export { PdfPageExtractor } from './pdf-pages';
+export type {
+  PdfTextItem,
+  PdfPageData,
+  CleanedPage,
+  PageLayout,
+} from './pdf-pages';
+export { generateContentHash } from './content-hash';
+export { ScreenplayElementDetector } from './screenplay-elements';
+export type { DetectionOptions } from './screenplay-elements';
+export type {
+  FountainDocument,
+  FountainToken,
+  FountainTokenType,
+} from './fountain-parser';
 
 // Re-export types for convenience
 export type {
   FileProcessor,
   ParsedScript,
+  ScreenplayElement,
+  ScreenplayElementType,
+  ScriptPage,
   ValidationResult,
   ValidationError,
   ValidationWarning,
   FileProcessingOptions,
   ProcessingProgress,
+  ProcessingProgressCallback,
   FileProcessorFactory,
 } from '../../types/file-processing';
@@ -0,0 +1,598 @@
+/**
+ * OCR fallback for scanned (image-only) PDF documents
+ * Requirements: 2.1, 2.2
+ */
+
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ProcessingProgressCallback } from '../../types/file-processing';
+
+export interface PdfPageImage {
+  /** Page the image is drawn on (1-based) */
+  pageNumber: number;
+  /** Image data the OCR engine reads: JPEG, or PBM/PGM/PPM for bitmaps */
+  data: Buffer;
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+}
+
+export interface PdfPageImages {
+  /** Page images text can be recognized from, in page order */
+  images: PdfPageImage[];
+  /**
+   * Encodings of full-page images that cannot be read, such as
+   * CCITTFaxDecode or JBIG2Decode
+   */
+  unsupportedEncodings: string[];
+}
+
+export interface OcrPageResult {
+  /** Page number (1-based) */
+  pageNumber: number;
+  /** Recognized page text */
+  text: string;
+  /** Recognition confidence reported by the engine (0-1) */
+  confidence: number;
+}
+
+export interface OcrResult {
+  /** Recognized text of all pages, separated by blank lines */
+  text: string;
+  /** Per-page recognition results */
+  pages: OcrPageResult[];
+  /** Average recognition confidence across pages (0-1) */
+  confidence: number;
+}
+
+export interface OcrOptions {
+  /** Tesseract language code */
+  language?: string;
+  /**
+   * Directory containing `<language>.traineddata.gz`. Defaults to the data
+   * bundled with the @tesseract.js-data package so no download is needed.
+   */
+  langPath?: string;
+  /**
+   * Node worker script of the OCR engine. Defaults to the one in the
+   * tesseract.js package.
+   */
+  workerPath?: string;
+  /** Called before and after each page is recognized */
+  onProgress?: ProcessingProgressCallback;
+}
+
+// Extracted text below this many characters per page means the PDF is
+// most likely scanned
+export const OCR_MIN_CHARACTERS_PER_PAGE = 100;
+
+// Scanned pages are full-page images; smaller ones are logos or stamps
+const MIN_PAGE_IMAGE_SIZE = 300;
+
+const STREAM_KEYWORD = /(?<!end)stream\r?\n/g;
+const OBJECT_START = /(\d+)\s+\d+\s+obj\b/g;
+const OBJECT_REFERENCE = /(\d+)\s+\d+\s+R\b/g;
+
+// Levels of page tree, and of resources below a page, searched for images
+const MAX_PAGE_TREE_DEPTH = 32;
+const MAX_RESOURCE_DEPTH = 6;
+
+// Tesseract engine mode using only the LSTM recognizer
+const OEM_LSTM_ONLY = 1;
+
+/**
+ * Path of a file the packaged app keeps outside its asar archive. Worker
+ * threads cannot start from inside the archive, so the OCR packages are
+ * unpacked next to it.
+ */
+export function toUnpackedPath(filePath: string): string {
+  return filePath.replace(/([\\/])app\.asar([\\/])/, '$1app.asar.unpacked$2');
+}
+
+export class PdfOcrService {
+  /**
+   * Whether the text extracted from a PDF is too sparse for its page count
+   */
+  static needsOcr(
+    text: string,
+    pageCount: number,
+    minCharactersPerPage: number = OCR_MIN_CHARACTERS_PER_PAGE
+  ): boolean {
+    const pages = Math.max(pageCount, 1);
+    return text.trim().length / pages < minCharactersPerPage;
+  }
+
+  /**
+   * Find the full-page images of a scanned PDF. JPEG images are used as
+   * they are, and uncompressed or Flate-compressed bitmaps are converted to
+   * PNM. Images are placed on the pages that draw them, or in document
+   * order when the page tree cannot be read.
+   */
+  static extractPageImages(buffer: Buffer): PdfPageImages {
+    // latin1 keeps string offsets equal to byte offsets
+    const source = buffer.toString('latin1');
+    const found: Array<PdfPageImage & { objectNumber: number }> = [];
+    const unsupportedEncodings = new Set<string>();
+    const streams = new RegExp(STREAM_KEYWORD);
+    let match: RegExpExecArray | null;
+
+    while ((match = streams.exec(source)) !== null) {
+      const dataStart = match.index + match[0].length;
+      const stream = this.findStreamDictionary(source, match.index);
+
+      if (!stream || !/\/Subtype\s*\/Image\b/.test(stream.dictionary)) {
+        continue;
+      }
+
+      const width = this.readInteger(stream.dictionary, 'Width');
+      const height = this.readInteger(stream.dictionary, 'Height');
+      if (
+        width === undefined ||
+        height === undefined ||
+        Math.min(width, height) < MIN_PAGE_IMAGE_SIZE
+      ) {
+        continue;
+      }
+
+      const dataEnd = this.findStreamEnd(source, stream.dictionary, dataStart);
+      if (dataEnd <= dataStart) continue;
+      streams.lastIndex = dataEnd;
+
+      const data = this.decodeImage(
+        stream.dictionary,
+        buffer.subarray(dataStart, dataEnd),
+        width,
+        height
+      );
+      if (!data) {
+        unsupportedEncodings.add(
+          this.readFilters(stream.dictionary).join(', ') || 'uncompressed'
+        );
+        continue;
+      }
+
+      found.push({
+        objectNumber: stream.objectNumber,
+        pageNumber: found.length + 1,
+        data,
+        width,
+        height,
+      });
+    }
+
+    // Only trust the page tree when it places every image
+    const pages = this.findImagePages(source);
+    const placed = found.every(image => pages.has(image.objectNumber));
+    const images = found
+      .map(({ objectNumber, ...image }) => ({
+        ...image,
+        pageNumber: placed
+          ? (pages.get(objectNumber) ?? image.pageNumber)
+          : image.pageNumber,
+      }))
+      .sort((a, b) => a.pageNumber - b.pageNumber);
+
+    return { images, unsupportedEncodings: [...unsupportedEncodings] };
+  }
+
+  /**
+   * Recognize the text of page images with the bundled offline Tesseract
+   * engine
+   */
+  static async recognize(
+    images: PdfPageImage[],
+    options: OcrOptions = {}
+  ): Promise<OcrResult> {
+    const { language = 'eng', onProgress } = options;
+    const langPath = options.langPath ?? this.getBundledLangPath();
+    const workerPath = options.workerPath ?? this.getBundledWorkerPath();
+
+    // Loaded lazily: the engine is large and only needed for scanned files
+    const { createWorker } = await import('tesseract.js');
+    const worker = await createWorker(language, OEM_LSTM_ONLY, {
+      workerPath,
+      langPath,
+      gzip: true,
+      // Never write language data to a cache or fetch it from the network
+      cacheMethod: 'none',
+    });
+
+    try {
+      const pages: OcrPageResult[] = [];
+      const pageNumbers = [...new Set(images.map(image => image.pageNumber))];
+
+      for (const [index, pageNumber] of pageNumbers.entries()) {
+        onProgress?.({
+          currentStep: 'recognizing_text',
+          progress: Math.round((index / pageNumbers.length) * 100),
+          message: `Recognizing text on page ${index + 1} of ${pageNumbers.length}`,
+          cancellable: false,
+        });
+
+        // A page may be drawn from several images
+        const texts: string[] = [];
+        let confidence = 0;
+        const pageImages = images.filter(
+          image => image.pageNumber === pageNumber
+        );
+        for (const image of pageImages) {
+          const { data } = await worker.recognize(image.data);
+          texts.push(data.text.trim());
+          confidence += data.confidence / 100;
+        }
+
+        pages.push({
+          pageNumber,
+          text: texts.filter(text => text.length > 0).join('\n'),
+          confidence: confidence / pageImages.length,
+        });
+      }
+
+      onProgress?.({
+        currentStep: 'recognizing_text',
+        progress: 100,
+        message: `Recognized text on ${pageNumbers.length} page(s)`,
+        cancellable: false,
+      });
+
+      return {
+        text: pages
+          .map(page => page.text)
+          .filter(text => text.length > 0)
+          .join('\n\n'),
+        pages,
+        confidence:
+          pages.length > 0
+            ? pages.reduce((sum, page) => sum + page.confidence, 0) /
+              pages.length
+            : 0,
+      };
+    } finally {
+      await worker.terminate();
+    }
+  }
+
+  private static getBundledLangPath(): string {
+    return toUnpackedPath(
+      path.join(
+        path.dirname(require.resolve('@tesseract.js-data/eng/package.json')),
+        '4.0.0'
+      )
+    );
+  }
+
+  private static getBundledWorkerPath(): string {
+    return toUnpackedPath(
+      require.resolve('tesseract.js/src/worker-script/node/index.js')
+    );
+  }
+
+  private static findStreamDictionary(
+    source: string,
+    streamIndex: number
+  ): { objectNumber: number; dictionary: string } | undefined {
+    // The dictionary sits between the object header and the stream keyword
+    const windowStart = Math.max(0, streamIndex - 4096);
+    const window = source.slice(windowStart, streamIndex);
+
+    const objects = new RegExp(OBJECT_START);
+    let header: RegExpExecArray | undefined;
+    let match: RegExpExecArray | null;
+    while ((match = objects.exec(window)) !== null) {
+      header = match;
+    }
+
+    if (!header) return undefined;
+
+    const dictionary = window.slice(header.index + header[0].length).trim();
+    return dictionary.endsWith('>>')
+      ? { objectNumber: parseInt(header[1], 10), dictionary }
+      : undefined;
+  }
+
+  /**
+   * Convert image data to a format the OCR engine reads. Returns undefined
+   * for encodings it cannot read, such as CCITT fax and JBIG2.
+   */
+  private static decodeImage(
+    dictionary: string,
+    data: Buffer,
+    width: number,
+    height: number
+  ): Buffer | undefined {
+    const filters = this.readFilters(dictionary);
+    if (filters.length === 1 && filters[0] === 'DCTDecode') {
+      return data;
+    }
+    if (
+      filters.length > 1 ||
+      (filters.length === 1 && filters[0] !== 'FlateDecode') ||
+      /\/Indexed\b/.test(dictionary)
+    ) {
+      return undefined;
+    }
+
+    let samples: Buffer;
+    try {
+      samples = filters.length === 0 ? data : zlib.inflateSync(data);
+    } catch {
+      return undefined;
+    }
+
+    const imageMask = /\/ImageMask\s+true\b/.test(dictionary);
+    const bitsPerComponent = imageMask
+      ? 1
+      : (this.readInteger(dictionary, 'BitsPerComponent') ?? 8);
+    const predictor = this.readInteger(dictionary, 'Predictor') ?? 1;
+    const components =
+      this.readComponents(dictionary) ??
+      [1, 3].find(count => {
+        const rowLength = Math.ceil((width * count * bitsPerComponent) / 8);
+        const rowsLength = (rowLength + (predictor >= 10 ? 1 : 0)) * height;
+        return samples.length === rowsLength;
+      });
+    if (components === undefined) return undefined;
+
+    const rowLength = Math.ceil((width * components * bitsPerComponent) / 8);
+    if (predictor >= 10) {
+      const unfiltered = this.removePngPredictor(
+        samples,
+        rowLength,
+        Math.max(1, Math.ceil((components * bitsPerComponent) / 8))
+      );
+      if (!unfiltered) return undefined;
+      samples = unfiltered;
+    } else if (predictor !== 1) {
+      return undefined;
+    }
+    if (samples.length < rowLength * height) return undefined;
+    const pixels = samples.subarray(0, rowLength * height);
+
+    if (bitsPerComponent === 1 && components === 1) {
+      // PBM marks black with 1, while PDF paints 0 black unless the image
+      // has an inverted decode array
+      const inverted = /\/Decode\s*\[\s*1(?:\.0*)?\s+0(?:\.0*)?\s*\]/.test(
+        dictionary
+      );
+      return Buffer.concat([
+        Buffer.from(`P4\n${width} ${height}\n`, 'latin1'),
+        inverted ? pixels : pixels.map(byte => ~byte & 0xff),
+      ]);
+    }
+    if (bitsPerComponent === 8) {
+      const format = components === 1 ? 'P5' : 'P6';
+      return Buffer.concat([
+        Buffer.from(`${format}\n${width} ${height}\n255\n`, 'latin1'),
+        pixels,
+      ]);
+    }
+    return undefined;
+  }
+
+  // Colour components of an image; undefined when the colour space is
+  // stored elsewhere, as with ICC profiles
+  private static readComponents(dictionary: string): number | undefined {
+    if (
+      /\/ImageMask\s+true\b/.test(dictionary) ||
+      /\/ColorSpace\s*\/(?:DeviceGray|CalGray|G)\b/.test(dictionary)
+    ) {
+      return 1;
+    }
+    if (/\/ColorSpace\s*\/(?:DeviceRGB|CalRGB|RGB)\b/.test(dictionary)) {
+      return 3;
+    }
+    return undefined;
+  }
+
+  private static readFilters(dictionary: string): string[] {
+    const filter = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/);
+    return filter
+      ? [...filter[1].matchAll(/\/(\w+)/g)].map(name => name[1])
+      : [];
+  }
+
+  // Undo PNG row filters, which start each row with the filter type
+  private static removePngPredictor(
+    data: Buffer,
+    rowLength: number,
+    bytesPerPixel: number
+  ): Buffer | undefined {
+    const rows = Math.floor(data.length / (rowLength + 1));
+    const output = Buffer.alloc(rows * rowLength);
+
+    for (let row = 0; row < rows; row++) {
+      const filter = data[row * (rowLength + 1)];
+      const input = row * (rowLength + 1) + 1;
+      const start = row * rowLength;
+
+      for (let i = 0; i < rowLength; i++) {
+        const left = i >= bytesPerPixel ? output[start + i - bytesPerPixel] : 0;
+        const up = row > 0 ? output[start - rowLength + i] : 0;
+        const upLeft =
+          row > 0 && i >= bytesPerPixel
+            ? output[start - rowLength + i - bytesPerPixel]
+            : 0;
+        let predicted: number;
+        switch (filter) {
+          case 0:
+            predicted = 0;
+            break;
+          case 1:
+            predicted = left;
+            break;
+          case 2:
+            predicted = up;
+            break;
+          case 3:
+            predicted = (left + up) >> 1;
+            break;
+          case 4: {
+            const estimate = left + up - upLeft;
+            const toLeft = Math.abs(estimate - left);
+            const toUp = Math.abs(estimate - up);
+            const toUpLeft = Math.abs(estimate - upLeft);
+            predicted =
+              toLeft <= toUp && toLeft <= toUpLeft
+                ? left
+                : toUp <= toUpLeft
+                  ? up
+                  : upLeft;
+            break;
+          }
+          default:
+            return undefined;
+        }
+        output[start + i] = (data[input + i] + predicted) & 0xff;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Page number of each image drawn on exactly one page, found by walking
+   * the page tree and the resources of each page. Empty when the page tree
+   * cannot be read, e.g. when it is stored in compressed object streams.
+   */
+  private static findImagePages(source: string): Map<number, number> {
+    const objects = this.readObjectDictionaries(source);
+    const isPage = (dictionary: string) =>
+      /\/Type\s*\/Pages?\b/.test(dictionary);
+
+    // Pages in order, from the catalog's page tree
+    const pageIds: number[] = [];
+    const visitTree = (id: number, depth: number) => {
+      const node = objects.get(id);
+      if (!node || depth > MAX_PAGE_TREE_DEPTH) return;
+      if (/\/Type\s*\/Pages\b/.test(node)) {
+        const kids = node.match(/\/Kids\s*\[([^\]]*)\]/)?.[1] ?? '';
+        for (const kid of this.readReferences(kids)) {
+          visitTree(kid, depth + 1);
+        }
+      } else if (/\/Type\s*\/Page\b/.test(node)) {
+        pageIds.push(id);
+      }
+    };
+    const catalog = [...objects.values()].find(dictionary =>
+      /\/Type\s*\/Catalog\b/.test(dictionary)
+    );
+    const root = catalog?.match(/\/Pages\s+(\d+)\s+\d+\s+R\b/);
+    if (root) visitTree(parseInt(root[1], 10), 0);
+
+    const imagePages = new Map<number, Set<number>>();
+    pageIds.forEach((pageId, index) => {
+      const visited = new Set<number>();
+      const collect = (id: number, depth: number) => {
+        const dictionary = objects.get(id);
+        if (!dictionary || visited.has(id) || depth > MAX_RESOURCE_DEPTH) {
+          return;
+        }
+        visited.add(id);
+
+        if (/\/Subtype\s*\/Image\b/.test(dictionary)) {
+          const pages = imagePages.get(id) ?? new Set<number>();
+          imagePages.set(id, pages.add(index + 1));
+          return;
+        }
+        // Links to other pages, and to the parent, lead to their images
+        if (depth > 0 && isPage(dictionary)) return;
+        const references = dictionary.replace(
+          /\/Parent\s+\d+\s+\d+\s+R\b/g,
+          ''
+        );
+        for (const reference of this.readReferences(references)) {
+          collect(reference, depth + 1);
+        }
+      };
+      collect(pageId, 0);
+    });
+
+    return new Map(
+      [...imagePages]
+        .filter(([, pages]) => pages.size === 1)
+        .map(([id, pages]) => [id, [...pages][0]])
+    );
+  }
+
+  // Dictionary of every object, without stream data
+  private static readObjectDictionaries(source: string): Map<number, string> {
+    const dictionaries = new Map<number, string>();
+    const headers = new RegExp(OBJECT_START);
+    let match: RegExpExecArray | null;
+
+    while ((match = headers.exec(source)) !== null) {
+      const start = match.index + match[0].length;
+      const end = source.indexOf('endobj', start);
+      if (end === -1) break;
+
+      const body = source.slice(start, end);
+      const stream = body.search(/(?<!end)stream\r?\n/);
+      dictionaries.set(
+        parseInt(match[1], 10),
+        stream === -1 ? body : body.slice(0, stream)
+      );
+
+      // Skip stream data, which may contain anything
+      const objectEnd =
+        stream === -1
+          ? end
+          : source.indexOf(
+              'endobj',
+              source.indexOf('endstream', start + stream)
+            );
+      if (objectEnd === -1) break;
+      headers.lastIndex = objectEnd;
+    }
+
+    return dictionaries;
+  }
+
+  private static readReferences(text: string): number[] {
+    return [...text.matchAll(OBJECT_REFERENCE)].map(match =>
+      parseInt(match[1], 10)
+    );
+  }
+
+  private static readInteger(
+    dictionary: string,
+    key: string
+  ): number | undefined {
+    const match = dictionary.match(
+      new RegExp(`/${key}\\s+(\\d+)\\b(?!\\s+\\d+\\s+R)`)
+    );
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+
+  private static findStreamEnd(
+    source: string,
+    dictionary: string,
+    dataStart: number
+  ): number {
+    // Prefer a direct /Length; indirect lengths need the endstream keyword
+    const length = this.readInteger(dictionary, 'Length');
+    if (
+      length !== undefined &&
+      source.startsWith('endstream', this.skipEol(source, dataStart + length))
+    ) {
+      return dataStart + length;
+    }
+
+    const end = source.indexOf('endstream', dataStart);
+    if (end === -1) return -1;
+
+    // Drop the end-of-line marker before the keyword
+    let dataEnd = end;
+    if (source[dataEnd - 1] === '\n') dataEnd--;
+    if (source[dataEnd - 1] === '\r') dataEnd--;
+    return dataEnd;
+  }
+
+  private static skipEol(source: string, index: number): number {
+    let position = index;
+    while (source[position] === '\r' || source[position] === '\n') {
+      position++;
+    }
+    return position;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Page-aware PDF text extraction preserving printed screenplay page numbers
+ * Requirements: 2.1, 2.2
+ */
+
+import { ScriptPage } from '../../types/file-processing';
+
+/** Text item as returned by pdf.js getTextContent */
+export interface PdfTextItem {
+  str: string;
+  /** Transformation matrix; [4] and [5] are the x and y position */
+  transform: number[];
+  /** Rendered width of the text */
+  width?: number;
+}
+
+/** Page proxy passed by pdf-parse to its page renderer */
+export interface PdfPageData {
+  pageIndex: number;
+  getTextContent(options?: {
+    normalizeWhitespace?: boolean;
+    disableCombineTextItems?: boolean;
+  }): Promise<{ items: PdfTextItem[] }>;
+}
+
+export interface CleanedPage {
+  /** Page text without running headers and footers */
+  text: string;
+  /** Page number printed in the header or footer, if any (e.g. "12A") */
+  label?: string;
+}
+
+export interface PageLayout {
+  /** Text of all pages, separated by blank lines */
+  content: string;
+  /** Location of every page in the content */
+  pages: ScriptPage[];
+}
+
+// Lines of a page checked for running headers and footers
+const HEADER_FOOTER_LINES = 3;
+
+// "12.", "12A.", "- 12 -" and revised pages marked "12.*"
+const PAGE_NUMBER_LINE = /^-?\s*(\d+[A-Z]{0,2})\.?\s*-?\s*\*?$/;
+// "(CONTINUED)", "CONTINUED:", "CONTINUED: (2)" and "12 CONTINUED: 12"
+const CONTINUED_LINE =
+  /^(?:\d+[A-Z]?\s+)?\(?CONTINUED\)?(?::\s*(?:\(\d+\))?)?(?:\s+\d+[A-Z]?)?\s*\*?$/i;
+
+// Horizontal gap (in text space units) treated as a word break
+const WORD_GAP = 1;
+
+export class PdfPageExtractor {
+  /**
+   * Create a pdf-parse page renderer that also stores each page's text in
+   * `pages`, indexed by page
+   */
+  static createPageRenderer(
+    pages: string[]
+  ): (pageData: PdfPageData) => Promise<string> {
+    return async pageData => {
+      const textContent = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false,
+      });
+      const text = this.renderTextItems(textContent.items);
+      pages[pageData.pageIndex] = text;
+      return text;
+    };
+  }
+
+  /**
+   * Join text items into lines. Items on the same line separated by a gap
+   * (such as revision asterisks in the margin) are kept apart by a space.
+   */
+  static renderTextItems(items: PdfTextItem[]): string {
+    let text = '';
+    let lastY: number | undefined;
+    let lastEnd: number | undefined;
+
+    for (const item of items) {
+      const x = item.transform[4];
+      const y = item.transform[5];
+
+      if (lastY === undefined) {
+        text += item.str;
+      } else if (y !== lastY) {
+        text += `\n${item.str}`;
+      } else if (
+        lastEnd !== undefined &&
+        x - lastEnd > WORD_GAP &&
+        !text.endsWith(' ') &&
+        !item.str.startsWith(' ')
+      ) {
+        text += ` ${item.str}`;
+      } else {
+        text += item.str;
+      }
+
+      lastY = y;
+      lastEnd = item.width !== undefined ? x + item.width : undefined;
+    }
+
+    return text;
+  }
+
+  /**
+   * Remove page numbers and (CONTINUED) markers from the top and bottom of a
+   * page, keeping the printed page number as the page label
+   */
+  static cleanPage(text: string): CleanedPage {
+    const lines = text.split('\n');
+    let label: string | undefined;
+
+    const isHeaderOrFooter = (line: string): boolean => {
+      const trimmed = line.trim();
+      const pageNumber = trimmed.match(PAGE_NUMBER_LINE);
+      if (pageNumber) {
+        label = label ?? pageNumber[1].toUpperCase();
+        return true;
+      }
+      return CONTINUED_LINE.test(trimmed);
+    };
+
+    let first = 0;
+    let checked = 0;
+    while (first < lines.length && checked < HEADER_FOOTER_LINES) {
+      if (lines[first].trim().length > 0) {
+        if (!isHeaderOrFooter(lines[first])) break;
+        checked++;
+      }
+      first++;
+    }
+
+    let last = lines.length;
+    checked = 0;
+    while (last > first && checked < HEADER_FOOTER_LINES) {
+      if (lines[last - 1].trim().length > 0) {
+        if (!isHeaderOrFooter(lines[last - 1])) break;
+        checked++;
+      }
+      last--;
+    }
+
+    const body = lines
+      .slice(first, last)
+      .map(line => line.trimEnd())
+      .join('\n')
+      .replace(/^\n+|\n+$/g, '');
+
+    return { text: body, label };
+  }
+
+  /**
+   * Clean every page and join them into one content string, recording
+   * where each page starts and ends
+   */
+  static assemble(pageTexts: string[]): PageLayout {
+    let content = '';
+    const pages: ScriptPage[] = [];
+
+    // Array.from turns pages that failed to render into empty pages
+    Array.from(pageTexts).forEach((pageText, index) => {
+      const { text, label } = this.cleanPage(pageText ?? '');
+
+      if (content.length > 0 && text.length > 0) {
+        content += '\n\n';
+      }
+
+      const start = content.length;
+      content += text;
+      pages.push({ pageNumber: index + 1, label, start, end: content.length });
+    });
+
+    return { content, pages };
+  }
+
+  /**
+   * Page count as printed on the script: the highest numbered page, or the
+   * number of pages when none are numbered
+   */
+  static countPrintedPages(pages: ScriptPage[]): number {
+    const numbers = pages
+      .map(page => (page.label ? parseInt(page.label, 10) : NaN))
+      .filter(number => !Number.isNaN(number));
+
+    return numbers.length > 0 ? Math.max(...numbers) : pages.length;
+  }
+
+  /**
+   * Find the page containing an offset in the content
+   */
+  static findPage(pages: ScriptPage[], offset: number): ScriptPage | undefined {
+    return pages.find(page => offset >= page.start && offset < page.end);
+  }
+
+  /**
+   * Page number as printed on the page, or its position in the file when
+   * the page is not numbered
+   */
+  static getPageLabel(page: ScriptPage): string {
+    return page.label ?? `${page.pageNumber}`;
+  }
+
+  /**
+   * Content with a "[Page 12]" line at the start of each page, so analysis
+   * can refer to printed page numbers. Unnumbered pages such as the title
+   * page are not marked when other pages are numbered. Content without
+   * pages is unchanged.
+   */
+  static markPages(content: string, pages: ScriptPage[] = []): string {
+    const numbered = pages.some(page => page.label);
+    let marked = '';
+    let offset = 0;
+
+    for (const page of pages) {
+      if (page.end <= page.start || (numbered && !page.label)) {
+        continue;
+      }
+      marked += content.slice(offset, page.start);
+      marked += `[Page ${this.getPageLabel(page)}]\n`;
+      offset = page.start;
+    }
+
+    return marked + content.slice(offset);
+  }
+}
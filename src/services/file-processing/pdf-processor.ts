@@ -7,17 +7,47 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import pdfParse from './pdf-parse-wrapper';
 import { BaseFileProcessor } from './base-processor';
-import { ParsedScript, ValidationResult } from '../../types/file-processing';
+import { ScreenplayElementDetector } from './screenplay-elements';
+import { PdfPageExtractor, PageLayout } from './pdf-pages';
+import {
+  PdfOcrService,
+  OcrResult,
+  OCR_MIN_CHARACTERS_PER_PAGE,
+} from './pdf-ocr';
+import {
+  ParsedScript,
+  ProcessingProgressCallback,
+  ValidationResult,
+  ValidationWarning,
+} from '../../types/file-processing';
 import { FileType } from '../../types/script';
 
+export interface PdfProcessorOptions {
+  /** Recognize scanned pages when the PDF has too little text (default true) */
+  enableOcr?: boolean;
+  /** Extracted characters per page below which OCR is attempted */
+  ocrMinCharactersPerPage?: number;
+}
+
 export class PdfProcessor extends BaseFileProcessor {
-  constructor() {
+  private readonly enableOcr: boolean;
+  private readonly ocrMinCharactersPerPage: number;
+
+  constructor(options: PdfProcessorOptions = {}) {
     super(['.pdf'], 50 * 1024 * 1024); // 50MB max for PDFs
+    this.enableOcr = options.enableOcr ?? true;
+    this.ocrMinCharactersPerPage =
+      options.ocrMinCharactersPerPage ?? OCR_MIN_CHARACTERS_PER_PAGE;
   }
 
-  async parseFile(filePath: string, fileType: FileType): Promise<ParsedScript> {
+  async parseFile(
+    filePath: string,
+    fileType: FileType,
+    onProgress?: ProcessingProgressCallback
+  ): Promise<ParsedScript> {
     try {
       // First validate the file
+      this.reportProgress(onProgress, 'validating');
       const validation = await this.validateFile(filePath);
       if (!validation.isValid) {
         throw new Error(
@@ -26,16 +56,51 @@ export class PdfProcessor extends BaseFileProcessor {
       }
 
       // Read the PDF file
+      this.reportProgress(onProgress, 'reading');
       const buffer = await fs.readFile(filePath);
 
-      // Parse PDF content
-      const pdfData = await this.parsePdfBuffer(buffer);
+      // Parse PDF content, keeping the text of each page
+      this.reportProgress(onProgress, 'parsing');
+      const pageTexts: string[] = [];
+      const pdfData = await this.parsePdfBuffer(buffer, pageTexts);
+      let layout: PageLayout =
+        pageTexts.length > 0
+          ? PdfPageExtractor.assemble(pageTexts)
+          : { content: pdfData.text, pages: [] };
+
+      // Scanned PDFs have little or no text layer - fall back to OCR
+      const ocrWarnings: string[] = [];
+      let ocr: OcrResult | undefined;
+      if (
+        this.enableOcr &&
+        PdfOcrService.needsOcr(
+          layout.content,
+          pdfData.numpages,
+          this.ocrMinCharactersPerPage
+        )
+      ) {
+        ocr = await this.runOcr(
+          buffer,
+          layout.content,
+          ocrWarnings,
+          onProgress
+        );
+      }
+      if (ocr) {
+        // Pages without readable images stay in place as blank pages
+        const ocrPageTexts: string[] = [];
+        for (const page of ocr.pages) {
+          ocrPageTexts[page.pageNumber - 1] = page.text;
+        }
+        layout = PdfPageExtractor.assemble(ocrPageTexts);
+      }
+      const { content, pages } = layout;
 
       // Extract metadata
+      this.reportProgress(onProgress, 'extracting_metadata');
       const fileName = path.basename(filePath, path.extname(filePath));
       const title =
-        pdfData.info?.Title ||
-        this.extractTitleFromContent(pdfData.text, fileName);
+        pdfData.info?.Title || this.extractTitleFromContent(content, fileName);
 
       // Create additional metadata specific to PDF
       const additionalMetadata = {
@@ -49,12 +114,14 @@ export class PdfProcessor extends BaseFileProcessor {
         author: pdfData.info?.Author,
         subject: pdfData.info?.Subject,
         keywords: pdfData.info?.Keywords,
+        ocrUsed: ocr !== undefined,
+        ocrConfidence: ocr?.confidence,
       };
 
       // Create script metadata
       const metadata = this.createScriptMetadata(
         title,
-        pdfData.text,
+        content,
         validation.fileSize,
         additionalMetadata
       );
@@ -64,25 +131,29 @@ export class PdfProcessor extends BaseFileProcessor {
         metadata.author = pdfData.info.Author;
       }
 
-      // Add page count
-      metadata.pageCount = pdfData.numpages;
+      // Use the printed page count when pages are numbered
+      metadata.pageCount =
+        pages.length > 0
+          ? PdfPageExtractor.countPrintedPages(pages)
+          : pdfData.numpages;
 
       // Validate content and collect warnings
-      const contentWarnings = await this.validateFileContent(pdfData.text);
-      const warnings: string[] = [];
+      this.reportProgress(onProgress, 'validating_content');
+      const contentWarnings = await this.validateFileContent(content);
+      const warnings: string[] = [...ocrWarnings];
 
       // Add PDF-specific warnings
       if (pdfData.numpages === 0) {
         warnings.push('PDF appears to have no pages');
       }
 
-      if (pdfData.text.trim().length === 0) {
+      if (content.trim().length === 0) {
         warnings.push(
           'No text content extracted from PDF - may be image-based or corrupted'
         );
       }
 
-      if (pdfData.text.length < 100 && pdfData.numpages > 1) {
+      if (content.length < 100 && pdfData.numpages > 1) {
         warnings.push(
           'Very little text extracted relative to page count - PDF may contain mostly images'
         );
@@ -94,11 +165,15 @@ export class PdfProcessor extends BaseFileProcessor {
       });
 
       return {
-        content: pdfData.text,
+        content,
         title,
         metadata,
         warnings: warnings.length > 0 ? warnings : undefined,
-        confidence: this.calculateConfidence(pdfData, validation.fileSize),
+        confidence: ocr
+          ? this.calculateOcrConfidence(ocr)
+          : this.calculateConfidence(pdfData, validation.fileSize),
+        elements: ScreenplayElementDetector.detect(content),
+        pages: pages.length > 0 ? pages : undefined,
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -108,12 +183,16 @@ export class PdfProcessor extends BaseFileProcessor {
     }
   }
 
-  private async parsePdfBuffer(buffer: Buffer): Promise<any> {
+  private async parsePdfBuffer(
+    buffer: Buffer,
+    pageTexts: string[]
+  ): Promise<any> {
     try {
       return await pdfParse(buffer, {
         // PDF parsing options
         max: 0, // Parse all pages
         version: 'v1.10.100', // Specify pdf2pic version if needed
+        pagerender: PdfPageExtractor.createPageRenderer(pageTexts),
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -133,6 +212,79 @@ export class PdfProcessor extends BaseFileProcessor {
     }
   }
 
+  /**
+   * Recognize scanned page images. Returns undefined when the PDF has no
+   * readable page images or recognition did not produce more text than the
+   * text layer.
+   */
+  private async runOcr(
+    buffer: Buffer,
+    extractedText: string,
+    warnings: string[],
+    onProgress?: ProcessingProgressCallback
+  ): Promise<OcrResult | undefined> {
+    const { images, unsupportedEncodings } =
+      PdfOcrService.extractPageImages(buffer);
+    const encodings = unsupportedEncodings.join(', ');
+
+    if (images.length === 0) {
+      const warning: ValidationWarning = {
+        code: 'OCR_NO_PAGE_IMAGES',
+        message: encodings
+          ? `This PDF looks scanned, but its page images use ${encodings} encoding, which text recognition cannot read - little or no text was extracted`
+          : 'This PDF looks scanned, but no page images were found for text recognition - little or no text was extracted',
+      };
+      warnings.push(`${warning.code}: ${warning.message}`);
+      return undefined;
+    }
+    if (encodings) {
+      const warning: ValidationWarning = {
+        code: 'OCR_PAGES_SKIPPED',
+        message: `Some scanned page images use ${encodings} encoding, which text recognition cannot read - those pages were skipped`,
+      };
+      warnings.push(`${warning.code}: ${warning.message}`);
+    }
+
+    try {
+      // Page progress is reported as part of the overall processing progress
+      const ocr = await PdfOcrService.recognize(images, {
+        onProgress: progress =>
+          this.reportProgress(
+            onProgress,
+            'recognizing_text',
+            progress.progress / 100,
+            progress.message
+          ),
+      });
+      if (ocr.text.trim().length <= extractedText.trim().length) {
+        return undefined;
+      }
+
+      const warning: ValidationWarning = {
+        code: 'OCR_USED',
+        message: `Text was recognized with OCR from ${ocr.pages.length} scanned page(s) at ${Math.round(ocr.confidence * 100)}% average confidence - it may contain recognition errors`,
+      };
+      warnings.push(`${warning.code}: ${warning.message}`);
+
+      return ocr;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      warnings.push(`OCR of scanned pages failed: ${message}`);
+      return undefined;
+    }
+  }
+
+  private calculateOcrConfidence(ocr: OcrResult): number {
+    let confidence = ocr.confidence;
+
+    // Very short recognized text is unlikely to be a whole script
+    if (ocr.text.trim().length < 100) {
+      confidence *= 0.3;
+    }
+
+    return Math.max(0.1, Math.min(1.0, confidence));
+  }
+
   private calculateConfidence(pdfData: any, fileSize: number): number {
     let confidence = 1.0;
 
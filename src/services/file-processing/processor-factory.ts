@@ -11,6 +11,8 @@ import { FileType } from '../../types/script';
 import { PdfProcessor } from './pdf-processor';
 import { DocxProcessor } from './docx-processor';
 import { TxtProcessor } from './txt-processor';
+import { FdxProcessor } from './fdx-processor';
+import { FountainProcessor } from './fountain-processor';
 
 export class FileProcessorFactoryImpl implements FileProcessorFactory {
   private processors: Map<FileType, FileProcessor>;
@@ -24,6 +26,8 @@ export class FileProcessorFactoryImpl implements FileProcessorFactory {
     this.processors.set('pdf', new PdfProcessor());
     this.processors.set('docx', new DocxProcessor());
     this.processors.set('txt', new TxtProcessor());
+    this.processors.set('fdx', new FdxProcessor());
+    this.processors.set('fountain', new FountainProcessor());
   }
 
   createProcessor(fileType: FileType): FileProcessor {
@@ -55,6 +59,10 @@ export class FileProcessorFactoryImpl implements FileProcessorFactory {
       case 'txt':
       case 'text':
         return this.createProcessor('txt');
+      case 'fdx':
+        return this.createProcessor('fdx');
+      case 'fountain':
+        return this.createProcessor('fountain');
       default:
         throw new Error(`Unsupported file extension: ${extension}`);
     }
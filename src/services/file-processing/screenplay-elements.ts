@@ -0,0 +1,244 @@
+/**
+ * Screenplay element detection shared by the file processors
+ * Requirements: 2.1, 2.2
+ */
+
+import {
+  ScreenplayElement,
+  ScreenplayElementType,
+} from '../../types/file-processing';
+
+interface ContentLine {
+  /** Line text without surrounding whitespace */
+  text: string;
+  /** Leading whitespace width, with tabs counted as four columns */
+  indent: number;
+  /** Offset of the trimmed text in the content */
+  start: number;
+  /** Offset just past the trimmed text in the content */
+  end: number;
+}
+
+const SCENE_HEADING_PATTERN =
+  /^(?:\d+[A-Z]?\.?\s+)?(?:INT|EXT|EST|INT\.?\/EXT|EXT\.?\/INT|I\/E)[. ]/i;
+const TRANSITION_PATTERN =
+  /^(?:[A-Z0-9 .'-]+ (?:TO|IN):|FADE (?:OUT|TO BLACK)\.?)$/;
+const CHARACTER_NAME_PATTERN = /^[A-Z0-9][A-Z0-9 .'&#-]*$/;
+const PAGE_NUMBER_PATTERN = /^\d+\.?$/;
+
+// Indentation (relative to the least indented line) used by screenplay
+// layouts exported as plain text
+const DIALOGUE_MIN_INDENT = 8;
+const CHARACTER_MIN_INDENT = 15;
+const TRANSITION_MIN_INDENT = 35;
+
+export interface DetectionOptions {
+  /**
+   * Each line is a complete paragraph (e.g. text converted from a word
+   * processor), so consecutive lines are never merged into one element
+   */
+  lineIsParagraph?: boolean;
+}
+
+export class ScreenplayElementDetector {
+  /**
+   * Detect screenplay elements in unstructured text using line layout,
+   * capitalization and indentation heuristics
+   */
+  static detect(
+    content: string,
+    options: DetectionOptions = {}
+  ): ScreenplayElement[] {
+    const { lineIsParagraph = false } = options;
+    const lines = this.splitLines(content);
+    const nonBlank = lines.filter(line => line.text.length > 0);
+    if (nonBlank.length === 0) return [];
+
+    const baseIndent = Math.min(...nonBlank.map(line => line.indent));
+    const indented = nonBlank.filter(
+      line => line.indent - baseIndent >= DIALOGUE_MIN_INDENT
+    ).length;
+    // Only trust indentation when the layout actually uses it
+    const useIndentation = indented >= 2 && indented < nonBlank.length;
+
+    const elements: ScreenplayElement[] = [];
+    let inSpeech = false;
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+
+      if (line.text.length === 0) {
+        inSpeech = false;
+        continue;
+      }
+
+      // Page numbers are layout, not screenplay content
+      if (PAGE_NUMBER_PATTERN.test(line.text)) continue;
+
+      const indent = line.indent - baseIndent;
+      const previousBlank = index === 0 || lines[index - 1].text.length === 0;
+      const next = lines[index + 1];
+      const nextBlank = next === undefined || next.text.length === 0;
+      const last = elements[elements.length - 1];
+
+      if (inSpeech) {
+        const leftSpeech =
+          (useIndentation && indent < DIALOGUE_MIN_INDENT) ||
+          this.isSceneHeading(line.text) ||
+          this.isTransition(line.text, indent, useIndentation);
+
+        if (!leftSpeech) {
+          if (
+            last.type === 'parenthetical' &&
+            !last.text.endsWith(')') &&
+            !line.text.startsWith('(')
+          ) {
+            this.extend(last, line);
+          } else if (line.text.startsWith('(')) {
+            elements.push(this.create('parenthetical', line));
+          } else if (last.type === 'dialogue' && !lineIsParagraph) {
+            this.extend(last, line);
+          } else {
+            elements.push(this.create('dialogue', line));
+            // A dialogue paragraph closes the speech block
+            inSpeech = !lineIsParagraph;
+          }
+          continue;
+        }
+
+        inSpeech = false;
+      }
+
+      if (this.isSceneHeading(line.text)) {
+        elements.push(this.create('scene_heading', line));
+        continue;
+      }
+
+      if (this.isTransition(line.text, indent, useIndentation)) {
+        elements.push(this.create('transition', line));
+        continue;
+      }
+
+      if (
+        !nextBlank &&
+        this.isCharacterCue(line.text) &&
+        (!useIndentation || indent >= CHARACTER_MIN_INDENT)
+      ) {
+        elements.push(this.create('character', line));
+        inSpeech = true;
+        continue;
+      }
+
+      // Consecutive action lines form a single paragraph
+      if (
+        last &&
+        last.type === 'action' &&
+        !previousBlank &&
+        !lineIsParagraph
+      ) {
+        this.extend(last, line);
+      } else {
+        elements.push(this.create('action', line));
+      }
+    }
+
+    return elements;
+  }
+
+  /**
+   * Find already-classified elements in the rendered content to attach
+   * source offsets. Elements whose text cannot be found are skipped.
+   */
+  static locate(
+    content: string,
+    items: Array<{ type: ScreenplayElementType; text: string }>
+  ): ScreenplayElement[] {
+    const elements: ScreenplayElement[] = [];
+    let cursor = 0;
+
+    for (const item of items) {
+      const text = item.text.trim();
+      if (text.length === 0) continue;
+
+      const start = content.indexOf(text, cursor);
+      if (start === -1) continue;
+
+      const end = start + text.length;
+      elements.push({ type: item.type, text, start, end });
+      cursor = end;
+    }
+
+    return elements;
+  }
+
+  private static splitLines(content: string): ContentLine[] {
+    const lines: ContentLine[] = [];
+    let offset = 0;
+
+    for (const raw of content.split('\n')) {
+      const leading = raw.length - raw.trimStart().length;
+      const text = raw.trim();
+
+      lines.push({
+        text,
+        indent: raw.slice(0, leading).replace(/\t/g, '    ').length,
+        start: offset + leading,
+        end: offset + leading + text.length,
+      });
+
+      offset += raw.length + 1;
+    }
+
+    return lines;
+  }
+
+  private static create(
+    type: ScreenplayElementType,
+    line: ContentLine
+  ): ScreenplayElement {
+    return { type, text: line.text, start: line.start, end: line.end };
+  }
+
+  private static extend(element: ScreenplayElement, line: ContentLine): void {
+    element.text += `\n${line.text}`;
+    element.end = line.end;
+  }
+
+  private static isSceneHeading(text: string): boolean {
+    return text.length < 120 && SCENE_HEADING_PATTERN.test(text);
+  }
+
+  private static isTransition(
+    text: string,
+    indent: number,
+    useIndentation: boolean
+  ): boolean {
+    if (!this.isUpperCase(text)) return false;
+    if (TRANSITION_PATTERN.test(text)) return true;
+    return (
+      useIndentation && indent >= TRANSITION_MIN_INDENT && text.endsWith(':')
+    );
+  }
+
+  private static isCharacterCue(text: string): boolean {
+    // Extensions like (V.O.) or (CONT'D) and the dual dialogue caret are
+    // not part of the name
+    const name = text
+      .replace(/\s*\(.*?\)\s*/g, ' ')
+      .replace(/\^$/, '')
+      .trim();
+
+    return (
+      name.length > 0 &&
+      name.length <= 40 &&
+      name.split(/\s+/).length <= 4 &&
+      this.isUpperCase(name) &&
+      CHARACTER_NAME_PATTERN.test(name) &&
+      !/[.!?,:]$/.test(text)
+    );
+  }
+
+  private static isUpperCase(text: string): boolean {
+    return text === text.toUpperCase() && /[A-Z]/.test(text);
+  }
+}
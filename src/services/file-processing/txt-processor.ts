@@ -7,7 +7,12 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as iconv from 'iconv-lite';
 import { BaseFileProcessor } from './base-processor';
-import { ParsedScript, ValidationResult } from '../../types/file-processing';
+import { ScreenplayElementDetector } from './screenplay-elements';
+import {
+  ParsedScript,
+  ProcessingProgressCallback,
+  ValidationResult,
+} from '../../types/file-processing';
 import { FileType } from '../../types/script';
 
 export class TxtProcessor extends BaseFileProcessor {
@@ -15,9 +20,14 @@ export class TxtProcessor extends BaseFileProcessor {
     super(['.txt', '.text'], 10 * 1024 * 1024); // 10MB max for text files
   }
 
-  async parseFile(filePath: string, fileType: FileType): Promise<ParsedScript> {
+  async parseFile(
+    filePath: string,
+    fileType: FileType,
+    onProgress?: ProcessingProgressCallback
+  ): Promise<ParsedScript> {
     try {
       // First validate the file
+      this.reportProgress(onProgress, 'validating');
       const validation = await this.validateFile(filePath);
       if (!validation.isValid) {
         throw new Error(
@@ -26,6 +36,7 @@ export class TxtProcessor extends BaseFileProcessor {
       }
 
       // Read the text file with encoding detection
+      this.reportProgress(onProgress, 'reading');
       const {
         content,
         encoding,
@@ -33,6 +44,7 @@ export class TxtProcessor extends BaseFileProcessor {
       } = await this.readTextFileWithEncoding(filePath);
 
       // Extract metadata
+      this.reportProgress(onProgress, 'extracting_metadata');
       const fileName = path.basename(filePath, path.extname(filePath));
       const title = this.extractTitleFromContent(content, fileName);
 
@@ -64,6 +76,7 @@ export class TxtProcessor extends BaseFileProcessor {
       };
 
       // Validate content and collect warnings
+      this.reportProgress(onProgress, 'validating_content');
       const contentWarnings = await this.validateFileContent(content);
       const warnings: string[] = [];
 
@@ -109,6 +122,7 @@ export class TxtProcessor extends BaseFileProcessor {
           encodingConfidence,
           validation.fileSize
         ),
+        elements: ScreenplayElementDetector.detect(content),
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for BenchmarkScorer
+ * Requirements: 7.1, 7.4
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BenchmarkScorer } from '../benchmark-scorer';
+import type { BenchmarkSampleResult } from '../../../types/benchmark';
+import type { Character } from '../../../types/summary';
+
+const character = (name: string): Character => ({
+  name,
+  description: '',
+  importance: 'main',
+  relationships: [],
+});
+
+const reference = {
+  characters: ['Ellen Marsh', 'Danny Marsh', 'Rosie'],
+  genre: 'Drama',
+  themes: ['duty', 'family', 'community'],
+};
+
+const sampleResult = (
+  overrides: Partial<BenchmarkSampleResult>
+): BenchmarkSampleResult => ({
+  sampleId: 'sample',
+  tokensPerSecond: 20,
+  timeToFirstTokenMs: 300,
+  durationMs: 10000,
+  accuracy: { characters: 1, genre: 1, themes: 1, overall: 1 },
+  ...overrides,
+});
+
+describe('BenchmarkScorer', () => {
+  describe('scoreSummary', () => {
+    it('scores a summary that finds the whole reference', () => {
+      const accuracy = BenchmarkScorer.scoreSummary(
+        {
+          mainCharacters: [
+            character('ELLEN'),
+            character('Danny'),
+            character('Rosie'),
+          ],
+          genre: 'Drama',
+          themes: ['A sense of duty', 'Families', 'Small communities'],
+        },
+        reference
+      );
+
+      expect(accuracy).toEqual({
+        characters: 1,
+        genre: 1,
+        themes: 1,
+        overall: 1,
+      });
+    });
+
+    it('does not credit characters for sharing a surname', () => {
+      const accuracy = BenchmarkScorer.scoreSummary(
+        {
+          mainCharacters: [character('Ellen Marsh')],
+          genre: 'Family Drama',
+          themes: ['isolation'],
+        },
+        reference
+      );
+
+      expect(accuracy.characters).toBeCloseTo(1 / 3);
+      expect(accuracy.genre).toBeCloseTo(2 / 3);
+      expect(accuracy.themes).toBe(0);
+    });
+  });
+
+  describe('similarity', () => {
+    it('compares words rather than substrings', () => {
+      expect(BenchmarkScorer.similarity('Hello', 'Hello')).toBe(1);
+      expect(BenchmarkScorer.similarity('Hello there', 'Hello')).toBeCloseTo(
+        2 / 3
+      );
+      // "i" and "am" would otherwise be found inside other words
+      expect(BenchmarkScorer.similarity('Amiable', 'I am')).toBe(0);
+    });
+  });
+
+  describe('summarize', () => {
+    it('averages timings over the samples that ran', () => {
+      const result = BenchmarkScorer.summarize('llama3.1:8b', [
+        sampleResult({ tokensPerSecond: 30, memoryBytes: 5e9 }),
+        sampleResult({ tokensPerSecond: 10, memoryBytes: 6e9 }),
+        sampleResult({
+          tokensPerSecond: 0,
+          accuracy: { characters: 0, genre: 0, themes: 0, overall: 0 },
+          error: 'Generation failed: model not found',
+        }),
+      ]);
+
+      expect(result.tokensPerSecond).toBe(20);
+      expect(result.memoryBytes).toBe(6e9);
+      expect(result.accuracy.overall).toBeCloseTo(2 / 3);
+      expect(result.samples).toHaveLength(3);
+    });
+  });
+
+  describe('toModelPerformance', () => {
+    it('rates models from measured results', () => {
+      const performance = BenchmarkScorer.toModelPerformance(
+        BenchmarkScorer.summarize('llama3.1:8b', [
+          sampleResult({
+            tokensPerSecond: 25,
+            memoryBytes: 6e9,
+            accuracy: {
+              characters: 1,
+              genre: 0.5,
+              themes: 0.75,
+              overall: 0.75,
+            },
+          }),
+        ])
+      );
+
+      expect(performance).toMatchObject({
+        averageResponseTime: 10000,
+        qualityRating: 4,
+        memoryEfficiency: 3,
+        speedRating: 4,
+        tokensPerSecond: 25,
+        accuracy: 0.75,
+      });
+      expect(performance.benchmarkedAt).toBeInstanceOf(Date);
+    });
+  });
+});
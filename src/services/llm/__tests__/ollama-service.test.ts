@@ -5,6 +5,14 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { OllamaService } from '../ollama-service';
+import { promptTemplateRegistry } from '../prompt-template-registry';
+import {
+  CHARACTER_ANALYSIS_SCHEMA,
+  COVERAGE_SCHEMA,
+  PRODUCTION_NOTES_SCHEMA,
+  SUMMARY_SCHEMA,
+  THEME_ANALYSIS_SCHEMA,
+} from '../summary-schema';
 import { SummaryOptions } from '../../../types/llm-service';
 
 // Mock the ollama module
@@ -18,6 +26,43 @@ vi.mock('ollama', () => ({
   })),
 }));
 
+// Streamed responses arrive a word at a time
+async function* streamOf(text: string) {
+  for (const part of text.split(/(?<= )/)) {
+    yield { response: part };
+  }
+}
+
+const respond = (text: string, stream: boolean) =>
+  stream ? streamOf(text) : { response: text };
+
+// JSON-mode summary with only the required fields
+const summaryJson = (plotOverview: string) =>
+  JSON.stringify({
+    plotOverview,
+    mainCharacters: [],
+    themes: [],
+    productionNotes: [],
+    genre: 'Drama',
+  });
+
+// JSON-mode coverage report
+const coverageJson = (verdict: string) =>
+  JSON.stringify({
+    logline: 'Jo must walk home before dark.',
+    synopsis: 'Jo walks home.',
+    comments: 'Slight but charming.',
+    ratings: {
+      premise: 'fair',
+      structure: 'good',
+      characters: 'good',
+      dialogue: 'fair',
+      marketability: 'poor',
+    },
+    verdict,
+    genre: 'Drama',
+  });
+
 describe('OllamaService', () => {
   let service: OllamaService;
   let mockOllamaInstance: any;
@@ -95,6 +140,38 @@ describe('OllamaService', () => {
       expect(result[0].requirements).toHaveProperty('minMemoryGB');
     });
 
+    it('should use the details Ollama reports over the model name', async () => {
+      mockList.mockResolvedValue({
+        models: [
+          {
+            name: 'custom-model',
+            digest: 'sha256:abcd1234567890',
+            size: 4920753328,
+            details: {
+              family: 'llama',
+              format: 'gguf',
+              parameter_size: '8.0B',
+              quantization_level: 'Q4_K_M',
+            },
+          },
+        ],
+      });
+
+      const [model] = await service.listAvailableModels();
+
+      expect(model.parameterCount).toBe('8B');
+      expect(model.details).toMatchObject({
+        family: 'llama',
+        quantization: 'Q4_K_M',
+        sizeBytes: 4920753328,
+      });
+      expect(model.requirements).toMatchObject({
+        minMemoryGB: 7,
+        recommendedMemoryGB: 14,
+        diskSpaceGB: 5,
+      });
+    });
+
     it('should return empty array when list fails', async () => {
       mockList.mockRejectedValue(new Error('Failed to connect'));
 
@@ -264,9 +341,12 @@ describe('OllamaService', () => {
       await service.setActiveModel('llama2:7b');
 
       // Setup generation response
-      mockGenerate.mockResolvedValue({
-        response: 'This is a test summary of the script content.',
-      });
+      mockGenerate.mockImplementation(async ({ stream }) =>
+        respond(
+          summaryJson('This is a test summary of the script content.'),
+          stream
+        )
+      );
 
       const result = await service.generateSummary(
         'test script content',
@@ -281,6 +361,79 @@ describe('OllamaService', () => {
       expect(result.generationOptions).toEqual(mockSummaryOptions);
       expect(result.createdAt).toBeInstanceOf(Date);
       expect(result.updatedAt).toBeInstanceOf(Date);
+      expect(mockGenerate.mock.calls[0][0].format).toEqual(SUMMARY_SCHEMA);
+    });
+
+    it('should send validation errors back to the model', async () => {
+      mockList.mockResolvedValue({
+        models: [{ name: 'llama2:7b', digest: 'abc', size: 123 }],
+      });
+      await service.setActiveModel('llama2:7b');
+      const character = {
+        name: 'Jo',
+        description: 'A walker',
+        relationships: [],
+      };
+      mockGenerate
+        .mockImplementationOnce(async ({ stream }) =>
+          respond(
+            JSON.stringify({
+              plotOverview: 'Jo walks home.',
+              mainCharacters: [{ ...character, importance: 'hero' }],
+              themes: [],
+              productionNotes: [],
+            }),
+            stream
+          )
+        )
+        .mockImplementationOnce(async ({ stream }) =>
+          respond(
+            JSON.stringify({
+              plotOverview: 'Jo walks home.',
+              mainCharacters: [{ ...character, importance: 'protagonist' }],
+              themes: [],
+              productionNotes: [],
+              genre: 'Drama',
+            }),
+            stream
+          )
+        );
+
+      const result = await service.generateSummary(
+        'test script content',
+        mockSummaryOptions
+      );
+
+      expect(result.mainCharacters[0].importance).toBe('protagonist');
+      expect(mockGenerate).toHaveBeenCalledTimes(2);
+
+      const repairPrompt = mockGenerate.mock.calls[1][0].prompt;
+      expect(repairPrompt).toContain(
+        '- mainCharacters[0].importance: Character importance must be one of: protagonist, main, supporting, minor (found "hero")'
+      );
+      expect(repairPrompt).toContain(
+        '- genre: Genre is required and must be a string'
+      );
+      expect(repairPrompt).toContain('"importance":"hero"');
+    });
+
+    it('should parse the response as free text when corrections fail', async () => {
+      mockList.mockResolvedValue({
+        models: [{ name: 'llama2:7b', digest: 'abc', size: 123 }],
+      });
+      await service.setActiveModel('llama2:7b');
+      mockGenerate.mockImplementation(async ({ stream }) =>
+        respond('## PLOT OVERVIEW\nJo walks home.\n\n## GENRE\nDrama', stream)
+      );
+
+      const result = await service.generateSummary(
+        'test script content',
+        mockSummaryOptions
+      );
+
+      expect(mockGenerate).toHaveBeenCalledTimes(3);
+      expect(result.plotOverview).toContain('Jo walks home.');
+      expect(result.genre).toBe('Drama');
     });
 
     it('should handle generation errors', async () => {
@@ -299,6 +452,700 @@ describe('OllamaService', () => {
         service.generateSummary('test content', mockSummaryOptions)
       ).rejects.toThrow('Failed to generate summary: Generation failed');
     });
+
+    it('should give up after a bounded number of attempts', async () => {
+      mockList.mockResolvedValue({
+        models: [{ name: 'llama2:7b', digest: 'abc', size: 123 }],
+      });
+      await service.setActiveModel('llama2:7b');
+      mockGenerate.mockRejectedValue(new Error('Generation failed'));
+
+      await expect(
+        service.generateSummary('test content', mockSummaryOptions)
+      ).rejects.toThrow(/^Failed to generate summary: Generation failed$/);
+
+      // The first attempt and three retries, each a single request
+      expect(mockGenerate).toHaveBeenCalledTimes(4);
+    });
+
+    it('should stream the summary with section progress', async () => {
+      mockList.mockResolvedValue({
+        models: [{ name: 'llama2:7b', digest: 'abc', size: 123 }],
+      });
+      await service.setActiveModel('llama2:7b');
+      mockGenerate.mockImplementation(async ({ stream }) =>
+        respond(
+          '{ "plotOverview": "Jo walks home.", "mainCharacters": [{ "name": "Jo", "description": "A walker.", "importance": "protagonist", "relationships": [] }], "themes": [], "productionNotes": [], "genre": "Drama" }',
+          stream
+        )
+      );
+      const onProgress = vi.fn();
+
+      const result = await service.generateSummary(
+        'test script content',
+        mockSummaryOptions,
+        'script_1',
+        onProgress
+      );
+
+      expect(mockGenerate.mock.calls[0][0].stream).toBe(true);
+      expect(result.plotOverview).toContain('Jo walks home.');
+
+      const progress = onProgress.mock.calls.map(call => call[0]);
+      expect(progress.map(p => p.stage)).toEqual([
+        'analyzing_content',
+        'analyzing_content',
+        'extracting_plot',
+        'identifying_characters',
+        'analyzing_themes',
+        'generating_production_notes',
+        'finalizing',
+        'complete',
+      ]);
+      expect(progress[2]).toMatchObject({
+        scriptId: 'script_1',
+        message: 'Writing plot overview',
+      });
+      expect(progress[2].partialText).toBe('{ "plotOverview": ');
+      expect(progress[3].partialText).toContain('Jo walks home.');
+      expect(progress[3].progress).toBeGreaterThan(0);
+      expect(progress[3].progress).toBeLessThan(100);
+    });
+
+    describe('prompt templates', () => {
+      beforeEach(async () => {
+        mockList.mockResolvedValue({
+          models: [{ name: 'llama2:7b', digest: 'abc', size: 123 }],
+        });
+        await service.setActiveModel('llama2:7b');
+        mockGenerate.mockImplementation(async ({ stream }) =>
+          respond(summaryJson('Jo walks home.'), stream)
+        );
+        promptTemplateRegistry.setLoader(async templateId =>
+          templateId === '3'
+            ? {
+                id: '3',
+                version: 2,
+                body: 'Studio coverage of:\n{{script}}\n\n{{outputFormat}}',
+              }
+            : null
+        );
+      });
+
+      afterEach(() => {
+        promptTemplateRegistry.setLoader(null);
+      });
+
+      it('should render the selected template and record its version', async () => {
+        const result = await service.generateSummary('test script content', {
+          ...mockSummaryOptions,
+          promptTemplateId: '3',
+        });
+
+        expect(mockGenerate.mock.calls[0][0].prompt).toMatch(
+          /^Studio coverage of:\ntest script content\n\n/
+        );
+        expect(result.promptTemplateId).toBe('3');
+        expect(result.promptTemplateVersion).toBe(2);
+      });
+
+      it('should use the built-in template by default', async () => {
+        const result = await service.generateSummary(
+          'test script content',
+          mockSummaryOptions
+        );
+
+        expect(mockGenerate.mock.calls[0][0].prompt).toContain(
+          'You are an expert script analyst'
+        );
+        expect(result.promptTemplateId).toBeUndefined();
+      });
+
+      it('should fail when the template does not exist', async () => {
+        await expect(
+          service.generateSummary('test script content', {
+            ...mockSummaryOptions,
+            promptTemplateId: '9',
+          })
+        ).rejects.toThrow('Prompt template 9 not found');
+        expect(mockGenerate).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('deep analysis', () => {
+      const deepOptions: SummaryOptions = {
+        ...mockSummaryOptions,
+        deepAnalysis: true,
+        passModels: { themes: 'mistral:7b' },
+      };
+
+      // Responses to the summary and to each focused pass, told apart by
+      // the schema they are asked to follow
+      const respondToPass = (
+        format: unknown,
+        stream: boolean,
+        production = JSON.stringify({
+          productionNotes: [
+            {
+              category: 'location',
+              content: 'Needs a rooftop.',
+              priority: 'high',
+            },
+          ],
+        })
+      ) =>
+        respond(
+          format === CHARACTER_ANALYSIS_SCHEMA
+            ? JSON.stringify({
+                characters: [
+                  {
+                    name: 'Jo',
+                    description: 'A walker.',
+                    importance: 'protagonist',
+                    relationships: [],
+                  },
+                ],
+              })
+            : format === THEME_ANALYSIS_SCHEMA
+              ? JSON.stringify({ themes: ['Solitude: Jo walks alone'] })
+              : format === PRODUCTION_NOTES_SCHEMA
+                ? production
+                : summaryJson('Jo walks home.'),
+          stream
+        );
+
+      beforeEach(async () => {
+        mockList.mockResolvedValue({
+          models: [
+            { name: 'llama2:7b', digest: 'abc', size: 123 },
+            { name: 'mistral:7b', digest: 'def', size: 456 },
+          ],
+        });
+        await service.setActiveModel('llama2:7b');
+      });
+
+      it('should merge the results of each focused pass', async () => {
+        mockGenerate.mockImplementation(async ({ format, stream }) =>
+          respondToPass(format, stream)
+        );
+
+        const result = await service.generateSummary(
+          'test script content',
+          deepOptions
+        );
+
+        expect(mockGenerate).toHaveBeenCalledTimes(4);
+        expect(
+          mockGenerate.mock.calls.slice(1).map(call => call[0].format)
+        ).toEqual([
+          CHARACTER_ANALYSIS_SCHEMA,
+          THEME_ANALYSIS_SCHEMA,
+          PRODUCTION_NOTES_SCHEMA,
+        ]);
+        expect(mockGenerate.mock.calls[1][0].prompt).toContain(
+          'test script content'
+        );
+        expect(result.plotOverview).toBe('Jo walks home.');
+        expect(result.mainCharacters.map(character => character.name)).toEqual([
+          'Jo',
+        ]);
+        expect(result.themes).toEqual(['Solitude: Jo walks alone']);
+        expect(result.productionNotes[0].content).toBe('Needs a rooftop.');
+      });
+
+      it('should run passes on the models chosen for them', async () => {
+        mockGenerate.mockImplementation(async ({ format, stream }) =>
+          respondToPass(format, stream)
+        );
+
+        await service.generateSummary('test script content', deepOptions);
+
+        expect(mockGenerate.mock.calls.map(call => call[0].model)).toEqual([
+          'llama2:7b',
+          'llama2:7b',
+          'mistral:7b',
+          'llama2:7b',
+        ]);
+      });
+
+      it('should only run the passes the options ask for', async () => {
+        mockGenerate.mockImplementation(async ({ format, stream }) =>
+          respondToPass(format, stream)
+        );
+
+        await service.generateSummary('test script content', {
+          ...deepOptions,
+          analyzeCharacterRelationships: false,
+          includeProductionNotes: false,
+        });
+
+        expect(mockGenerate).toHaveBeenCalledTimes(2);
+        expect(mockGenerate.mock.calls[1][0].format).toEqual(
+          THEME_ANALYSIS_SCHEMA
+        );
+      });
+
+      it('should report a stage for each pass', async () => {
+        mockGenerate.mockImplementation(async ({ format, stream }) =>
+          respondToPass(format, stream)
+        );
+        const onProgress = vi.fn();
+
+        await service.generateSummary(
+          'test script content',
+          deepOptions,
+          'script_1',
+          onProgress
+        );
+
+        const progress = onProgress.mock.calls.map(call => call[0]);
+        const passes = progress.slice(-4);
+        expect(passes.map(p => [p.stage, p.progress])).toEqual([
+          ['identifying_characters', 40],
+          ['analyzing_themes', 60],
+          ['generating_production_notes', 80],
+          ['complete', 100],
+        ]);
+        expect(passes[1].message).toBe('Analyzing themes (pass 2 of 3)');
+        progress
+          .slice(0, -4)
+          .forEach(p => expect(p.progress).toBeLessThanOrEqual(40));
+      });
+
+      it('should keep the summary results when a pass is unusable', async () => {
+        mockGenerate.mockImplementation(async ({ format, stream }) =>
+          respondToPass(format, stream, 'No notes.')
+        );
+        vi.spyOn(console, 'warn').mockImplementation(vi.fn());
+
+        const result = await service.generateSummary(
+          'test script content',
+          deepOptions
+        );
+
+        expect(result.productionNotes).toEqual([]);
+        expect(result.themes).toEqual(['Solitude: Jo walks alone']);
+        expect(console.warn).toHaveBeenCalledWith(
+          expect.stringContaining('production pass returned no usable results')
+        );
+      });
+    });
+
+    describe('long scripts', () => {
+      // Four scenes of roughly 3000 characters each
+      const longScript = ['KITCHEN', 'GARDEN', 'HALLWAY', 'ROOF']
+        .map(location =>
+          [
+            `INT. ${location} - DAY`,
+            '',
+            ...Array(115).fill('Jo walks across the room.'),
+          ].join('\n')
+        )
+        .join('\n\n');
+
+      const prompts = () =>
+        mockGenerate.mock.calls.map(call => call[0].prompt as string);
+
+      beforeEach(async () => {
+        mockList.mockResolvedValue({
+          models: [{ name: 'llama2:7b', digest: 'abc', size: 123 }],
+        });
+        await service.setActiveModel('llama2:7b');
+      });
+
+      it('should summarize each scene chunk and then the notes', async () => {
+        mockGenerate.mockImplementation(async ({ prompt, stream }) =>
+          respond(
+            prompt.includes('SCRIPT PART')
+              ? 'Jo crosses the room.'
+              : summaryJson('A story about Jo walking.'),
+            stream
+          )
+        );
+        const onProgress = vi.fn();
+
+        const result = await service.generateSummary(
+          longScript,
+          { ...mockSummaryOptions, contextLength: 2000, maxTokens: 200 },
+          'script_1',
+          onProgress
+        );
+
+        expect(result.plotOverview).toContain('A story about Jo walking');
+        expect(prompts()).toHaveLength(5);
+        prompts()
+          .slice(0, 4)
+          .forEach((prompt, i) => {
+            expect(prompt).toContain(`--- SCRIPT PART ${i + 1} OF 4 ---`);
+          });
+        expect(prompts()[4]).toContain('analyzed in 4 consecutive parts');
+        expect(mockGenerate.mock.calls[4][0].options).toMatchObject({
+          num_ctx: 2000,
+          num_predict: 200,
+        });
+
+        const progress = onProgress.mock.calls.map(call => call[0]);
+        expect(progress.map(p => [p.stage, p.chunkIndex, p.progress])).toEqual([
+          ['analyzing_content', 0, 0],
+          ['analyzing_content', 1, 20],
+          ['analyzing_content', 2, 40],
+          ['analyzing_content', 3, 60],
+          ['finalizing', undefined, 80],
+          ['extracting_plot', undefined, 80],
+          ['finalizing', undefined, 80],
+          ['complete', undefined, 100],
+        ]);
+        expect(progress[1]).toMatchObject({
+          chunkCount: 4,
+          message: 'Summarizing part 2 of 4',
+          cancellable: true,
+        });
+      });
+
+      it('should condense notes that do not fit the final prompt', async () => {
+        mockGenerate.mockImplementation(async ({ prompt, stream }) =>
+          respond(
+            prompt.includes('SCRIPT PART')
+              ? 'Jo crosses the room. '.repeat(95)
+              : prompt.includes('Combine them into one set of notes')
+                ? 'Jo crosses two rooms.'
+                : summaryJson('A story about Jo walking.'),
+            stream
+          )
+        );
+
+        await service.generateSummary(longScript, {
+          ...mockSummaryOptions,
+          contextLength: 2000,
+          maxTokens: 200,
+        });
+
+        const merges = prompts().filter(prompt =>
+          prompt.includes('Combine them into one set of notes')
+        );
+        expect(merges).toHaveLength(2);
+        expect(prompts()[prompts().length - 1]).toContain(
+          'analyzed in 2 consecutive parts'
+        );
+      });
+
+      it('should use the context length reported by the model', async () => {
+        mockOllamaInstance.show = vi.fn().mockResolvedValue({
+          model_info: { 'llama.context_length': 32768 },
+        });
+        mockGenerate.mockImplementation(async ({ stream }) =>
+          respond(summaryJson('A story about Jo.'), stream)
+        );
+
+        await service.generateSummary(longScript, mockSummaryOptions);
+
+        expect(mockOllamaInstance.show).toHaveBeenCalledWith({
+          model: 'llama2:7b',
+        });
+        // Capped, and large enough to summarize in one pass
+        expect(mockGenerate).toHaveBeenCalledTimes(1);
+        expect(mockGenerate.mock.calls[0][0].options.num_ctx).toBe(8192);
+      });
+    });
+  });
+
+  describe('generateCoverage', () => {
+    const prompts = () =>
+      mockGenerate.mock.calls.map(call => call[0].prompt as string);
+
+    beforeEach(async () => {
+      mockList.mockResolvedValue({
+        models: [{ name: 'llama2:7b', digest: 'abc', size: 123 }],
+      });
+      await service.setActiveModel('llama2:7b');
+    });
+
+    it('should generate a coverage report in JSON mode', async () => {
+      mockGenerate.mockImplementation(async ({ stream }) =>
+        respond(coverageJson('consider'), stream)
+      );
+      const onProgress = vi.fn();
+
+      const result = await service.generateCoverage(
+        'test script content',
+        { targetAudience: 'a streaming service' },
+        'script_1',
+        onProgress
+      );
+
+      expect(result).toMatchObject({
+        scriptId: 'script_1',
+        logline: 'Jo must walk home before dark.',
+        verdict: 'consider',
+        modelUsed: 'llama2:7b',
+      });
+      expect(result.ratings.structure).toBe('good');
+      expect(mockGenerate.mock.calls[0][0].format).toBe(COVERAGE_SCHEMA);
+      expect(prompts()[0]).toContain(
+        'writing script coverage for a streaming service'
+      );
+      expect(prompts()[0]).toContain('test script content');
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ stage: 'complete', scriptId: 'script_1' })
+      );
+    });
+
+    it('should ask the model to correct an invalid verdict', async () => {
+      mockGenerate
+        .mockImplementationOnce(async ({ stream }) =>
+          respond(coverageJson('maybe'), stream)
+        )
+        .mockImplementation(async ({ stream }) =>
+          respond(coverageJson('pass'), stream)
+        );
+
+      const result = await service.generateCoverage('test script content', {});
+
+      expect(result.verdict).toBe('pass');
+      expect(prompts()).toHaveLength(2);
+      expect(prompts()[1]).toContain('could not be used as a coverage report');
+      expect(prompts()[1]).toContain('verdict');
+    });
+
+    it('should fail when the report cannot be corrected', async () => {
+      mockGenerate.mockImplementation(async ({ stream }) =>
+        respond('Not coverage', stream)
+      );
+
+      await expect(
+        service.generateCoverage('test script content', {})
+      ).rejects.toThrow('Failed to generate coverage');
+      expect(mockGenerate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should cover long scripts from notes on each part', async () => {
+      const longScript = ['KITCHEN', 'GARDEN', 'HALLWAY', 'ROOF']
+        .map(location =>
+          [
+            `INT. ${location} - DAY`,
+            '',
+            ...Array(115).fill('Jo walks across the room.'),
+          ].join('\n')
+        )
+        .join('\n\n');
+      mockGenerate.mockImplementation(async ({ prompt, stream }) =>
+        respond(
+          prompt.includes('SCRIPT PART')
+            ? 'Jo crosses the room.'
+            : coverageJson('recommend'),
+          stream
+        )
+      );
+
+      const result = await service.generateCoverage(longScript, {
+        contextLength: 2000,
+        maxTokens: 200,
+      });
+
+      expect(result.verdict).toBe('recommend');
+      expect(prompts()).toHaveLength(5);
+      expect(prompts()[4]).toContain('analyzed in 4 consecutive parts');
+      expect(prompts()[4]).toContain('writing script coverage');
+    });
+  });
+
+  describe('model management', () => {
+    async function* pullStream(
+      parts: { status: string; total?: number; completed?: number }[]
+    ) {
+      for (const part of parts) {
+        yield { digest: '', total: 0, completed: 0, ...part };
+      }
+    }
+
+    it('should pull a model and report download progress', async () => {
+      mockOllamaInstance.pull = vi
+        .fn()
+        .mockResolvedValue(
+          pullStream([
+            { status: 'pulling manifest' },
+            { status: 'pulling abc', total: 100, completed: 40 },
+            { status: 'success' },
+          ])
+        );
+      const onProgress = vi.fn();
+
+      await service.pullModel('llama3.1:8b', {}, onProgress);
+
+      expect(mockOllamaInstance.pull).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'llama3.1:8b', stream: true })
+      );
+      expect(onProgress).toHaveBeenCalledWith({
+        modelName: 'llama3.1:8b',
+        status: 'pulling abc',
+        digest: undefined,
+        completedBytes: 40,
+        totalBytes: 100,
+      });
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'success' })
+      );
+    });
+
+    it('should pull from a configured registry', async () => {
+      mockOllamaInstance.pull = vi
+        .fn()
+        .mockResolvedValue(pullStream([{ status: 'success' }]));
+
+      await service.pullModel('llama3.1:8b', {
+        registry: 'http://mirror.local:5000/',
+      });
+
+      expect(mockOllamaInstance.pull).toHaveBeenCalledWith({
+        model: 'mirror.local:5000/library/llama3.1:8b',
+        insecure: true,
+        stream: true,
+      });
+    });
+
+    it('should report a failed pull', async () => {
+      mockOllamaInstance.pull = vi
+        .fn()
+        .mockRejectedValue(
+          new Error('pull model manifest: file does not exist')
+        );
+
+      await expect(service.pullModel('missing')).rejects.toThrow(
+        'file does not exist'
+      );
+    });
+
+    it('should delete a model and clear it if it was active', async () => {
+      mockList.mockResolvedValue({
+        models: [{ name: 'llama2:7b', digest: 'abc', size: 123 }],
+      });
+      mockOllamaInstance.delete = vi
+        .fn()
+        .mockResolvedValue({ status: 'success' });
+      await service.setActiveModel('llama2:7b');
+
+      await service.deleteModel('llama2:7b');
+
+      expect(mockOllamaInstance.delete).toHaveBeenCalledWith({
+        model: 'llama2:7b',
+      });
+      expect(await service.getCurrentModel()).toBeNull();
+    });
+
+    it('should read model details from show', async () => {
+      mockOllamaInstance.show = vi.fn().mockResolvedValue({
+        parameters: 'temperature 0.6\nstop "<|eot_id|>"\nstop "<|eom_id|>"',
+        details: {
+          family: 'llama',
+          format: 'gguf',
+          parameter_size: '8.0B',
+          quantization_level: 'Q4_K_M',
+        },
+        model_info: {
+          'general.parameter_count': 8030261312,
+          'llama.context_length': 131072,
+        },
+      });
+
+      const details = await service.getModelDetails('llama3.1:8b');
+
+      expect(details).toEqual({
+        family: 'llama',
+        format: 'gguf',
+        parameterSize: '8.0B',
+        quantization: 'Q4_K_M',
+        parameterCount: 8030261312,
+        contextLength: 131072,
+        parameters: {
+          temperature: '0.6',
+          stop: '"<|eot_id|>", "<|eom_id|>"',
+        },
+      });
+    });
+  });
+
+  describe('benchmarkModel', () => {
+    const sample = {
+      id: 'walk-home',
+      title: 'Walk Home',
+      content: 'EXT. ROAD - DUSK\n\nJO walks home.',
+      reference: {
+        characters: ['Jo'],
+        genre: 'Drama',
+        themes: ['family', 'loneliness'],
+      },
+    };
+
+    async function* benchmarkStream(text: string) {
+      yield { response: text, done: false };
+      yield {
+        response: '',
+        done: true,
+        eval_count: 200,
+        eval_duration: 4e9,
+      };
+    }
+
+    it('measures speed and scores the summary against the reference', async () => {
+      mockGenerate.mockImplementation(() =>
+        Promise.resolve(
+          benchmarkStream(
+            JSON.stringify({
+              plotOverview: 'Jo walks home.',
+              mainCharacters: [
+                {
+                  name: 'Jo',
+                  description: 'A walker',
+                  importance: 'protagonist',
+                  relationships: [],
+                },
+              ],
+              themes: ['Family'],
+              productionNotes: [],
+              genre: 'Drama',
+            })
+          )
+        )
+      );
+      mockOllamaInstance.ps = vi.fn().mockResolvedValue({
+        models: [{ name: 'llama3.1:8b', size: 6e9 }],
+      });
+      const onProgress = vi.fn();
+
+      const result = await service.benchmarkModel(
+        'llama3.1:8b',
+        [sample],
+        onProgress
+      );
+
+      expect(mockGenerate).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'llama3.1:8b', stream: true })
+      );
+      expect(onProgress).toHaveBeenCalledWith({
+        modelId: 'llama3.1:8b',
+        sampleId: 'walk-home',
+        sampleIndex: 0,
+        sampleCount: 1,
+      });
+      // 200 tokens in the 4 seconds Ollama reports
+      expect(result.tokensPerSecond).toBe(50);
+      expect(result.memoryBytes).toBe(6e9);
+      expect(result.accuracy).toMatchObject({
+        characters: 1,
+        genre: 1,
+        themes: 0.5,
+      });
+    });
+
+    it('records samples the model fails on', async () => {
+      mockGenerate.mockRejectedValue(new Error('model not found'));
+
+      const result = await service.benchmarkModel('missing', [sample]);
+
+      expect(result.samples[0].error).toContain('model not found');
+      expect(result.accuracy.overall).toBe(0);
+      expect(result.tokensPerSecond).toBe(0);
+    });
   });
 
   describe('cancelGeneration', () => {
@@ -307,6 +1154,72 @@ describe('OllamaService', () => {
         service.cancelGeneration('nonexistent-id')
       ).resolves.not.toThrow();
     });
+
+    describe('running summaries', () => {
+      const options: SummaryOptions = {
+        length: 'standard',
+        focusAreas: ['plot'],
+        includeProductionNotes: false,
+        analyzeCharacterRelationships: false,
+        identifyThemes: false,
+        assessMarketability: false,
+      };
+
+      beforeEach(async () => {
+        mockList.mockResolvedValue({
+          models: [{ name: 'llama2:7b', digest: 'abc', size: 123 }],
+        });
+        await service.setActiveModel('llama2:7b');
+      });
+
+      it('should return an operation handle before generation starts', async () => {
+        mockGenerate.mockImplementation(async ({ stream }) =>
+          respond(summaryJson('A story about Jo.'), stream)
+        );
+
+        const operation = service.startSummary('test content', options);
+
+        expect(operation.operationId).toMatch(/^ollama_/);
+        expect(mockGenerate).not.toHaveBeenCalled();
+        await expect(operation.result).resolves.toBeDefined();
+      });
+
+      it('should abort the Ollama request and report cancellation', async () => {
+        const stream = {
+          abort: vi.fn(),
+          async *[Symbol.asyncIterator]() {
+            yield { response: '{"plotOverview": ' };
+            yield { response: '"Jo walks home."' };
+          },
+        };
+        mockGenerate.mockResolvedValue(stream);
+        const onProgress = vi.fn(progress => {
+          if (progress.stage === 'extracting_plot') {
+            service.cancelGeneration(progress.operationId);
+          }
+        });
+
+        const operation = service.startSummary(
+          'test content',
+          options,
+          'script_1',
+          onProgress
+        );
+
+        await expect(operation.result).rejects.toThrow(
+          'Summary generation was cancelled'
+        );
+        expect(stream.abort).toHaveBeenCalled();
+        expect(mockGenerate).toHaveBeenCalledTimes(1);
+        expect(onProgress).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            operationId: operation.operationId,
+            stage: 'cancelled',
+            scriptId: 'script_1',
+          })
+        );
+      });
+    });
   });
 
   describe('parameter estimation', () => {
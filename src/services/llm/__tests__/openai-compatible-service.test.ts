@@ -0,0 +1,200 @@
+// @vitest-environment node
+
+/**
+ * Unit tests for OpenAICompatibleService against a local stub server
+ * Requirements: 1.2, 1.3, 7.1, 7.4
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { OpenAICompatibleService } from '../openai-compatible-service';
+import { llmProviderRegistry } from '../provider-registry';
+import { GenerationProgress } from '../../../types/llm-service';
+
+const SUMMARY =
+  '## PLOT OVERVIEW\nJo walks home.\n\n## MAIN CHARACTERS\nJo: a walker.';
+
+interface StubRequest {
+  path?: string;
+  authorization?: string;
+  body?: any;
+}
+
+const readBody = async (request: IncomingMessage) => {
+  let body = '';
+  for await (const chunk of request) {
+    body += chunk;
+  }
+  return body ? JSON.parse(body) : undefined;
+};
+
+describe('OpenAICompatibleService', () => {
+  let server: Server;
+  let endpoint: string;
+  let requests: StubRequest[];
+
+  beforeAll(async () => {
+    // Minimal OpenAI-compatible server: one model, completions that echo
+    // the summary a few words at a time when streamed
+    server = createServer(async (request, response) => {
+      const body = await readBody(request);
+      requests.push({
+        path: request.url,
+        authorization: request.headers.authorization,
+        body,
+      });
+
+      if (request.url === '/v1/models') {
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify({ data: [{ id: 'qwen2.5-7b-instruct' }] }));
+      } else if (request.url === '/v1/chat/completions' && body.stream) {
+        response.setHeader('Content-Type', 'text/event-stream');
+        for (const part of SUMMARY.split(/(?<= )/)) {
+          response.write(
+            `data: ${JSON.stringify({ choices: [{ delta: { content: part } }] })}\n\n`
+          );
+        }
+        response.end('data: [DONE]\n\n');
+      } else if (request.url === '/v1/chat/completions') {
+        response.setHeader('Content-Type', 'application/json');
+        response.end(
+          JSON.stringify({
+            choices: [
+              { message: { content: 'Hello, I am working correctly.' } },
+            ],
+          })
+        );
+      } else {
+        response.statusCode = 404;
+        response.end();
+      }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should list the models the server offers', async () => {
+    const service = new OpenAICompatibleService(endpoint);
+
+    const models = await service.listAvailableModels();
+
+    expect(models).toHaveLength(1);
+    expect(models[0].id).toBe('qwen2.5-7b-instruct');
+    expect(models[0].parameterCount).toBe('7B');
+    expect(models[0].isAvailable).toBe(true);
+  });
+
+  it('should accept endpoints that include the /v1 prefix', async () => {
+    const service = new OpenAICompatibleService(`${endpoint}/v1/`);
+
+    expect(await service.listAvailableModels()).toHaveLength(1);
+    expect(requests[0].path).toBe('/v1/models');
+  });
+
+  it('should report the service status', async () => {
+    const service = new OpenAICompatibleService(endpoint);
+
+    const status = await service.getServiceStatus();
+
+    expect(status.isRunning).toBe(true);
+    expect(status.availableModels).toBe(1);
+    expect(status.warnings).toEqual([]);
+  });
+
+  it('should report a stopped server', async () => {
+    const service = new OpenAICompatibleService('http://127.0.0.1:1');
+
+    const status = await service.getServiceStatus();
+
+    expect(status.isRunning).toBe(false);
+    expect(status.warnings[0]).toContain('Service connection failed');
+    expect(await service.isAvailable()).toBe(false);
+  });
+
+  it('should test a model with a chat completion', async () => {
+    const service = new OpenAICompatibleService(endpoint);
+
+    const result = await service.testModel('qwen2.5-7b-instruct');
+
+    expect(result.success).toBe(true);
+    expect(result.sampleOutput).toBe('Hello, I am working correctly.');
+    expect(result.qualityScore).toBeGreaterThan(0);
+    expect(requests[0].body).toMatchObject({
+      model: 'qwen2.5-7b-instruct',
+      max_tokens: 50,
+    });
+  });
+
+  it('should report failed model tests', async () => {
+    const service = new OpenAICompatibleService(`${endpoint}/missing`);
+
+    const result = await service.testModel('qwen2.5-7b-instruct');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Server responded with 404 Not Found');
+  });
+
+  it('should send the API key', async () => {
+    const service = new OpenAICompatibleService(endpoint, 'secret');
+
+    await service.listAvailableModels();
+
+    expect(requests[0].authorization).toBe('Bearer secret');
+  });
+
+  it('should stream summaries', async () => {
+    const service = new OpenAICompatibleService(endpoint);
+    await service.setActiveModel('qwen2.5-7b-instruct');
+    const progress: GenerationProgress[] = [];
+
+    const summary = await service.generateSummary(
+      'INT. KITCHEN - DAY\n\nJo walks home.',
+      {
+        length: 'brief',
+        focusAreas: ['plot'],
+        includeProductionNotes: false,
+        analyzeCharacterRelationships: false,
+        identifyThemes: false,
+        assessMarketability: false,
+      },
+      'script_1',
+      update => progress.push(update)
+    );
+
+    expect(summary.plotOverview).toContain('Jo walks home.');
+    expect(summary.modelUsed).toBe('qwen2.5-7b-instruct');
+    expect(progress.some(update => update.partialText)).toBe(true);
+    expect(requests.find(request => request.body?.stream)?.body).toMatchObject({
+      model: 'qwen2.5-7b-instruct',
+      stream: true,
+    });
+  });
+
+  it('should be created by the provider registry', async () => {
+    const service = llmProviderRegistry.createService({
+      provider: 'openai-compatible',
+      endpoint,
+    });
+
+    expect(await service.isAvailable()).toBe(true);
+    expect(
+      llmProviderRegistry.getProviders().map(provider => provider.id)
+    ).toEqual(['ollama', 'openai-compatible']);
+    expect(() =>
+      llmProviderRegistry.createService({
+        provider: 'other' as 'ollama',
+        endpoint: '',
+      })
+    ).toThrow('Unknown LLM provider: other');
+  });
+});
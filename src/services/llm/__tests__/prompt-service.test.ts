@@ -196,6 +196,207 @@ FADE OUT.
     });
   });
 
+  describe('buildChunkNotesPrompt', () => {
+    it('should ask for notes on one part of the script', () => {
+      const prompt = PromptService.buildChunkNotesPrompt(
+        mockScriptContent,
+        2,
+        5,
+        basicSummaryOptions
+      );
+
+      expect(prompt).toContain('part 2 of 5');
+      expect(prompt).toContain('--- SCRIPT PART 2 OF 5 ---');
+      expect(prompt).toContain(mockScriptContent);
+      expect(prompt).toContain('PRODUCTION - Locations');
+    });
+
+    it('should only ask for the notes the summary needs', () => {
+      const prompt = PromptService.buildChunkNotesPrompt(
+        mockScriptContent,
+        1,
+        2,
+        {
+          ...basicSummaryOptions,
+          includeProductionNotes: false,
+          identifyThemes: false,
+        }
+      );
+
+      expect(prompt).not.toContain('PRODUCTION - ');
+      expect(prompt).not.toContain('THEMES - ');
+    });
+  });
+
+  describe('buildMergeNotesPrompt', () => {
+    it('should ask for notes on consecutive parts to be combined', () => {
+      const prompt = PromptService.buildMergeNotesPrompt(
+        ['Sarah meets Mike.', 'Mike leaks the files.'],
+        basicSummaryOptions
+      );
+
+      expect(prompt).toContain('Combine them into one set of notes');
+      expect(prompt).toContain(
+        '--- NOTES ON PART 1 OF 2 ---\nSarah meets Mike.'
+      );
+      expect(prompt).toContain(
+        '--- NOTES ON PART 2 OF 2 ---\nMike leaks the files.'
+      );
+    });
+  });
+
+  describe('buildReducePrompt', () => {
+    it('should build a summary prompt from the notes on each part', () => {
+      const prompt = PromptService.buildReducePrompt(
+        ['Sarah meets Mike.', 'Mike leaks the files.'],
+        basicSummaryOptions
+      );
+
+      expect(prompt).toContain('analyzed in 2 consecutive parts');
+      expect(prompt).toContain('Mike leaks the files.');
+      expect(prompt).toContain('"plotOverview"');
+      expect(prompt).toContain('"mainCharacters"');
+      expect(prompt).toContain('--- NOTES ON PART 2 OF 2 ---');
+    });
+
+    it('should use the selected template', () => {
+      const prompt = PromptService.buildReducePrompt(
+        ['Sarah meets Mike.'],
+        basicSummaryOptions,
+        'Write coverage.\n\n{{script}}'
+      );
+
+      expect(prompt).toMatch(/^Write coverage\.\n\nThe script was too long/);
+      expect(prompt).toContain('Sarah meets Mike.');
+    });
+  });
+
+  describe('prompt templates', () => {
+    it('should render the selected template', () => {
+      const prompt = PromptService.buildSummaryPrompt(
+        mockScriptContent,
+        { ...basicSummaryOptions, targetAudience: 'a story department' },
+        'Coverage for {{targetAudience}}.\n\n{{script}}\n\n{{outputFormat}}'
+      );
+
+      expect(prompt).toMatch(/^Coverage for a story department\./);
+      expect(prompt).toContain(mockScriptContent);
+      expect(prompt).toContain('"plotOverview"');
+      expect(prompt).not.toContain('You are an expert script analyst');
+    });
+
+    it('should remove lines with empty placeholders', () => {
+      const prompt = PromptService.renderTemplate(
+        'Start\n\n{{customInstructions}}\n\nScript: {{script}} {{unknown}}',
+        { customInstructions: '', script: 'Jo {{script}} walks.' }
+      );
+
+      expect(prompt).toBe('Start\n\nScript: Jo {{script}} walks. {{unknown}}');
+    });
+
+    it('should report templates without the script or with unknown placeholders', () => {
+      expect(
+        PromptService.validateTemplate(PromptService.DEFAULT_SUMMARY_TEMPLATE)
+      ).toEqual([]);
+      expect(
+        PromptService.validateTemplate('Summarize {{scirpt}} for {{ length }}')
+      ).toEqual([
+        'The template must include {{script}}',
+        'Unknown placeholder {{scirpt}}',
+      ]);
+    });
+  });
+
+  describe('buildRepairPrompt', () => {
+    it('should list the validation errors with the previous response', () => {
+      const prompt = PromptService.buildRepairPrompt(
+        '{"plotOverview": "Sarah meets Mike.", "genre": 7}',
+        [
+          {
+            field: 'genre',
+            code: 'REQUIRED_FIELD',
+            message: 'Genre is required and must be a string',
+            value: 7,
+            expected: 'string',
+          },
+          {
+            field: 'themes',
+            code: 'INVALID_TYPE',
+            message: 'themes must be an array of strings',
+            value: undefined,
+            expected: 'string[]',
+          },
+        ],
+        basicSummaryOptions
+      );
+
+      expect(prompt).toContain(
+        '- genre: Genre is required and must be a string (found 7)'
+      );
+      expect(prompt).toContain(
+        '- themes: themes must be an array of strings\n'
+      );
+      expect(prompt).toContain(
+        '--- PREVIOUS RESPONSE ---\n{"plotOverview": "Sarah meets Mike.", "genre": 7}'
+      );
+      expect(prompt).toContain('"plotOverview"');
+    });
+  });
+
+  describe('buildCoveragePrompt', () => {
+    it('should ask for each part of a coverage report', () => {
+      const prompt = PromptService.buildCoveragePrompt(mockScriptContent, {
+        targetAudience: 'a streaming service',
+        customInstructions: 'Note any franchise potential',
+      });
+
+      expect(prompt).toContain(
+        'writing script coverage for a streaming service'
+      );
+      ['LOGLINE', 'SYNOPSIS', 'COMMENTS', 'RATINGS', 'VERDICT'].forEach(
+        heading => expect(prompt).toContain(`- ${heading} - `)
+      );
+      expect(prompt).toContain(
+        'Additional Instructions: Note any franchise potential'
+      );
+      expect(prompt).toContain(
+        `--- SCRIPT CONTENT ---\n${mockScriptContent}\n--- END SCRIPT ---`
+      );
+      expect(prompt).toContain('"verdict": "pass|consider|recommend"');
+    });
+
+    it('should build the prompt from notes on a long script', () => {
+      const prompt = PromptService.buildCoverageReducePrompt(
+        ['Sarah meets Mike.', 'Mike leaks the files.'],
+        {}
+      );
+
+      expect(prompt).toContain('analyzed in 2 consecutive parts');
+      expect(prompt).toContain(
+        '--- NOTES ON PART 2 OF 2 ---\nMike leaks the files.'
+      );
+      expect(prompt).not.toContain('--- SCRIPT CONTENT ---');
+    });
+
+    it('should ask for corrections in the coverage format', () => {
+      const prompt = PromptService.buildCoverageRepairPrompt('{}', [
+        {
+          field: 'verdict',
+          code: 'INVALID_VALUE',
+          message: 'Verdict must be one of: pass, consider, recommend',
+          value: 'maybe',
+        },
+      ]);
+
+      expect(prompt).toContain('could not be used as a coverage report');
+      expect(prompt).toContain(
+        '- verdict: Verdict must be one of: pass, consider, recommend (found "maybe")'
+      );
+      expect(prompt).toContain('"logline"');
+      expect(prompt).not.toContain('"plotOverview"');
+    });
+  });
+
   describe('buildProductionNotesPrompt', () => {
     it('should create a focused production analysis prompt', () => {
       const prompt =
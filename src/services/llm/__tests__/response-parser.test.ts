@@ -33,6 +33,150 @@ I've been working there for five years. I know what I saw.
 FADE OUT.
 `;
 
+  describe('parseStructuredResponse', () => {
+    it('should parse a JSON response in code fences', () => {
+      const response = `\`\`\`json
+{
+  "plotOverview": "A journalist meets a whistleblower.",
+  "mainCharacters": [
+    {
+      "name": "SARAH",
+      "description": "A determined journalist",
+      "importance": "protagonist",
+      "relationships": ["Meets MIKE"],
+      "ageRange": null
+    }
+  ],
+  "themes": ["Truth vs. Power"],
+  "productionNotes": [],
+  "genre": "Thriller",
+  "marketability": null,
+  "notes": "Ignored"
+}
+\`\`\``;
+
+      const result = ResponseParser.parseStructuredResponse(
+        response,
+        mockSummaryOptions,
+        'llama2:7b',
+        'script_1'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.summary).toMatchObject({
+        scriptId: 'script_1',
+        plotOverview: 'A journalist meets a whistleblower.',
+        themes: ['Truth vs. Power'],
+        genre: 'Thriller',
+        modelUsed: 'llama2:7b',
+        generationOptions: mockSummaryOptions,
+      });
+      expect(result.summary!.mainCharacters[0]).not.toHaveProperty('ageRange');
+      expect(result.summary!.marketability).toBeUndefined();
+      expect(result.summary).not.toHaveProperty('notes');
+    });
+
+    it('should report responses that are not JSON', () => {
+      const result = ResponseParser.parseStructuredResponse(
+        '## PLOT OVERVIEW\nA journalist meets a whistleblower.',
+        mockSummaryOptions,
+        'llama2:7b'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.validationErrors).toEqual([
+        expect.objectContaining({ field: 'root', code: 'INVALID_JSON' }),
+      ]);
+    });
+
+    it('should report fields that fail validation', () => {
+      const result = ResponseParser.parseStructuredResponse(
+        JSON.stringify({
+          plotOverview: 'A journalist meets a whistleblower.',
+          mainCharacters: [],
+          themes: 'Truth',
+          productionNotes: [],
+          genre: 'Thriller',
+        }),
+        mockSummaryOptions,
+        'llama2:7b'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        'Response does not match the summary schema: themes: themes must be an array of strings'
+      );
+      expect(result.validationErrors!.map(error => error.field)).toEqual([
+        'themes',
+      ]);
+    });
+  });
+
+  describe('parseCoverageResponse', () => {
+    const coverage = {
+      logline: 'A journalist risks everything to expose a cover-up.',
+      synopsis: 'Sarah meets Mike, who leaks the files.',
+      comments: 'Tense, but the villain is thin.',
+      ratings: {
+        premise: 'good',
+        structure: 'good',
+        characters: 'fair',
+        dialogue: 'excellent',
+        marketability: 'good',
+      },
+      verdict: 'recommend',
+      genre: null,
+    };
+
+    it('should parse a coverage report', () => {
+      const result = ResponseParser.parseCoverageResponse(
+        `Here is the coverage:\n${JSON.stringify(coverage)}`,
+        'llama2:7b',
+        'script_1'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.coverage).toMatchObject({
+        scriptId: 'script_1',
+        logline: coverage.logline,
+        ratings: coverage.ratings,
+        verdict: 'recommend',
+        modelUsed: 'llama2:7b',
+      });
+      expect(result.coverage!.id).toMatch(/^coverage_/);
+      expect(result.coverage!.genre).toBeUndefined();
+    });
+
+    it('should report missing ratings and invalid verdicts', () => {
+      const result = ResponseParser.parseCoverageResponse(
+        JSON.stringify({
+          ...coverage,
+          ratings: { ...coverage.ratings, dialogue: undefined },
+          verdict: 'PASS!',
+        }),
+        'llama2:7b'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.validationErrors!.map(error => error.field)).toEqual([
+        'ratings.dialogue',
+        'verdict',
+      ]);
+    });
+
+    it('should report responses that are not JSON', () => {
+      const result = ResponseParser.parseCoverageResponse(
+        'LOGLINE: A journalist risks everything.',
+        'llama2:7b'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.validationErrors).toEqual([
+        expect.objectContaining({ field: 'root', code: 'INVALID_JSON' }),
+      ]);
+    });
+  });
+
   describe('parseResponse', () => {
     it('should parse a well-structured response', () => {
       const mockResponse = `
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for script chunking
+ * Requirements: 3.1, 7.2
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ScriptChunker } from '../script-chunker';
+
+const scene = (heading: string, lines: number) =>
+  [heading, '', ...Array(lines).fill('Jo walks across the room.')].join('\n');
+
+describe('ScriptChunker', () => {
+  describe('estimateTokens', () => {
+    it('should estimate four characters per token', () => {
+      expect(ScriptChunker.estimateTokens('')).toBe(0);
+      expect(ScriptChunker.estimateTokens('abcd')).toBe(1);
+      expect(ScriptChunker.estimateTokens('abcde')).toBe(2);
+    });
+  });
+
+  describe('split', () => {
+    it('should keep content that fits in one chunk', () => {
+      const content = scene('INT. KITCHEN - DAY', 2);
+
+      expect(ScriptChunker.split(content, 1000)).toEqual([
+        { index: 0, start: 0, end: content.length, content },
+      ]);
+    });
+
+    it('should split on scene boundaries', () => {
+      const scenes = [
+        scene('INT. KITCHEN - DAY', 3),
+        scene('EXT. GARDEN - NIGHT', 3),
+        scene('INT. HALLWAY - NIGHT', 3),
+      ];
+      const content = scenes.join('\n\n');
+
+      // Room for two scenes per chunk
+      const chunks = ScriptChunker.split(
+        content,
+        ScriptChunker.estimateTokens(scenes[0]) * 2 + 2
+      );
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].content.trim()).toBe(`${scenes[0]}\n\n${scenes[1]}`);
+      expect(chunks[1].content).toBe(scenes[2]);
+      expect(chunks.map(chunk => chunk.index)).toEqual([0, 1]);
+      expect(chunks[1].start).toBe(chunks[0].end);
+      expect(chunks[1].end).toBe(content.length);
+    });
+
+    it('should split scenes too long for one chunk at line breaks', () => {
+      const content = scene('INT. KITCHEN - DAY', 40);
+
+      const chunks = ScriptChunker.split(content, 50);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => {
+        expect(chunk.content.length).toBeLessThanOrEqual(200);
+        expect(chunk.content.trimStart()).toMatch(/^(INT\.|Jo walks)/);
+      });
+      expect(chunks.map(chunk => chunk.content).join('')).toBe(content);
+    });
+
+    it('should split text without breaks at the length limit', () => {
+      const chunks = ScriptChunker.split('x'.repeat(10), 1);
+
+      expect(chunks.map(chunk => chunk.content)).toEqual([
+        'xxxx',
+        'xxxx',
+        'xx',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for streamed summary tracking
+ * Requirements: 3.1, 7.1
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SummaryStreamTracker } from '../summary-stream';
+
+describe('SummaryStreamTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('detectStage', () => {
+    it('should analyze content until a section starts', () => {
+      expect(SummaryStreamTracker.detectStage('')).toBe('analyzing_content');
+      expect(SummaryStreamTracker.detectStage('## PLOT')).toBe(
+        'analyzing_content'
+      );
+    });
+
+    it('should follow the section being written', () => {
+      const text = '## PLOT OVERVIEW\nJo walks home.\n\n## MAIN CHARACTERS\n';
+
+      expect(SummaryStreamTracker.detectStage(text)).toBe(
+        'identifying_characters'
+      );
+      expect(
+        SummaryStreamTracker.detectStage(`${text}Jo\n\n**Themes**\n`)
+      ).toBe('analyzing_themes');
+      expect(
+        SummaryStreamTracker.detectStage('PRODUCTION NOTES:\n- Permits')
+      ).toBe('generating_production_notes');
+      expect(SummaryStreamTracker.detectStage('## GENRE\nDrama')).toBe(
+        'finalizing'
+      );
+    });
+  });
+
+  describe('splitSections', () => {
+    it('should split the text received so far into sections', () => {
+      const text =
+        'Here is the summary.\n## PLOT OVERVIEW\nJo walks\nhome.\n\n## THEMES\n- Fam';
+
+      expect(SummaryStreamTracker.splitSections(text)).toEqual([
+        { title: 'PLOT OVERVIEW', text: 'Jo walks\nhome.' },
+        { title: 'THEMES', text: '- Fam' },
+      ]);
+    });
+
+    it('should not treat other short lines as headings', () => {
+      expect(
+        SummaryStreamTracker.splitSections('## PLOT OVERVIEW\nJo\nThe End')
+      ).toEqual([{ title: 'PLOT OVERVIEW', text: 'Jo\nThe End' }]);
+    });
+
+    it('should split JSON-mode responses by field', () => {
+      const text =
+        '{"plotOverview": "Jo walks\\nhome.", "mainCharacters": [{"name": "Jo", "importance": "protagonist"}], "themes": ["Fam';
+
+      expect(SummaryStreamTracker.splitSections(text)).toEqual([
+        { title: 'PLOT OVERVIEW', text: 'Jo walks\nhome.' },
+        { title: 'MAIN CHARACTERS', text: 'Jo\nprotagonist' },
+        { title: 'THEMES', text: 'Fam' },
+      ]);
+      expect(SummaryStreamTracker.detectStage(text)).toBe('analyzing_themes');
+    });
+  });
+
+  describe('push', () => {
+    it('should estimate progress and time remaining from the token rate', () => {
+      vi.useFakeTimers();
+      const tracker = new SummaryStreamTracker('brief', 100);
+
+      vi.advanceTimersByTime(1000);
+      const status = tracker.push('## PLOT OVERVIEW\n');
+      expect(status).toEqual({
+        stage: 'extracting_plot',
+        fraction: 0.01,
+        estimatedTimeRemaining: 99000,
+      });
+
+      vi.advanceTimersByTime(1000);
+      expect(tracker.push('Jo').estimatedTimeRemaining).toBe(98000);
+      expect(tracker.getText()).toBe('## PLOT OVERVIEW\nJo');
+    });
+
+    it('should not report more than the whole response', () => {
+      const tracker = new SummaryStreamTracker('brief', 1);
+
+      tracker.push('a');
+      const status = tracker.push('b');
+
+      expect(status.fraction).toBe(1);
+      expect(status.estimatedTimeRemaining).toBe(0);
+    });
+  });
+});
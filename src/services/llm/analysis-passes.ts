@@ -0,0 +1,105 @@
+/**
+ * Focused analysis passes run after the summary in deep analysis mode, using
+ * the dedicated character, theme and production notes prompts
+ * Requirements: 3.1, 3.3
+ */
+
+import {
+  AnalysisPass,
+  GenerationStage,
+  SummaryOptions,
+} from '../../types/llm-service';
+import { SummaryContent } from '../../types/summary';
+import {
+  ValidationResult,
+  validateCharacter,
+  validateProductionNote,
+} from '../../types/validation';
+import { PromptService } from './prompt-service';
+import {
+  CHARACTER_ANALYSIS_SCHEMA,
+  PRODUCTION_NOTES_SCHEMA,
+  THEME_ANALYSIS_SCHEMA,
+} from './summary-schema';
+
+export interface AnalysisPassDefinition {
+  pass: AnalysisPass;
+  stage: GenerationStage;
+
+  /** Progress message while the pass runs */
+  message: string;
+
+  /** Whether the summary options ask for what this pass analyzes */
+  isEnabled: (options: SummaryOptions) => boolean;
+
+  buildPrompt: (content: string) => string;
+
+  /** JSON schema of the pass's response */
+  format: Record<string, unknown>;
+
+  /**
+   * Summary fields from the parsed response; null when it has no usable
+   * results
+   */
+  extract: (data: Record<string, unknown>) => Partial<SummaryContent> | null;
+}
+
+// Entries that pass validation; invalid ones are dropped rather than
+// failing the whole pass
+const validEntries = <T>(
+  entries: unknown,
+  validate: (entry: unknown) => ValidationResult<T>
+): T[] =>
+  Array.isArray(entries)
+    ? entries
+        .map(validate)
+        .filter(result => result.isValid)
+        .map(result => result.data!)
+    : [];
+
+export const ANALYSIS_PASSES: AnalysisPassDefinition[] = [
+  {
+    pass: 'characters',
+    stage: 'identifying_characters',
+    message: 'Analyzing characters',
+    isEnabled: options => options.analyzeCharacterRelationships,
+    buildPrompt: content => PromptService.buildCharacterAnalysisPrompt(content),
+    format: CHARACTER_ANALYSIS_SCHEMA,
+    extract: data => {
+      const mainCharacters = validEntries(data.characters, validateCharacter);
+      return mainCharacters.length > 0 ? { mainCharacters } : null;
+    },
+  },
+  {
+    pass: 'themes',
+    stage: 'analyzing_themes',
+    message: 'Analyzing themes',
+    isEnabled: options => options.identifyThemes,
+    buildPrompt: content => PromptService.buildThemeAnalysisPrompt(content),
+    format: THEME_ANALYSIS_SCHEMA,
+    extract: data => {
+      const themes = Array.isArray(data.themes)
+        ? data.themes.filter(
+            (theme): theme is string =>
+              typeof theme === 'string' && theme.trim().length > 0
+          )
+        : [];
+      return themes.length > 0 ? { themes } : null;
+    },
+  },
+  {
+    pass: 'production',
+    stage: 'generating_production_notes',
+    message: 'Writing production notes',
+    isEnabled: options => options.includeProductionNotes,
+    buildPrompt: content => PromptService.buildProductionNotesPrompt(content),
+    format: PRODUCTION_NOTES_SCHEMA,
+    extract: data => {
+      const productionNotes = validEntries(
+        data.productionNotes,
+        validateProductionNote
+      );
+      return productionNotes.length > 0 ? { productionNotes } : null;
+    },
+  },
+];
@@ -0,0 +1,1328 @@
+/**
+ * Summary and coverage generation shared by all LLM providers
+ * Requirements: 1.2, 1.3, 7.1, 7.4
+ */
+
+import {
+  LLMService,
+  LLMModel,
+  LLMProviderId,
+  SummaryOptions,
+  ModelTestResult,
+  ServiceStatus,
+  ModelCapability,
+  ModelPerformance,
+  ModelRequirements,
+  ModelDetails,
+  GenerationProgress,
+  GenerationProgressCallback,
+  GenerationStage,
+  SummaryOperation,
+  CoverageOperation,
+} from '../../types/llm-service';
+import { ScriptSummary } from '../../types/summary';
+import { CoverageOptions, CoverageReport } from '../../types/coverage';
+import {
+  BenchmarkProgressCallback,
+  BenchmarkSample,
+  BenchmarkSampleResult,
+  ModelBenchmarkResult,
+} from '../../types/benchmark';
+import { PromptService } from './prompt-service';
+import { ResponseParser } from './response-parser';
+import { ScriptChunk, ScriptChunker } from './script-chunker';
+import { SummaryStreamTracker } from './summary-stream';
+import { COVERAGE_SCHEMA, SUMMARY_SCHEMA } from './summary-schema';
+import { ANALYSIS_PASSES, AnalysisPassDefinition } from './analysis-passes';
+import { promptTemplateRegistry } from './prompt-template-registry';
+import { BENCHMARK_SAMPLES } from './benchmark-samples';
+import { BenchmarkScorer } from './benchmark-scorer';
+
+export interface GenerationRequest {
+  prompt: string;
+  temperature: number;
+
+  /** Maximum number of tokens to generate */
+  maxTokens: number;
+
+  /** Context window to run the model with */
+  contextLength: number;
+
+  /** JSON schema the response must follow, for JSON-mode output */
+  format?: Record<string, unknown>;
+
+  /** Model to use instead of the active model */
+  model?: string;
+
+  /** Receives the token count and timing, for providers that report them */
+  onStats?: (stats: GenerationStats) => void;
+}
+
+/** Generation statistics reported by the provider for a response */
+export interface GenerationStats {
+  /** Tokens in the response */
+  outputTokens: number;
+
+  /** Time spent generating the response, excluding the prompt */
+  generationMs: number;
+}
+
+// Context window used when the model does not report one
+const DEFAULT_CONTEXT_LENGTH = 4096;
+
+// Larger windows use a lot of memory on typical machines
+const MAX_CONTEXT_LENGTH = 8192;
+
+// Response budget for the notes written on each chunk
+const CHUNK_NOTES_TOKENS = 600;
+
+// Share of the progress bar used by the chunk notes; the rest is the
+// final summary
+const CHUNK_PROGRESS_SHARE = 80;
+
+// Attempts to have the model correct a summary that does not match the
+// schema before falling back to free-text parsing
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Share of the progress bar used by the summary when deep analysis passes
+// follow it
+const DEEP_SUMMARY_SHARE = 40;
+
+// Minimum time between progress events while a summary streams in
+const STREAM_PROGRESS_INTERVAL = 100;
+
+// Streaming never reports 100% before the summary has been parsed
+const STREAM_PROGRESS_END = 99;
+
+// What notes on the parts of a script too long for one coverage pass cover
+const COVERAGE_NOTES_OPTIONS: SummaryOptions = {
+  length: 'detailed',
+  focusAreas: ['plot', 'characters', 'dialogue', 'structure'],
+  includeProductionNotes: false,
+  analyzeCharacterRelationships: true,
+  identifyThemes: true,
+  assessMarketability: true,
+};
+
+// Summaries written for benchmarks, at a low temperature so runs compare
+const BENCHMARK_OPTIONS: SummaryOptions = {
+  length: 'brief',
+  focusAreas: ['plot', 'characters', 'themes'],
+  temperature: 0.1,
+  maxTokens: 1000,
+  includeProductionNotes: false,
+  analyzeCharacterRelationships: false,
+  identifyThemes: true,
+  assessMarketability: false,
+};
+
+const STAGE_MESSAGES: Partial<Record<GenerationStage, string>> = {
+  analyzing_content: 'Analyzing script',
+  extracting_plot: 'Writing plot overview',
+  identifying_characters: 'Describing characters',
+  analyzing_themes: 'Analyzing themes',
+  generating_production_notes: 'Writing production notes',
+  finalizing: 'Finishing summary',
+};
+
+type ProgressReporter = (
+  progress: Omit<GenerationProgress, 'operationId' | 'cancellable' | 'scriptId'>
+) => void;
+
+export abstract class BaseLLMService implements LLMService {
+  protected abstract readonly providerId: LLMProviderId;
+
+  /** Provider name used in messages */
+  protected abstract readonly providerName: string;
+
+  protected currentModel: string | null = null;
+  private activeOperations = new Map<string, AbortController>();
+
+  abstract listAvailableModels(): Promise<LLMModel[]>;
+
+  abstract testModel(modelId: string): Promise<ModelTestResult>;
+
+  abstract getServiceStatus(): Promise<ServiceStatus>;
+
+  /**
+   * Stream a response from the provider, aborting the request when the
+   * signal fires
+   */
+  protected abstract streamGenerate(
+    request: GenerationRequest,
+    signal: AbortSignal
+  ): AsyncGenerator<string>;
+
+  /**
+   * Context window of the current model, for providers that report it
+   */
+  protected async getModelContextLength(): Promise<number | null> {
+    return null;
+  }
+
+  /**
+   * Memory a loaded model is using in bytes, for providers that report it
+   */
+  protected async getModelMemoryUsage(
+    _modelId: string
+  ): Promise<number | null> {
+    return null;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const status = await this.getServiceStatus();
+      return status.isRunning;
+    } catch (error) {
+      console.error(
+        `${this.providerName} service availability check failed:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  async generateSummary(
+    content: string,
+    options: SummaryOptions,
+    scriptId?: string,
+    onProgress?: GenerationProgressCallback
+  ): Promise<ScriptSummary> {
+    return this.startSummary(content, options, scriptId, onProgress).result;
+  }
+
+  startSummary(
+    content: string,
+    options: SummaryOptions,
+    scriptId?: string,
+    onProgress?: GenerationProgressCallback
+  ): SummaryOperation {
+    return this.startOperation(
+      'Summary',
+      (signal, report) =>
+        this.runSummary(content, options, scriptId, signal, report),
+      scriptId,
+      onProgress
+    );
+  }
+
+  async generateCoverage(
+    content: string,
+    options: CoverageOptions,
+    scriptId?: string,
+    onProgress?: GenerationProgressCallback
+  ): Promise<CoverageReport> {
+    return this.startCoverage(content, options, scriptId, onProgress).result;
+  }
+
+  startCoverage(
+    content: string,
+    options: CoverageOptions,
+    scriptId?: string,
+    onProgress?: GenerationProgressCallback
+  ): CoverageOperation {
+    return this.startOperation(
+      'Coverage',
+      (signal, report) =>
+        this.runCoverage(content, options, scriptId, signal, report),
+      scriptId,
+      onProgress
+    );
+  }
+
+  /**
+   * Summarize each sample with a model, measuring its speed and scoring the
+   * characters, genre and themes it finds against the sample's reference
+   */
+  async benchmarkModel(
+    modelId: string,
+    samples: BenchmarkSample[] = BENCHMARK_SAMPLES,
+    onProgress?: BenchmarkProgressCallback
+  ): Promise<ModelBenchmarkResult> {
+    const results: BenchmarkSampleResult[] = [];
+    for (const [sampleIndex, sample] of samples.entries()) {
+      onProgress?.({
+        modelId,
+        sampleId: sample.id,
+        sampleIndex,
+        sampleCount: samples.length,
+      });
+      results.push(await this.benchmarkSample(modelId, sample));
+    }
+
+    return BenchmarkScorer.summarize(modelId, results);
+  }
+
+  private async benchmarkSample(
+    modelId: string,
+    sample: BenchmarkSample
+  ): Promise<BenchmarkSampleResult> {
+    const maxTokens = BENCHMARK_OPTIONS.maxTokens!;
+    let stats: GenerationStats | undefined;
+    let response = '';
+    let firstTokenAt: number | null = null;
+    const startedAt = Date.now();
+
+    try {
+      const parts = this.streamGenerate(
+        {
+          prompt: PromptService.buildSummaryPrompt(
+            sample.content,
+            BENCHMARK_OPTIONS
+          ),
+          temperature: BENCHMARK_OPTIONS.temperature!,
+          maxTokens,
+          contextLength: DEFAULT_CONTEXT_LENGTH,
+          format: SUMMARY_SCHEMA,
+          model: modelId,
+          onStats: reported => {
+            stats = reported;
+          },
+        },
+        new AbortController().signal
+      );
+      for await (const part of parts) {
+        if (part && firstTokenAt === null) {
+          firstTokenAt = Date.now();
+        }
+        response += part;
+      }
+    } catch (error) {
+      return {
+        sampleId: sample.id,
+        tokensPerSecond: 0,
+        timeToFirstTokenMs: 0,
+        durationMs: Date.now() - startedAt,
+        accuracy: { characters: 0, genre: 0, themes: 0, overall: 0 },
+        error: `Generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+
+    const finishedAt = Date.now();
+    if (firstTokenAt === null) {
+      firstTokenAt = finishedAt;
+    }
+
+    // Without counts from the provider, estimate the tokens in the response
+    // and time them from the first one
+    const tokensPerSecond = stats
+      ? stats.outputTokens / Math.max(stats.generationMs / 1000, 0.001)
+      : ScriptChunker.estimateTokens(response) /
+        Math.max((finishedAt - firstTokenAt) / 1000, 0.001);
+
+    const parsed = ResponseParser.parseStructuredResponse(
+      response,
+      BENCHMARK_OPTIONS,
+      modelId
+    );
+    const memoryBytes = await this.getModelMemoryUsage(modelId).catch(
+      () => null
+    );
+
+    return {
+      sampleId: sample.id,
+      tokensPerSecond,
+      timeToFirstTokenMs: firstTokenAt - startedAt,
+      durationMs: finishedAt - startedAt,
+      memoryBytes: memoryBytes ?? undefined,
+      accuracy:
+        parsed.success && parsed.summary
+          ? BenchmarkScorer.scoreSummary(parsed.summary, sample.reference)
+          : { characters: 0, genre: 0, themes: 0, overall: 0 },
+      error: parsed.success ? undefined : parsed.error,
+    };
+  }
+
+  /**
+   * Run a generation that can be cancelled with cancelGeneration, reporting
+   * its progress under a new operation ID
+   */
+  private startOperation<T>(
+    label: string,
+    run: (signal: AbortSignal, report: ProgressReporter) => Promise<T>,
+    scriptId: string | undefined,
+    onProgress: GenerationProgressCallback | undefined
+  ): { operationId: string; result: Promise<T> } {
+    const operationId = this.generateOperationId();
+    const abortController = new AbortController();
+    this.activeOperations.set(operationId, abortController);
+
+    let lastProgress = 0;
+    const report: ProgressReporter = progress => {
+      lastProgress = progress.progress;
+      onProgress?.({ operationId, cancellable: true, scriptId, ...progress });
+    };
+
+    const result = run(abortController.signal, report)
+      .catch(error => {
+        if (abortController.signal.aborted) {
+          report({
+            progress: lastProgress,
+            stage: 'cancelled',
+            message: `${label} generation cancelled`,
+          });
+          throw new Error(`${label} generation was cancelled`);
+        }
+        throw error;
+      })
+      .finally(() => this.activeOperations.delete(operationId));
+
+    return { operationId, result };
+  }
+
+  private async runSummary(
+    content: string,
+    options: SummaryOptions,
+    scriptId: string | undefined,
+    signal: AbortSignal,
+    report: ProgressReporter
+  ): Promise<ScriptSummary> {
+    await this.ensureReady();
+
+    try {
+      const template = await promptTemplateRegistry.resolve(
+        options.promptTemplateId
+      );
+      const contextLength = await this.getContextLength(options);
+      const responseTokens = options.maxTokens || 2000;
+
+      // Deep analysis passes follow the summary on the progress bar
+      const passes = options.deepAnalysis
+        ? ANALYSIS_PASSES.filter(pass => pass.isEnabled(options))
+        : [];
+      const summaryReport: ProgressReporter =
+        passes.length > 0
+          ? progress =>
+              report({
+                ...progress,
+                progress: Math.round(
+                  (progress.progress * DEEP_SUMMARY_SHARE) / 100
+                ),
+              })
+          : report;
+
+      // Scripts that fit the context window are summarized in one pass
+      const summaryOverhead = ScriptChunker.estimateTokens(
+        PromptService.buildSummaryPrompt('', options, template.body)
+      );
+      let summary: ScriptSummary;
+      let analysisSource: string;
+      if (
+        ScriptChunker.estimateTokens(content) +
+          summaryOverhead +
+          responseTokens <=
+        contextLength
+      ) {
+        summaryReport({
+          progress: 0,
+          stage: 'analyzing_content',
+          message: 'Analyzing script',
+          chunkIndex: 0,
+          chunkCount: 1,
+        });
+        summary = await this.generateSummaryWithRetry(
+          PromptService.buildSummaryPrompt(content, options, template.body),
+          content,
+          options,
+          contextLength,
+          scriptId,
+          signal,
+          summaryReport,
+          0
+        );
+        analysisSource = content;
+      } else {
+        const chunked = await this.generateChunkedSummary(
+          this.splitForNotes(content, options, contextLength),
+          content,
+          options,
+          template.body,
+          contextLength,
+          scriptId,
+          signal,
+          summaryReport
+        );
+        summary = chunked.summary;
+
+        // The passes read the notes, as the script itself does not fit
+        analysisSource = chunked.notes.join('\n\n');
+      }
+
+      if (passes.length > 0) {
+        summary = await this.runAnalysisPasses(
+          summary,
+          analysisSource,
+          passes,
+          options,
+          contextLength,
+          signal,
+          report
+        );
+      }
+
+      // Record which version of a stored template produced the summary
+      if (template.id) {
+        summary = {
+          ...summary,
+          promptTemplateId: template.id,
+          promptTemplateVersion: template.version,
+        };
+      }
+
+      report({ progress: 100, stage: 'complete', message: 'Summary complete' });
+      return summary;
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        throw new Error('Summary generation was cancelled');
+      }
+      throw new Error(`Failed to generate summary: ${error.message}`);
+    }
+  }
+
+  private async runCoverage(
+    content: string,
+    options: CoverageOptions,
+    scriptId: string | undefined,
+    signal: AbortSignal,
+    report: ProgressReporter
+  ): Promise<CoverageReport> {
+    await this.ensureReady();
+
+    try {
+      const contextLength = await this.getContextLength(options);
+      const request = {
+        temperature: options.temperature || 0.7,
+        maxTokens: options.maxTokens || 2000,
+        contextLength,
+        format: COVERAGE_SCHEMA,
+      };
+      const fitsContext = (prompt: string) =>
+        ScriptChunker.estimateTokens(prompt) + request.maxTokens <=
+        contextLength;
+
+      // Long scripts are covered from notes on each part, as for summaries
+      let prompt = PromptService.buildCoveragePrompt(content, options);
+      let progressStart = 0;
+      if (!fitsContext(prompt)) {
+        const notesOptions = { ...COVERAGE_NOTES_OPTIONS, ...options };
+        const notes = await this.writeNotes(
+          this.splitForNotes(content, notesOptions, contextLength),
+          notesOptions,
+          contextLength,
+          batch =>
+            fitsContext(
+              PromptService.buildCoverageReducePrompt(batch, options)
+            ),
+          signal,
+          report
+        );
+        prompt = PromptService.buildCoverageReducePrompt(notes, options);
+        progressStart = CHUNK_PROGRESS_SHARE;
+      }
+
+      report({
+        progress: progressStart,
+        stage: 'analyzing_content',
+        message: 'Writing coverage',
+      });
+      let response = await this.generateTextWithRetry(
+        { ...request, prompt },
+        signal
+      );
+      let parseResult = ResponseParser.parseCoverageResponse(
+        response,
+        this.currentModel!,
+        scriptId
+      );
+
+      // Send the validation errors back so the model can correct them
+      for (
+        let attempt = 1;
+        !parseResult.success && attempt <= MAX_REPAIR_ATTEMPTS;
+        attempt++
+      ) {
+        console.warn(
+          `Coverage does not match the schema, asking for a correction (${attempt}/${MAX_REPAIR_ATTEMPTS}): ${parseResult.error}`
+        );
+        report({
+          progress: STREAM_PROGRESS_END,
+          stage: 'finalizing',
+          message: 'Correcting coverage format',
+        });
+
+        response = await this.generateTextWithRetry(
+          {
+            ...request,
+            prompt: PromptService.buildCoverageRepairPrompt(
+              response,
+              parseResult.validationErrors ?? []
+            ),
+          },
+          signal
+        );
+        parseResult = ResponseParser.parseCoverageResponse(
+          response,
+          this.currentModel!,
+          scriptId
+        );
+      }
+
+      if (!parseResult.success) {
+        throw new Error(parseResult.error || 'Coverage could not be parsed');
+      }
+
+      report({
+        progress: 100,
+        stage: 'complete',
+        message: 'Coverage complete',
+      });
+      return parseResult.coverage!;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Coverage generation was cancelled');
+      }
+      throw new Error(
+        `Failed to generate coverage: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Map-reduce summary of a script too long for the context window: notes
+   * are written on each chunk, condensed until they fit, then summarized
+   */
+  private async generateChunkedSummary(
+    chunks: ScriptChunk[],
+    content: string,
+    options: SummaryOptions,
+    template: string,
+    contextLength: number,
+    scriptId: string | undefined,
+    signal: AbortSignal,
+    report: ProgressReporter
+  ): Promise<{ summary: ScriptSummary; notes: string[] }> {
+    const responseTokens = options.maxTokens || 2000;
+    const notes = await this.writeNotes(
+      chunks,
+      options,
+      contextLength,
+      batch =>
+        ScriptChunker.estimateTokens(
+          PromptService.buildReducePrompt(batch, options, template)
+        ) +
+          responseTokens <=
+        contextLength,
+      signal,
+      report
+    );
+
+    const summary = await this.generateSummaryWithRetry(
+      PromptService.buildReducePrompt(notes, options, template),
+      content,
+      options,
+      contextLength,
+      scriptId,
+      signal,
+      report,
+      CHUNK_PROGRESS_SHARE
+    );
+
+    return { summary, notes };
+  }
+
+  /**
+   * Write notes on each chunk, then condense neighbouring notes until the
+   * final prompt built from them fits
+   */
+  private async writeNotes(
+    chunks: ScriptChunk[],
+    options: SummaryOptions,
+    contextLength: number,
+    fitsFinalPrompt: (notes: string[]) => boolean,
+    signal: AbortSignal,
+    report: ProgressReporter
+  ): Promise<string[]> {
+    let notes: string[] = [];
+
+    for (const chunk of chunks) {
+      report({
+        progress: Math.round(
+          (chunk.index / chunks.length) * CHUNK_PROGRESS_SHARE
+        ),
+        stage: 'analyzing_content',
+        message: `Summarizing part ${chunk.index + 1} of ${chunks.length}`,
+        chunkIndex: chunk.index,
+        chunkCount: chunks.length,
+      });
+
+      notes.push(
+        await this.generateTextWithRetry(
+          {
+            prompt: PromptService.buildChunkNotesPrompt(
+              chunk.content,
+              chunk.index + 1,
+              chunks.length,
+              options
+            ),
+            temperature: options.temperature || 0.7,
+            maxTokens: CHUNK_NOTES_TOKENS,
+            contextLength,
+          },
+          signal
+        )
+      );
+    }
+
+    report({
+      progress: CHUNK_PROGRESS_SHARE,
+      stage: 'finalizing',
+      message: `Combining notes on ${chunks.length} parts`,
+      chunkCount: chunks.length,
+    });
+
+    // Condense neighbouring notes until the final prompt fits
+    while (notes.length > 1 && !fitsFinalPrompt(notes)) {
+      const batches = this.packNotes(
+        notes,
+        batch =>
+          ScriptChunker.estimateTokens(
+            PromptService.buildMergeNotesPrompt(batch, options)
+          ) +
+            CHUNK_NOTES_TOKENS <=
+          contextLength
+      );
+      if (batches.length === notes.length) {
+        break; // No two notes fit together, so they cannot be condensed
+      }
+
+      const merged: string[] = [];
+      for (const batch of batches) {
+        merged.push(
+          batch.length === 1
+            ? batch[0]
+            : await this.generateTextWithRetry(
+                {
+                  prompt: PromptService.buildMergeNotesPrompt(batch, options),
+                  temperature: options.temperature || 0.7,
+                  maxTokens: CHUNK_NOTES_TOKENS,
+                  contextLength,
+                },
+                signal
+              )
+        );
+      }
+      notes = merged;
+    }
+
+    return notes;
+  }
+
+  /**
+   * Replace parts of the summary with the results of focused analysis
+   * passes. A pass that fails leaves the summary's own results in place.
+   */
+  private async runAnalysisPasses(
+    summary: ScriptSummary,
+    source: string,
+    passes: AnalysisPassDefinition[],
+    options: SummaryOptions,
+    contextLength: number,
+    signal: AbortSignal,
+    report: ProgressReporter
+  ): Promise<ScriptSummary> {
+    let result = summary;
+
+    for (const [index, pass] of passes.entries()) {
+      report({
+        progress: Math.round(
+          DEEP_SUMMARY_SHARE +
+            (index / passes.length) * (100 - DEEP_SUMMARY_SHARE)
+        ),
+        stage: pass.stage,
+        message: `${pass.message} (pass ${index + 1} of ${passes.length})`,
+      });
+
+      try {
+        const response = await this.generateTextWithRetry(
+          {
+            prompt: pass.buildPrompt(source),
+            temperature: options.temperature || 0.7,
+            maxTokens: options.maxTokens || 2000,
+            contextLength,
+            format: pass.format,
+            model: options.passModels?.[pass.pass],
+          },
+          signal
+        );
+
+        const parsed = ResponseParser.parseJsonResponse<
+          Record<string, unknown>
+        >(response, pass.pass);
+        const fields = parsed.success ? pass.extract(parsed.data!) : null;
+        if (!fields) {
+          console.warn(
+            `The ${pass.pass} pass returned no usable results: ${parsed.error ?? 'no valid entries'}`
+          );
+          continue;
+        }
+
+        result = { ...result, ...fields, updatedAt: new Date() };
+      } catch (error) {
+        if (signal.aborted) {
+          throw error;
+        }
+        console.warn(
+          `The ${pass.pass} pass failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Generate a summary, asking the model to correct a response that does not
+   * match the schema before parsing it as text. A failed generation or a
+   * response that still cannot be parsed starts the next attempt, and the
+   * last error is thrown once the retries run out.
+   */
+  private async generateSummaryWithRetry(
+    prompt: string,
+    content: string,
+    options: SummaryOptions,
+    contextLength: number,
+    scriptId: string | undefined,
+    signal: AbortSignal,
+    report: ProgressReporter,
+    progressStart: number
+  ): Promise<ScriptSummary> {
+    const maxRetries = 3;
+    let lastError: Error = new Error('Failed to parse LLM response');
+
+    for (let retryCount = 0; retryCount <= maxRetries; retryCount++) {
+      if (retryCount > 0) {
+        console.warn(
+          `Summary attempt failed, retrying (${retryCount}/${maxRetries}): ${lastError.message}`
+        );
+        await this.waitBeforeRetry(retryCount - 1);
+      }
+
+      try {
+        let response = await this.streamSummary(
+          prompt,
+          options,
+          contextLength,
+          signal,
+          report,
+          progressStart
+        );
+        let parseResult = ResponseParser.parseStructuredResponse(
+          response,
+          options,
+          this.currentModel!,
+          scriptId
+        );
+
+        // Send the validation errors back so the model can correct them
+        for (
+          let attempt = 1;
+          !parseResult.success && attempt <= MAX_REPAIR_ATTEMPTS;
+          attempt++
+        ) {
+          console.warn(
+            `Summary does not match the schema, asking for a correction (${attempt}/${MAX_REPAIR_ATTEMPTS}): ${parseResult.error}`
+          );
+          report({
+            progress: STREAM_PROGRESS_END,
+            stage: 'finalizing',
+            message: 'Correcting summary format',
+            partialText: response,
+          });
+
+          response = await this.generateText(
+            {
+              prompt: PromptService.buildRepairPrompt(
+                response,
+                parseResult.validationErrors ?? [],
+                options
+              ),
+              temperature: options.temperature || 0.7,
+              maxTokens: options.maxTokens || 2000,
+              contextLength,
+              format: SUMMARY_SCHEMA,
+            },
+            signal
+          );
+          parseResult = ResponseParser.parseStructuredResponse(
+            response,
+            options,
+            this.currentModel!,
+            scriptId
+          );
+        }
+
+        // Free-text parsing is the last resort
+        if (!parseResult.success) {
+          console.warn(
+            `Summary still does not match the schema, parsing it as text: ${parseResult.error}`
+          );
+          parseResult = ResponseParser.parseWithRetry(
+            response,
+            content,
+            options,
+            this.currentModel!,
+            scriptId,
+            retryCount
+          );
+        }
+
+        if (parseResult.success) {
+          return parseResult.summary!;
+        }
+        lastError = new Error(
+          parseResult.error || 'Failed to parse LLM response after retries'
+        );
+      } catch (error) {
+        if (signal.aborted) {
+          throw error;
+        }
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Stream a summary response, reporting the section being written and the
+   * text so far
+   */
+  private async streamSummary(
+    prompt: string,
+    options: SummaryOptions,
+    contextLength: number,
+    signal: AbortSignal,
+    report: ProgressReporter,
+    progressStart: number
+  ): Promise<string> {
+    const maxTokens = options.maxTokens || 2000;
+    const tracker = new SummaryStreamTracker(options.length, maxTokens);
+
+    const parts = this.streamGenerate(
+      {
+        prompt,
+        temperature: options.temperature || 0.7,
+        maxTokens,
+        contextLength,
+        format: SUMMARY_SCHEMA,
+      },
+      signal
+    );
+
+    let lastStage: GenerationStage | null = null;
+    let lastReport = 0;
+    for await (const part of parts) {
+      const status = tracker.push(part);
+
+      const now = Date.now();
+      if (
+        status.stage !== lastStage ||
+        now - lastReport >= STREAM_PROGRESS_INTERVAL
+      ) {
+        report({
+          progress: Math.round(
+            progressStart +
+              status.fraction * (STREAM_PROGRESS_END - progressStart)
+          ),
+          stage: status.stage,
+          message: STAGE_MESSAGES[status.stage] ?? 'Generating summary',
+          estimatedTimeRemaining: status.estimatedTimeRemaining,
+          partialText: tracker.getText(),
+        });
+        lastStage = status.stage;
+        lastReport = now;
+      }
+    }
+
+    return tracker.getText();
+  }
+
+  private async generateTextWithRetry(
+    request: GenerationRequest,
+    signal: AbortSignal,
+    retryCount = 0
+  ): Promise<string> {
+    const maxRetries = 3;
+
+    try {
+      return await this.generateText(request, signal);
+    } catch (error) {
+      if (retryCount < maxRetries && !signal.aborted) {
+        console.warn(
+          `Generation failed, retrying (${retryCount + 1}/${maxRetries}): ${error.message}`
+        );
+        await this.waitBeforeRetry(retryCount);
+        return await this.generateTextWithRetry(
+          request,
+          signal,
+          retryCount + 1
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async generateText(
+    request: GenerationRequest,
+    signal: AbortSignal
+  ): Promise<string> {
+    let text = '';
+    for await (const part of this.streamGenerate(request, signal)) {
+      text += part;
+    }
+    return text;
+  }
+
+  async getCurrentModel(): Promise<LLMModel | null> {
+    if (!this.currentModel) {
+      return null;
+    }
+
+    const models = await this.listAvailableModels();
+    return models.find(model => model.id === this.currentModel) || null;
+  }
+
+  async setActiveModel(modelId: string): Promise<void> {
+    const models = await this.listAvailableModels();
+    const model = models.find(m => m.id === modelId);
+
+    if (!model) {
+      throw new Error(`Model ${modelId} not found`);
+    }
+
+    if (!model.isAvailable) {
+      throw new Error(`Model ${modelId} is not available`);
+    }
+
+    this.currentModel = modelId;
+  }
+
+  async cancelGeneration(operationId: string): Promise<void> {
+    const controller = this.activeOperations.get(operationId);
+    if (controller) {
+      controller.abort();
+      this.activeOperations.delete(operationId);
+    }
+  }
+
+  // Private helper methods
+
+  private async ensureReady(): Promise<void> {
+    if (!(await this.isAvailable())) {
+      throw new Error(`${this.providerName} service is not available`);
+    }
+
+    if (!this.currentModel) {
+      throw new Error('No model selected. Please set an active model first.');
+    }
+  }
+
+  private generateOperationId(): string {
+    return `${this.providerId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private async waitBeforeRetry(retryCount: number): Promise<void> {
+    // Wait a bit before retrying (shorter delay in tests)
+    const delay =
+      process.env.NODE_ENV === 'test' ? 10 : 1000 * (retryCount + 1);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  /**
+   * Context window for the current model, from the options or the model's
+   * own metadata, capped to keep memory use reasonable
+   */
+  private async getContextLength(
+    options: Pick<SummaryOptions, 'contextLength'>
+  ): Promise<number> {
+    if (options.contextLength) {
+      return options.contextLength;
+    }
+
+    try {
+      const modelContext = await this.getModelContextLength();
+      if (modelContext && modelContext > 0) {
+        return Math.min(modelContext, MAX_CONTEXT_LENGTH);
+      }
+    } catch (error) {
+      console.warn('Could not read model context length:', error);
+    }
+
+    return DEFAULT_CONTEXT_LENGTH;
+  }
+
+  /**
+   * Split a script into chunks small enough to write notes on
+   */
+  private splitForNotes(
+    content: string,
+    options: SummaryOptions,
+    contextLength: number
+  ): ScriptChunk[] {
+    const notesOverhead = ScriptChunker.estimateTokens(
+      PromptService.buildChunkNotesPrompt('', 1, 1, options)
+    );
+
+    return ScriptChunker.split(
+      content,
+      Math.max(1, contextLength - notesOverhead - CHUNK_NOTES_TOKENS)
+    );
+  }
+
+  /**
+   * Group consecutive notes into batches accepted by fits
+   */
+  private packNotes(
+    notes: string[],
+    fits: (batch: string[]) => boolean
+  ): string[][] {
+    const batches: string[][] = [];
+    let batch: string[] = [];
+
+    for (const note of notes) {
+      if (batch.length > 0 && !fits([...batch, note])) {
+        batches.push(batch);
+        batch = [];
+      }
+      batch.push(note);
+    }
+    batches.push(batch);
+
+    return batches;
+  }
+
+  protected estimateParameterCount(
+    modelName: string,
+    details?: ModelDetails
+  ): string {
+    // Use the size the backend reports when there is one
+    const billions = this.getParameterBillions(details);
+    if (billions !== null) {
+      return billions >= 1
+        ? `${Number(billions.toFixed(1))}B`
+        : `${Math.round(billions * 1000)}M`;
+    }
+
+    // Basic parameter estimation based on common model names
+    const name = modelName.toLowerCase();
+    if (name.includes('7b')) return '7B';
+    if (name.includes('13b')) return '13B';
+    if (name.includes('30b')) return '30B';
+    if (name.includes('70b')) return '70B';
+    if (name.includes('3b')) return '3B';
+    if (name.includes('1b')) return '1B';
+    return 'Unknown';
+  }
+
+  protected getModelCapabilities(modelName: string): ModelCapability[] {
+    // Default capabilities for most models
+    const capabilities: ModelCapability[] = [
+      'text_analysis',
+      'structured_output',
+    ];
+
+    const name = modelName.toLowerCase();
+    if (name.includes('code') || name.includes('coder')) {
+      capabilities.push('code_understanding');
+    }
+    if (name.includes('creative') || name.includes('writer')) {
+      capabilities.push('creative_writing');
+    }
+    if (name.includes('long') || name.includes('context')) {
+      capabilities.push('long_context');
+    }
+
+    return capabilities;
+  }
+
+  protected getModelPerformance(modelName: string): ModelPerformance {
+    // Estimated performance based on model size
+    const paramCount = this.estimateParameterCount(modelName);
+
+    switch (paramCount) {
+      case '1B':
+      case '3B':
+        return {
+          averageResponseTime: 2000,
+          qualityRating: 3,
+          memoryEfficiency: 5,
+          speedRating: 5,
+        };
+      case '7B':
+        return {
+          averageResponseTime: 5000,
+          qualityRating: 4,
+          memoryEfficiency: 4,
+          speedRating: 4,
+        };
+      case '13B':
+        return {
+          averageResponseTime: 8000,
+          qualityRating: 4,
+          memoryEfficiency: 3,
+          speedRating: 3,
+        };
+      case '30B':
+      case '70B':
+        return {
+          averageResponseTime: 15000,
+          qualityRating: 5,
+          memoryEfficiency: 2,
+          speedRating: 2,
+        };
+      default:
+        return {
+          averageResponseTime: 5000,
+          qualityRating: 3,
+          memoryEfficiency: 3,
+          speedRating: 3,
+        };
+    }
+  }
+
+  protected getModelRequirements(
+    modelName: string,
+    details?: ModelDetails
+  ): ModelRequirements {
+    // Models with known weights need about that much memory plus room for
+    // the context
+    const weightsGB = this.getWeightsGB(details);
+    if (weightsGB !== null) {
+      const minMemoryGB = Math.ceil(weightsGB * 1.2 + 1);
+      return {
+        minMemoryGB,
+        recommendedMemoryGB: minMemoryGB * 2,
+        diskSpaceGB: Math.max(1, Math.ceil(weightsGB)),
+        supportsGPU: true,
+        minCPUCores:
+          weightsGB <= 1 ? 2 : weightsGB <= 5 ? 4 : weightsGB <= 20 ? 8 : 16,
+      };
+    }
+
+    const paramCount = this.estimateParameterCount(modelName);
+
+    switch (paramCount) {
+      case '1B':
+        return {
+          minMemoryGB: 2,
+          recommendedMemoryGB: 4,
+          diskSpaceGB: 1,
+          supportsGPU: true,
+          minCPUCores: 2,
+        };
+      case '3B':
+        return {
+          minMemoryGB: 4,
+          recommendedMemoryGB: 8,
+          diskSpaceGB: 2,
+          supportsGPU: true,
+          minCPUCores: 4,
+        };
+      case '7B':
+        return {
+          minMemoryGB: 8,
+          recommendedMemoryGB: 16,
+          diskSpaceGB: 4,
+          supportsGPU: true,
+          minCPUCores: 4,
+        };
+      case '13B':
+        return {
+          minMemoryGB: 16,
+          recommendedMemoryGB: 32,
+          diskSpaceGB: 8,
+          supportsGPU: true,
+          minCPUCores: 8,
+        };
+      case '30B':
+        return {
+          minMemoryGB: 32,
+          recommendedMemoryGB: 64,
+          diskSpaceGB: 16,
+          supportsGPU: true,
+          minCPUCores: 8,
+        };
+      case '70B':
+        return {
+          minMemoryGB: 64,
+          recommendedMemoryGB: 128,
+          diskSpaceGB: 32,
+          supportsGPU: true,
+          minCPUCores: 16,
+        };
+      default:
+        return {
+          minMemoryGB: 8,
+          recommendedMemoryGB: 16,
+          diskSpaceGB: 4,
+          supportsGPU: true,
+          minCPUCores: 4,
+        };
+    }
+  }
+
+  /**
+   * Parameter count in billions from reported details, or null when they do
+   * not include it
+   */
+  private getParameterBillions(details?: ModelDetails): number | null {
+    if (details?.parameterCount) {
+      return details.parameterCount / 1e9;
+    }
+
+    const match = details?.parameterSize?.match(/^([\d.]+)\s*([BM])$/i);
+    if (!match) {
+      return null;
+    }
+
+    const size = Number(match[1]);
+    return match[2].toUpperCase() === 'B' ? size : size / 1000;
+  }
+
+  /**
+   * Size of the model weights in GB, from the size on disk or from the
+   * parameter count and quantization
+   */
+  private getWeightsGB(details?: ModelDetails): number | null {
+    if (details?.sizeBytes) {
+      return details.sizeBytes / 1e9;
+    }
+
+    const billions = this.getParameterBillions(details);
+    if (billions === null) {
+      return null;
+    }
+
+    // Quantized weights take a little over their nominal bits per parameter
+    const quantization = details?.quantization?.toUpperCase() ?? '';
+    const bits = quantization.match(/^Q(\d)/);
+    const bytesPerParameter = bits
+      ? (Number(bits[1]) + 0.5) / 8
+      : quantization.includes('F32')
+        ? 4
+        : 2;
+
+    return billions * bytesPerParameter;
+  }
+
+  protected calculateQualityScore(actual: string, expected: string): number {
+    const actualLower = actual.toLowerCase().trim();
+    const expectedLower = expected.toLowerCase().trim();
+
+    if (actualLower.includes(expectedLower)) {
+      return 1.0;
+    }
+
+    return BenchmarkScorer.similarity(actual, expected);
+  }
+}
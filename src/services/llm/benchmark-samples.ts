@@ -0,0 +1,244 @@
+/**
+ * Sample scripts bundled for benchmarking models, with what a correct
+ * summary of each contains
+ * Requirements: 7.1, 7.4
+ */
+
+import type { BenchmarkSample } from '../../types/benchmark';
+
+export const BENCHMARK_SAMPLES: BenchmarkSample[] = [
+  {
+    id: 'last-ferry',
+    title: 'The Last Ferry',
+    content: `FADE IN:
+
+EXT. HARBOR TOWN - DOCK - NIGHT
+
+Rain hammers the pier. A rusted ferry, the MARGARET, rocks at its moorings.
+
+ELLEN MARSH (60s), weathered, in a captain's coat, checks the ropes by lantern light.
+
+DANNY MARSH (30s), her son, hurries down the pier with a duffel bag.
+
+DANNY
+They're closing the route, Mum. After Sunday there's no more crossing.
+
+ELLEN
+Forty years I've run this boat. The island still needs bread and post.
+
+DANNY
+The island's got nine people left on it.
+
+ELLEN
+Then nine people still need bread.
+
+INT. FERRY - WHEELHOUSE - NIGHT
+
+Ellen starts the engine. It coughs, then catches. Danny watches her hands on the wheel.
+
+DANNY
+Dad would have sold it years ago.
+
+ELLEN
+Your father never understood why anyone would stay.
+
+EXT. OPEN SEA - NIGHT
+
+The ferry pitches through black waves. A distress flare arcs red over the water.
+
+INT. FERRY - WHEELHOUSE - CONTINUOUS
+
+DANNY
+That's off the rocks by the lighthouse.
+
+ELLEN
+Hold her steady. We're going in.
+
+EXT. LIGHTHOUSE ROCKS - NIGHT
+
+A small fishing boat is wedged on the rocks. A teenage girl, ROSIE (15), clings to the mast.
+
+Danny throws a line. Rosie grabs it. Ellen brings the ferry close, inch by inch.
+
+Rosie is hauled aboard, shaking.
+
+ROSIE
+My dad says you're the only one who still comes.
+
+Ellen wraps her in a blanket and looks at Danny.
+
+EXT. ISLAND JETTY - DAWN
+
+The ferry docks. A handful of ISLANDERS wait with crates. Rosie runs to her FATHER.
+
+Danny unloads the bread and the post. He looks back at his mother in the wheelhouse.
+
+DANNY
+I'll write to the council. Maybe Sunday doesn't have to be the last crossing.
+
+Ellen smiles for the first time.
+
+FADE OUT.`,
+    reference: {
+      characters: ['Ellen Marsh', 'Danny Marsh', 'Rosie'],
+      genre: 'Drama',
+      themes: ['duty', 'family', 'community', 'loss of a way of life'],
+    },
+  },
+  {
+    id: 'cold-storage',
+    title: 'Cold Storage',
+    content: `FADE IN:
+
+INT. BIOTECH LAB - CORRIDOR - NIGHT
+
+Emergency lights flicker red. An alarm wails, then cuts out.
+
+Dr. PRIYA NAIR (40s), lab coat, keycard in hand, runs past shattered glass.
+
+INT. SECURITY OFFICE - NIGHT
+
+MARCUS COLE (50s), night guard, stares at a wall of dead monitors.
+
+PRIYA (O.S.)
+Marcus! The freezer bank in Lab Four is open.
+
+MARCUS
+Nothing's open. The doors sealed when the power went.
+
+PRIYA
+Then why is the temperature rising?
+
+INT. LAB FOUR - NIGHT
+
+Frost drips from an open cryogenic chamber. Something has crawled out, leaving a trail of black slime toward the vents.
+
+Priya kneels, touches the slime, recoils.
+
+PRIYA
+It's the sample from the expedition. It was supposed to be dead.
+
+MARCUS
+Supposed to be.
+
+A metallic CLANG from inside the ventilation shaft. Then silence.
+
+INT. SERVER ROOM - NIGHT
+
+Priya types on a terminal running on backup power. Marcus guards the door with a fire extinguisher.
+
+PRIYA
+If I drop the building temperature below freezing, it goes dormant again.
+
+MARCUS
+And us?
+
+PRIYA
+We'll have about ten minutes before we freeze too.
+
+The vent above them bulges. A shadow moves behind the grate.
+
+MARCUS
+Do it.
+
+INT. LAB FOUR - LATER
+
+Ice covers every surface. Priya and Marcus, blue-lipped, seal the creature back into the chamber with a crowbar.
+
+Priya slams the lock shut. Marcus slides down the wall, shivering.
+
+MARCUS
+Who sent the expedition?
+
+PRIYA
+The company. They knew what it was.
+
+She pockets a frozen vial of the slime.
+
+FADE OUT.`,
+    reference: {
+      characters: ['Priya Nair', 'Marcus Cole'],
+      genre: 'Science Fiction Horror',
+      themes: [
+        'corporate greed',
+        'survival',
+        'the danger of scientific ambition',
+      ],
+    },
+  },
+  {
+    id: 'second-chair',
+    title: 'Second Chair',
+    content: `FADE IN:
+
+INT. HIGH SCHOOL BAND ROOM - DAY
+
+Music stands in rows. Sunlight through dusty windows.
+
+LUCAS BRANDT (17), lanky, clutches a trumpet case. He reads a list pinned to the board: FIRST CHAIR - THEO PARK.
+
+THEO PARK (17), grinning, claps Lucas on the shoulder.
+
+THEO
+Second chair's not bad, man. You still get the solo in the spring concert. Oh wait.
+
+He laughs. Lucas doesn't.
+
+MS. OKAFOR (40s), band director, watches from her desk.
+
+INT. LUCAS'S GARAGE - NIGHT
+
+Lucas practices the solo again and again. His little sister JUNE (10) sits on a paint can, eating cereal.
+
+JUNE
+You played it right the last six times.
+
+LUCAS
+Right isn't good enough.
+
+INT. BAND ROOM - DAY
+
+Ms. Okafor pulls Lucas aside.
+
+MS. OKAFOR
+You play like you're afraid of a wrong note. Theo plays like he's never heard of one.
+
+LUCAS
+So he's better.
+
+MS. OKAFOR
+So he's braver. That can be learned.
+
+INT. SCHOOL AUDITORIUM - NIGHT
+
+The spring concert. Theo stands for the solo, opens his mouth to play, and freezes. Stage fright. Silence.
+
+Lucas looks at Ms. Okafor. She nods.
+
+Lucas stands and plays the solo. He cracks a note, keeps going, and finishes strong.
+
+Applause. Theo, pale, sits down.
+
+INT. BACKSTAGE - NIGHT
+
+Lucas finds Theo alone.
+
+LUCAS
+You'd have nailed it in rehearsal.
+
+THEO
+Rehearsal's easy.
+
+LUCAS
+Tuesday. My garage. My sister brings cereal.
+
+Theo laughs, a real one this time.
+
+FADE OUT.`,
+    reference: {
+      characters: ['Lucas Brandt', 'Theo Park', 'Ms. Okafor', 'June'],
+      genre: 'Coming-of-age Comedy Drama',
+      themes: ['rivalry', 'courage', 'friendship', 'fear of failure'],
+    },
+  },
+];
@@ -0,0 +1,185 @@
+/**
+ * Scoring of benchmark summaries against the samples' references, and the
+ * performance ratings derived from benchmark results
+ * Requirements: 7.1, 7.4
+ */
+
+import type { ModelPerformance } from '../../types/llm-service';
+import type { ScriptSummary } from '../../types/summary';
+import type {
+  BenchmarkAccuracy,
+  BenchmarkReference,
+  BenchmarkSampleResult,
+  ModelBenchmarkResult,
+} from '../../types/benchmark';
+
+// Words that say nothing about what a name, genre or theme refers to
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'of',
+  'the',
+  'to',
+  'in',
+  'on',
+  'for',
+  'with',
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+]);
+
+// Generation speeds, in tokens per second, for speed ratings 2 to 5
+const SPEED_THRESHOLDS = [5, 10, 20, 40];
+
+// Memory use, in GB, for memory efficiency ratings 4 to 1
+const MEMORY_THRESHOLDS = [2, 4, 8, 16];
+
+export class BenchmarkScorer {
+  /**
+   * How much of the reference a summary found: the share of characters and
+   * themes it named, and how closely its genre matches
+   */
+  static scoreSummary(
+    summary: Pick<ScriptSummary, 'mainCharacters' | 'genre' | 'themes'>,
+    reference: BenchmarkReference
+  ): BenchmarkAccuracy {
+    // Family members share a surname, so characters are matched on the
+    // first word of their name
+    const characters = this.recall(
+      reference.characters,
+      summary.mainCharacters.map(character => character.name),
+      words => [...words].slice(0, 1)
+    );
+    const genre = this.similarity(summary.genre, reference.genre);
+    const themes = this.recall(reference.themes, summary.themes);
+
+    return {
+      characters,
+      genre,
+      themes,
+      overall: (characters + genre + themes) / 3,
+    };
+  }
+
+  /**
+   * Word overlap of two texts, from 0 for none to 1 for the same words
+   */
+  static similarity(actual: string, expected: string): number {
+    const actualWords = this.words(actual);
+    const expectedWords = this.words(expected);
+    if (actualWords.size === 0 || expectedWords.size === 0) {
+      return 0;
+    }
+
+    const shared = [...expectedWords].filter(word =>
+      actualWords.has(word)
+    ).length;
+    return (2 * shared) / (actualWords.size + expectedWords.size);
+  }
+
+  /**
+   * Average the sample results into a model's result
+   */
+  static summarize(
+    modelId: string,
+    samples: BenchmarkSampleResult[]
+  ): ModelBenchmarkResult {
+    // Samples that failed to generate have no timings, but count against
+    // accuracy
+    const timed = samples.filter(sample => sample.tokensPerSecond > 0);
+    const average = (values: number[]) =>
+      values.length > 0
+        ? values.reduce((total, value) => total + value, 0) / values.length
+        : 0;
+    const memory = samples
+      .map(sample => sample.memoryBytes)
+      .filter((bytes): bytes is number => bytes !== undefined);
+
+    return {
+      modelId,
+      tokensPerSecond: average(timed.map(sample => sample.tokensPerSecond)),
+      timeToFirstTokenMs: average(
+        timed.map(sample => sample.timeToFirstTokenMs)
+      ),
+      durationMs: average(timed.map(sample => sample.durationMs)),
+      memoryBytes: memory.length > 0 ? Math.max(...memory) : undefined,
+      accuracy: {
+        characters: average(samples.map(sample => sample.accuracy.characters)),
+        genre: average(samples.map(sample => sample.accuracy.genre)),
+        themes: average(samples.map(sample => sample.accuracy.themes)),
+        overall: average(samples.map(sample => sample.accuracy.overall)),
+      },
+      samples,
+      runAt: new Date(),
+    };
+  }
+
+  /**
+   * Performance ratings from measured results, replacing the estimates
+   * made from the model name
+   */
+  static toModelPerformance(result: ModelBenchmarkResult): ModelPerformance {
+    const memoryGB =
+      result.memoryBytes !== undefined ? result.memoryBytes / 1e9 : undefined;
+
+    return {
+      averageResponseTime: Math.round(result.durationMs),
+      qualityRating: 1 + Math.round(result.accuracy.overall * 4),
+      memoryEfficiency:
+        memoryGB === undefined
+          ? 3
+          : 5 - MEMORY_THRESHOLDS.filter(limit => memoryGB > limit).length,
+      speedRating:
+        1 +
+        SPEED_THRESHOLDS.filter(speed => result.tokensPerSecond >= speed)
+          .length,
+      tokensPerSecond: result.tokensPerSecond,
+      timeToFirstTokenMs: result.timeToFirstTokenMs,
+      accuracy: result.accuracy.overall,
+      benchmarkedAt: result.runAt,
+    };
+  }
+
+  /**
+   * Share of the expected items that appear among the actual ones, where
+   * an item appears if an actual item has one of its key words
+   */
+  private static recall(
+    expected: string[],
+    actual: string[],
+    keyWords: (words: Set<string>) => string[] = words => [...words]
+  ): number {
+    if (expected.length === 0) {
+      return 1;
+    }
+
+    const actualWords = actual.map(item => this.words(item));
+    const found = expected.filter(item => {
+      const words = keyWords(this.words(item));
+      return actualWords.some(candidate =>
+        words.some(word => candidate.has(word))
+      );
+    });
+    return found.length / expected.length;
+  }
+
+  // Lowercase word stems, so "family" and "families" or "survival" and
+  // "surviving" match
+  private static words(text: string): Set<string> {
+    return new Set(
+      text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word && !STOP_WORDS.has(word))
+        .map(word =>
+          word
+            .replace(/ies$/, 'y')
+            .replace(/(ing|ed|(?<!s)s)$/, '')
+            .slice(0, 5)
+        )
+    );
+  }
+}
@@ -3,8 +3,30 @@
  * Requirements: 1.2, 1.3, 7.1, 7.4
  */
 
+export { ANALYSIS_PASSES } from './analysis-passes';
+export { BaseLLMService } from './base-llm-service';
+export { BENCHMARK_SAMPLES } from './benchmark-samples';
+export { BenchmarkScorer } from './benchmark-scorer';
 export { OllamaService } from './ollama-service';
-export { PromptService } from './prompt-service';
+export { OpenAICompatibleService } from './openai-compatible-service';
+export { LLMProviderRegistry, llmProviderRegistry } from './provider-registry';
+export { PromptService, PROMPT_TEMPLATE_VARIABLES } from './prompt-service';
+export {
+  PromptTemplateRegistry,
+  promptTemplateRegistry,
+} from './prompt-template-registry';
 export { ResponseParser } from './response-parser';
+export { ScriptChunker } from './script-chunker';
+export { SummaryStreamTracker } from './summary-stream';
 export type { LLMService } from '../../types/llm-service';
+export type { AnalysisPassDefinition } from './analysis-passes';
+export type { GenerationRequest, GenerationStats } from './base-llm-service';
+export type { LLMProviderDefinition } from './provider-registry';
+export type { PromptTemplateVariable } from './prompt-service';
+export type {
+  PromptTemplateLoader,
+  ResolvedPromptTemplate,
+} from './prompt-template-registry';
 export type { ParsedResponse } from './response-parser';
+export type { ScriptChunk } from './script-chunker';
+export type { StreamedSection, StreamStatus } from './summary-stream';
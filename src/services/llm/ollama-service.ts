@@ -3,189 +3,73 @@
  * Requirements: 1.2, 1.3, 7.1, 7.4
  */
 
-import { Ollama } from 'ollama';
+import { AbortableAsyncIterator, Ollama, ProgressResponse } from 'ollama';
 import {
-  LLMService,
   LLMModel,
-  SummaryOptions,
+  ModelDetails,
+  ModelManager,
+  ModelPullOptions,
+  ModelPullProgressCallback,
   ModelTestResult,
   ServiceStatus,
-  ModelCapability,
-  ModelPerformance,
-  ModelRequirements,
   MemoryUsage,
-  GenerationProgress,
-  GenerationStage,
 } from '../../types/llm-service';
-import { ScriptSummary } from '../../types/summary';
 import { PromptService } from './prompt-service';
-import { ResponseParser } from './response-parser';
+import { BaseLLMService, GenerationRequest } from './base-llm-service';
+
+// Model details as Ollama reports them in list and show responses
+interface OllamaModelDetails {
+  family?: string;
+  format?: string;
+  parameter_size?: string;
+  quantization_level?: string;
+}
 
-export class OllamaService implements LLMService {
+export class OllamaService extends BaseLLMService implements ModelManager {
+  protected readonly providerId = 'ollama';
+  protected readonly providerName = 'Ollama';
   private ollama: Ollama;
-  private currentModel: string | null = null;
-  private activeOperations = new Map<string, AbortController>();
+  private activePulls = new Map<
+    string,
+    AbortableAsyncIterator<ProgressResponse>
+  >();
 
   constructor(baseUrl = 'http://localhost:11434', ollamaInstance?: Ollama) {
+    super();
     this.ollama = ollamaInstance || new Ollama({ host: baseUrl });
     // Set default model from environment variable
     this.currentModel = process.env.DEFAULT_MODEL || null;
   }
 
-  async isAvailable(): Promise<boolean> {
-    try {
-      const status = await this.getServiceStatus();
-      return status.isRunning;
-    } catch (error) {
-      console.error('Ollama service availability check failed:', error);
-      return false;
-    }
-  }
-
-  async generateSummary(
-    content: string,
-    options: SummaryOptions,
-    scriptId?: string
-  ): Promise<ScriptSummary> {
-    if (!(await this.isAvailable())) {
-      throw new Error('Ollama service is not available');
-    }
-
-    if (!this.currentModel) {
-      throw new Error('No model selected. Please set an active model first.');
-    }
-
-    const operationId = this.generateOperationId();
-    const abortController = new AbortController();
-    this.activeOperations.set(operationId, abortController);
-
-    try {
-      return await this.generateSummaryWithRetry(content, options, scriptId, 0);
-    } catch (error) {
-      if (error.name === 'AbortError') {
-        throw new Error('Summary generation was cancelled');
-      }
-      throw new Error(`Failed to generate summary: ${error.message}`);
-    } finally {
-      this.activeOperations.delete(operationId);
-    }
-  }
-
-  private async generateSummaryWithRetry(
-    content: string,
-    options: SummaryOptions,
-    scriptId?: string,
-    retryCount = 0
-  ): Promise<ScriptSummary> {
-    const maxRetries = 3;
-
-    try {
-      const prompt = this.buildSummaryPrompt(content, options);
-
-      const response = await this.ollama.generate({
-        model: this.currentModel!,
-        prompt,
-        options: {
-          temperature: options.temperature || 0.7,
-          num_predict: options.maxTokens || 2000,
-        },
-        stream: false,
-      });
-
-      // Parse the response into structured summary
-      const parseResult = ResponseParser.parseWithRetry(
-        response.response,
-        content,
-        options,
-        this.currentModel!,
-        scriptId,
-        retryCount
-      );
-
-      if (!parseResult.success) {
-        if (retryCount < maxRetries) {
-          console.warn(
-            `Parsing failed, retrying (${retryCount + 1}/${maxRetries}): ${parseResult.error}`
-          );
-          return await this.generateSummaryWithRetry(
-            content,
-            options,
-            scriptId,
-            retryCount + 1
-          );
-        }
-        throw new Error(
-          parseResult.error || 'Failed to parse LLM response after retries'
-        );
-      }
-
-      return parseResult.summary!;
-    } catch (error) {
-      if (retryCount < maxRetries && !error.message.includes('cancelled')) {
-        console.warn(
-          `Generation failed, retrying (${retryCount + 1}/${maxRetries}): ${error.message}`
-        );
-        // Wait a bit before retrying (shorter delay in tests)
-        const delay =
-          process.env.NODE_ENV === 'test' ? 10 : 1000 * (retryCount + 1);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return await this.generateSummaryWithRetry(
-          content,
-          options,
-          scriptId,
-          retryCount + 1
-        );
-      }
-      throw error;
-    }
-  }
-
   async listAvailableModels(): Promise<LLMModel[]> {
     try {
       const response = await this.ollama.list();
 
-      return response.models.map(model => ({
-        id: model.name,
-        name: model.name,
-        description: `Ollama model: ${model.name}`,
-        version: model.digest.substring(0, 12),
-        parameterCount: this.estimateParameterCount(model.name),
-        isAvailable: true,
-        isDownloaded: true,
-        capabilities: this.getModelCapabilities(model.name),
-        performance: this.getModelPerformance(model.name),
-        requirements: this.getModelRequirements(model.name),
-      }));
+      return response.models.map(model => {
+        const details = this.toModelDetails(model.details, {
+          sizeBytes: model.size,
+        });
+
+        return {
+          id: model.name,
+          name: model.name,
+          description: `Ollama model: ${model.name}`,
+          version: model.digest.substring(0, 12),
+          parameterCount: this.estimateParameterCount(model.name, details),
+          isAvailable: true,
+          isDownloaded: true,
+          capabilities: this.getModelCapabilities(model.name),
+          performance: this.getModelPerformance(model.name),
+          requirements: this.getModelRequirements(model.name, details),
+          details,
+        };
+      });
     } catch (error) {
       console.error('Failed to list models:', error);
       return [];
     }
   }
 
-  async getCurrentModel(): Promise<LLMModel | null> {
-    if (!this.currentModel) {
-      return null;
-    }
-
-    const models = await this.listAvailableModels();
-    return models.find(model => model.id === this.currentModel) || null;
-  }
-
-  async setActiveModel(modelId: string): Promise<void> {
-    const models = await this.listAvailableModels();
-    const model = models.find(m => m.id === modelId);
-
-    if (!model) {
-      throw new Error(`Model ${modelId} not found`);
-    }
-
-    if (!model.isAvailable) {
-      throw new Error(`Model ${modelId} is not available`);
-    }
-
-    this.currentModel = modelId;
-  }
-
   async testModel(modelId: string): Promise<ModelTestResult> {
     const startTime = Date.now();
 
@@ -247,163 +131,189 @@ export class OllamaService implements LLMService {
     }
   }
 
-  async cancelGeneration(operationId: string): Promise<void> {
-    const controller = this.activeOperations.get(operationId);
-    if (controller) {
-      controller.abort();
-      this.activeOperations.delete(operationId);
+  /**
+   * Pull a model, from a registry or mirror when one is given, reporting
+   * the bytes downloaded for each layer
+   */
+  async pullModel(
+    modelName: string,
+    options: ModelPullOptions = {},
+    onProgress?: ModelPullProgressCallback
+  ): Promise<void> {
+    if (this.activePulls.has(modelName)) {
+      throw new Error(`Model ${modelName} is already being pulled`);
     }
-  }
-
-  // Private helper methods
 
-  private generateOperationId(): string {
-    return `ollama_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const registry = options.registry?.trim().replace(/\/+$/, '');
+    const stream = await this.ollama.pull({
+      model: registry
+        ? `${registry.replace(/^https?:\/\//, '')}/${modelName.includes('/') ? modelName : `library/${modelName}`}`
+        : modelName,
+      // Local registries and mirrors are often served over plain HTTP
+      insecure: registry?.startsWith('http://'),
+      stream: true,
+    });
+
+    this.activePulls.set(modelName, stream);
+    try {
+      for await (const part of stream) {
+        onProgress?.({
+          modelName,
+          status: part.status,
+          digest: part.digest || undefined,
+          completedBytes: part.completed,
+          totalBytes: part.total,
+        });
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Pull of ${modelName} was cancelled`);
+      }
+      throw new Error(
+        `Failed to pull ${modelName}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      this.activePulls.delete(modelName);
+    }
   }
 
-  private buildSummaryPrompt(content: string, options: SummaryOptions): string {
-    return PromptService.buildSummaryPrompt(content, options);
+  async cancelPull(modelName: string): Promise<void> {
+    this.activePulls.get(modelName)?.abort();
   }
 
-  private estimateParameterCount(modelName: string): string {
-    // Basic parameter estimation based on common model names
-    const name = modelName.toLowerCase();
-    if (name.includes('7b')) return '7B';
-    if (name.includes('13b')) return '13B';
-    if (name.includes('30b')) return '30B';
-    if (name.includes('70b')) return '70B';
-    if (name.includes('3b')) return '3B';
-    if (name.includes('1b')) return '1B';
-    return 'Unknown';
+  async deleteModel(modelName: string): Promise<void> {
+    await this.ollama.delete({ model: modelName });
+
+    if (this.currentModel === modelName) {
+      this.currentModel = null;
+    }
   }
 
-  private getModelCapabilities(modelName: string): ModelCapability[] {
-    // Default capabilities for most models
-    const capabilities: ModelCapability[] = [
-      'text_analysis',
-      'structured_output',
-    ];
+  /**
+   * Details from `ollama show`: architecture, quantization, context length
+   * and Modelfile parameters
+   */
+  async getModelDetails(modelName: string): Promise<ModelDetails> {
+    const info = await this.ollama.show({ model: modelName });
+    const modelInfo = this.getModelInfo(info.model_info);
+    const contextKey = Object.keys(modelInfo).find(name =>
+      name.endsWith('.context_length')
+    );
+
+    return this.toModelDetails(info.details, {
+      parameterCount: Number(modelInfo['general.parameter_count']) || undefined,
+      contextLength: contextKey ? Number(modelInfo[contextKey]) : undefined,
+      parameters: this.parseParameters(info.parameters),
+    });
+  }
 
-    const name = modelName.toLowerCase();
-    if (name.includes('code') || name.includes('coder')) {
-      capabilities.push('code_understanding');
-    }
-    if (name.includes('creative') || name.includes('writer')) {
-      capabilities.push('creative_writing');
-    }
-    if (name.includes('long') || name.includes('context')) {
-      capabilities.push('long_context');
+  /**
+   * Stream a response from Ollama, aborting the request when the operation
+   * is cancelled
+   */
+  protected async *streamGenerate(
+    request: GenerationRequest,
+    signal: AbortSignal
+  ): AsyncGenerator<string> {
+    signal.throwIfAborted();
+
+    const stream = await this.ollama.generate({
+      model: request.model ?? this.currentModel!,
+      prompt: request.prompt,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens,
+        num_ctx: request.contextLength,
+      },
+      format: request.format,
+      stream: true,
+    });
+
+    const abort = () => stream.abort();
+    signal.addEventListener('abort', abort);
+    try {
+      signal.throwIfAborted();
+      for await (const part of stream) {
+        yield part.response ?? '';
+
+        // The last part carries the token count and timing in nanoseconds
+        if (part.done && part.eval_count) {
+          request.onStats?.({
+            outputTokens: part.eval_count,
+            generationMs: part.eval_duration / 1e6,
+          });
+        }
+      }
+      signal.throwIfAborted();
+    } finally {
+      signal.removeEventListener('abort', abort);
     }
+  }
 
-    return capabilities;
+  /**
+   * Context window from the model's metadata
+   */
+  protected async getModelContextLength(): Promise<number | null> {
+    const info = await this.ollama.show({ model: this.currentModel! });
+    const modelInfo = this.getModelInfo(info.model_info);
+    const key = Object.keys(modelInfo).find(name =>
+      name.endsWith('.context_length')
+    );
+
+    return key ? Number(modelInfo[key]) : null;
   }
 
-  private getModelPerformance(modelName: string): ModelPerformance {
-    // Estimated performance based on model size
-    const paramCount = this.estimateParameterCount(modelName);
+  /**
+   * Memory of the loaded model, including what is offloaded to the GPU
+   */
+  protected async getModelMemoryUsage(modelId: string): Promise<number | null> {
+    const { models } = await this.ollama.ps();
+    return models.find(model => model.name === modelId)?.size ?? null;
+  }
 
-    switch (paramCount) {
-      case '1B':
-      case '3B':
-        return {
-          averageResponseTime: 2000,
-          qualityRating: 3,
-          memoryEfficiency: 5,
-          speedRating: 5,
-        };
-      case '7B':
-        return {
-          averageResponseTime: 5000,
-          qualityRating: 4,
-          memoryEfficiency: 4,
-          speedRating: 4,
-        };
-      case '13B':
-        return {
-          averageResponseTime: 8000,
-          qualityRating: 4,
-          memoryEfficiency: 3,
-          speedRating: 3,
-        };
-      case '30B':
-      case '70B':
-        return {
-          averageResponseTime: 15000,
-          qualityRating: 5,
-          memoryEfficiency: 2,
-          speedRating: 2,
-        };
-      default:
-        return {
-          averageResponseTime: 5000,
-          qualityRating: 3,
-          memoryEfficiency: 3,
-          speedRating: 3,
-        };
-    }
+  // The client types model_info as a Map, but it arrives as plain JSON
+  private getModelInfo(
+    modelInfo: Map<string, unknown> | Record<string, unknown> | undefined
+  ): Record<string, unknown> {
+    return modelInfo instanceof Map
+      ? Object.fromEntries(modelInfo)
+      : (modelInfo ?? {});
   }
 
-  private getModelRequirements(modelName: string): ModelRequirements {
-    const paramCount = this.estimateParameterCount(modelName);
+  private toModelDetails(
+    details: OllamaModelDetails | undefined,
+    extra: Partial<ModelDetails>
+  ): ModelDetails {
+    return {
+      family: details?.family || undefined,
+      format: details?.format || undefined,
+      parameterSize: details?.parameter_size || undefined,
+      quantization: details?.quantization_level || undefined,
+      ...extra,
+    };
+  }
 
-    switch (paramCount) {
-      case '1B':
-        return {
-          minMemoryGB: 2,
-          recommendedMemoryGB: 4,
-          diskSpaceGB: 1,
-          supportsGPU: true,
-          minCPUCores: 2,
-        };
-      case '3B':
-        return {
-          minMemoryGB: 4,
-          recommendedMemoryGB: 8,
-          diskSpaceGB: 2,
-          supportsGPU: true,
-          minCPUCores: 4,
-        };
-      case '7B':
-        return {
-          minMemoryGB: 8,
-          recommendedMemoryGB: 16,
-          diskSpaceGB: 4,
-          supportsGPU: true,
-          minCPUCores: 4,
-        };
-      case '13B':
-        return {
-          minMemoryGB: 16,
-          recommendedMemoryGB: 32,
-          diskSpaceGB: 8,
-          supportsGPU: true,
-          minCPUCores: 8,
-        };
-      case '30B':
-        return {
-          minMemoryGB: 32,
-          recommendedMemoryGB: 64,
-          diskSpaceGB: 16,
-          supportsGPU: true,
-          minCPUCores: 8,
-        };
-      case '70B':
-        return {
-          minMemoryGB: 64,
-          recommendedMemoryGB: 128,
-          diskSpaceGB: 32,
-          supportsGPU: true,
-          minCPUCores: 16,
-        };
-      default:
-        return {
-          minMemoryGB: 8,
-          recommendedMemoryGB: 16,
-          diskSpaceGB: 4,
-          supportsGPU: true,
-          minCPUCores: 4,
-        };
+  /**
+   * Modelfile parameters, one per line as a name and value; repeated names
+   * such as stop are joined
+   */
+  private parseParameters(
+    parameters: string | undefined
+  ): Record<string, string> | undefined {
+    if (!parameters?.trim()) {
+      return undefined;
+    }
+
+    const result: Record<string, string> = {};
+    for (const line of parameters.split('\n')) {
+      const match = line.trim().match(/^(\S+)\s+(.+)$/);
+      if (match) {
+        result[match[1]] = result[match[1]]
+          ? `${result[match[1]]}, ${match[2]}`
+          : match[2];
+      }
     }
+    return result;
   }
 
   private async getMemoryUsage(): Promise<MemoryUsage> {
@@ -418,20 +328,4 @@ export class OllamaService implements LLMService {
       percentage: Math.round((usedMemory / totalMemory) * 100),
     };
   }
-
-  private calculateQualityScore(actual: string, expected: string): number {
-    // Simple quality scoring based on similarity
-    const actualLower = actual.toLowerCase().trim();
-    const expectedLower = expected.toLowerCase().trim();
-
-    if (actualLower.includes(expectedLower)) {
-      return 1.0;
-    }
-
-    // Calculate basic similarity
-    const words = expectedLower.split(' ');
-    const matchedWords = words.filter(word => actualLower.includes(word));
-
-    return matchedWords.length / words.length;
-  }
 }
@@ -8,38 +8,232 @@ import {
   FocusArea,
   SummaryLength,
 } from '../../types/llm-service';
+import { ValidationError } from '../../types/validation';
+import { CoverageOptions } from '../../types/coverage';
+
+/** A placeholder summary prompt templates can use */
+export interface PromptTemplateVariable {
+  name: string;
+  description: string;
+}
+
+export const PROMPT_TEMPLATE_VARIABLES: PromptTemplateVariable[] = [
+  {
+    name: 'script',
+    description: 'The script, or notes on each part of a long script',
+  },
+  { name: 'targetAudience', description: 'Who the analysis is written for' },
+  {
+    name: 'focusAreas',
+    description: 'Instructions for the chosen focus areas',
+  },
+  { name: 'length', description: 'How long the analysis should be' },
+  { name: 'sections', description: 'The sections the analysis should cover' },
+  {
+    name: 'customInstructions',
+    description: 'Additional instructions, when there are any',
+  },
+  {
+    name: 'outputFormat',
+    description: 'The JSON format summaries are read from',
+  },
+];
+
+// A placeholder on a line of its own, with up to one blank line after it
+// that goes with it when the placeholder is empty, or a placeholder in text
+const PLACEHOLDER =
+  /^\{\{\s*(\w+)\s*\}\}(?=\n|$)(\n{0,2})|\{\{\s*(\w+)\s*\}\}/gm;
 
 export class PromptService {
+  /** Summary prompt used when no stored template is selected */
+  static readonly DEFAULT_SUMMARY_TEMPLATE = `You are an expert script analyst working for {{targetAudience}}. Your task is to provide a comprehensive, professional analysis of the provided script. Be thorough, insightful, and focus on elements that would be most valuable for production decision-making.
+
+{{focusAreas}}
+
+{{length}}
+
+{{sections}}
+
+{{customInstructions}}
+
+
+--- SCRIPT CONTENT ---
+{{script}}
+--- END SCRIPT ---
+
+
+{{outputFormat}}`;
+
   /**
-   * Build a comprehensive summary prompt for script analysis
+   * Build a comprehensive summary prompt for script analysis from a summary
+   * prompt template
    */
-  static buildSummaryPrompt(content: string, options: SummaryOptions): string {
-    const sections = [];
+  static buildSummaryPrompt(
+    content: string,
+    options: SummaryOptions,
+    template = PromptService.DEFAULT_SUMMARY_TEMPLATE
+  ): string {
+    return this.renderTemplate(
+      template,
+      this.getTemplateVariables(content, options)
+    );
+  }
 
-    // Add system instruction
-    sections.push(this.getSystemInstruction(options));
+  /**
+   * Replace the {{name}} placeholders in a template. Placeholders on a line
+   * of their own are removed with the line when empty; unknown placeholders
+   * are left as they are.
+   */
+  static renderTemplate(
+    template: string,
+    variables: Record<string, string>
+  ): string {
+    return template.replace(
+      PLACEHOLDER,
+      (match, lineName?: string, newlines?: string, inlineName?: string) => {
+        const name = lineName ?? inlineName!;
+        if (!(name in variables)) {
+          return match;
+        }
+
+        const value = variables[name];
+        return lineName !== undefined && value === ''
+          ? ''
+          : value + (newlines ?? '');
+      }
+    );
+  }
 
-    // Add focus area instructions
-    if (options.focusAreas.length > 0) {
-      sections.push(this.getFocusAreaInstructions(options.focusAreas));
-    }
+  /**
+   * Check that a summary prompt template includes the script and only uses
+   * known placeholders
+   */
+  static validateTemplate(template: string): string[] {
+    const known = new Set(PROMPT_TEMPLATE_VARIABLES.map(item => item.name));
+    const used = Array.from(
+      template.matchAll(/\{\{\s*(\w+)\s*\}\}/g),
+      match => match[1]
+    );
+    const errors: string[] = [];
 
-    // Add length and format instructions
-    sections.push(this.getLengthInstructions(options.length));
-    sections.push(this.getFormatInstructions(options));
+    if (!used.includes('script')) {
+      errors.push('The template must include {{script}}');
+    }
 
-    // Add custom instructions if provided
-    if (options.customInstructions) {
-      sections.push(`Additional Instructions: ${options.customInstructions}`);
+    for (const name of new Set(used)) {
+      if (!known.has(name)) {
+        errors.push(`Unknown placeholder {{${name}}}`);
+      }
     }
 
-    // Add the script content
-    sections.push(`\n--- SCRIPT CONTENT ---\n${content}\n--- END SCRIPT ---\n`);
+    return errors;
+  }
+
+  /**
+   * Build a prompt for notes on one part of a script too long to analyze in
+   * a single pass
+   */
+  static buildChunkNotesPrompt(
+    chunk: string,
+    part: number,
+    totalParts: number,
+    options: SummaryOptions
+  ): string {
+    return [
+      this.getSystemInstruction(options),
+      `This is part ${part} of ${totalParts} of a script that is too long to analyze at once. Write notes on this part only; they will be combined with the notes on the other parts.`,
+      this.getNotesInstructions(options),
+      `--- SCRIPT PART ${part} OF ${totalParts} ---\n${chunk}\n--- END PART ---`,
+    ].join('\n\n');
+  }
+
+  /**
+   * Build a prompt that condenses notes on consecutive parts of a script
+   * into one set of notes
+   */
+  static buildMergeNotesPrompt(
+    notes: string[],
+    options: SummaryOptions
+  ): string {
+    return [
+      this.getSystemInstruction(options),
+      'Below are notes on consecutive parts of a script, in order. Combine them into one set of notes covering all of these parts, keeping events in story order and merging details about the same characters.',
+      this.getNotesInstructions(options),
+      this.formatNotes(notes),
+    ].join('\n\n');
+  }
+
+  /**
+   * Build the final summary prompt from notes on every part of a script,
+   * with the notes in place of the script
+   */
+  static buildReducePrompt(
+    notes: string[],
+    options: SummaryOptions,
+    template = PromptService.DEFAULT_SUMMARY_TEMPLATE
+  ): string {
+    return this.renderTemplate(
+      template,
+      this.getTemplateVariables(this.describeNotes(notes), options)
+    );
+  }
+
+  /**
+   * Build a prompt asking the model to correct a summary that did not match
+   * the summary schema
+   */
+  static buildRepairPrompt(
+    response: string,
+    errors: ValidationError[],
+    options: SummaryOptions
+  ): string {
+    return this.buildCorrectionPrompt(
+      response,
+      errors,
+      'a script summary',
+      this.getOutputTemplate(options)
+    );
+  }
+
+  /**
+   * Build a coverage report prompt: logline, synopsis, comments, ratings and
+   * a pass, consider or recommend verdict
+   */
+  static buildCoveragePrompt(
+    content: string,
+    options: CoverageOptions
+  ): string {
+    return this.getCoveragePrompt(
+      `--- SCRIPT CONTENT ---\n${content}\n--- END SCRIPT ---`,
+      options
+    );
+  }
 
-    // Add output format template
-    sections.push(this.getOutputTemplate(options));
+  /**
+   * Build the coverage report prompt from notes on every part of a script,
+   * with the notes in place of the script
+   */
+  static buildCoverageReducePrompt(
+    notes: string[],
+    options: CoverageOptions
+  ): string {
+    return this.getCoveragePrompt(this.describeNotes(notes), options);
+  }
 
-    return sections.join('\n\n');
+  /**
+   * Build a prompt asking the model to correct a coverage report that did
+   * not match the coverage schema
+   */
+  static buildCoverageRepairPrompt(
+    response: string,
+    errors: ValidationError[]
+  ): string {
+    return this.buildCorrectionPrompt(
+      response,
+      errors,
+      'a coverage report',
+      this.getCoverageOutputTemplate()
+    );
   }
 
   /**
@@ -156,12 +350,138 @@ Format as a simple JSON array:
 }`;
   }
 
+  private static getTemplateVariables(
+    script: string,
+    options: SummaryOptions
+  ): Record<string, string> {
+    return {
+      script,
+      targetAudience: options.targetAudience || 'film directors and producers',
+      focusAreas:
+        options.focusAreas.length > 0
+          ? this.getFocusAreaInstructions(options.focusAreas)
+          : '',
+      length: this.getLengthInstructions(options.length),
+      sections: this.getFormatInstructions(options),
+      customInstructions: options.customInstructions
+        ? `Additional Instructions: ${options.customInstructions}`
+        : '',
+      outputFormat: this.getOutputTemplate(options),
+    };
+  }
+
   private static getSystemInstruction(options: SummaryOptions): string {
     const audience = options.targetAudience || 'film directors and producers';
 
     return `You are an expert script analyst working for ${audience}. Your task is to provide a comprehensive, professional analysis of the provided script. Be thorough, insightful, and focus on elements that would be most valuable for production decision-making.`;
   }
 
+  private static getNotesInstructions(options: SummaryOptions): string {
+    const items = [
+      'PLOT - The events in story order',
+      'CHARACTERS - Who appears, what they do and how they relate to each other',
+    ];
+
+    if (options.identifyThemes) {
+      items.push('THEMES - Ideas and motifs that come up');
+    }
+
+    if (options.includeProductionNotes) {
+      items.push(
+        'PRODUCTION - Locations, cast, stunts, effects and other requirements'
+      );
+    }
+
+    items.push(
+      'KEY SCENES - Notable or pivotal moments, with their page numbers when pages are marked'
+    );
+
+    return `Keep the notes brief and factual, under these headings:\n${items.map(item => `- ${item}`).join('\n')}`;
+  }
+
+  private static describeNotes(notes: string[]): string {
+    return [
+      `The script was too long to read at once, so it was analyzed in ${notes.length} consecutive parts. Use the notes on each part below to analyze the script as a whole.`,
+      this.formatNotes(notes),
+    ].join('\n\n');
+  }
+
+  private static buildCorrectionPrompt(
+    response: string,
+    errors: ValidationError[],
+    expected: string,
+    outputTemplate: string
+  ): string {
+    const problems = errors.map(error =>
+      error.value === undefined
+        ? `- ${error.field}: ${error.message}`
+        : `- ${error.field}: ${error.message} (found ${JSON.stringify(error.value)})`
+    );
+
+    return [
+      `Your previous response could not be used as ${expected} because it does not match the required JSON format.`,
+      `Problems found:\n${problems.join('\n')}`,
+      `--- PREVIOUS RESPONSE ---\n${response.trim()}\n--- END RESPONSE ---`,
+      'Correct these problems and keep the rest of the analysis unchanged.',
+      outputTemplate,
+    ].join('\n\n');
+  }
+
+  private static getCoveragePrompt(
+    source: string,
+    options: CoverageOptions
+  ): string {
+    const audience = options.targetAudience || 'a film production company';
+
+    return [
+      `You are an experienced story analyst writing script coverage for ${audience}. Write standard industry coverage of the script: a logline, a synopsis, comments, ratings and a verdict.`,
+      [
+        '- LOGLINE - One or two sentences pitching the story: the protagonist, their goal and what stands in their way',
+        '- SYNOPSIS - The whole story in a few paragraphs, in story order and including the ending',
+        '- COMMENTS - An honest assessment of the premise, structure, characters, dialogue and commercial prospects, with specific examples from the script',
+        '- RATINGS - Rate the premise, structure, characters, dialogue and marketability as excellent, good, fair or poor',
+        '- VERDICT - pass if the script is not worth pursuing, consider if it shows promise but needs work, recommend only if it is ready to pursue as it stands',
+      ].join('\n'),
+      ...(options.customInstructions
+        ? [`Additional Instructions: ${options.customInstructions}`]
+        : []),
+      source,
+      this.getCoverageOutputTemplate(),
+    ].join('\n\n');
+  }
+
+  private static getCoverageOutputTemplate(): string {
+    const template = {
+      logline: '[Logline]',
+      synopsis: '[Synopsis]',
+      comments: '[Comments]',
+      ratings: {
+        premise: 'excellent|good|fair|poor',
+        structure: 'excellent|good|fair|poor',
+        characters: 'excellent|good|fair|poor',
+        dialogue: 'excellent|good|fair|poor',
+        marketability: 'excellent|good|fair|poor',
+      },
+      verdict: 'pass|consider|recommend',
+      genre: '[Primary genre and any subgenres]',
+      comparables: ['[Comparable produced title]'],
+    };
+
+    return `Respond with a single JSON object in the following format and no other text. Replace each bracketed description with your assessment, use one of the listed values where values are separated by "|", and leave out optional fields you cannot determine:
+
+${JSON.stringify(template, null, 2)}`;
+  }
+
+  private static formatNotes(notes: string[]): string {
+    return notes
+      .map(
+        (note, i) =>
+          `--- NOTES ON PART ${i + 1} OF ${notes.length} ---\n${note.trim()}`
+      )
+      .join('\n\n')
+      .concat('\n--- END NOTES ---');
+  }
+
   private static getFocusAreaInstructions(focusAreas: FocusArea[]): string {
     const areaDescriptions: Record<FocusArea, string> = {
       plot: 'Pay special attention to plot structure, pacing, and narrative coherence',
@@ -205,7 +525,7 @@ Format as a simple JSON array:
   private static getFormatInstructions(options: SummaryOptions): string {
     const sections = [];
 
-    sections.push('Structure your response with the following sections:');
+    sections.push('Cover the following in your analysis:');
     sections.push('1. PLOT OVERVIEW - A concise summary of the story');
 
     if (options.analyzeCharacterRelationships) {
@@ -239,58 +559,55 @@ Format as a simple JSON array:
   }
 
   private static getOutputTemplate(options: SummaryOptions): string {
+    const template: Record<string, unknown> = {
+      plotOverview: '[Comprehensive plot summary]',
+      mainCharacters: options.analyzeCharacterRelationships
+        ? [
+            {
+              name: '[Character name]',
+              description: '[Description and role in the story]',
+              importance: 'protagonist|main|supporting|minor',
+              relationships: ['[Relationship to another character]'],
+              characterArc: '[How the character changes]',
+              ageRange: '[Age range if known]',
+              traits: ['[Notable trait]'],
+            },
+          ]
+        : [],
+      themes: options.identifyThemes ? ['[Theme and its significance]'] : [],
+      productionNotes: options.includeProductionNotes
+        ? [
+            {
+              category:
+                'budget|location|cast|technical|legal|scheduling|equipment|post-production',
+              content: '[Production consideration]',
+              priority: 'critical|high|medium|low',
+              budgetImpact: 'minimal|moderate|significant|major',
+              requirements: ['[Specific requirement]'],
+            },
+          ]
+        : [],
+      genre: '[Primary genre and any subgenres]',
+      estimatedBudget: 'micro|low|medium|high|blockbuster',
+      targetAudience: '[Intended audience]',
+      toneAndStyle: '[Tone and style analysis]',
+      keyScenes: [
+        '[Notable or pivotal scene, with its page number when pages are marked]',
+      ],
+    };
+
+    if (options.includeProductionNotes) {
+      template.productionChallenges = ['[Specific challenge for production]'];
+    }
+
+    if (options.assessMarketability) {
+      template.marketability = '[Commercial viability assessment]';
+    }
+
     return `
-Please provide your analysis in the following structured format:
-
-## PLOT OVERVIEW
-[Comprehensive plot summary]
-
-${
-  options.analyzeCharacterRelationships
-    ? `## MAIN CHARACTERS
-[Character analysis with relationships]
-
-`
-    : ''
-}${
-      options.identifyThemes
-        ? `## THEMES
-[Theme identification and analysis]
-
-`
-        : ''
-    }${
-      options.includeProductionNotes
-        ? `## PRODUCTION NOTES
-[Production considerations and challenges]
-
-`
-        : ''
-    }${
-      options.assessMarketability
-        ? `## MARKETABILITY
-[Commercial viability assessment]
-
-`
-        : ''
-    }## GENRE
-[Genre classification]
-
-## TONE AND STYLE
-[Tone and style analysis]
-
-## KEY SCENES
-[Notable or pivotal scenes]
-
-${
-  options.includeProductionNotes
-    ? `## PRODUCTION CHALLENGES
-[Specific challenges for production]
-
-`
-    : ''
-}## OVERALL ASSESSMENT
-[Final evaluation and recommendations]`;
+Respond with a single JSON object in the following format and no other text. Replace each bracketed description with your analysis, use one of the listed values where values are separated by "|", and leave out optional fields you cannot determine:
+
+${JSON.stringify(template, null, 2)}`;
   }
 
   private static getScriptTypeInstructions(scriptType: string): string {
@@ -0,0 +1,45 @@
+/**
+ * Resolves the summary prompt template selected in the summary options
+ * Requirements: 3.1, 7.2
+ */
+
+import { PromptService } from './prompt-service';
+
+/** A template ready to render; stored templates carry their version */
+export interface ResolvedPromptTemplate {
+  id?: string;
+  version?: number;
+  body: string;
+}
+
+export type PromptTemplateLoader = (
+  templateId: string
+) => Promise<ResolvedPromptTemplate | null>;
+
+export class PromptTemplateRegistry {
+  private loader: PromptTemplateLoader | null = null;
+
+  /** Set where stored templates are loaded from */
+  setLoader(loader: PromptTemplateLoader | null): void {
+    this.loader = loader;
+  }
+
+  /**
+   * The template with the given ID, or the built-in template when no ID is
+   * given
+   */
+  async resolve(templateId?: string): Promise<ResolvedPromptTemplate> {
+    if (!templateId) {
+      return { body: PromptService.DEFAULT_SUMMARY_TEMPLATE };
+    }
+
+    const template = this.loader ? await this.loader(templateId) : null;
+    if (!template) {
+      throw new Error(`Prompt template ${templateId} not found`);
+    }
+    return template;
+  }
+}
+
+// Singleton instance
+export const promptTemplateRegistry = new PromptTemplateRegistry();
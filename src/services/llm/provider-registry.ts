@@ -0,0 +1,81 @@
+/**
+ * Registry of the LLM backends users can choose between
+ * Requirements: 1.2, 7.4
+ */
+
+import {
+  LLMService,
+  LLMProviderId,
+  LLMProviderInfo,
+  LLMProviderSettings,
+} from '../../types/llm-service';
+import { OllamaService } from './ollama-service';
+import { OpenAICompatibleService } from './openai-compatible-service';
+
+export interface LLMProviderDefinition extends LLMProviderInfo {
+  /** Create a service connected to the configured endpoint */
+  create: (settings: LLMProviderSettings) => LLMService;
+}
+
+export class LLMProviderRegistry {
+  private providers: Map<LLMProviderId, LLMProviderDefinition>;
+
+  constructor() {
+    this.providers = new Map();
+    this.initializeProviders();
+  }
+
+  private initializeProviders(): void {
+    this.register({
+      id: 'ollama',
+      name: 'Ollama',
+      description: 'Models run by a local Ollama server',
+      defaultEndpoint: 'http://localhost:11434',
+      create: ({ endpoint }) => new OllamaService(endpoint),
+    });
+    this.register({
+      id: 'openai-compatible',
+      name: 'OpenAI-compatible',
+      description:
+        'llama.cpp server, LM Studio, vLLM and other servers with an OpenAI-compatible API',
+      defaultEndpoint: 'http://localhost:8080',
+      create: ({ endpoint, apiKey }) =>
+        new OpenAICompatibleService(endpoint, apiKey),
+    });
+  }
+
+  register(definition: LLMProviderDefinition): void {
+    this.providers.set(definition.id, definition);
+  }
+
+  getProviders(): LLMProviderInfo[] {
+    return [...this.providers.values()].map(
+      ({ id, name, description, defaultEndpoint }) => ({
+        id,
+        name,
+        description,
+        defaultEndpoint,
+      })
+    );
+  }
+
+  /**
+   * Create a service for the configured provider, using the provider's
+   * default endpoint when none is set
+   */
+  createService(settings: LLMProviderSettings): LLMService {
+    const provider = this.providers.get(settings.provider);
+
+    if (!provider) {
+      throw new Error(`Unknown LLM provider: ${settings.provider}`);
+    }
+
+    return provider.create({
+      ...settings,
+      endpoint: settings.endpoint.trim() || provider.defaultEndpoint,
+    });
+  }
+}
+
+// Export singleton instance
+export const llmProviderRegistry = new LLMProviderRegistry();
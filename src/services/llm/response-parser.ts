@@ -13,6 +13,13 @@ import {
   BudgetImpact,
 } from '../../types/summary';
 import { SummaryOptions } from '../../types/llm-service';
+import { CoverageReport } from '../../types/coverage';
+import {
+  ValidationError,
+  validateCoverageContent,
+  validateSummaryContent,
+} from '../../types/validation';
+import { CharacterAnalyticsService } from '../analytics/character-analytics';
 
 export interface ParsedResponse {
   success: boolean;
@@ -21,7 +28,121 @@ export interface ParsedResponse {
   warnings?: string[];
 }
 
+export interface StructuredParseResult extends ParsedResponse {
+  /** Problems to send back to the model when the response is unusable */
+  validationErrors?: ValidationError[];
+}
+
+export interface CoverageParseResult {
+  success: boolean;
+  coverage?: CoverageReport;
+  error?: string;
+
+  /** Problems to send back to the model when the response is unusable */
+  validationErrors?: ValidationError[];
+}
+
 export class ResponseParser {
+  /**
+   * Parse a JSON-mode response, validating it against the summary schema
+   */
+  static parseStructuredResponse(
+    response: string,
+    options: SummaryOptions,
+    modelUsed: string,
+    scriptId?: string
+  ): StructuredParseResult {
+    const json = this.readJson(response);
+    if (!json.success) {
+      return json;
+    }
+
+    const validation = validateSummaryContent(json.data);
+    if (!validation.isValid || !validation.data) {
+      return {
+        success: false,
+        error: `Response does not match the summary schema: ${validation.errors
+          .map(error => `${error.field}: ${error.message}`)
+          .join('; ')}`,
+        validationErrors: validation.errors,
+      };
+    }
+
+    const content = validation.data;
+    const summary: ScriptSummary = {
+      id: `summary_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      scriptId: scriptId || `script_${Date.now()}`,
+      plotOverview: content.plotOverview,
+      mainCharacters: content.mainCharacters,
+      themes: content.themes,
+      productionNotes: content.productionNotes,
+      genre: content.genre,
+      estimatedBudget: content.estimatedBudget,
+      targetAudience: content.targetAudience,
+      toneAndStyle: content.toneAndStyle,
+      keyScenes: content.keyScenes,
+      productionChallenges: content.productionChallenges,
+      marketability: content.marketability,
+      modelUsed,
+      generationOptions: options,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    return {
+      success: true,
+      summary,
+      warnings:
+        validation.warnings.length > 0
+          ? validation.warnings.map(warning => warning.message)
+          : undefined,
+    };
+  }
+
+  /**
+   * Parse a JSON-mode coverage report response, validating it against the
+   * coverage schema
+   */
+  static parseCoverageResponse(
+    response: string,
+    modelUsed: string,
+    scriptId?: string
+  ): CoverageParseResult {
+    const json = this.readJson(response);
+    if (!json.success) {
+      return json;
+    }
+
+    const validation = validateCoverageContent(json.data);
+    if (!validation.isValid || !validation.data) {
+      return {
+        success: false,
+        error: `Response does not match the coverage schema: ${validation.errors
+          .map(error => `${error.field}: ${error.message}`)
+          .join('; ')}`,
+        validationErrors: validation.errors,
+      };
+    }
+
+    const content = validation.data;
+    return {
+      success: true,
+      coverage: {
+        id: `coverage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        scriptId: scriptId || `script_${Date.now()}`,
+        logline: content.logline,
+        synopsis: content.synopsis,
+        comments: content.comments,
+        ratings: content.ratings,
+        verdict: content.verdict,
+        genre: content.genre,
+        comparables: content.comparables,
+        modelUsed,
+        createdAt: new Date(),
+      },
+    };
+  }
+
   /**
    * Parse LLM response into structured ScriptSummary object
    */
@@ -157,6 +278,70 @@ export class ResponseParser {
     return result;
   }
 
+  /**
+   * JSON object in a response with nulls removed, or the problem to send
+   * back to the model when there is none
+   */
+  private static readJson(
+    response: string
+  ):
+    | { success: true; data: unknown }
+    | { success: false; error: string; validationErrors: ValidationError[] } {
+    try {
+      return {
+        success: true,
+        data: this.removeNulls(JSON.parse(this.extractJson(response))),
+      };
+    } catch (error) {
+      const message = `Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return {
+        success: false,
+        error: message,
+        validationErrors: [
+          {
+            field: 'root',
+            code: 'INVALID_JSON',
+            message,
+            value: undefined,
+            expected: 'JSON object',
+          },
+        ],
+      };
+    }
+  }
+
+  /**
+   * JSON object in a response, without code fences or text around it
+   */
+  private static extractJson(response: string): string {
+    const start = response.indexOf('{');
+    const end = response.lastIndexOf('}');
+
+    return start >= 0 && end > start
+      ? response.substring(start, end + 1)
+      : response.trim();
+  }
+
+  /**
+   * Models often write null for fields they cannot determine; treat those
+   * fields as left out
+   */
+  private static removeNulls(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.removeNulls(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, item]) => item !== null)
+          .map(([key, item]) => [key, this.removeNulls(item)])
+      );
+    }
+
+    return value;
+  }
+
   private static cleanResponse(response: string): string {
     // Remove common LLM artifacts and normalize formatting
     return response
@@ -683,8 +868,9 @@ export class ResponseParser {
         response.substring(0, 500).trim() || 'Summary not available';
 
       // Try to find character names in the original content
-      const characterNames =
-        this.extractCharacterNamesFromScript(originalContent);
+      const characterNames = CharacterAnalyticsService.analyze(originalContent)
+        .characters.slice(0, 10) // Limit to 10 characters
+        .map(character => character.name);
       const mainCharacters = characterNames.map(name => ({
         name,
         description: 'Character details not available',
@@ -718,20 +904,4 @@ export class ResponseParser {
       };
     }
   }
-
-  private static extractCharacterNamesFromScript(content: string): string[] {
-    // Extract character names from script format (usually in ALL CAPS)
-    const characterPattern = /^([A-Z][A-Z\s]{2,}?)(?:\s*\(|:)/gm;
-    const matches = content.match(characterPattern);
-
-    if (!matches) return [];
-
-    const names = matches
-      .map(match => match.replace(/[:(].*$/, '').trim())
-      .filter(name => name.length > 1 && name.length < 30)
-      .filter((name, index, arr) => arr.indexOf(name) === index) // Remove duplicates
-      .slice(0, 10); // Limit to 10 characters
-
-    return names;
-  }
 }
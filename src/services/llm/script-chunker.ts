@@ -0,0 +1,100 @@
+/**
+ * Splits long scripts into chunks that fit a model's context window
+ * Requirements: 3.1, 7.2
+ */
+
+import { ScreenplayElementDetector } from '../file-processing/screenplay-elements';
+
+export interface ScriptChunk {
+  /** Position of the chunk in the script (0-based) */
+  index: number;
+
+  /** Offset of the chunk in the content */
+  start: number;
+
+  /** Offset just past the chunk in the content */
+  end: number;
+
+  /** Text of the chunk */
+  content: string;
+}
+
+// Rough average for English prose with common local model tokenizers
+const CHARACTERS_PER_TOKEN = 4;
+
+export class ScriptChunker {
+  /**
+   * Estimate how many tokens a model needs for the given text
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARACTERS_PER_TOKEN);
+  }
+
+  /**
+   * Split content into chunks of at most maxTokens. Chunks end on scene
+   * boundaries where possible; scenes too long for one chunk are split at
+   * paragraph, line or word breaks.
+   */
+  static split(content: string, maxTokens: number): ScriptChunk[] {
+    const maxLength = Math.max(1, maxTokens * CHARACTERS_PER_TOKEN);
+
+    const boundaries = this.findSceneBoundaries(content);
+    const segments = boundaries.flatMap((start, i) =>
+      this.splitSegment(
+        content,
+        start,
+        i + 1 < boundaries.length ? boundaries[i + 1] : content.length,
+        maxLength
+      )
+    );
+
+    // Pack whole segments into chunks until the next one would not fit
+    const ranges: Array<{ start: number; end: number }> = [];
+    let start = 0;
+    let end = 0;
+    for (const segment of segments) {
+      if (segment.end - start > maxLength && end > start) {
+        ranges.push({ start, end });
+        start = segment.start;
+      }
+      end = segment.end;
+    }
+    ranges.push({ start, end });
+
+    return ranges.map((range, index) => ({
+      index,
+      ...range,
+      content: content.slice(range.start, range.end),
+    }));
+  }
+
+  private static findSceneBoundaries(content: string): number[] {
+    const headings = ScreenplayElementDetector.detect(content)
+      .filter(element => element.type === 'scene_heading')
+      .map(element => element.start);
+
+    return [...new Set([0, ...headings])].sort((a, b) => a - b);
+  }
+
+  private static splitSegment(
+    content: string,
+    start: number,
+    end: number,
+    maxLength: number
+  ): Array<{ start: number; end: number }> {
+    const pieces: Array<{ start: number; end: number }> = [];
+
+    while (end - start > maxLength) {
+      const limit = start + maxLength;
+      const cut = ['\n\n', '\n', ' ']
+        .map(separator => content.lastIndexOf(separator, limit))
+        .find(index => index > start);
+
+      pieces.push({ start, end: cut ?? limit });
+      start = cut ?? limit;
+    }
+    pieces.push({ start, end });
+
+    return pieces;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * JSON schemas for summaries generated in JSON mode, covering the fields of
+ * ScriptSummary written by the model, for the deep analysis passes and for
+ * coverage reports
+ * Requirements: 3.1, 3.2
+ */
+
+const STRING_LIST = { type: 'array', items: { type: 'string' } };
+
+const CHARACTER_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    importance: {
+      type: 'string',
+      enum: ['protagonist', 'main', 'supporting', 'minor'],
+    },
+    relationships: STRING_LIST,
+    characterArc: { type: 'string' },
+    ageRange: { type: 'string' },
+    traits: STRING_LIST,
+  },
+  required: ['name', 'description', 'importance', 'relationships'],
+};
+
+const PRODUCTION_NOTE_SCHEMA = {
+  type: 'object',
+  properties: {
+    category: {
+      type: 'string',
+      enum: [
+        'budget',
+        'location',
+        'cast',
+        'technical',
+        'legal',
+        'scheduling',
+        'equipment',
+        'post-production',
+      ],
+    },
+    content: { type: 'string' },
+    priority: { type: 'string', enum: ['critical', 'high', 'medium', 'low'] },
+    budgetImpact: {
+      type: 'string',
+      enum: ['minimal', 'moderate', 'significant', 'major'],
+    },
+    requirements: STRING_LIST,
+  },
+  required: ['category', 'content', 'priority'],
+};
+
+export const SUMMARY_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    plotOverview: { type: 'string' },
+    mainCharacters: { type: 'array', items: CHARACTER_SCHEMA },
+    themes: STRING_LIST,
+    productionNotes: { type: 'array', items: PRODUCTION_NOTE_SCHEMA },
+    genre: { type: 'string' },
+    estimatedBudget: {
+      type: 'string',
+      enum: ['micro', 'low', 'medium', 'high', 'blockbuster'],
+    },
+    targetAudience: { type: 'string' },
+    toneAndStyle: { type: 'string' },
+    keyScenes: STRING_LIST,
+    productionChallenges: STRING_LIST,
+    marketability: { type: 'string' },
+  },
+  required: [
+    'plotOverview',
+    'mainCharacters',
+    'themes',
+    'productionNotes',
+    'genre',
+  ],
+};
+
+export const CHARACTER_ANALYSIS_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: { characters: { type: 'array', items: CHARACTER_SCHEMA } },
+  required: ['characters'],
+};
+
+export const THEME_ANALYSIS_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: { themes: STRING_LIST },
+  required: ['themes'],
+};
+
+export const PRODUCTION_NOTES_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    productionNotes: { type: 'array', items: PRODUCTION_NOTE_SCHEMA },
+  },
+  required: ['productionNotes'],
+};
+
+const COVERAGE_RATING = {
+  type: 'string',
+  enum: ['excellent', 'good', 'fair', 'poor'],
+};
+
+export const COVERAGE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    logline: { type: 'string' },
+    synopsis: { type: 'string' },
+    comments: { type: 'string' },
+    ratings: {
+      type: 'object',
+      properties: {
+        premise: COVERAGE_RATING,
+        structure: COVERAGE_RATING,
+        characters: COVERAGE_RATING,
+        dialogue: COVERAGE_RATING,
+        marketability: COVERAGE_RATING,
+      },
+      required: [
+        'premise',
+        'structure',
+        'characters',
+        'dialogue',
+        'marketability',
+      ],
+    },
+    verdict: { type: 'string', enum: ['pass', 'consider', 'recommend'] },
+    genre: { type: 'string' },
+    comparables: STRING_LIST,
+  },
+  required: ['logline', 'synopsis', 'comments', 'ratings', 'verdict'],
+};
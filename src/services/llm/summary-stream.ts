@@ -0,0 +1,190 @@
+/**
+ * Tracks a streamed summary response: the section being written, progress
+ * and time remaining, and the sections received so far
+ * Requirements: 3.1, 7.1
+ */
+
+import type { GenerationStage, SummaryLength } from '../../types/llm-service';
+
+export interface StreamedSection {
+  /** Section heading as written by the model */
+  title: string;
+
+  /** Section text received so far */
+  text: string;
+}
+
+export interface StreamStatus {
+  stage: GenerationStage;
+
+  /** Share of the expected response received (0-1) */
+  fraction: number;
+
+  /** Estimated time remaining in milliseconds, once tokens have arrived */
+  estimatedTimeRemaining?: number;
+}
+
+// Typical response lengths for each summary length, in tokens
+const EXPECTED_RESPONSE_TOKENS: Record<SummaryLength, number> = {
+  brief: 550,
+  standard: 1100,
+  detailed: 1600,
+  comprehensive: 2400,
+};
+
+// Section headings of a free-text summary and the stage each one starts
+const SECTION_STAGES: Array<[RegExp, GenerationStage]> = [
+  [/^PLOT OVERVIEW$/, 'extracting_plot'],
+  [/^(MAIN )?CHARACTERS$/, 'identifying_characters'],
+  [/^THEMES$/, 'analyzing_themes'],
+  [/^PRODUCTION (NOTES|CHALLENGES)$/, 'generating_production_notes'],
+  [
+    /^(MARKETABILITY|GENRE|ESTIMATED BUDGET|TARGET AUDIENCE|TONE AND STYLE|KEY SCENES|OVERALL ASSESSMENT)$/,
+    'finalizing',
+  ],
+];
+
+// Markdown heading, bold or numbered section title on a line of its own
+const HEADING_LINE =
+  /^\s*(?:#+\s*|\*\*|\d+\.\s*)?([A-Za-z][A-Za-z ]+?)(?:\*\*)?:?\s*$/;
+
+// Section titles for the fields of a JSON-mode summary
+const JSON_SECTIONS: Record<string, string> = {
+  plotOverview: 'PLOT OVERVIEW',
+  mainCharacters: 'MAIN CHARACTERS',
+  themes: 'THEMES',
+  productionNotes: 'PRODUCTION NOTES',
+  genre: 'GENRE',
+  estimatedBudget: 'ESTIMATED BUDGET',
+  targetAudience: 'TARGET AUDIENCE',
+  toneAndStyle: 'TONE AND STYLE',
+  keyScenes: 'KEY SCENES',
+  productionChallenges: 'PRODUCTION CHALLENGES',
+  marketability: 'MARKETABILITY',
+};
+
+const JSON_FIELD = new RegExp(
+  `"(${Object.keys(JSON_SECTIONS).join('|')})"\\s*:`,
+  'g'
+);
+
+// Complete or unterminated JSON string; group 2 is set for object keys
+const JSON_STRING = /"((?:[^"\\]|\\.)*)(?:"(\s*:)?|$)/g;
+
+export class SummaryStreamTracker {
+  private text = '';
+  private tokens = 0;
+  private startTime = Date.now();
+  private expectedTokens: number;
+
+  constructor(length: SummaryLength, maxTokens?: number) {
+    this.expectedTokens = Math.min(
+      EXPECTED_RESPONSE_TOKENS[length],
+      maxTokens ?? Infinity
+    );
+  }
+
+  /**
+   * Add a streamed part of the response
+   */
+  push(part: string): StreamStatus {
+    this.text += part;
+    this.tokens++;
+
+    const elapsed = Date.now() - this.startTime;
+    const remainingTokens = Math.max(0, this.expectedTokens - this.tokens);
+
+    return {
+      stage: SummaryStreamTracker.detectStage(this.text),
+      fraction: Math.min(1, this.tokens / this.expectedTokens),
+      estimatedTimeRemaining:
+        remainingTokens === 0
+          ? 0
+          : elapsed > 0
+            ? Math.round((remainingTokens * elapsed) / this.tokens)
+            : undefined,
+    };
+  }
+
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Stage of the last section heading in the text
+   */
+  static detectStage(text: string): GenerationStage {
+    const sections = this.splitSections(text);
+    const title = sections[sections.length - 1]?.title.toUpperCase();
+
+    return (
+      SECTION_STAGES.find(([pattern]) => title && pattern.test(title))?.[1] ??
+      'analyzing_content'
+    );
+  }
+
+  /**
+   * Split a full or partial response into its known sections. Text before
+   * the first heading is left out.
+   */
+  static splitSections(text: string): StreamedSection[] {
+    if (/^\s*(```(json)?\s*)?\{/.test(text)) {
+      return this.splitJsonSections(text);
+    }
+
+    const sections: StreamedSection[] = [];
+
+    for (const line of text.split('\n')) {
+      const title = line.match(HEADING_LINE)?.[1].trim();
+      if (title && this.isSectionTitle(title)) {
+        sections.push({ title, text: '' });
+      } else if (sections.length > 0) {
+        const section = sections[sections.length - 1];
+        section.text = section.text ? `${section.text}\n${line}` : line;
+      }
+    }
+
+    return sections.map(section => ({
+      ...section,
+      text: section.text.trim(),
+    }));
+  }
+
+  /**
+   * Sections of a JSON-mode response, with the text of each field's string
+   * values
+   */
+  private static splitJsonSections(text: string): StreamedSection[] {
+    const fields = [...text.matchAll(JSON_FIELD)];
+
+    return fields.map((field, index) => {
+      const end = fields[index + 1]?.index ?? text.length;
+      const value = text
+        .substring(field.index! + field[0].length, end)
+        .replace(/\\$/, '');
+
+      const strings = [...value.matchAll(JSON_STRING)]
+        .filter(match => match[2] === undefined)
+        .map(match => this.unescapeJson(match[1]));
+
+      return {
+        title: JSON_SECTIONS[field[1]],
+        text: strings.join('\n').trim(),
+      };
+    });
+  }
+
+  private static unescapeJson(value: string): string {
+    try {
+      return JSON.parse(`"${value}"`);
+    } catch {
+      return value;
+    }
+  }
+
+  private static isSectionTitle(title: string): boolean {
+    return SECTION_STAGES.some(([pattern]) =>
+      pattern.test(title.toUpperCase())
+    );
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for scene breakdown service
+ * Requirements: 2.1, 2.2
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SceneBreakdownService } from '../scene-breakdown-service';
+import type { ParsedScript } from '../../../types/file-processing';
+
+const buildScript = (
+  content: string,
+  overrides: Partial<ParsedScript> = {}
+): ParsedScript => ({
+  content,
+  title: 'Test Script',
+  metadata: {
+    title: 'Test Script',
+    wordCount: 0,
+    characterCount: content.length,
+    fileSize: content.length,
+  },
+  ...overrides,
+});
+
+describe('SceneBreakdownService', () => {
+  describe('parseSlugline', () => {
+    it('should split location type, location and time of day', () => {
+      expect(
+        SceneBreakdownService.parseSlugline('INT. LIGHTHOUSE - NIGHT')
+      ).toEqual({
+        sceneNumber: undefined,
+        locationType: 'INT',
+        location: 'LIGHTHOUSE',
+        timeOfDay: 'NIGHT',
+      });
+    });
+
+    it('should keep multi-part locations together', () => {
+      expect(
+        SceneBreakdownService.parseSlugline('EXT. FARM - NORTH FIELD - DAWN')
+      ).toMatchObject({
+        locationType: 'EXT',
+        location: 'FARM - NORTH FIELD',
+        timeOfDay: 'DAWN',
+      });
+    });
+
+    it('should recognize combined interior and exterior prefixes', () => {
+      ['INT./EXT. CAR - DAY', 'INT/EXT CAR - DAY', 'I/E CAR - DAY'].forEach(
+        heading => {
+          expect(SceneBreakdownService.parseSlugline(heading)).toMatchObject({
+            locationType: 'INT/EXT',
+            location: 'CAR',
+            timeOfDay: 'DAY',
+          });
+        }
+      );
+    });
+
+    it('should read scene numbers on either side', () => {
+      expect(
+        SceneBreakdownService.parseSlugline('12A INT. DINER - CONTINUOUS 12A')
+      ).toMatchObject({
+        sceneNumber: '12A',
+        location: 'DINER',
+        timeOfDay: 'CONTINUOUS',
+      });
+      expect(
+        SceneBreakdownService.parseSlugline('EXT. ROOF - LATER #4#')
+      ).toMatchObject({ sceneNumber: '4', timeOfDay: 'LATER' });
+    });
+
+    it('should normalize time of day variants', () => {
+      const timeOf = (heading: string) =>
+        SceneBreakdownService.parseSlugline(heading).timeOfDay;
+
+      expect(timeOf('INT. HALL - MOMENTS LATER')).toBe('LATER');
+      expect(timeOf('EXT. PIER - SUNSET')).toBe('DUSK');
+      expect(timeOf("INT. HALL - CONT'D")).toBe('CONTINUOUS');
+      expect(timeOf('INT. HALL - (SAME TIME)')).toBe('SAME');
+    });
+
+    it('should report an unknown time of day without a dash', () => {
+      expect(SceneBreakdownService.parseSlugline('INT. HALLWAY')).toMatchObject(
+        { location: 'HALLWAY', timeOfDay: 'UNKNOWN' }
+      );
+    });
+  });
+
+  describe('analyze', () => {
+    const content = [
+      'FADE IN:',
+      '',
+      'INT. KITCHEN - DAY',
+      '',
+      'Jo pours coffee.',
+      '',
+      'EXT. GARDEN - NIGHT',
+      '',
+      'Rain.',
+    ].join('\n');
+
+    it('should list scenes with offsets and counts', () => {
+      const breakdown = SceneBreakdownService.analyze(buildScript(content));
+
+      expect(breakdown.scenes).toHaveLength(2);
+      expect(breakdown.scenes[0]).toMatchObject({
+        index: 1,
+        heading: 'INT. KITCHEN - DAY',
+        locationType: 'INT',
+        location: 'KITCHEN',
+        timeOfDay: 'DAY',
+        start: content.indexOf('INT. KITCHEN'),
+        end: content.indexOf('EXT. GARDEN'),
+      });
+      expect(breakdown.scenes[1].end).toBe(content.length);
+      expect(breakdown.locationTypeCounts).toEqual({
+        INT: 1,
+        EXT: 1,
+        'INT/EXT': 0,
+      });
+      expect(breakdown.timeOfDayCounts).toEqual({ DAY: 1, NIGHT: 1 });
+    });
+
+    it('should give every scene at least one eighth', () => {
+      const breakdown = SceneBreakdownService.analyze(buildScript(content));
+
+      expect(breakdown.scenes.map(scene => scene.eighths)).toEqual([1, 1]);
+      expect(breakdown.totalEighths).toBe(2);
+    });
+
+    it('should scale lengths to a known page count', () => {
+      const longScene = Array(30).fill('Action line.').join('\n');
+      const script = buildScript(
+        `INT. A - DAY\n${longScene}\nINT. B - DAY\n${longScene}`
+      );
+      script.metadata.pageCount = 2;
+
+      const breakdown = SceneBreakdownService.analyze(script);
+
+      expect(breakdown.scenes.map(scene => scene.eighths)).toEqual([8, 8]);
+      expect(breakdown.totalEighths).toBe(16);
+    });
+
+    it('should use processor elements when present', () => {
+      const script = buildScript('Opening\nSomewhere dark', {
+        elements: [
+          { type: 'action', text: 'Opening', start: 0, end: 7 },
+          {
+            type: 'scene_heading',
+            text: 'Somewhere dark',
+            start: 8,
+            end: 22,
+          },
+        ],
+      });
+
+      const breakdown = SceneBreakdownService.analyze(script);
+
+      expect(breakdown.scenes).toHaveLength(1);
+      expect(breakdown.scenes[0]).toMatchObject({
+        heading: 'Somewhere dark',
+        timeOfDay: 'UNKNOWN',
+      });
+    });
+
+    it('should report the printed page each scene starts on', () => {
+      const script = buildScript(content, {
+        pages: [
+          { pageNumber: 1, label: '1', start: 0, end: 35 },
+          { pageNumber: 2, start: 37, end: content.length },
+        ],
+      });
+
+      const breakdown = SceneBreakdownService.analyze(script);
+
+      expect(breakdown.scenes.map(scene => scene.page)).toEqual(['1', '2']);
+    });
+
+    it('should return an empty breakdown without sluglines', () => {
+      const breakdown = SceneBreakdownService.analyze(
+        buildScript('Just some prose.')
+      );
+
+      expect(breakdown.scenes).toEqual([]);
+      expect(breakdown.totalEighths).toBe(0);
+    });
+  });
+
+  describe('formatEighths', () => {
+    it('should format whole pages and fractions', () => {
+      expect(SceneBreakdownService.formatEighths(3)).toBe('3/8');
+      expect(SceneBreakdownService.formatEighths(8)).toBe('1');
+      expect(SceneBreakdownService.formatEighths(11)).toBe('1 3/8');
+    });
+  });
+});
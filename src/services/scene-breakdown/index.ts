@@ -0,0 +1,5 @@
+export { SceneBreakdownService } from './scene-breakdown-service';
+export type {
+  SceneBreakdownOptions,
+  Slugline,
+} from './scene-breakdown-service';
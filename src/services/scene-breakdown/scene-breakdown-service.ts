@@ -0,0 +1,225 @@
+/**
+ * Scene breakdown extraction from parsed scripts
+ * Requirements: 2.1, 2.2
+ */
+
+import { ScreenplayElementDetector } from '../file-processing/screenplay-elements';
+import { PdfPageExtractor } from '../file-processing/pdf-pages';
+import type { ParsedScript } from '../../types/file-processing';
+import type {
+  Scene,
+  SceneBreakdown,
+  SceneLocationType,
+  SceneTimeOfDay,
+} from '../../types/scene';
+
+export interface SceneBreakdownOptions {
+  /**
+   * Known page count of the script. When provided, scene lengths are scaled
+   * so that they add up to the real page count.
+   */
+  pageCount?: number;
+}
+
+export interface Slugline {
+  sceneNumber?: string;
+  locationType: SceneLocationType;
+  location: string;
+  timeOfDay: SceneTimeOfDay;
+}
+
+const SCENE_NUMBER_PREFIX = /^(\d+[A-Z]?)\.?\s+/i;
+const SCENE_NUMBER_SUFFIX = /\s+#?(\d+[A-Z]?)#?$/i;
+const LOCATION_PREFIX =
+  /^(INT\.?\s*\/\s*EXT|EXT\.?\s*\/\s*INT|I\/E|INT|EXT|EST)\b\.?\s*/i;
+const TIME_SEPARATOR = /\s+[-–—]+\s*|\s*[-–—]+\s+/;
+
+// Standard screenplay layout: about 56 lines of 60 characters per page
+const LINES_PER_PAGE = 56;
+const CHARACTERS_PER_LINE = 60;
+
+const TIME_OF_DAY_ALIASES: Array<[RegExp, SceneTimeOfDay]> = [
+  [/^CONT(INUOUS|'?D)?\.?$/, 'CONTINUOUS'],
+  [/^(MOMENTS |A LITTLE |MUCH )?LATER$/, 'LATER'],
+  [/^SAME( TIME)?$/, 'SAME'],
+  [/^(DAWN|SUNRISE|FIRST LIGHT)$/, 'DAWN'],
+  [/^(DUSK|SUNSET|TWILIGHT|MAGIC HOUR)$/, 'DUSK'],
+  [/^(EARLY |LATE )?MORNING$/, 'MORNING'],
+  [/^(EARLY |LATE )?AFTERNOON$/, 'AFTERNOON'],
+  [/^(EARLY |LATE )?EVENING$/, 'EVENING'],
+  [/^(LATE |THAT |MID)?NIGHT$/, 'NIGHT'],
+  [/^(DAY|DAYTIME|NOON|MIDDAY)$/, 'DAY'],
+];
+
+export class SceneBreakdownService {
+  /**
+   * Build a scene list with eighths-of-a-page lengths from a parsed script
+   */
+  static analyze(
+    script: ParsedScript,
+    options: SceneBreakdownOptions = {}
+  ): SceneBreakdown {
+    const { content } = script;
+    const elements =
+      script.elements ?? ScreenplayElementDetector.detect(content);
+    const pageCount = options.pageCount ?? script.metadata.pageCount;
+
+    const headings = elements.filter(
+      element => element.type === 'scene_heading'
+    );
+
+    const drafts = headings.map((heading, i) => {
+      const end =
+        i + 1 < headings.length ? headings[i + 1].start : content.length;
+      return {
+        heading,
+        end,
+        lines: this.estimateLines(content.slice(heading.start, end)),
+      };
+    });
+
+    const totalLines = drafts.reduce((sum, draft) => sum + draft.lines, 0);
+    const locationTypeCounts: Record<SceneLocationType, number> = {
+      INT: 0,
+      EXT: 0,
+      'INT/EXT': 0,
+    };
+    const timeOfDayCounts: Partial<Record<SceneTimeOfDay, number>> = {};
+
+    const scenes: Scene[] = drafts.map((draft, i) => {
+      const slugline = this.parseSlugline(draft.heading.text);
+      const eighths = this.toEighths(draft.lines, totalLines, pageCount);
+      const page = script.pages
+        ? PdfPageExtractor.findPage(script.pages, draft.heading.start)
+        : undefined;
+
+      locationTypeCounts[slugline.locationType]++;
+      timeOfDayCounts[slugline.timeOfDay] =
+        (timeOfDayCounts[slugline.timeOfDay] || 0) + 1;
+
+      return {
+        index: i + 1,
+        sceneNumber: slugline.sceneNumber,
+        heading: draft.heading.text,
+        locationType: slugline.locationType,
+        location: slugline.location,
+        timeOfDay: slugline.timeOfDay,
+        eighths,
+        page: page ? PdfPageExtractor.getPageLabel(page) : undefined,
+        start: draft.heading.start,
+        end: draft.end,
+      };
+    });
+
+    return {
+      scenes,
+      totalEighths: scenes.reduce((sum, scene) => sum + scene.eighths, 0),
+      locationTypeCounts,
+      timeOfDayCounts,
+    };
+  }
+
+  /**
+   * Split a slugline such as "12 INT. DINER - KITCHEN - NIGHT 12" into its
+   * location type, location and time of day
+   */
+  static parseSlugline(heading: string): Slugline {
+    let text = heading.trim().replace(/\s+/g, ' ');
+    let sceneNumber: string | undefined;
+
+    const numberMatch = text.match(SCENE_NUMBER_PREFIX);
+    if (numberMatch) {
+      sceneNumber = numberMatch[1].toUpperCase();
+      text = text.slice(numberMatch[0].length);
+    }
+
+    const suffixMatch = text.match(SCENE_NUMBER_SUFFIX);
+    if (suffixMatch && (!sceneNumber || suffixMatch[1] === sceneNumber)) {
+      sceneNumber = sceneNumber || suffixMatch[1].toUpperCase();
+      text = text.slice(0, -suffixMatch[0].length);
+    }
+
+    let locationType: SceneLocationType = 'INT';
+    const prefixMatch = text.match(LOCATION_PREFIX);
+    if (prefixMatch) {
+      locationType = this.normalizeLocationType(prefixMatch[1]);
+      text = text.slice(prefixMatch[0].length);
+    }
+
+    // The time of day is the last dash-separated part, when recognized
+    const parts = text.split(TIME_SEPARATOR).filter(part => part.length > 0);
+    let timeOfDay: SceneTimeOfDay = 'UNKNOWN';
+    if (parts.length > 1) {
+      const candidate = this.normalizeTimeOfDay(parts[parts.length - 1]);
+      if (candidate !== 'UNKNOWN') {
+        timeOfDay = candidate;
+        parts.pop();
+      }
+    }
+
+    return {
+      sceneNumber,
+      locationType,
+      location: parts.join(' - ').trim(),
+      timeOfDay,
+    };
+  }
+
+  /**
+   * Format a length in eighths the way production reports do (e.g. "1 3/8")
+   */
+  static formatEighths(eighths: number): string {
+    const pages = Math.floor(eighths / 8);
+    const remainder = eighths % 8;
+
+    if (remainder === 0) return `${pages}`;
+    if (pages === 0) return `${remainder}/8`;
+    return `${pages} ${remainder}/8`;
+  }
+
+  private static normalizeLocationType(prefix: string): SceneLocationType {
+    const normalized = prefix.toUpperCase().replace(/[.\s]/g, '');
+    if (normalized.includes('/')) return 'INT/EXT';
+    if (normalized === 'EXT' || normalized === 'EST') return 'EXT';
+    return 'INT';
+  }
+
+  private static normalizeTimeOfDay(text: string): SceneTimeOfDay {
+    const normalized = text
+      .toUpperCase()
+      .replace(/[()]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const alias = TIME_OF_DAY_ALIASES.find(([pattern]) =>
+      pattern.test(normalized)
+    );
+    return alias ? alias[1] : 'UNKNOWN';
+  }
+
+  private static estimateLines(sceneText: string): number {
+    return sceneText
+      .trimEnd()
+      .split('\n')
+      .reduce(
+        (sum, line) =>
+          sum +
+          Math.max(1, Math.ceil(line.trim().length / CHARACTERS_PER_LINE)),
+        0
+      );
+  }
+
+  private static toEighths(
+    lines: number,
+    totalLines: number,
+    pageCount: number | undefined
+  ): number {
+    const eighths =
+      pageCount && pageCount > 0 && totalLines > 0
+        ? (lines / totalLines) * pageCount * 8
+        : (lines / LINES_PER_PAGE) * 8;
+
+    // Every scene counts for at least one eighth
+    return Math.max(1, Math.round(eighths));
+  }
+}
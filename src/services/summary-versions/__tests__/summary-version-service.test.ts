@@ -0,0 +1,165 @@
+/**
+ * Unit tests for summary version history
+ * Requirements: 3.1, 4.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SummaryVersionService } from '../summary-version-service';
+import type { DatabaseSummary } from '../../../database/types';
+
+const row = (overrides: Partial<DatabaseSummary>): DatabaseSummary => ({
+  id: 1,
+  script_id: 7,
+  plot_overview: 'Maya searches the lighthouse.',
+  characters: JSON.stringify([
+    { name: 'MAYA', description: 'A keeper', importance: 'protagonist' },
+    { name: 'ELI', description: 'Her brother', importance: 'supporting' },
+  ]),
+  themes: JSON.stringify(['Grief', 'Family']),
+  production_notes: JSON.stringify([
+    { category: 'location', content: 'Coastal exteriors', priority: 'high' },
+  ]),
+  genre: 'Drama',
+  model_used: 'llama3.1:8b',
+  generation_options: JSON.stringify({
+    length: 'detailed',
+    focusAreas: ['plot', 'characters'],
+  }),
+  version: 1,
+  is_pinned: 0,
+  created_at: '2026-03-01 10:30:00',
+  ...overrides,
+});
+
+describe('SummaryVersionService', () => {
+  describe('fromRow', () => {
+    it('should parse a stored summary', () => {
+      const version = SummaryVersionService.fromRow(row({ is_pinned: 1 }));
+
+      expect(version).toMatchObject({
+        id: 1,
+        scriptId: 7,
+        version: 1,
+        pinned: true,
+        themes: ['Grief', 'Family'],
+        modelUsed: 'llama3.1:8b',
+        generationOptions: { length: 'detailed' },
+      });
+      expect(version.mainCharacters[0].name).toBe('MAYA');
+      expect(version.createdAt.toISOString()).toBe('2026-03-01T10:30:00.000Z');
+    });
+
+    it('should read summaries saved before versions had options', () => {
+      const version = SummaryVersionService.fromRow(
+        row({ generation_options: null, model_used: null, characters: null })
+      );
+
+      expect(version.generationOptions).toBeUndefined();
+      expect(version.modelUsed).toBe('');
+      expect(version.mainCharacters).toEqual([]);
+    });
+  });
+
+  describe('getOfficial', () => {
+    it('should prefer the pinned version over the latest', () => {
+      const first = SummaryVersionService.fromRow(row({ id: 1, version: 1 }));
+      const second = SummaryVersionService.fromRow(row({ id: 2, version: 2 }));
+
+      expect(SummaryVersionService.getOfficial([first, second])).toBe(second);
+      expect(
+        SummaryVersionService.getOfficial([{ ...first, pinned: true }, second])
+          ?.id
+      ).toBe(1);
+      expect(SummaryVersionService.getOfficial([])).toBeUndefined();
+    });
+  });
+
+  describe('diff', () => {
+    it('should compare each field item by item', () => {
+      const older = SummaryVersionService.fromRow(row({}));
+      const newer = SummaryVersionService.fromRow(
+        row({
+          id: 2,
+          version: 2,
+          characters: JSON.stringify([
+            {
+              name: 'MAYA',
+              description: 'A keeper',
+              importance: 'protagonist',
+            },
+            { name: 'ELI', description: 'Her twin', importance: 'supporting' },
+          ]),
+          themes: JSON.stringify(['Grief', 'Isolation']),
+          model_used: 'gemma3:1b',
+          generation_options: JSON.stringify({
+            length: 'brief',
+            focusAreas: ['plot', 'characters'],
+          }),
+        })
+      );
+
+      const diffs = SummaryVersionService.diff(older, newer);
+      const byField = Object.fromEntries(diffs.map(diff => [diff.field, diff]));
+
+      expect(byField.plotOverview.changed).toBe(false);
+      expect(byField.productionNotes.changed).toBe(false);
+      expect(byField.mainCharacters).toMatchObject({
+        label: 'Characters',
+        changed: true,
+        removed: ['ELI: Her brother'],
+        added: ['ELI: Her twin'],
+      });
+      expect(byField.themes).toMatchObject({
+        removed: ['Family'],
+        added: ['Isolation'],
+      });
+      expect(byField.modelUsed).toMatchObject({
+        removed: ['llama3.1:8b'],
+        added: ['gemma3:1b'],
+      });
+      expect(byField.generationOptions).toMatchObject({
+        removed: ['length: detailed'],
+        added: ['length: brief'],
+      });
+    });
+
+    it('should compare the full analysis fields', () => {
+      const older = SummaryVersionService.fromRow(
+        row({
+          estimated_budget: 'low',
+          key_scenes: JSON.stringify(['The storm', 'The rescue']),
+          marketability: null,
+        })
+      );
+      const newer = SummaryVersionService.fromRow(
+        row({
+          id: 2,
+          version: 2,
+          estimated_budget: 'medium',
+          key_scenes: JSON.stringify(['The storm']),
+          marketability: 'Strong festival appeal',
+        })
+      );
+
+      const byField = Object.fromEntries(
+        SummaryVersionService.diff(older, newer).map(diff => [diff.field, diff])
+      );
+
+      expect(older.keyScenes).toEqual(['The storm', 'The rescue']);
+      expect(byField.estimatedBudget).toMatchObject({
+        label: 'Estimated budget',
+        removed: ['low'],
+        added: ['medium'],
+      });
+      expect(byField.keyScenes).toMatchObject({
+        removed: ['The rescue'],
+        added: [],
+      });
+      expect(byField.marketability).toMatchObject({
+        removed: [],
+        added: ['Strong festival appeal'],
+      });
+      expect(byField.productionChallenges.changed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,4 @@
+export {
+  SummaryVersionService,
+  SUMMARY_VERSION_FIELD_LABELS,
+} from './summary-version-service';
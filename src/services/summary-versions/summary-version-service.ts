@@ -0,0 +1,131 @@
+/**
+ * Summary version history and field-by-field comparison of versions
+ * Requirements: 3.1, 4.1
+ */
+
+import { toScriptSummary } from '../../database/summary-mapper';
+import type { DatabaseSummary } from '../../database/types';
+import type {
+  SummaryFieldDiff,
+  SummaryVersion,
+  SummaryVersionField,
+} from '../../types/summary-version';
+
+export const SUMMARY_VERSION_FIELD_LABELS: Record<SummaryVersionField, string> =
+  {
+    plotOverview: 'Plot overview',
+    genre: 'Genre',
+    mainCharacters: 'Characters',
+    themes: 'Themes',
+    productionNotes: 'Production notes',
+    estimatedBudget: 'Estimated budget',
+    targetAudience: 'Target audience',
+    toneAndStyle: 'Tone and style',
+    keyScenes: 'Key scenes',
+    productionChallenges: 'Production challenges',
+    marketability: 'Marketability',
+    modelUsed: 'Model',
+    generationOptions: 'Generation options',
+  };
+
+export class SummaryVersionService {
+  /**
+   * Convert a stored summary to a version
+   */
+  static fromRow(row: DatabaseSummary): SummaryVersion {
+    const summary = toScriptSummary(row);
+
+    return {
+      id: row.id,
+      scriptId: row.script_id,
+      version: row.version,
+      pinned: row.is_pinned === 1,
+      plotOverview: summary.plotOverview,
+      mainCharacters: summary.mainCharacters,
+      themes: summary.themes,
+      productionNotes: summary.productionNotes,
+      genre: summary.genre,
+      estimatedBudget: summary.estimatedBudget,
+      targetAudience: summary.targetAudience,
+      toneAndStyle: summary.toneAndStyle,
+      keyScenes: summary.keyScenes,
+      productionChallenges: summary.productionChallenges,
+      marketability: summary.marketability,
+      modelUsed: summary.modelUsed,
+      generationOptions: summary.generationOptions,
+      createdAt: summary.createdAt,
+    };
+  }
+
+  /**
+   * The official version: the pinned one, or the latest when none is
+   * pinned
+   */
+  static getOfficial(versions: SummaryVersion[]): SummaryVersion | undefined {
+    return (
+      versions.find(version => version.pinned) ??
+      [...versions].sort((a, b) => b.version - a.version)[0]
+    );
+  }
+
+  /**
+   * Compare every field of two versions. List fields are compared item by
+   * item, so a changed character shows as the old entry removed and the
+   * new one added.
+   */
+  static diff(
+    older: SummaryVersion,
+    newer: SummaryVersion
+  ): SummaryFieldDiff[] {
+    return (
+      Object.keys(SUMMARY_VERSION_FIELD_LABELS) as SummaryVersionField[]
+    ).map(field => {
+      const before = this.getItems(older, field);
+      const after = this.getItems(newer, field);
+      const removed = before.filter(item => !after.includes(item));
+      const added = after.filter(item => !before.includes(item));
+
+      return {
+        field,
+        label: SUMMARY_VERSION_FIELD_LABELS[field],
+        changed: removed.length > 0 || added.length > 0,
+        removed,
+        added,
+      };
+    });
+  }
+
+  private static getItems(
+    version: SummaryVersion,
+    field: SummaryVersionField
+  ): string[] {
+    switch (field) {
+      case 'mainCharacters':
+        return version.mainCharacters.map(character =>
+          character.description
+            ? `${character.name}: ${character.description}`
+            : character.name
+        );
+      case 'themes':
+        return version.themes;
+      case 'keyScenes':
+      case 'productionChallenges':
+        return version[field] ?? [];
+      case 'productionNotes':
+        return version.productionNotes.map(
+          note => `${note.category}: ${note.content}`
+        );
+      case 'generationOptions':
+        return Object.entries(version.generationOptions ?? {})
+          .filter(([, value]) => value !== undefined)
+          .map(
+            ([key, value]) =>
+              `${key}: ${Array.isArray(value) ? value.join(', ') : value}`
+          );
+      default: {
+        const text = version[field]?.trim();
+        return text ? [text] : [];
+      }
+    }
+  }
+}
@@ -200,6 +200,8 @@ describe('Type Integration Tests', () => {
   it('should work with app settings and validation', () => {
     const appSettings: AppSettings = {
       llm: {
+        provider: 'ollama',
+        endpoint: 'http://localhost:11434',
         selectedModel: 'llama2-7b',
         defaultSummaryLength: 'standard',
         defaultFocusAreas: ['plot', 'characters', 'themes'],
@@ -242,6 +244,8 @@ describe('Type Integration Tests', () => {
         processingTimeout: 60000,
         createFileBackups: false,
         backupRetentionDays: 30,
+        watchedFolders: [],
+        autoSummarizeImports: false,
       },
       data: {
         autoSave: true,
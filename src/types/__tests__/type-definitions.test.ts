@@ -358,6 +358,8 @@ describe('Type Definitions', () => {
     it('should allow valid AppSettings objects', () => {
       const settings: AppSettings = {
         llm: {
+          provider: 'ollama',
+          endpoint: 'http://localhost:11434',
           selectedModel: 'llama2-7b',
           defaultSummaryLength: 'standard',
           defaultFocusAreas: ['plot', 'characters'],
@@ -400,6 +402,8 @@ describe('Type Definitions', () => {
           processingTimeout: 60000,
           createFileBackups: false,
           backupRetentionDays: 30,
+          watchedFolders: [],
+          autoSummarizeImports: false,
         },
         data: {
           autoSave: true,
@@ -6,6 +6,7 @@ import {
   isProductionCategory,
   isPriority,
   isBudgetCategory,
+  isBudgetImpact,
   isSummaryLength,
   isFocusArea,
   isTheme,
@@ -14,6 +15,8 @@ import {
   isSortDirection,
   validateScript,
   validateCharacter,
+  validateProductionNote,
+  validateSummaryContent,
   validateSummaryOptions,
   isValidEmail,
   isValidUrl,
@@ -31,6 +34,8 @@ describe('Type Guards', () => {
       expect(isFileType('pdf')).toBe(true);
       expect(isFileType('docx')).toBe(true);
       expect(isFileType('txt')).toBe(true);
+      expect(isFileType('fdx')).toBe(true);
+      expect(isFileType('fountain')).toBe(true);
     });
 
     it('should return false for invalid file types', () => {
@@ -259,6 +264,125 @@ describe('Character Validation', () => {
   });
 });
 
+describe('Summary Content Validation', () => {
+  const validContent = {
+    plotOverview: 'Sarah exposes a conspiracy.',
+    mainCharacters: [
+      {
+        name: 'Sarah',
+        description: 'A journalist',
+        importance: 'protagonist',
+        relationships: [],
+      },
+    ],
+    themes: ['Truth vs. power'],
+    productionNotes: [
+      {
+        category: 'location',
+        content: 'Night exteriors downtown',
+        priority: 'high',
+        budgetImpact: 'moderate',
+      },
+    ],
+    genre: 'Thriller',
+    estimatedBudget: 'low',
+    keyScenes: ['The parking garage meeting'],
+  };
+
+  it('should check budget impact values', () => {
+    expect(isBudgetImpact('major')).toBe(true);
+    expect(isBudgetImpact('huge')).toBe(false);
+  });
+
+  describe('validateProductionNote', () => {
+    it('should validate a correct production note', () => {
+      const result = validateProductionNote(validContent.productionNotes[0]);
+      expect(result.isValid).toBe(true);
+      expect(result.data).toEqual(validContent.productionNotes[0]);
+    });
+
+    it('should validate category, priority and requirements', () => {
+      const result = validateProductionNote({
+        category: 'catering',
+        content: 'Lunch for 40',
+        priority: 'urgent',
+        requirements: ['Tables', 2],
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(e => e.field)).toEqual([
+        'category',
+        'priority',
+        'requirements[1]',
+      ]);
+    });
+  });
+
+  describe('validateSummaryContent', () => {
+    it('should validate correct summary content', () => {
+      const result = validateSummaryContent(validContent);
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.data).toEqual(validContent);
+    });
+
+    it('should reject non-object input', () => {
+      const result = validateSummaryContent(['not', 'a', 'summary']);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].code).toBe('INVALID_TYPE');
+    });
+
+    it('should report nested errors with their path', () => {
+      const result = validateSummaryContent({
+        ...validContent,
+        mainCharacters: [
+          validContent.mainCharacters[0],
+          { name: 'Mike', importance: 'hero', relationships: [] },
+        ],
+        productionNotes: ['Night shoots'],
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(e => e.field)).toEqual([
+        'mainCharacters[1].description',
+        'mainCharacters[1].importance',
+        'productionNotes[0]',
+      ]);
+    });
+
+    it('should require the core fields', () => {
+      const result = validateSummaryContent({ plotOverview: 'Sarah' });
+      expect(result.errors.map(e => e.field)).toEqual([
+        'mainCharacters',
+        'themes',
+        'productionNotes',
+        'genre',
+      ]);
+    });
+
+    it('should validate optional fields when present', () => {
+      const result = validateSummaryContent({
+        ...validContent,
+        estimatedBudget: 'enormous',
+        toneAndStyle: 4,
+        productionChallenges: 'Night shoots',
+      });
+      expect(result.errors.map(e => e.field)).toEqual([
+        'estimatedBudget',
+        'toneAndStyle',
+        'productionChallenges',
+      ]);
+    });
+
+    it('should warn when no characters were identified', () => {
+      const result = validateSummaryContent({
+        ...validContent,
+        mainCharacters: [],
+      });
+      expect(result.isValid).toBe(true);
+      expect(result.warnings[0].code).toBe('EMPTY_LIST');
+    });
+  });
+});
+
 describe('Summary Options Validation', () => {
   const validOptions: SummaryOptions = {
     length: 'standard',
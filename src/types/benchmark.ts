@@ -0,0 +1,78 @@
+/**
+ * Model benchmark data models
+ * Requirements: 7.1, 7.4
+ */
+
+export interface BenchmarkSample {
+  /** Unique identifier for the sample */
+  id: string;
+  /** Title of the sample script */
+  title: string;
+  /** Script text the model summarizes */
+  content: string;
+  /** What a correct summary of the sample contains */
+  reference: BenchmarkReference;
+}
+
+export interface BenchmarkReference {
+  /** Names of the main characters */
+  characters: string[];
+  /** Genre of the script */
+  genre: string;
+  /** Central themes of the script */
+  themes: string[];
+}
+
+/** Share of the reference found in a summary, each from 0 to 1 */
+export interface BenchmarkAccuracy {
+  characters: number;
+  genre: number;
+  themes: number;
+  /** Average of the three */
+  overall: number;
+}
+
+export interface BenchmarkSampleResult {
+  /** Sample the model summarized */
+  sampleId: string;
+  /** Generated tokens per second, after the first token */
+  tokensPerSecond: number;
+  /** Time from sending the prompt to receiving the first token */
+  timeToFirstTokenMs: number;
+  /** Time to generate the whole summary */
+  durationMs: number;
+  /** Memory the model used, for backends that report it */
+  memoryBytes?: number;
+  /** Extraction accuracy; all zero when the summary could not be read */
+  accuracy: BenchmarkAccuracy;
+  /** Why the summary could not be generated or read */
+  error?: string;
+}
+
+export interface ModelBenchmarkResult {
+  /** Model that was benchmarked */
+  modelId: string;
+  /** Averages over the samples */
+  tokensPerSecond: number;
+  timeToFirstTokenMs: number;
+  durationMs: number;
+  /** Largest memory use seen, for backends that report it */
+  memoryBytes?: number;
+  accuracy: BenchmarkAccuracy;
+  /** Result of each sample */
+  samples: BenchmarkSampleResult[];
+  /** When the benchmark was run */
+  runAt: Date;
+}
+
+export interface BenchmarkProgress {
+  /** Model being benchmarked */
+  modelId: string;
+  /** Sample being summarized */
+  sampleId: string;
+  /** Zero-based index of the sample */
+  sampleIndex: number;
+  sampleCount: number;
+}
+
+export type BenchmarkProgressCallback = (progress: BenchmarkProgress) => void;
@@ -0,0 +1,41 @@
+/**
+ * Character dialogue statistics data models
+ * Requirements: 2.1, 2.2
+ */
+
+export interface CharacterAppearance {
+  /** Scene the appearance falls in (1-based), or null before the first slugline */
+  sceneIndex: number | null;
+  /** Offset of the appearance in the script content */
+  offset: number;
+}
+
+export interface CharacterStats {
+  /** Character name as used in dialogue cues, without extensions */
+  name: string;
+  /** Number of lines of dialogue spoken, not counting parentheticals */
+  dialogueLines: number;
+  /** Number of words spoken across all speeches */
+  dialogueWords: number;
+  /** Number of scenes the character speaks or is mentioned in */
+  sceneCount: number;
+  /** Scene indexes (1-based) the character is present in, in order */
+  scenes: number[];
+  /** First cue or mention of the character */
+  firstAppearance: CharacterAppearance;
+  /** Last cue or mention of the character */
+  lastAppearance: CharacterAppearance;
+  /** Share of all dialogue words spoken by the character (0-1) */
+  dialogueShare: number;
+}
+
+export interface CharacterReport {
+  /** Speaking characters, most dialogue lines first */
+  characters: CharacterStats[];
+  /** Total number of dialogue lines in the script */
+  totalDialogueLines: number;
+  /** Total number of dialogue words in the script */
+  totalDialogueWords: number;
+  /** Number of scenes detected in the script */
+  sceneCount: number;
+}
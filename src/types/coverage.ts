@@ -0,0 +1,53 @@
+/**
+ * Script coverage report data models
+ * Requirements: 3.1, 4.1
+ */
+
+import { SummaryOptions } from './llm-service';
+
+export interface CoverageReport {
+  /** Unique identifier for the report */
+  id: string;
+  /** Reference to the script the report covers */
+  scriptId: string;
+  /** One or two sentence pitch of the story */
+  logline: string;
+  /** Synopsis of the story from beginning to end */
+  synopsis: string;
+  /** The reader's assessment of the script's strengths and weaknesses */
+  comments: string;
+  /** Rating for each part of the script */
+  ratings: Record<CoverageCategory, CoverageRating>;
+  /** The reader's recommendation */
+  verdict: CoverageVerdict;
+  /** Identified genre of the script */
+  genre?: string;
+  /** Comparable titles for the script */
+  comparables?: string[];
+  /** LLM model used for generation */
+  modelUsed: string;
+  /** When the report was generated */
+  createdAt: Date;
+}
+
+/** Fields of a coverage report written by the model */
+export type CoverageContent = Omit<
+  CoverageReport,
+  'id' | 'scriptId' | 'modelUsed' | 'createdAt'
+>;
+
+export type CoverageVerdict = 'pass' | 'consider' | 'recommend';
+
+export type CoverageRating = 'excellent' | 'good' | 'fair' | 'poor';
+
+export type CoverageCategory =
+  'premise' | 'structure' | 'characters' | 'dialogue' | 'marketability';
+
+export type CoverageOptions = Pick<
+  SummaryOptions,
+  | 'targetAudience'
+  | 'customInstructions'
+  | 'temperature'
+  | 'maxTokens'
+  | 'contextLength'
+>;
@@ -0,0 +1,28 @@
+/**
+ * Database diagnostics data models
+ * Requirements: 6.1, 6.2
+ */
+
+export interface AppliedMigration {
+  /** Version from the migration file name, e.g. "003" */
+  version: string;
+  /** When the migration was applied */
+  appliedAt: Date;
+}
+
+export interface PendingMigration {
+  version: string;
+  /** Description from the migration file name */
+  description: string;
+}
+
+export interface DatabaseDiagnostics {
+  /** Location of the database file */
+  databasePath: string;
+  /** Migrations applied to the database, oldest first */
+  appliedMigrations: AppliedMigration[];
+  /** Migrations shipped with the app but not yet applied */
+  pendingMigrations: PendingMigration[];
+  /** Backups taken before migrating, newest first */
+  backups: string[];
+}
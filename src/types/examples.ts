@@ -201,6 +201,8 @@ export const createExampleSummary = (scriptId: string): ScriptSummary => {
 export const createDefaultAppSettings = (): AppSettings => {
   return {
     llm: {
+      provider: 'ollama',
+      endpoint: 'http://localhost:11434',
       selectedModel: 'llama2-7b',
       defaultSummaryLength: 'standard',
       defaultFocusAreas: ['plot', 'characters', 'themes'],
@@ -243,6 +245,8 @@ export const createDefaultAppSettings = (): AppSettings => {
       processingTimeout: 60000, // 1 minute
       createFileBackups: false,
       backupRetentionDays: 30,
+      watchedFolders: [],
+      autoSummarizeImports: false,
     },
     data: {
       autoSave: true,
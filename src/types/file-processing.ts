@@ -7,7 +7,11 @@ import { FileType, ScriptMetadata } from './script';
 
 export interface FileProcessor {
   /** Parse a file and extract its content and metadata */
-  parseFile(filePath: string, fileType: FileType): Promise<ParsedScript>;
+  parseFile(
+    filePath: string,
+    fileType: FileType,
+    onProgress?: ProcessingProgressCallback
+  ): Promise<ParsedScript>;
 
   /** Validate a file before processing */
   validateFile(filePath: string): Promise<ValidationResult>;
@@ -34,6 +38,48 @@ export interface ParsedScript {
 
   /** Confidence level of the parsing (0-1) */
   confidence?: number;
+
+  /** Screenplay elements detected in the content, in document order */
+  elements?: ScreenplayElement[];
+
+  /** Page boundaries in the content, for paginated formats such as PDF */
+  pages?: ScriptPage[];
+}
+
+export interface ScriptPage {
+  /** Physical page number in the file (1-based) */
+  pageNumber: number;
+
+  /** Page number printed on the page, if any (e.g. "12A") */
+  label?: string;
+
+  /** Offset of the first character of the page in ParsedScript.content */
+  start: number;
+
+  /** Offset just past the last character of the page in ParsedScript.content */
+  end: number;
+}
+
+export type ScreenplayElementType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'dialogue'
+  | 'parenthetical'
+  | 'transition';
+
+export interface ScreenplayElement {
+  /** Element type */
+  type: ScreenplayElementType;
+
+  /** Element text, trimmed of surrounding whitespace */
+  text: string;
+
+  /** Offset of the first character in ParsedScript.content */
+  start: number;
+
+  /** Offset just past the last character in ParsedScript.content */
+  end: number;
 }
 
 export interface ValidationResult {
@@ -96,7 +142,10 @@ export type ValidationWarningCode =
   | 'UNUSUAL_FORMAT'
   | 'LOW_TEXT_CONTENT'
   | 'POTENTIAL_ENCODING_ISSUE'
-  | 'MISSING_METADATA';
+  | 'MISSING_METADATA'
+  | 'OCR_USED'
+  | 'OCR_NO_PAGE_IMAGES'
+  | 'OCR_PAGES_SKIPPED';
 
 export interface FileProcessingOptions {
   /** Maximum file size to process (in bytes) */
@@ -135,8 +184,12 @@ export type ProcessingStep =
   | 'parsing'
   | 'extracting_metadata'
   | 'validating_content'
+  | 'recognizing_text'
   | 'complete'
-  | 'error';
+  | 'error'
+  | 'cancelled';
+
+export type ProcessingProgressCallback = (progress: ProcessingProgress) => void;
 
 export interface FileProcessorFactory {
   /** Create a processor for the specified file type */
@@ -0,0 +1,62 @@
+/**
+ * Watched inbox folder import types
+ * Requirements: 2.1, 6.1
+ */
+
+import { FileProcessingSettings } from './settings';
+
+/** Settings used by the inbox folder watcher */
+export type InboxWatchSettings = Pick<
+  FileProcessingSettings,
+  'watchedFolders' | 'autoSummarizeImports'
+>;
+
+export type InboxImportStatus = 'imported' | 'duplicate' | 'failed';
+
+export interface InboxImportItem {
+  /** Path of the file found in a watched folder */
+  filePath: string;
+
+  /** Outcome of the import */
+  status: InboxImportStatus;
+
+  /** ID of the new or already existing script */
+  scriptId?: number;
+
+  /** Script title */
+  title?: string;
+
+  /** Extracted script content, for imported scripts */
+  content?: string;
+
+  /** Why the import failed */
+  error?: string;
+}
+
+export interface InboxImportReport {
+  /** Every file handled since the previous report */
+  items: InboxImportItem[];
+
+  /** Number of new scripts saved */
+  importedCount: number;
+
+  /** Number of files whose content was already in the library */
+  duplicateCount: number;
+
+  /** Number of files that could not be imported */
+  failedCount: number;
+}
+
+export interface InboxStatus {
+  /** Folders currently being watched */
+  watchedFolders: string[];
+
+  /** Whether imported scripts are queued for summary generation */
+  autoSummarizeImports: boolean;
+
+  /** Number of files waiting to be imported */
+  pendingFiles: number;
+
+  /** Folders that could not be watched, with the reason */
+  errors: { folder: string; message: string }[];
+}
@@ -3,7 +3,15 @@
 
 export * from './script';
 export * from './summary';
+export * from './summary-version';
+export * from './coverage';
 export * from './file-processing';
+export * from './scene';
+export * from './character-stats';
+export * from './inbox';
+export * from './jobs';
+export * from './diagnostics';
 export * from './llm-service';
+export * from './benchmark';
 export * from './settings';
 export * from './validation';
@@ -0,0 +1,80 @@
+/**
+ * Background job queue types
+ * Requirements: 2.1, 3.2
+ */
+
+import type { PerformanceSettings } from './settings';
+import type { SummaryOptions } from './llm-service';
+
+/** Settings used by the job queue */
+export type JobQueueSettings = Pick<
+  PerformanceSettings,
+  'maxConcurrentProcessing'
+>;
+
+/** Processing imports a script file; summarizing generates its summary */
+export type JobType = 'process' | 'summarize';
+
+export type JobStatus =
+  'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  /** Unique identifier for the job */
+  id: number;
+
+  type: JobType;
+
+  status: JobStatus;
+
+  /** Jobs with a higher priority run first */
+  priority: number;
+
+  /** Script file to process */
+  filePath?: string;
+
+  /** Script to summarize, or the script a processing job saved */
+  scriptId?: number;
+
+  /** File name or script title shown in the queue */
+  title: string;
+
+  /**
+   * Summary options; a processing job with options queues a summary of
+   * the script once it is saved
+   */
+  summaryOptions?: SummaryOptions;
+
+  /** Number of times the job has been started */
+  attempts: number;
+
+  /** Number of attempts before the job fails */
+  maxAttempts: number;
+
+  /** Why the last attempt failed */
+  error?: string;
+
+  /** When a job waiting to be retried may run again */
+  nextAttemptAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EnqueueOptions {
+  /** Summary options, to summarize each script */
+  summaryOptions?: SummaryOptions;
+
+  /** Jobs with a higher priority run first; defaults to 0 */
+  priority?: number;
+}
+
+export interface JobQueueStatus {
+  /** Whether the queue has stopped starting jobs */
+  paused: boolean;
+
+  /** Number of jobs that run at the same time */
+  concurrency: number;
+
+  /** Every job not yet cleared, oldest first */
+  jobs: Job[];
+}
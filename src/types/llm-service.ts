@@ -4,6 +4,12 @@
  */
 
 import { ScriptSummary } from './summary';
+import { CoverageOptions, CoverageReport } from './coverage';
+import {
+  BenchmarkProgressCallback,
+  BenchmarkSample,
+  ModelBenchmarkResult,
+} from './benchmark';
 
 export interface LLMService {
   /** Check if the LLM service is available and configured */
@@ -12,9 +18,35 @@ export interface LLMService {
   /** Generate a summary for the given script content */
   generateSummary(
     content: string,
-    options: SummaryOptions
+    options: SummaryOptions,
+    scriptId?: string,
+    onProgress?: GenerationProgressCallback
   ): Promise<ScriptSummary>;
 
+  /** Start generating a summary and return a handle to cancel it with */
+  startSummary(
+    content: string,
+    options: SummaryOptions,
+    scriptId?: string,
+    onProgress?: GenerationProgressCallback
+  ): SummaryOperation;
+
+  /** Generate a coverage report for the given script content */
+  generateCoverage(
+    content: string,
+    options: CoverageOptions,
+    scriptId?: string,
+    onProgress?: GenerationProgressCallback
+  ): Promise<CoverageReport>;
+
+  /** Start generating a coverage report and return a handle to cancel it with */
+  startCoverage(
+    content: string,
+    options: CoverageOptions,
+    scriptId?: string,
+    onProgress?: GenerationProgressCallback
+  ): CoverageOperation;
+
   /** List all available LLM models */
   listAvailableModels(): Promise<LLMModel[]>;
 
@@ -27,6 +59,13 @@ export interface LLMService {
   /** Test the connection and functionality of a model */
   testModel(modelId: string): Promise<ModelTestResult>;
 
+  /** Measure a model's speed and accuracy on sample scripts */
+  benchmarkModel(
+    modelId: string,
+    samples?: BenchmarkSample[],
+    onProgress?: BenchmarkProgressCallback
+  ): Promise<ModelBenchmarkResult>;
+
   /** Get service status and health information */
   getServiceStatus(): Promise<ServiceStatus>;
 
@@ -64,6 +103,56 @@ export interface SummaryOptions {
 
   /** Maximum tokens for the response */
   maxTokens?: number;
+
+  /** Context window in tokens; defaults to the model's context length */
+  contextLength?: number;
+
+  /**
+   * Run separate character, theme and production passes after the summary
+   * and use their results in place of the summary's own
+   */
+  deepAnalysis?: boolean;
+
+  /** Models for individual deep analysis passes; defaults to the active model */
+  passModels?: Partial<Record<AnalysisPass, string>>;
+
+  /** Stored summary prompt template to use; defaults to the built-in one */
+  promptTemplateId?: string;
+}
+
+/** Focused passes run in deep analysis mode */
+export type AnalysisPass = 'characters' | 'themes' | 'production';
+
+/** Deep analysis settings applied to every summary */
+export type AnalysisSettings = Required<
+  Pick<SummaryOptions, 'deepAnalysis' | 'passModels'>
+>;
+
+/** LLM backends the app can talk to */
+export type LLMProviderId = 'ollama' | 'openai-compatible';
+
+export interface LLMProviderInfo {
+  id: LLMProviderId;
+
+  /** Display name */
+  name: string;
+
+  /** Servers the provider works with */
+  description: string;
+
+  /** Endpoint used when none is configured */
+  defaultEndpoint: string;
+}
+
+export interface LLMProviderSettings {
+  /** LLM backend to use */
+  provider: LLMProviderId;
+
+  /** Base URL of the backend's server */
+  endpoint: string;
+
+  /** API key, for servers started with one */
+  apiKey?: string;
 }
 
 export interface LLMModel {
@@ -96,8 +185,84 @@ export interface LLMModel {
 
   /** Resource requirements */
   requirements: ModelRequirements;
+
+  /** Details reported by the backend, for backends that report them */
+  details?: ModelDetails;
+}
+
+/** Model details reported by the backend rather than guessed from the name */
+export interface ModelDetails {
+  /** Model architecture family, such as llama or gemma */
+  family?: string;
+
+  /** Weights file format, such as gguf */
+  format?: string;
+
+  /** Parameter count as reported, such as 8.0B */
+  parameterSize?: string;
+
+  /** Exact number of parameters */
+  parameterCount?: number;
+
+  /** Quantization level, such as Q4_K_M */
+  quantization?: string;
+
+  /** Context window the model was trained with */
+  contextLength?: number;
+
+  /** Size of the model on disk in bytes */
+  sizeBytes?: number;
+
+  /** Default generation parameters set in the model's Modelfile */
+  parameters?: Record<string, string>;
+}
+
+/** Installs and removes models, for backends that manage their own models */
+export interface ModelManager {
+  /** Download a model, reporting its progress */
+  pullModel(
+    modelName: string,
+    options?: ModelPullOptions,
+    onProgress?: ModelPullProgressCallback
+  ): Promise<void>;
+
+  /** Stop downloading a model */
+  cancelPull(modelName: string): Promise<void>;
+
+  /** Remove a downloaded model */
+  deleteModel(modelName: string): Promise<void>;
+
+  /** Read the details of a downloaded model */
+  getModelDetails(modelName: string): Promise<ModelDetails>;
+}
+
+export interface ModelPullOptions {
+  /**
+   * Registry or mirror to pull from, such as http://mirror.local:5000;
+   * defaults to the public Ollama registry
+   */
+  registry?: string;
 }
 
+export interface ModelPullProgress {
+  /** Model being pulled, as requested */
+  modelName: string;
+
+  /** Current step reported by the backend, such as pulling manifest */
+  status: string;
+
+  /** Layer being downloaded */
+  digest?: string;
+
+  /** Bytes of the layer downloaded so far */
+  completedBytes?: number;
+
+  /** Total bytes of the layer */
+  totalBytes?: number;
+}
+
+export type ModelPullProgressCallback = (progress: ModelPullProgress) => void;
+
 export interface ModelTestResult {
   /** Whether the test was successful */
   success: boolean;
@@ -147,6 +312,18 @@ export interface ModelPerformance {
 
   /** Speed rating (1-5) */
   speedRating: number;
+
+  /** Generated tokens per second, when measured by a benchmark */
+  tokensPerSecond?: number;
+
+  /** Time to the first token in milliseconds, when measured */
+  timeToFirstTokenMs?: number;
+
+  /** Benchmark extraction accuracy (0-1), when measured */
+  accuracy?: number;
+
+  /** When the model was benchmarked; estimates from the name have none */
+  benchmarkedAt?: Date;
 }
 
 export interface ModelRequirements {
@@ -217,6 +394,68 @@ export interface GenerationProgress {
 
   /** Whether the operation can be cancelled */
   cancellable: boolean;
+
+  /** Part being summarized when a long script is split into chunks (0-based) */
+  chunkIndex?: number;
+
+  /** Number of chunks the script was split into */
+  chunkCount?: number;
+
+  /** Script the summary is being generated for */
+  scriptId?: string;
+
+  /** Summary text streamed so far */
+  partialText?: string;
+}
+
+export type GenerationProgressCallback = (progress: GenerationProgress) => void;
+
+export interface SummaryOperation {
+  /** Identifier to pass to cancelGeneration */
+  operationId: string;
+
+  /** Resolves with the summary; rejects if generation fails or is cancelled */
+  result: Promise<ScriptSummary>;
+}
+
+export interface SummaryGenerationResult {
+  operationId: string;
+
+  /** Script the summary was generated for */
+  scriptId?: string;
+
+  /** The summary, when generation succeeded */
+  summary?: ScriptSummary;
+
+  /** Why generation failed */
+  error?: string;
+
+  /** Whether generation stopped because it was cancelled */
+  cancelled?: boolean;
+}
+
+export interface CoverageOperation {
+  /** Identifier to pass to cancelGeneration */
+  operationId: string;
+
+  /** Resolves with the report; rejects if generation fails or is cancelled */
+  result: Promise<CoverageReport>;
+}
+
+export interface CoverageGenerationResult {
+  operationId: string;
+
+  /** Script the report was generated for */
+  scriptId?: string;
+
+  /** The report, when generation succeeded */
+  report?: CoverageReport;
+
+  /** Why generation failed, or why the report could not be saved */
+  error?: string;
+
+  /** Whether generation stopped because it was cancelled */
+  cancelled?: boolean;
 }
 
 export type GenerationStage =
@@ -0,0 +1,53 @@
+/**
+ * Scene breakdown data models
+ * Requirements: 2.1, 2.2
+ */
+
+export type SceneLocationType = 'INT' | 'EXT' | 'INT/EXT';
+
+export type SceneTimeOfDay =
+  | 'DAY'
+  | 'NIGHT'
+  | 'MORNING'
+  | 'AFTERNOON'
+  | 'EVENING'
+  | 'DAWN'
+  | 'DUSK'
+  | 'CONTINUOUS'
+  | 'LATER'
+  | 'SAME'
+  | 'UNKNOWN';
+
+export interface Scene {
+  /** Position of the scene in the script (1-based) */
+  index: number;
+  /** Scene number printed on the slugline, if any (e.g. "12A") */
+  sceneNumber?: string;
+  /** Full slugline as written */
+  heading: string;
+  /** Interior, exterior or both */
+  locationType: SceneLocationType;
+  /** Location text between the prefix and the time of day */
+  location: string;
+  /** Normalized time of day */
+  timeOfDay: SceneTimeOfDay;
+  /** Scene length in eighths of a page */
+  eighths: number;
+  /** Printed page the scene starts on, when the script has page boundaries */
+  page?: string;
+  /** Offset of the slugline in the script content */
+  start: number;
+  /** Offset where the next scene (or the script) begins */
+  end: number;
+}
+
+export interface SceneBreakdown {
+  /** Scenes in script order */
+  scenes: Scene[];
+  /** Sum of all scene lengths in eighths of a page */
+  totalEighths: number;
+  /** Number of scenes per location type */
+  locationTypeCounts: Record<SceneLocationType, number>;
+  /** Number of scenes per time of day */
+  timeOfDayCounts: Partial<Record<SceneTimeOfDay, number>>;
+}
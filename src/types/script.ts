@@ -3,6 +3,8 @@
  * Requirements: 1.1, 2.1, 6.1, 6.2
  */
 
+import type { ScreenplayElement } from './file-processing';
+
 export interface Script {
   /** Unique identifier for the script */
   id: string;
@@ -64,11 +66,15 @@ export interface ScriptEvaluation {
   updatedAt: Date;
 }
 
-export type FileType = 'pdf' | 'docx' | 'txt';
+export type FileType = 'pdf' | 'docx' | 'txt' | 'fdx' | 'fountain';
 
 export type ScriptStatus = 'uploaded' | 'processing' | 'analyzed' | 'error';
 
 export interface ScriptWithSummary extends Script {
+  /** Script text when it has been loaded */
+  content?: string;
+  /** Screenplay elements found in the content by its processor */
+  elements?: ScreenplayElement[];
   /** Associated summary if available */
   summary?: ScriptSummary;
   /** User evaluation if available */
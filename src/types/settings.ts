@@ -3,7 +3,7 @@
  * Requirements: 5.1, 5.4, 7.1, 7.2, 7.3, 7.5
  */
 
-import { SummaryLength, FocusArea } from './llm-service';
+import { SummaryLength, FocusArea, LLMProviderSettings } from './llm-service';
 
 export interface AppSettings {
   /** LLM configuration settings */
@@ -31,7 +31,7 @@ export interface AppSettings {
   version: string;
 }
 
-export interface LLMSettings {
+export interface LLMSettings extends LLMProviderSettings {
   /** Currently selected LLM model ID */
   selectedModel: string;
 
@@ -131,6 +131,12 @@ export interface FileProcessingSettings {
 
   /** Backup retention period in days */
   backupRetentionDays: number;
+
+  /** Folders watched for new scripts to import automatically */
+  watchedFolders: string[];
+
+  /** Whether to generate summaries for scripts imported from watched folders */
+  autoSummarizeImports: boolean;
 }
 
 export interface DataSettings {
@@ -0,0 +1,74 @@
+/**
+ * Summary version history data models
+ * Requirements: 3.1, 4.1
+ */
+
+import type { BudgetCategory, Character, ProductionNote } from './summary';
+import type { SummaryOptions } from './llm-service';
+
+export interface SummaryVersion {
+  /** Identifier of the stored summary */
+  id: number;
+  /** Script the summary belongs to */
+  scriptId: number;
+  /** Version number, counted per script from 1 */
+  version: number;
+  /** Whether this version is the script's official summary */
+  pinned: boolean;
+  /** High-level plot overview */
+  plotOverview: string;
+  /** List of main characters with descriptions */
+  mainCharacters: Character[];
+  /** Central themes identified in the script */
+  themes: string[];
+  /** Production-related notes and considerations */
+  productionNotes: ProductionNote[];
+  /** Identified genre of the script */
+  genre: string;
+  /** Estimated budget category if determinable */
+  estimatedBudget?: BudgetCategory;
+  /** Target audience information */
+  targetAudience?: string;
+  /** Tone and style description */
+  toneAndStyle?: string;
+  /** Key scenes or moments */
+  keyScenes?: string[];
+  /** Potential challenges for production */
+  productionChallenges?: string[];
+  /** Commercial viability assessment */
+  marketability?: string;
+  /** LLM model used for generation */
+  modelUsed: string;
+  /** Summary generation options; unset for summaries saved before versions */
+  generationOptions?: SummaryOptions;
+  /** When the version was generated */
+  createdAt: Date;
+}
+
+/** Fields compared between two summary versions */
+export type SummaryVersionField =
+  | 'plotOverview'
+  | 'genre'
+  | 'mainCharacters'
+  | 'themes'
+  | 'productionNotes'
+  | 'estimatedBudget'
+  | 'targetAudience'
+  | 'toneAndStyle'
+  | 'keyScenes'
+  | 'productionChallenges'
+  | 'marketability'
+  | 'modelUsed'
+  | 'generationOptions';
+
+export interface SummaryFieldDiff {
+  field: SummaryVersionField;
+  /** Field name shown to the user */
+  label: string;
+  /** Whether the field differs between the versions */
+  changed: boolean;
+  /** Items only in the older version */
+  removed: string[];
+  /** Items only in the newer version */
+  added: string[];
+}
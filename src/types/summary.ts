@@ -32,14 +32,31 @@ export interface ScriptSummary {
   marketability?: string;
   /** LLM model used for generation */
   modelUsed: string;
-  /** Summary generation options used */
-  generationOptions: SummaryOptions;
+  /** Summary generation options used; unset on summaries saved without them */
+  generationOptions?: SummaryOptions;
+  /** Stored prompt template used; unset for the built-in template */
+  promptTemplateId?: string;
+  /** Version of the stored prompt template used */
+  promptTemplateVersion?: number;
   /** When the summary was generated */
   createdAt: Date;
   /** When the summary was last updated */
   updatedAt: Date;
 }
 
+/** Fields of a summary written by the model */
+export type SummaryContent = Omit<
+  ScriptSummary,
+  | 'id'
+  | 'scriptId'
+  | 'modelUsed'
+  | 'generationOptions'
+  | 'promptTemplateId'
+  | 'promptTemplateVersion'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
 export interface Character {
   /** Character name */
   name: string;
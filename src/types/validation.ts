@@ -18,7 +18,15 @@ import {
   ProductionCategory,
   Priority,
   BudgetCategory,
+  BudgetImpact,
+  SummaryContent,
 } from './summary';
+import {
+  CoverageCategory,
+  CoverageContent,
+  CoverageRating,
+  CoverageVerdict,
+} from './coverage';
 import {
   AppSettings,
   LLMSettings,
@@ -87,7 +95,10 @@ export interface ValidationWarning {
  * Type guard functions
  */
 export const isFileType = (value: unknown): value is FileType => {
-  return typeof value === 'string' && ['pdf', 'docx', 'txt'].includes(value);
+  return (
+    typeof value === 'string' &&
+    ['pdf', 'docx', 'txt', 'fdx', 'fountain'].includes(value)
+  );
 };
 
 export const isScriptStatus = (value: unknown): value is ScriptStatus => {
@@ -138,6 +149,27 @@ export const isBudgetCategory = (value: unknown): value is BudgetCategory => {
   );
 };
 
+export const isBudgetImpact = (value: unknown): value is BudgetImpact => {
+  return (
+    typeof value === 'string' &&
+    ['minimal', 'moderate', 'significant', 'major'].includes(value)
+  );
+};
+
+export const isCoverageVerdict = (value: unknown): value is CoverageVerdict => {
+  return (
+    typeof value === 'string' &&
+    ['pass', 'consider', 'recommend'].includes(value)
+  );
+};
+
+export const isCoverageRating = (value: unknown): value is CoverageRating => {
+  return (
+    typeof value === 'string' &&
+    ['excellent', 'good', 'fair', 'poor'].includes(value)
+  );
+};
+
 export const isSummaryLength = (value: unknown): value is SummaryLength => {
   return (
     typeof value === 'string' &&
@@ -399,6 +431,363 @@ export const validateCharacter = (
   };
 };
 
+export const validateProductionNote = (
+  data: unknown
+): ValidationResult<ProductionNote> => {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  if (!data || typeof data !== 'object') {
+    errors.push({
+      field: 'root',
+      code: 'INVALID_TYPE',
+      message: 'Production note must be an object',
+      value: data,
+      expected: 'object',
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  const note = data as Record<string, unknown>;
+
+  if (!isProductionCategory(note.category)) {
+    errors.push({
+      field: 'category',
+      code: 'INVALID_VALUE',
+      message:
+        'Production note category must be one of: budget, location, cast, technical, legal, scheduling, equipment, post-production',
+      value: note.category,
+      expected:
+        'budget | location | cast | technical | legal | scheduling | equipment | post-production',
+    });
+  }
+
+  if (!note.content || typeof note.content !== 'string') {
+    errors.push({
+      field: 'content',
+      code: 'REQUIRED_FIELD',
+      message: 'Production note content is required and must be a string',
+      value: note.content,
+      expected: 'string',
+    });
+  }
+
+  if (!isPriority(note.priority)) {
+    errors.push({
+      field: 'priority',
+      code: 'INVALID_VALUE',
+      message:
+        'Production note priority must be one of: critical, high, medium, low',
+      value: note.priority,
+      expected: 'critical | high | medium | low',
+    });
+  }
+
+  if (note.budgetImpact !== undefined && !isBudgetImpact(note.budgetImpact)) {
+    errors.push({
+      field: 'budgetImpact',
+      code: 'INVALID_VALUE',
+      message:
+        'Budget impact must be one of: minimal, moderate, significant, major',
+      value: note.budgetImpact,
+      expected: 'minimal | moderate | significant | major',
+    });
+  }
+
+  if (note.requirements !== undefined) {
+    errors.push(...validateStringArray(note.requirements, 'requirements'));
+  }
+
+  return {
+    isValid: errors.length === 0,
+    data: errors.length === 0 ? (note as unknown as ProductionNote) : undefined,
+    errors,
+    warnings,
+  };
+};
+
+/**
+ * Validate the summary fields written by a model, such as a JSON-mode
+ * response. Nested errors are reported with paths like
+ * `mainCharacters[0].importance`.
+ */
+export const validateSummaryContent = (
+  data: unknown
+): ValidationResult<SummaryContent> => {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    errors.push({
+      field: 'root',
+      code: 'INVALID_TYPE',
+      message: 'Summary must be an object',
+      value: data,
+      expected: 'object',
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  const summary = data as Record<string, unknown>;
+
+  if (!summary.plotOverview || typeof summary.plotOverview !== 'string') {
+    errors.push({
+      field: 'plotOverview',
+      code: 'REQUIRED_FIELD',
+      message: 'Plot overview is required and must be a string',
+      value: summary.plotOverview,
+      expected: 'string',
+    });
+  }
+
+  if (!Array.isArray(summary.mainCharacters)) {
+    errors.push({
+      field: 'mainCharacters',
+      code: 'INVALID_TYPE',
+      message: 'Main characters must be an array of characters',
+      value: summary.mainCharacters,
+      expected: 'Character[]',
+    });
+  } else {
+    summary.mainCharacters.forEach((character, index) => {
+      errors.push(
+        ...nestErrors(
+          validateCharacter(character).errors,
+          `mainCharacters[${index}]`
+        )
+      );
+    });
+  }
+
+  errors.push(...validateStringArray(summary.themes, 'themes'));
+
+  if (!Array.isArray(summary.productionNotes)) {
+    errors.push({
+      field: 'productionNotes',
+      code: 'INVALID_TYPE',
+      message: 'Production notes must be an array of production notes',
+      value: summary.productionNotes,
+      expected: 'ProductionNote[]',
+    });
+  } else {
+    summary.productionNotes.forEach((note, index) => {
+      errors.push(
+        ...nestErrors(
+          validateProductionNote(note).errors,
+          `productionNotes[${index}]`
+        )
+      );
+    });
+  }
+
+  if (!summary.genre || typeof summary.genre !== 'string') {
+    errors.push({
+      field: 'genre',
+      code: 'REQUIRED_FIELD',
+      message: 'Genre is required and must be a string',
+      value: summary.genre,
+      expected: 'string',
+    });
+  }
+
+  if (
+    summary.estimatedBudget !== undefined &&
+    !isBudgetCategory(summary.estimatedBudget)
+  ) {
+    errors.push({
+      field: 'estimatedBudget',
+      code: 'INVALID_VALUE',
+      message:
+        'Estimated budget must be one of: micro, low, medium, high, blockbuster',
+      value: summary.estimatedBudget,
+      expected: 'micro | low | medium | high | blockbuster',
+    });
+  }
+
+  const optionalStrings = ['targetAudience', 'toneAndStyle', 'marketability'];
+  optionalStrings.forEach(field => {
+    if (summary[field] !== undefined && typeof summary[field] !== 'string') {
+      errors.push({
+        field,
+        code: 'INVALID_TYPE',
+        message: `${field} must be a string`,
+        value: summary[field],
+        expected: 'string',
+      });
+    }
+  });
+
+  const optionalArrays = ['keyScenes', 'productionChallenges'];
+  optionalArrays.forEach(field => {
+    if (summary[field] !== undefined) {
+      errors.push(...validateStringArray(summary[field], field));
+    }
+  });
+
+  if (
+    Array.isArray(summary.mainCharacters) &&
+    summary.mainCharacters.length === 0
+  ) {
+    warnings.push({
+      field: 'mainCharacters',
+      code: 'EMPTY_LIST',
+      message: 'No main characters were identified',
+      value: summary.mainCharacters,
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    data:
+      errors.length === 0 ? (summary as unknown as SummaryContent) : undefined,
+    errors,
+    warnings,
+  };
+};
+
+const COVERAGE_CATEGORIES: CoverageCategory[] = [
+  'premise',
+  'structure',
+  'characters',
+  'dialogue',
+  'marketability',
+];
+
+export const validateCoverageContent = (
+  data: unknown
+): ValidationResult<CoverageContent> => {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    errors.push({
+      field: 'root',
+      code: 'INVALID_TYPE',
+      message: 'Coverage must be an object',
+      value: data,
+      expected: 'object',
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  const coverage = data as Record<string, unknown>;
+
+  const requiredStrings = ['logline', 'synopsis', 'comments'];
+  requiredStrings.forEach(field => {
+    if (!coverage[field] || typeof coverage[field] !== 'string') {
+      errors.push({
+        field,
+        code: 'REQUIRED_FIELD',
+        message: `${field} is required and must be a string`,
+        value: coverage[field],
+        expected: 'string',
+      });
+    }
+  });
+
+  if (
+    !coverage.ratings ||
+    typeof coverage.ratings !== 'object' ||
+    Array.isArray(coverage.ratings)
+  ) {
+    errors.push({
+      field: 'ratings',
+      code: 'REQUIRED_FIELD',
+      message: 'Ratings are required and must be an object',
+      value: coverage.ratings,
+      expected: 'object',
+    });
+  } else {
+    const ratings = coverage.ratings as Record<string, unknown>;
+    COVERAGE_CATEGORIES.forEach(category => {
+      if (!isCoverageRating(ratings[category])) {
+        errors.push({
+          field: `ratings.${category}`,
+          code: 'INVALID_VALUE',
+          message: 'Rating must be one of: excellent, good, fair, poor',
+          value: ratings[category],
+          expected: 'excellent | good | fair | poor',
+        });
+      }
+    });
+  }
+
+  if (!isCoverageVerdict(coverage.verdict)) {
+    errors.push({
+      field: 'verdict',
+      code: 'INVALID_VALUE',
+      message: 'Verdict must be one of: pass, consider, recommend',
+      value: coverage.verdict,
+      expected: 'pass | consider | recommend',
+    });
+  }
+
+  if (coverage.genre !== undefined && typeof coverage.genre !== 'string') {
+    errors.push({
+      field: 'genre',
+      code: 'INVALID_TYPE',
+      message: 'genre must be a string',
+      value: coverage.genre,
+      expected: 'string',
+    });
+  }
+
+  if (coverage.comparables !== undefined) {
+    errors.push(...validateStringArray(coverage.comparables, 'comparables'));
+  }
+
+  return {
+    isValid: errors.length === 0,
+    data:
+      errors.length === 0
+        ? (coverage as unknown as CoverageContent)
+        : undefined,
+    errors,
+    warnings,
+  };
+};
+
+const validateStringArray = (
+  value: unknown,
+  field: string
+): ValidationError[] => {
+  if (!Array.isArray(value)) {
+    return [
+      {
+        field,
+        code: 'INVALID_TYPE',
+        message: `${field} must be an array of strings`,
+        value,
+        expected: 'string[]',
+      },
+    ];
+  }
+
+  return value.flatMap((item, index) =>
+    typeof item === 'string'
+      ? []
+      : [
+          {
+            field: `${field}[${index}]`,
+            code: 'INVALID_TYPE',
+            message: `Each entry in ${field} must be a string`,
+            value: item,
+            expected: 'string',
+          },
+        ]
+  );
+};
+
+// Report errors from a nested object under its path in the parent
+const nestErrors = (
+  errors: ValidationError[],
+  path: string
+): ValidationError[] =>
+  errors.map(error => ({
+    ...error,
+    field: error.field === 'root' ? path : `${path}.${error.field}`,
+  }));
+
 export const validateSummaryOptions = (
   data: unknown
 ): ValidationResult<SummaryOptions> => {
@@ -1,10 +1,37 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Ship the database migrations next to the main bundle, where
+// MigrationManager reads them from
+const copyMigrations = (): Plugin => ({
+  name: 'copy-migrations',
+  writeBundle(options) {
+    const outDir = options.dir ?? path.dirname(options.file ?? '');
+    fs.cpSync(
+      path.resolve(__dirname, 'src/database/migrations'),
+      path.join(outDir, 'migrations'),
+      { recursive: true }
+    );
+  },
+});
+
+// Loaded from node_modules at runtime instead of bundled: native modules,
+// and the OCR engine, which starts its worker script and reads its
+// language data from its own package folders. forge.config.ts copies them
+// into the packaged app.
+export const EXTERNAL_MODULES = [
+  'better-sqlite3',
+  'tesseract.js',
+  '@tesseract.js-data/eng',
+];
 
 // https://vitejs.dev/config
 export default defineConfig({
+  plugins: [copyMigrations()],
   build: {
     rollupOptions: {
-      external: ['better-sqlite3'],
+      external: EXTERNAL_MODULES,
     },
   },
 });